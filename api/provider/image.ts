@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { HttpError } from '../../server/upload/supabase-upload-config';
+import { getClientIp } from '../../server/upload/supabase-upload-guards';
+import { parseImageRequest } from '../../server/provider/provider-proxy-config';
+import { authenticateUser, enforceGenerationRateLimit } from '../../server/provider/provider-proxy-guards';
+import { buildImageUpstream, forwardUpstream } from '../../server/provider/provider-proxy-upstream';
+
+export const config = {
+  maxDuration: 60,
+};
+
+/**
+ * Image Generation Proxy
+ *
+ * Route: POST /api/provider/image
+ * Auth: Authorization: Bearer <per-user token from PROVIDER_PROXY_TOKENS>
+ * Body: { provider: "gemini" | "openrouter", model, body }
+ *
+ * `body` is the request the browser would otherwise send to the provider
+ * (a Gemini generateContent payload or an OpenRouter chat completion). The
+ * server adds its own key and returns the provider's response unchanged.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = authenticateUser(req);
+    enforceGenerationRateLimit(user);
+
+    const request = parseImageRequest(req.body);
+    const upstream = await forwardUpstream(buildImageUpstream(request));
+
+    console.log('[Provider Proxy] image', {
+      user,
+      clientIp: getClientIp(req),
+      provider: request.provider,
+      model: request.model,
+      status: upstream.status,
+    });
+
+    return res.status(upstream.status).setHeader('Content-Type', upstream.contentType).send(upstream.text);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      console.warn('[Provider Proxy] image rejected', { status: error.status, message: error.message });
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const err = error as Error;
+    console.error('[Provider Proxy] image error:', error);
+    return res.status(500).json({ error: err?.message || 'Image proxy failed' });
+  }
+}
@@ -0,0 +1,61 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { HttpError } from '../../server/upload/supabase-upload-config';
+import { getClientIp } from '../../server/upload/supabase-upload-guards';
+import { parseOperationName, parseVideoStartRequest } from '../../server/provider/provider-proxy-config';
+import {
+  authenticateUser,
+  enforceGenerationRateLimit,
+  enforcePollRateLimit,
+} from '../../server/provider/provider-proxy-guards';
+import {
+  buildVideoStartUpstream,
+  buildVideoStatusUpstream,
+  forwardUpstream,
+} from '../../server/provider/provider-proxy-upstream';
+
+/**
+ * Veo Video Proxy
+ *
+ * Auth: Authorization: Bearer <per-user token from PROVIDER_PROXY_TOKENS>
+ *
+ * Routes:
+ *   POST /api/provider/video                      Body: { model, body: { instances, parameters } }
+ *                                                 Starts a predictLongRunning operation
+ *   GET  /api/provider/video?operation=<name>     Polls an operation started above
+ *
+ * Both return Gemini's response unchanged. Finished videos are downloaded
+ * through /api/proxy, which already holds the server key.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = authenticateUser(req);
+    let upstreamRequest;
+    if (req.method === 'POST') {
+      enforceGenerationRateLimit(user);
+      upstreamRequest = buildVideoStartUpstream(parseVideoStartRequest(req.body));
+    } else {
+      enforcePollRateLimit(user);
+      upstreamRequest = buildVideoStatusUpstream(parseOperationName(req.query.operation));
+    }
+    const upstream = await forwardUpstream(upstreamRequest);
+
+    if (req.method === 'POST') {
+      console.log('[Provider Proxy] video start', { user, clientIp: getClientIp(req), status: upstream.status });
+    }
+
+    return res.status(upstream.status).setHeader('Content-Type', upstream.contentType).send(upstream.text);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      console.warn('[Provider Proxy] video rejected', { status: error.status, message: error.message });
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const err = error as Error;
+    console.error('[Provider Proxy] video error:', error);
+    return res.status(500).json({ error: err?.message || 'Video proxy failed' });
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { HttpError, readPositiveInt } from '../upload/supabase-upload-config';
+
+export const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+export const OPENROUTER_CHAT_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+/**
+ * Per-user access tokens from `PROVIDER_PROXY_TOKENS`, written as
+ * `name:token` pairs separated by commas. Entries without a name or token are
+ * ignored; a repeated name keeps its last token.
+ */
+export function parseUserTokens(rawValue: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  (rawValue || '').split(',').forEach((entry) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const user = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (user && token) tokens.set(user, token);
+  });
+  return tokens;
+}
+
+export const providerProxyConfig = {
+  geminiApiKey: process.env.GEMINI_API_KEY?.trim() || '',
+  openRouterApiKey: process.env.OPENROUTER_API_KEY?.trim() || '',
+  userTokens: parseUserTokens(process.env.PROVIDER_PROXY_TOKENS),
+};
+
+export const providerProxyLimits = {
+  fetchTimeoutMs: readPositiveInt(process.env.PROVIDER_FETCH_TIMEOUT_MS, 55_000),
+  // Image generation and Veo starts cost money; status polls are cheap but frequent
+  generation: {
+    rateWindowMs: readPositiveInt(process.env.PROVIDER_RATE_WINDOW_MS, 60_000),
+    rateMaxRequests: readPositiveInt(process.env.PROVIDER_RATE_MAX_REQUESTS, 10),
+  },
+  poll: {
+    rateWindowMs: readPositiveInt(process.env.PROVIDER_RATE_WINDOW_MS, 60_000),
+    rateMaxRequests: readPositiveInt(process.env.PROVIDER_POLL_RATE_MAX_REQUESTS, 120),
+  },
+};
+
+export type ProxiedProvider = 'gemini' | 'openrouter';
+
+/**
+ * Models the app offers, so a token cannot spend the server key on anything
+ * else. Keep in step with the provider model lists under src/utils.
+ */
+export const PROXIED_IMAGE_MODELS: Record<ProxiedProvider, readonly string[]> = {
+  gemini: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+  openrouter: ['google/gemini-2.5-flash-image', 'openai/gpt-5-image-mini', 'google/gemini-3-pro-image-preview'],
+};
+
+// Chat-completions fields the app sends; the rest (`n`, `max_tokens`, ...) would let a token raise the spend
+export const OPENROUTER_BODY_FIELDS: readonly string[] = ['messages', 'modalities', 'image_config'];
+
+export const PROXIED_VIDEO_MODELS: readonly string[] = [
+  'veo-3.1-generate-preview',
+  'veo-3.1-fast-generate-preview',
+  'veo-2.0-generate-001',
+];
+
+const modelSchema = z.string().trim().min(1).max(160).regex(/^[\w.:/-]+$/, 'Invalid model id');
+
+const imageRequestSchema = z
+  .object({
+    provider: z.enum(['gemini', 'openrouter']),
+    model: modelSchema,
+    body: z.record(z.string(), z.unknown()),
+  })
+  .strict()
+  .refine((request) => PROXIED_IMAGE_MODELS[request.provider].includes(request.model), {
+    message: 'Model is not offered by this server',
+    path: ['model'],
+  });
+
+const videoStartSchema = z
+  .object({
+    model: modelSchema.refine(
+      (model) => PROXIED_VIDEO_MODELS.includes(model),
+      'Only Veo models offered by this server can start videos'
+    ),
+    body: z
+      .object({
+        instances: z.array(z.record(z.string(), z.unknown())).min(1).max(4),
+        parameters: z.record(z.string(), z.unknown()).optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+const operationNameSchema = z
+  .string()
+  .regex(/^models\/veo-[\w.-]+\/operations\/[\w-]+$/, 'Invalid operation name');
+
+export type ImageProxyRequest = z.infer<typeof imageRequestSchema>;
+export type VideoStartProxyRequest = z.infer<typeof videoStartSchema>;
+
+function readJsonBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+function parseWith<T>(schema: z.ZodType<T>, value: unknown): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue?.path?.length ? issue.path.join('.') : 'request';
+    throw new HttpError(400, `Invalid request at "${location}": ${issue?.message || 'unknown error'}`);
+  }
+
+  return result.data;
+}
+
+export function parseImageRequest(body: unknown): ImageProxyRequest {
+  return parseWith(imageRequestSchema, readJsonBody(body));
+}
+
+export function parseVideoStartRequest(body: unknown): VideoStartProxyRequest {
+  return parseWith(videoStartSchema, readJsonBody(body));
+}
+
+export function parseOperationName(query: string | string[] | undefined): string {
+  return parseWith(operationNameSchema, Array.isArray(query) ? query[0] : query);
+}
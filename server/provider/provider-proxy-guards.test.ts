@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { VercelRequest } from '@vercel/node';
+import { HttpError } from '../upload/supabase-upload-config';
+import { createRateLimiter } from '../upload/supabase-upload-guards';
+import {
+  parseImageRequest,
+  parseOperationName,
+  parseUserTokens,
+  parseVideoStartRequest,
+  providerProxyConfig,
+} from './provider-proxy-config';
+import { authenticateUser } from './provider-proxy-guards';
+import { buildImageUpstream, buildVideoStatusUpstream } from './provider-proxy-upstream';
+
+function requestWithHeaders(headers: Record<string, string>): VercelRequest {
+  return { headers } as unknown as VercelRequest;
+}
+
+describe('provider proxy config/guards', () => {
+  it('parses per-user tokens and skips malformed entries', () => {
+    const tokens = parseUserTokens(' alice:tok-a , bob:tok:b,:nouser,carol:, dave');
+    expect([...tokens.entries()]).toEqual([
+      ['alice', 'tok-a'],
+      ['bob', 'tok:b'],
+    ]);
+  });
+
+  it('resolves the user from a bearer or header token', () => {
+    const tokens = parseUserTokens('alice:tok-a,bob:tok-b');
+    expect(authenticateUser(requestWithHeaders({ authorization: 'Bearer tok-b' }), tokens)).toBe('bob');
+    expect(authenticateUser(requestWithHeaders({ 'x-proxy-token': 'tok-a' }), tokens)).toBe('alice');
+  });
+
+  it('rejects unknown tokens and stays closed without configured tokens', () => {
+    const tokens = parseUserTokens('alice:tok-a');
+    expect(() => authenticateUser(requestWithHeaders({ authorization: 'Bearer nope' }), tokens)).toThrow(HttpError);
+    expect(() => authenticateUser(requestWithHeaders({}), tokens)).toThrow(HttpError);
+    expect(() => authenticateUser(requestWithHeaders({ authorization: 'Bearer tok-a' }), new Map())).toThrow(
+      'not enabled'
+    );
+  });
+
+  it('rate limits each key separately', () => {
+    const limit = createRateLimiter({ rateWindowMs: 60_000, rateMaxRequests: 2 });
+    limit('alice');
+    limit('alice');
+    expect(() => limit('alice')).toThrow('Rate limit exceeded');
+    expect(() => limit('bob')).not.toThrow();
+  });
+
+  it('validates image and video requests', () => {
+    expect(parseImageRequest('{"provider":"gemini","model":"gemini-2.5-flash-image","body":{}}').provider).toBe('gemini');
+    expect(() => parseImageRequest({ provider: 'other', model: 'm', body: {} })).toThrow(HttpError);
+    expect(() => parseImageRequest('{not json')).toThrow('valid JSON');
+    expect(() =>
+      parseVideoStartRequest({ model: 'gemini-2.5-flash-image', body: { instances: [{ prompt: 'p' }] } })
+    ).toThrow('Only Veo models');
+    expect(parseOperationName('models/veo-3.1-generate-preview/operations/abc-1')).toBe(
+      'models/veo-3.1-generate-preview/operations/abc-1'
+    );
+    expect(() => parseOperationName('files/abc')).toThrow(HttpError);
+  });
+
+  it('only proxies the models the app offers', () => {
+    const instances = [{ prompt: 'p' }];
+    expect(parseImageRequest({ provider: 'openrouter', model: 'openai/gpt-5-image-mini', body: {} }).model).toBe(
+      'openai/gpt-5-image-mini'
+    );
+    expect(() => parseImageRequest({ provider: 'openrouter', model: 'anthropic/some-chat-model', body: {} })).toThrow(
+      'Invalid request at "model": Model is not offered by this server'
+    );
+    // Each id only under its own provider
+    expect(() => parseImageRequest({ provider: 'gemini', model: 'openai/gpt-5-image-mini', body: {} })).toThrow(
+      HttpError
+    );
+    expect(parseVideoStartRequest({ model: 'veo-2.0-generate-001', body: { instances } }).model).toBe('veo-2.0-generate-001');
+    expect(() => parseVideoStartRequest({ model: 'veo-9-unreleased', body: { instances } })).toThrow('Only Veo models');
+  });
+
+  it('adds the server key in headers and keeps model ids inside the path', () => {
+    providerProxyConfig.geminiApiKey = 'server-gemini';
+    providerProxyConfig.openRouterApiKey = '';
+
+    const gemini = buildImageUpstream({ provider: 'gemini', model: '../files/x', body: { contents: [] } });
+    expect(gemini.url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/..%2Ffiles%2Fx:generateContent'
+    );
+    expect(gemini.headers['x-goog-api-key']).toBe('server-gemini');
+    expect(buildVideoStatusUpstream('models/veo-3/operations/1').url).not.toContain('server-gemini');
+
+    expect(() => buildImageUpstream({ provider: 'openrouter', model: 'google/x', body: {} })).toThrow(
+      'No OpenRouter key'
+    );
+  });
+
+  it('forwards only the OpenRouter body fields the app sends', () => {
+    providerProxyConfig.openRouterApiKey = 'server-openrouter';
+    const messages = [{ role: 'user', content: 'The Fool' }];
+
+    const upstream = buildImageUpstream({
+      provider: 'openrouter',
+      model: 'openai/gpt-5-image-mini',
+      body: { messages, modalities: ['image', 'text'], n: 8, max_tokens: 100_000, model: 'openai/o1-pro' },
+    });
+
+    expect(upstream.body).toEqual({ messages, modalities: ['image', 'text'], model: 'openai/gpt-5-image-mini' });
+    providerProxyConfig.openRouterApiKey = '';
+  });
+});
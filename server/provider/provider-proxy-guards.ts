@@ -0,0 +1,48 @@
+import { timingSafeEqual } from 'crypto';
+import type { VercelRequest } from '@vercel/node';
+import { HttpError } from '../upload/supabase-upload-config';
+import { createRateLimiter, getHeaderValue } from '../upload/supabase-upload-guards';
+import { type ProxiedProvider, providerProxyConfig, providerProxyLimits } from './provider-proxy-config';
+
+export const enforceGenerationRateLimit = createRateLimiter(providerProxyLimits.generation);
+export const enforcePollRateLimit = createRateLimiter(providerProxyLimits.poll);
+
+function tokensMatch(provided: string, expected: string): boolean {
+  return provided.length === expected.length && timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+}
+
+/**
+ * Resolves the caller to a user from `PROVIDER_PROXY_TOKENS`. Unlike the upload
+ * route, the proxy spends the server's provider credit, so it stays closed
+ * until at least one token is configured.
+ */
+export function authenticateUser(
+  req: VercelRequest,
+  userTokens: Map<string, string> = providerProxyConfig.userTokens
+): string {
+  if (userTokens.size === 0) {
+    throw new HttpError(503, 'Server-managed keys are not enabled on this deployment');
+  }
+
+  const authHeader = getHeaderValue(req.headers.authorization);
+  const bearerToken = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+  const provided = bearerToken || getHeaderValue(req.headers['x-proxy-token']).trim();
+
+  // Compare against every token so the timing does not reveal which user matched
+  let matchedUser = '';
+  userTokens.forEach((token, user) => {
+    if (tokensMatch(provided, token) && !matchedUser) matchedUser = user;
+  });
+  if (!provided || !matchedUser) {
+    throw new HttpError(401, 'Invalid or missing access token');
+  }
+  return matchedUser;
+}
+
+export function requireProviderKey(provider: ProxiedProvider): string {
+  const key = provider === 'gemini' ? providerProxyConfig.geminiApiKey : providerProxyConfig.openRouterApiKey;
+  if (!key) {
+    throw new HttpError(503, `No ${provider === 'gemini' ? 'Gemini' : 'OpenRouter'} key is configured on the server`);
+  }
+  return key;
+}
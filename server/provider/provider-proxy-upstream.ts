@@ -0,0 +1,89 @@
+import { HttpError } from '../upload/supabase-upload-config';
+import {
+  GEMINI_API_BASE,
+  OPENROUTER_BODY_FIELDS,
+  OPENROUTER_CHAT_URL,
+  type ImageProxyRequest,
+  type VideoStartProxyRequest,
+  providerProxyLimits,
+} from './provider-proxy-config';
+import { requireProviderKey } from './provider-proxy-guards';
+
+export type UpstreamRequest = {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  body?: unknown;
+};
+
+export type UpstreamResponse = {
+  status: number;
+  contentType: string;
+  text: string;
+};
+
+// Keys travel in headers, never in the URL, so they stay out of upstream logs
+export function buildImageUpstream(request: ImageProxyRequest): UpstreamRequest {
+  const key = requireProviderKey(request.provider);
+  if (request.provider === 'gemini') {
+    return {
+      url: `${GEMINI_API_BASE}/models/${encodeURIComponent(request.model)}:generateContent`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': key },
+      body: request.body,
+    };
+  }
+  return {
+    url: OPENROUTER_CHAT_URL,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+    body: {
+      ...Object.fromEntries(Object.entries(request.body).filter(([field]) => OPENROUTER_BODY_FIELDS.includes(field))),
+      model: request.model,
+    },
+  };
+}
+
+export function buildVideoStartUpstream(request: VideoStartProxyRequest): UpstreamRequest {
+  return {
+    url: `${GEMINI_API_BASE}/models/${encodeURIComponent(request.model)}:predictLongRunning`,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': requireProviderKey('gemini') },
+    body: request.body,
+  };
+}
+
+export function buildVideoStatusUpstream(operationName: string): UpstreamRequest {
+  return {
+    url: `${GEMINI_API_BASE}/${operationName}`,
+    method: 'GET',
+    headers: { 'x-goog-api-key': requireProviderKey('gemini') },
+  };
+}
+
+/** Sends the request and hands back the provider's status and body unchanged */
+export async function forwardUpstream(upstream: UpstreamRequest): Promise<UpstreamResponse> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), providerProxyLimits.fetchTimeoutMs);
+  try {
+    const resp = await fetch(upstream.url, {
+      method: upstream.method,
+      headers: upstream.headers,
+      body: upstream.body === undefined ? undefined : JSON.stringify(upstream.body),
+      signal: controller.signal,
+      redirect: 'error',
+    });
+    return {
+      status: resp.status,
+      contentType: resp.headers.get('content-type') || 'application/json',
+      text: await resp.text(),
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new HttpError(504, 'The provider did not respond in time');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
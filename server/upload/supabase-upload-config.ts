@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-function readPositiveInt(rawValue: string | undefined, fallback: number): number {
+export function readPositiveInt(rawValue: string | undefined, fallback: number): number {
   const parsed = Number.parseInt((rawValue || '').trim(), 10);
   if (!Number.isFinite(parsed) || parsed <= 0) {
     return fallback;
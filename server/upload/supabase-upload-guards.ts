@@ -2,9 +2,7 @@ import { timingSafeEqual } from 'crypto';
 import type { VercelRequest } from '@vercel/node';
 import { HttpError, type UploadCard, allowedRemoteHosts, uploadConfig, uploadLimits } from './supabase-upload-config';
 
-const requestLogByIp = new Map<string, number[]>();
-
-function getHeaderValue(headerValue: string | string[] | undefined): string {
+export function getHeaderValue(headerValue: string | string[] | undefined): string {
   if (Array.isArray(headerValue)) return headerValue[0] || '';
   return headerValue || '';
 }
@@ -99,17 +97,27 @@ export function assertAuthorized(req: VercelRequest): void {
   }
 }
 
-export function enforceRateLimit(ip: string): void {
-  const now = Date.now();
-  const recent = (requestLogByIp.get(ip) || []).filter((ts) => now - ts < uploadLimits.rateWindowMs);
-  if (recent.length >= uploadLimits.rateMaxRequests) {
-    throw new HttpError(429, 'Rate limit exceeded. Please retry later.');
-  }
+/**
+ * In-memory sliding-window limiter: each key may make `maxRequests` calls per
+ * `windowMs`. State is per function instance, which is enough to blunt abuse.
+ */
+export function createRateLimiter(limits: { rateWindowMs: number; rateMaxRequests: number }) {
+  const requestLog = new Map<string, number[]>();
+
+  return (key: string): void => {
+    const now = Date.now();
+    const recent = (requestLog.get(key) || []).filter((ts) => now - ts < limits.rateWindowMs);
+    if (recent.length >= limits.rateMaxRequests) {
+      throw new HttpError(429, 'Rate limit exceeded. Please retry later.');
+    }
 
-  recent.push(now);
-  requestLogByIp.set(ip, recent);
+    recent.push(now);
+    requestLog.set(key, recent);
+  };
 }
 
+export const enforceRateLimit = createRateLimiter(uploadLimits);
+
 function sanitizeStorageSegment(input: string, fallback: string): string {
   const normalized = input
     .trim()
@@ -4,19 +4,26 @@ import { OrbitControls } from '@react-three/drei';
 import CardDeck from './components/CardDeck';
 import CardDetail from './components/CardDetail';
 import Settings from './components/Settings';
+import Reading from './components/Reading';
 import Header from './components/Header';
 import ErrorNotification, { showError } from './components/ErrorNotification';
 import { useStore } from './store/useStore';
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { usePendingVideoOperations } from './hooks/usePendingVideoOperations';
 import { getAllGeneratedCards, setDatabaseErrorCallback } from './utils/idb';
 import { debugLog } from './utils/logger';
+import { isDeckComplete } from './utils/tarotCards';
 import type { CommunityDeckGroup, CommunityGalleryRow } from './types';
 
 function App() {
-  const { selectedCard, showSettings, generatedCards, addGeneratedCard, setReturnToSettingsOnClose, settings } = useStore();
+  const { selectedCard, showSettings, showReading, generatedCards, addGeneratedCard, setReturnToSettingsOnClose, settings } = useStore();
   const deckHydrationInFlightRef = useRef<string | null>(null);
   const hydratedDecksRef = useRef<Set<string>>(new Set());
   const prefetchedMediaRef = useRef<Set<string>>(new Set());
 
+  useGenerationQueue();
+  usePendingVideoOperations();
+
   useEffect(() => {
     // Set up database error notification callback
     setDatabaseErrorCallback((message: string, error: unknown) => {
@@ -77,12 +84,15 @@ function App() {
 
   useEffect(() => {
     const selectedDeckType = settings.selectedDeckType;
+    const includeMinorArcana = settings.includeMinorArcana === true;
     if (!selectedDeckType) return;
-    if (deckHydrationInFlightRef.current === selectedDeckType) return;
-    if (hydratedDecksRef.current.has(selectedDeckType)) return;
+    // Enabling the Minor Arcana makes a hydrated 22-card deck incomplete again
+    const hydrationKey = `${selectedDeckType}:${includeMinorArcana ? 'full' : 'major'}`;
+    if (deckHydrationInFlightRef.current === hydrationKey) return;
+    if (hydratedDecksRef.current.has(hydrationKey)) return;
 
     let cancelled = false;
-    deckHydrationInFlightRef.current = selectedDeckType;
+    deckHydrationInFlightRef.current = hydrationKey;
     debugLog(`[AutoImport] Starting startup hydration for deck "${selectedDeckType}"...`);
 
     (async () => {
@@ -98,7 +108,7 @@ function App() {
             .map((card) => card.cardNumber)
         );
 
-        if (existingCardNumbers.size >= 22) {
+        if (isDeckComplete(existingCardNumbers, includeMinorArcana)) {
           debugLog(`[AutoImport] Deck "${selectedDeckType}" already hydrated locally (${existingCardNumbers.size} cards).`);
           hydrationComplete = true;
           return;
@@ -164,12 +174,10 @@ function App() {
 
         const completeDecks = decks
           .filter((deck) => {
-            const uniqueCardCount = new Set(
-              (deck.cards || [])
-                .map((card) => card.card_number ?? card.cardNumber)
-                .filter((value): value is number => typeof value === 'number')
-            ).size;
-            return uniqueCardCount >= 22;
+            const cardNumbers = (deck.cards || [])
+              .map((card) => card.card_number ?? card.cardNumber)
+              .filter((value): value is number => typeof value === 'number');
+            return isDeckComplete(cardNumbers, includeMinorArcana);
           })
           .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
         const fallbackDecks = decks.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
@@ -222,9 +230,9 @@ function App() {
         console.error('[AutoImport] Failed:', err);
       } finally {
         if (hydrationComplete) {
-          hydratedDecksRef.current.add(selectedDeckType);
+          hydratedDecksRef.current.add(hydrationKey);
         }
-        if (!cancelled && deckHydrationInFlightRef.current === selectedDeckType) {
+        if (!cancelled && deckHydrationInFlightRef.current === hydrationKey) {
           deckHydrationInFlightRef.current = null;
         }
       }
@@ -232,11 +240,11 @@ function App() {
 
     return () => {
       cancelled = true;
-      if (deckHydrationInFlightRef.current === selectedDeckType) {
+      if (deckHydrationInFlightRef.current === hydrationKey) {
         deckHydrationInFlightRef.current = null;
       }
     };
-  }, [addGeneratedCard, generatedCards, setReturnToSettingsOnClose, settings.selectedDeckType]);
+  }, [addGeneratedCard, generatedCards, setReturnToSettingsOnClose, settings.selectedDeckType, settings.includeMinorArcana]);
 
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
@@ -272,9 +280,13 @@ function App() {
           enabled={!selectedCard} // Disable controls when card detail is open
         />
 
-        <CardDeck />
+        {/* Remount on deck size change so the physics refs are rebuilt for the new card count */}
+        <CardDeck key={settings.includeMinorArcana ? 'full-deck' : 'major-arcana'} />
       </Canvas>
 
+      {/* Reading Spread */}
+      {showReading && <Reading />}
+
       {/* Card Detail View */}
       {selectedCard && <CardDetail />}
 
@@ -1,7 +1,7 @@
 import { useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
-import tarotData from '../data/tarot-decks.json';
-import type { TarotCard } from '../types';
+import { useStore } from '../store/useStore';
+import { getDeckCards } from '../utils/tarotCards';
 import { CURVE_SEQUENCE } from './card-deck/curves';
 import { CardDeckCard } from './card-deck/CardDeckCard';
 import { createInitialCardData, createInitialPhysics } from './card-deck/initialization';
@@ -15,7 +15,8 @@ import type {
 } from './card-deck/types';
 
 export default function CardDeck() {
-  const cards = tarotData.cards as TarotCard[];
+  const { settings } = useStore();
+  const cards = getDeckCards(settings.includeMinorArcana);
   const currentlyDraggingRef = useRef<number | null>(null);
 
   const phaseStateRef = useRef<PhaseState>({
@@ -1,10 +1,14 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import { useStore } from '../store/useStore';
 import { useCardGeneration } from '../hooks/useCardGeneration';
-import tarotData from '../data/tarot-decks.json';
-import type { TarotCard } from '../types';
 import { debugLog } from '../utils/logger';
-import { getInterpretationForDeck } from '../utils/deckInterpretation';
+import { getCardImageSources } from '../utils/cardAnimation';
+import { getInterpretationForDeck, getReversedMeaningForDeck } from '../utils/deckInterpretation';
+import { drawOrientation } from '../utils/readings';
+import { random } from '../utils/random';
+import { getDeckCards } from '../utils/tarotCards';
+import { composeCardRequest } from '../utils/imageGeneration';
+import { getCardPromptVersions } from '../utils/promptVersions';
 import { CardDetailModal } from './card-detail/CardDetailModal';
 import { useVideoPlaybackFallback } from './card-detail/useVideoPlaybackFallback';
 
@@ -14,18 +18,21 @@ export default function CardDetail() {
   const {
     selectedCard,
     setSelectedCard,
+    selectedOrientation,
+    setSelectedOrientation,
     settings,
     getAllGenerationsForCard,
     deleteGeneratedCard,
     generatedCards,
-    updateGeneratedCard,
+    promptVersions,
+    savePromptVersion,
     isGenerating,
     returnToSettingsOnClose,
     setReturnToSettingsOnClose,
     setShowSettings,
   } = useStore();
-  const { generateVideo, error: generationError } = useCardGeneration();
-  const cards = tarotData.cards as TarotCard[];
+  const { generateVideo, regenerateWithPromptVersion, error: generationError } = useCardGeneration();
+  const cards = getDeckCards(settings.includeMinorArcana);
   const totalCards = cards.length;
   const [navDirection, setNavDirection] = useState<1 | -1>(1);
   const [currentGenerationIndex, setCurrentGenerationIndex] = useState(0);
@@ -45,14 +52,17 @@ export default function CardDetail() {
   const [isCardReady, setIsCardReady] = useState(false);
   const loadedMediaRef = useRef<Set<string>>(new Set());
   const triggerFlip = useCallback(() => {
-    const revealInverted = Math.random() < 0.5;
+    // A card opened from a reading keeps its drawn orientation; otherwise draw one now and record it
+    const orientation = selectedOrientation ?? drawOrientation(random, settings.allowReversals !== false);
+    if (!selectedOrientation) setSelectedOrientation(orientation);
+    const reversed = orientation === 'reversed';
     const newOrientation = {
-      targetAngle: 0 as 0 | 180,
-      startAngle: revealInverted ? 180 : 0,
-      startTilt: revealInverted ? START_TILT : 0,
+      targetAngle: (reversed ? 180 : 0) as 0 | 180,
+      startAngle: 0,
+      startTilt: reversed ? START_TILT : 0,
     };
     debugLog('[CardDetail] triggerFlip CALLED', {
-      revealInverted,
+      orientation,
       newOrientation,
       currentFlipTrigger: flipTrigger,
     });
@@ -61,7 +71,7 @@ export default function CardDetail() {
       debugLog('[CardDetail] flipTrigger incremented', { old: k, new: k + 1 });
       return k + 1;
     });
-  }, [flipTrigger]);
+  }, [flipTrigger, selectedOrientation, setSelectedOrientation, settings.allowReversals]);
 
   useEffect(() => {
     setShowDetails(false);
@@ -71,6 +81,13 @@ export default function CardDetail() {
   if (!selectedCard) return null;
 
   const interpretation = getInterpretationForDeck(selectedCard, settings.selectedDeckType);
+  const reversedMeaning = getReversedMeaningForDeck(selectedCard, settings.selectedDeckType);
+  // Dry run of the next generation for this card; only composed while the details are open
+  const composedRequest = showDetails
+    ? composeCardRequest(selectedCard, settings.selectedDeckType, settings, promptText)
+    : undefined;
+  const cardPromptVersions = getCardPromptVersions(promptVersions, selectedCard.number, settings.selectedDeckType);
+  const latestPromptVersion = cardPromptVersions[cardPromptVersions.length - 1];
   // Prefer generations for the selected deck; fall back to any deck that has this card number
   const primaryGenerations = getAllGenerationsForCard(selectedCard.number, settings.selectedDeckType);
   const fallbackGenerations = useMemo(() => {
@@ -97,14 +114,15 @@ export default function CardDetail() {
     return '';
   }, [selectedCard, settings.selectedDeckType]);
 
+  // The editor holds the card's working prompt: the latest saved version first
   useEffect(() => {
-    setPromptText(generatedCard?.prompt || defaultPrompt || '');
-  }, [generatedCard?.prompt, defaultPrompt, generatedCard?.timestamp]);
+    setPromptText(latestPromptVersion?.prompt || generatedCard?.prompt || defaultPrompt || '');
+  }, [latestPromptVersion?.prompt, generatedCard?.prompt, defaultPrompt, generatedCard?.timestamp]);
 
-  // Memoized primary media src (gif preferred, else first frame)
+  // Memoized primary media src: the still the card flips on (its animation plays over it)
   const primaryMediaSrc = useMemo(
-    () => generatedCard?.gifUrl || generatedCard?.frames?.[0] || null,
-    [generatedCard?.gifUrl, generatedCard?.frames]
+    () => getCardImageSources(generatedCard).stillSrc || null,
+    [generatedCard]
   );
   const lastMediaSrcRef = useRef<string | null>(null);
   const handleCardReady = useCallback((_src: string) => {
@@ -161,10 +179,11 @@ export default function CardDetail() {
       setVideoSrc(undefined);
       return;
     }
-    // Try to append API key for Gemini file downloads if not present
+    // Try to append API key for Gemini file downloads if not present (stored videos play from object URLs)
     const hasKeyParam = generatedCard.videoUrl.includes('key=');
+    const isRemote = generatedCard.videoUrl.startsWith('https://');
     const signedUrl =
-      !hasKeyParam && settings.apiProvider === 'gemini' && settings.geminiApiKey
+      isRemote && !hasKeyParam && settings.apiProvider === 'gemini' && settings.geminiApiKey
         ? `${generatedCard.videoUrl}${generatedCard.videoUrl.includes('?') ? '&' : '?'}key=${encodeURIComponent(settings.geminiApiKey)}`
         : generatedCard.videoUrl;
     setVideoSrc(signedUrl);
@@ -187,10 +206,9 @@ export default function CardDetail() {
     }
   };
 
+  // Edits become a new version; generations keep the prompt they were made with
   const handleSavePrompt = () => {
-    if (!generatedCard) return;
-    const updated = { ...generatedCard, prompt: promptText };
-    updateGeneratedCard(updated);
+    savePromptVersion(selectedCard.number, settings.selectedDeckType, promptText);
   };
 
   const handlePrevGeneration = () => {
@@ -279,6 +297,8 @@ export default function CardDetail() {
       loadedMediaRef={loadedMediaRef}
       onCardReady={handleCardReady}
       interpretation={interpretation}
+      orientation={selectedOrientation}
+      reversedMeaning={reversedMeaning}
       allGenerations={allGenerations}
       currentGenerationIndex={currentGenerationIndex}
       onPrevGeneration={handlePrevGeneration}
@@ -289,6 +309,9 @@ export default function CardDetail() {
       promptText={promptText}
       setPromptText={setPromptText}
       onSavePrompt={handleSavePrompt}
+      composedRequest={composedRequest}
+      promptVersions={cardPromptVersions}
+      onRegenerateWithVersion={(version) => void regenerateWithPromptVersion(selectedCard.number, version)}
       totalCards={totalCards}
       currentCardPosition={currentCardPosition}
     />
@@ -4,6 +4,7 @@ import { debugLog } from '../utils/logger';
 
 interface CardFlipImageInnerProps {
   src: string;
+  animatedSrc?: string; // animated GIF/WebP of the card, laid over `src` once it has loaded
   alt: string;
   startAngle: number;
   startTilt: number;
@@ -17,8 +18,9 @@ const HOLD_BEFORE_FLIP = 1.4; // seconds to display inverted state before rotati
 const FLIP_DURATION = 2.5; // seconds for the animated flip
 const REMOTE_LOADER_DELAY_MS = 150; // avoid flicker when cached
 
-export function CardFlipImageInner({ src, alt, startAngle, startTilt, targetAngle, flipTrigger, loadedMediaRef, onReady }: CardFlipImageInnerProps) {
+export function CardFlipImageInner({ src, animatedSrc, alt, startAngle, startTilt, targetAngle, flipTrigger, loadedMediaRef, onReady }: CardFlipImageInnerProps) {
   const [isLoaded, setIsLoaded] = useState(false);
+  const [animationLoaded, setAnimationLoaded] = useState(false);
   const [showLoader, setShowLoader] = useState(false);
   const lastLoadedSrcRef = useRef<string | null>(null);
   const readyTimeoutRef = useRef<number | null>(null);
@@ -86,6 +88,10 @@ export function CardFlipImageInner({ src, alt, startAngle, startTilt, targetAngl
 	    }
   }, [src, onReady]); // Removed flipTrigger - it was causing animation interruption!
 
+  useEffect(() => {
+    setAnimationLoaded(false);
+  }, [animatedSrc]);
+
   useEffect(() => {
     debugLog('[CardFlip] MOUNT', { src: src.slice(-30), flipTrigger });
     return () => {
@@ -274,6 +280,27 @@ export function CardFlipImageInner({ src, alt, startAngle, startTilt, targetAngl
         style={{ width: '100%', height: '100%', objectFit: 'cover', backfaceVisibility: 'hidden' }}
         loading="eager"
       />
+      {/* The still runs the flip; the heavier animation takes over once both have loaded */}
+      {animatedSrc && (isLoaded || alreadyRevealedRef.current) && (
+        <img
+          src={animatedSrc}
+          alt=""
+          aria-hidden="true"
+          data-testid="card-animation"
+          onLoad={() => setAnimationLoaded(true)}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover',
+            backfaceVisibility: 'hidden',
+            opacity: animationLoaded ? 1 : 0,
+            transition: 'opacity 0.4s ease',
+            pointerEvents: 'none',
+          }}
+        />
+      )}
     </motion.div>
   );
 }
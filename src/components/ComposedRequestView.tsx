@@ -0,0 +1,71 @@
+import type { ComposedCardRequest } from '../utils/imageGeneration';
+import type { CardPromptParts } from '../utils/promptTemplates';
+
+type ComposedRequestViewProps = {
+  composed: ComposedCardRequest;
+};
+
+const PART_LABELS: { key: keyof CardPromptParts; label: string }[] = [
+  { key: 'deckPrompt', label: 'Deck prompt' },
+  { key: 'deckLore', label: 'Deck lore' },
+  { key: 'lore', label: 'Card narrative' },
+  { key: 'lotm', label: 'Lord of Mysteries' },
+  { key: 'tradition', label: 'Tradition' },
+  { key: 'framing', label: 'Framing' },
+  { key: 'cardNumber', label: 'Card number' },
+];
+
+const blockStyle = {
+  margin: 0,
+  padding: '0.75rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(147, 51, 234, 0.3)',
+  borderRadius: '8px',
+  fontSize: '0.8rem',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-word' as const,
+  maxHeight: '16rem',
+  overflowY: 'auto' as const,
+};
+
+const headingStyle = { fontSize: '0.85rem', fontWeight: 600, margin: '0.75rem 0 0.35rem', opacity: 0.9 };
+
+/**
+ * Compose-only view of a card: each prompt section, the assembled prompt and
+ * the request body the selected provider would receive.
+ */
+export function ComposedRequestView({ composed }: ComposedRequestViewProps) {
+  return (
+    <div style={{ fontSize: '0.85rem' }}>
+      <div style={headingStyle}>Prompt sections</div>
+      <dl style={{ margin: 0, display: 'grid', gridTemplateColumns: 'max-content 1fr', gap: '0.35rem 0.75rem' }}>
+        {PART_LABELS.map(({ key, label }) => (
+          <div key={key} style={{ display: 'contents' }}>
+            <dt style={{ color: '#d4af37', whiteSpace: 'nowrap' }}>{label}</dt>
+            <dd style={{ margin: 0, opacity: composed.parts[key] ? 0.9 : 0.45 }}>
+              {composed.parts[key] || 'not used for this card'}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div style={headingStyle}>Assembled prompt</div>
+      <pre style={blockStyle}>{composed.prompt}</pre>
+
+      <div style={headingStyle}>Request to {composed.providerName}</div>
+      {composed.error && <div style={{ color: '#ffb347' }}>{composed.error}</div>}
+      {composed.request && (
+        <>
+          <div style={{ fontFamily: 'monospace', marginBottom: '0.35rem', opacity: 0.75, wordBreak: 'break-all' }}>
+            POST {composed.request.endpoint}
+          </div>
+          {composed.request.note && <div style={{ marginBottom: '0.35rem', opacity: 0.65 }}>{composed.request.note}</div>}
+          <pre style={blockStyle}>{JSON.stringify(composed.request.body, null, 2)}</pre>
+        </>
+      )}
+      {!composed.error && !composed.request && (
+        <div style={{ opacity: 0.65 }}>This provider does not expose its request body.</div>
+      )}
+    </div>
+  );
+}
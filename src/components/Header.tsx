@@ -1,7 +1,9 @@
 import { useStore } from '../store/useStore';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
 
 export default function Header() {
-  const { showSettings, setShowSettings, isGenerating, generationProgress } = useStore();
+  const { showSettings, setShowSettings, showReading, setShowReading, isGenerating, generationProgress } = useStore();
+  const rateLimitStatus = useRateLimitStatus();
 
   return (
     <header
@@ -33,9 +35,46 @@ export default function Header() {
             <div style={{ fontSize: '0.8rem', opacity: 0.8 }}>
               {generationProgress.current} / {generationProgress.total}
             </div>
+            {rateLimitStatus && (
+              <div style={{ fontSize: '0.8rem', marginTop: '0.25rem', color: '#ffb347' }}>
+                ⏱ {rateLimitStatus}
+              </div>
+            )}
           </div>
         )}
 
+        <button
+          onClick={() => setShowReading(!showReading)}
+          aria-label="Open reading"
+          title="Reading"
+          style={{
+            width: '40px',
+            height: '40px',
+            borderRadius: '50%',
+            background: showReading ? 'rgba(255, 255, 255, 0.14)' : 'rgba(255, 255, 255, 0.08)',
+            border: '1px solid rgba(255, 255, 255, 0.18)',
+            color: 'rgba(232, 232, 232, 0.8)',
+            cursor: 'pointer',
+            fontSize: '1.2rem',
+            transition: 'all 0.3s ease',
+            display: 'grid',
+            placeItems: 'center',
+            backdropFilter: 'blur(6px)',
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = 'rgba(255, 255, 255, 0.18)';
+            e.currentTarget.style.transform = 'translateY(-1px)';
+            e.currentTarget.style.color = '#ffffff';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = showReading ? 'rgba(255, 255, 255, 0.14)' : 'rgba(255, 255, 255, 0.08)';
+            e.currentTarget.style.transform = 'translateY(0)';
+            e.currentTarget.style.color = 'rgba(232, 232, 232, 0.8)';
+          }}
+        >
+          🔮
+        </button>
+
         <button
           onClick={() => setShowSettings(!showSettings)}
           style={{
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useStore } from '../store/useStore';
+import { useReading } from '../hooks/useReading';
+import { getDeckCards } from '../utils/tarotCards';
+import { ReadingModalShell } from './reading/ReadingModalShell';
+import { SpreadPickerSection } from './reading/SpreadPickerSection';
+import { CustomSpreadSection } from './reading/CustomSpreadSection';
+import { ReadingSpreadLayout } from './reading/ReadingSpreadLayout';
+import { ReadingJournalSection } from './reading/ReadingJournalSection';
+
+type ReadingView = 'draw' | 'journal';
+
+export default function Reading() {
+  const {
+    settings,
+    setShowReading,
+    setSelectedCard,
+    getGeneratedCard,
+    readingJournal,
+    setActiveReading,
+    deleteReading,
+  } = useStore();
+  const {
+    spreads,
+    activeReading,
+    startReading,
+    saveNotes,
+    clearReading,
+    saveCustomSpread,
+    deleteCustomSpread,
+    error,
+  } = useReading();
+  // Full deck so journal entries drawn with the Minor Arcana still resolve after they are switched off
+  const cards = getDeckCards(true);
+
+  const [view, setView] = useState<ReadingView>('draw');
+  const [selectedSpreadId, setSelectedSpreadId] = useState(spreads[0]?.id ?? '');
+  const [question, setQuestion] = useState('');
+  const [seed, setSeed] = useState('');
+  const [showSpreadEditor, setShowSpreadEditor] = useState(false);
+
+  const tabStyle = (tab: ReadingView) => ({
+    padding: '0.5rem 1rem',
+    background: view === tab ? 'rgba(147, 51, 234, 0.3)' : 'transparent',
+    border: `1px solid ${view === tab ? 'rgba(147, 51, 234, 0.5)' : 'rgba(255, 255, 255, 0.15)'}`,
+    borderRadius: '8px',
+    color: '#e8e8e8',
+    fontSize: '0.9rem',
+    cursor: 'pointer',
+  });
+
+  return (
+    <ReadingModalShell onClose={() => setShowReading(false)}>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={() => setView('draw')} style={tabStyle('draw')}>
+          🔮 Reading
+        </button>
+        <button onClick={() => setView('journal')} style={tabStyle('journal')}>
+          📖 Journal ({readingJournal.length})
+        </button>
+      </div>
+
+      {view === 'journal' ? (
+        <ReadingJournalSection
+          readings={readingJournal}
+          cards={cards}
+          deckType={settings.selectedDeckType}
+          onOpenReading={(reading) => {
+            setActiveReading(reading);
+            setView('draw');
+          }}
+          onDeleteReading={deleteReading}
+        />
+      ) : activeReading ? (
+        <ReadingSpreadLayout
+          reading={activeReading}
+          spread={activeReading.spread}
+          cards={cards}
+          getGeneratedCard={getGeneratedCard}
+          onOpenCard={setSelectedCard}
+          onNewReading={clearReading}
+          onSaveNotes={saveNotes}
+        />
+      ) : (
+        <>
+          <SpreadPickerSection
+            spreads={spreads}
+            selectedSpreadId={selectedSpreadId}
+            question={question}
+            seed={seed}
+            onSelectSpread={setSelectedSpreadId}
+            onQuestionChange={setQuestion}
+            onSeedChange={setSeed}
+            onDeleteCustomSpread={(spreadId) => {
+              deleteCustomSpread(spreadId);
+              if (spreadId === selectedSpreadId) setSelectedSpreadId(spreads[0]?.id ?? '');
+            }}
+            onDraw={() => {
+              startReading(selectedSpreadId, question, seed);
+              setSeed('');
+            }}
+          />
+          <CustomSpreadSection
+            showEditor={showSpreadEditor}
+            onToggle={() => setShowSpreadEditor(!showSpreadEditor)}
+            onSave={saveCustomSpread}
+          />
+        </>
+      )}
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.9rem' }}>
+          {error}
+        </div>
+      )}
+    </ReadingModalShell>
+  );
+}
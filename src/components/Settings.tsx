@@ -4,6 +4,16 @@ import { useCardGeneration } from '../hooks/useCardGeneration';
 import { useGallerySharing } from '../hooks/useGallerySharing';
 import { getUnsharedCards } from '../utils/idb';
 import { exportGeneratedCardsZip } from '../utils/exportGeneratedCardsZip';
+import { readBackupZip, type ImportConflictMode } from '../utils/importGeneratedCardsZip';
+import { getModelCapabilities, resolveImageProvider } from '../utils/imageProviders';
+import { composeCardRequest } from '../utils/imageGeneration';
+import { canGenerateVideo } from '../utils/videoGeneration';
+import { getDeckVideoSettings, getVideoSettingsPatch, getVideoSettingsResetPatch } from '../utils/videoSettings';
+import { canProcessVideo, getVideoProcessingSettings } from '../utils/videoProcessing';
+import { MOCK_PROVIDER_ID } from '../utils/mockGeneration';
+import { VEO_RATE_LIMIT_ID, getDailyUsage } from '../utils/rateLimitScheduler';
+import { estimateBulkRun, getBudgetBlockMessage, summarizeCosts } from '../utils/costTracking';
+import { getCardByNumber, getDeckCards } from '../utils/tarotCards';
 import tarotData from '../data/tarot-decks.json';
 import type { TarotDeckData } from '../types';
 import { SettingsModalShell } from './settings/SettingsModalShell';
@@ -11,15 +21,25 @@ import { PhotoSettingsSection } from './settings/PhotoSettingsSection';
 import { ReferenceImagesSection } from './settings/ReferenceImagesSection';
 import { DeckTypeSection } from './settings/DeckTypeSection';
 import { GenerationSettingsSection } from './settings/GenerationSettingsSection';
+import { KeyVaultSection } from './settings/KeyVaultSection';
+import { VideoSettingsSection } from './settings/VideoSettingsSection';
+import { VideoProcessingSection } from './settings/VideoProcessingSection';
+import { PromptTemplateSection } from './settings/PromptTemplateSection';
 import { CommunitySharingSection } from './settings/CommunitySharingSection';
 import { GeneratedCardsGallerySection } from './settings/GeneratedCardsGallerySection';
 import { CommunityGalleryBrowserSection } from './settings/CommunityGalleryBrowserSection';
 import { ExportBackupSection } from './settings/ExportBackupSection';
+import { StorageSection } from './settings/StorageSection';
 import { ControlsHelpSection } from './settings/ControlsHelpSection';
 import { TestGenerationSection } from './settings/TestGenerationSection';
 import { BulkGenerationSection } from './settings/BulkGenerationSection';
+import { PromptReviewSection } from './settings/PromptReviewSection';
+import { GenerationQueueSection } from './settings/GenerationQueueSection';
+import { CostTrackingSection } from './settings/CostTrackingSection';
 import { GenerationErrorBanner } from './settings/GenerationErrorBanner';
 import { useSettingsImages } from './settings/useSettingsImages';
+import { useStorageManager } from './settings/useStorageManager';
+import { useKeyVault } from './settings/useKeyVault';
 
 const deckData = tarotData as TarotDeckData;
 
@@ -29,10 +49,20 @@ export default function Settings() {
     updateSettings,
     setShowSettings,
     clearGeneratedCards,
+    deleteGeneratedCards,
+    removeGeneratedVideos,
+    importGeneratedCards,
     isGenerating,
     generatedCards,
     setSelectedCard,
     setReturnToSettingsOnClose,
+    generationJobs,
+    pauseGenerationJob,
+    resumeGenerationJob,
+    cancelGenerationJob,
+    retryFailedGenerationJobItems,
+    clearFinishedGenerationJobs,
+    costRecords,
   } = useStore();
 
   const { generateSingleCard, generateAllCards, generateAllVideos, error: generationError } = useCardGeneration();
@@ -41,16 +71,29 @@ export default function Settings() {
   const [testCardNumber, setTestCardNumber] = useState(0);
   const [unsharedCount, setUnsharedCount] = useState(0);
   const [showControls, setShowControls] = useState(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const [previewCardNumber, setPreviewCardNumber] = useState(0);
+  const [previewDeckType, setPreviewDeckType] = useState(settings.selectedDeckType);
+  const [showPromptReview, setShowPromptReview] = useState(false);
   const [showGallery, setShowGallery] = useState(false);
   const [galleryDeckFilter, setGalleryDeckFilter] = useState<string>('all');
   const [dismissedError, setDismissedError] = useState(false);
   const [showCommunityGallery, setShowCommunityGallery] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [showKeyVault, setShowKeyVault] = useState(false);
+  const [showVideoSettings, setShowVideoSettings] = useState(false);
+  const [showVideoProcessing, setShowVideoProcessing] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<string>('');
+  const [importing, setImporting] = useState(false);
+  const [importMode, setImportMode] = useState<ImportConflictMode>('skip');
+  const [encryptBackup, setEncryptBackup] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');  // never persisted
   const [deckName, setDeckName] = useState(settings.deckName || settings.selectedDeckType || '');
   const [deckDescription, setDeckDescription] = useState(settings.deckDescription || '');
 
   const selectedDeck = settings.selectedDeckType;
+  const deckCardCount = getDeckCards(settings.includeMinorArcana).length;
   const communityDecks = useMemo(() => {
     const baseIds = new Set(deckData.deckTypes.map((d) => d.id));
     const map = new Map<string, { id: string; name: string; description: string }>();
@@ -86,13 +129,11 @@ export default function Settings() {
   const usePhoto = settings.usePhoto !== false;
   const lowerError = (generationError || '').toLowerCase();
   const isRateLimitError = lowerError.includes('rate limit') || lowerError.includes('quota');
-  const hasImageApiKey = settings.apiProvider === 'gemini'
-    ? Boolean(settings.geminiApiKey)
-    : Boolean(settings.apiKey);
-  const missingApiKeyMessage =
-    settings.apiProvider === 'gemini'
-      ? 'Enter your Gemini API key above to enable generation.'
-      : 'Enter your OpenRouter API key above to enable generation.';
+  const imageProvider = resolveImageProvider(settings);
+  const hasImageApiKey = imageProvider.isConfigured(settings);
+  const missingApiKeyMessage = imageProvider.missingConfigMessage;
+  const imageRunEstimate = estimateBulkRun('image', settings, generatedCards);
+  const videoRunEstimate = estimateBulkRun('video', settings, generatedCards);
   const {
     photoPreview,
     referenceImages,
@@ -109,6 +150,16 @@ export default function Settings() {
     updateSettings,
   });
 
+  const storage = useStorageManager({
+    open: showStorage,
+    generatedCards,
+    selectedDeckType: selectedDeck,
+    deleteGeneratedCards,
+    removeGeneratedVideos,
+  });
+
+  const keyVault = useKeyVault({ settings, updateSettings });
+
   useEffect(() => {
     setDismissedError(false);
   }, [generationError]);
@@ -144,10 +195,14 @@ export default function Settings() {
         alert('No generated cards to export.');
         return;
       }
+      if (encryptBackup && !backupPassphrase) {
+        alert('Enter a passphrase to encrypt the backup.');
+        return;
+      }
       setExporting(true);
       setExportStatus('Preparing zip export...');
-      await exportGeneratedCardsZip(generatedCards, setExportStatus);
-      setExportStatus('Export complete. Zip downloaded.');
+      await exportGeneratedCardsZip(generatedCards, setExportStatus, encryptBackup ? backupPassphrase : undefined);
+      setExportStatus(encryptBackup ? 'Export complete. Encrypted backup downloaded.' : 'Export complete. Zip downloaded.');
     } catch (err) {
       console.error('Export error:', err);
       alert(err instanceof Error ? err.message : 'Export failed');
@@ -156,8 +211,28 @@ export default function Settings() {
     }
   };
 
+  const handleImportZip = async (file: File) => {
+    try {
+      setImporting(true);
+      setExportStatus(`Reading ${file.name}...`);
+      const cards = await readBackupZip(file, backupPassphrase || undefined);
+      const { imported, replaced, skipped } = await importGeneratedCards(cards, importMode);
+      setExportStatus(
+        `Imported ${imported} card${imported === 1 ? '' : 's'}` +
+          (replaced ? `, replaced ${replaced}` : '') +
+          (skipped ? `, skipped ${skipped} already saved` : '') +
+          '.'
+      );
+    } catch (err) {
+      console.error('Import error:', err);
+      setExportStatus(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleOpenCardFromGallery = (cardNumber: number) => {
-    const tarotCard = deckData.cards[cardNumber];
+    const tarotCard = getCardByNumber(cardNumber);
     if (!tarotCard) return;
     setSelectedCard(tarotCard);
     setReturnToSettingsOnClose(true);
@@ -174,7 +249,7 @@ export default function Settings() {
         onUsePhotoChange={(enabled) => updateSettings({ usePhoto: enabled })}
       />
 
-      {settings.apiProvider === 'gemini' && (
+      {getModelCapabilities(imageProvider, settings.generationModel).multiReference && (
         <ReferenceImagesSection
           referenceImages={referenceImages}
           referencesEnabled={settings.usePhoto !== false}
@@ -198,6 +273,64 @@ export default function Settings() {
         updateSettings={updateSettings}
       />
 
+      <VideoSettingsSection
+        showVideoSettings={showVideoSettings}
+        deckType={selectedDeck}
+        deckName={deckData.deckTypes.find((deck) => deck.id === selectedDeck)?.name ?? selectedDeck}
+        videoSettings={getDeckVideoSettings(settings, selectedDeck)}
+        customized={Boolean(settings.videoSettingsMap?.[selectedDeck])}
+        onToggle={() => setShowVideoSettings(!showVideoSettings)}
+        onChange={(patch) => updateSettings(getVideoSettingsPatch(settings, selectedDeck, patch))}
+        onReset={() => updateSettings(getVideoSettingsResetPatch(settings, selectedDeck))}
+      />
+
+      <VideoProcessingSection
+        showVideoProcessing={showVideoProcessing}
+        processing={getVideoProcessingSettings(settings)}
+        supported={canProcessVideo()}
+        deckHasAudio={getDeckVideoSettings(settings, selectedDeck).generateAudio}
+        onToggle={() => setShowVideoProcessing(!showVideoProcessing)}
+        onChange={(patch) => updateSettings({ videoProcessing: { ...settings.videoProcessing, ...patch } })}
+      />
+
+      <KeyVaultSection
+        showVault={showKeyVault}
+        vault={keyVault.vault}
+        unlocked={keyVault.unlocked}
+        busy={keyVault.busy}
+        status={keyVault.status}
+        passphrase={keyVault.passphrase}
+        slots={keyVault.slots}
+        newKeySlot={keyVault.newKeySlot}
+        newKeyName={keyVault.newKeyName}
+        newKeySecret={keyVault.newKeySecret}
+        onToggle={() => setShowKeyVault(!showKeyVault)}
+        onPassphraseChange={keyVault.setPassphrase}
+        onCreate={keyVault.create}
+        onUnlock={keyVault.unlock}
+        onLock={keyVault.lock}
+        onNewKeySlotChange={keyVault.setNewKeySlot}
+        onNewKeyNameChange={keyVault.setNewKeyName}
+        onNewKeySecretChange={keyVault.setNewKeySecret}
+        onAddKey={keyVault.addKey}
+        onSelectKey={keyVault.selectKey}
+        onRemoveKey={keyVault.removeKey}
+        onRemoveVault={keyVault.removeVault}
+      />
+
+      <PromptTemplateSection
+        showEditor={showPromptTemplates}
+        overrides={settings.promptTemplates}
+        deckTypes={deckData.deckTypes}
+        cards={getDeckCards(true)}
+        previewCardNumber={previewCardNumber}
+        previewDeckType={previewDeckType}
+        onToggle={() => setShowPromptTemplates(!showPromptTemplates)}
+        onOverridesChange={(promptTemplates) => updateSettings({ promptTemplates })}
+        onPreviewCardChange={setPreviewCardNumber}
+        onPreviewDeckChange={setPreviewDeckType}
+      />
+
       <CommunitySharingSection
         settings={settings}
         selectedDeck={selectedDeck}
@@ -218,7 +351,7 @@ export default function Settings() {
         generatedCards={generatedCards}
         selectedDeckType={settings.selectedDeckType}
         deckTypes={deckData.deckTypes}
-        cards={deckData.cards}
+        cards={getDeckCards(true)}
         onToggleGallery={() => setShowGallery(!showGallery)}
         onGalleryDeckFilterChange={setGalleryDeckFilter}
         onOpenCard={handleOpenCardFromGallery}
@@ -234,6 +367,36 @@ export default function Settings() {
         exportStatus={exportStatus}
         generatedCardsCount={generatedCards.length}
         onExportAll={handleExportAll}
+        importing={importing}
+        importMode={importMode}
+        onImportModeChange={setImportMode}
+        onImportZip={handleImportZip}
+        encrypt={encryptBackup}
+        passphrase={backupPassphrase}
+        onEncryptChange={setEncryptBackup}
+        onPassphraseChange={setBackupPassphrase}
+      />
+
+      <StorageSection
+        showStorage={showStorage}
+        usage={storage.usage}
+        estimate={storage.estimate}
+        busy={storage.busy}
+        status={storage.status}
+        keepLatest={storage.keepLatest}
+        olderCount={storage.olderCount}
+        communityCount={storage.communityCount}
+        videoDeckType={storage.videoDeckType}
+        videoCount={storage.videoCount}
+        deckTypes={combinedDecks}
+        getCardName={(cardNumber) => getCardByNumber(cardNumber)?.traditional.name || `Card ${cardNumber}`}
+        onToggle={() => setShowStorage(!showStorage)}
+        onKeepLatestChange={storage.setKeepLatest}
+        onDeleteOlder={() => void storage.deleteOlderGenerations()}
+        onDropCommunity={() => void storage.dropCommunityImports()}
+        onVideoDeckChange={storage.setVideoDeckType}
+        onPurgeVideos={() => void storage.purgeVideos()}
+        onRequestPersistence={() => void storage.requestPersistence()}
       />
 
       <ControlsHelpSection
@@ -243,6 +406,7 @@ export default function Settings() {
 
       <TestGenerationSection
         testCardNumber={testCardNumber}
+        deckCardCount={deckCardCount}
         isGenerating={isGenerating}
         hasImageApiKey={hasImageApiKey}
         missingApiKeyMessage={missingApiKeyMessage}
@@ -251,17 +415,51 @@ export default function Settings() {
       />
 
       <BulkGenerationSection
+        deckCardCount={deckCardCount}
         isGenerating={isGenerating}
         hasImageApiKey={hasImageApiKey}
-        hasGeminiApiKey={Boolean(settings.geminiApiKey)}
+        canGenerateVideos={canGenerateVideo(settings)}
+        videoQuota={settings.apiProvider === MOCK_PROVIDER_ID ? undefined : getDailyUsage(VEO_RATE_LIMIT_ID)}
+        imageEstimate={imageRunEstimate}
+        videoEstimate={videoRunEstimate}
+        imageBudgetMessage={getBudgetBlockMessage(costRecords, imageRunEstimate, settings.monthlyBudget)}
+        videoBudgetMessage={getBudgetBlockMessage(costRecords, videoRunEstimate, settings.monthlyBudget)}
         missingApiKeyMessage={missingApiKeyMessage}
-        onGenerateAllCards={() => void generateAllCards()}
+        onGenerateAllCards={generateAllCards}
         onClearCache={() => {
           if (window.confirm('This will delete all generated cards. Are you sure?')) {
             clearGeneratedCards();
           }
         }}
-        onGenerateAllVideos={() => void generateAllVideos()}
+        onGenerateAllVideos={generateAllVideos}
+      />
+
+      <PromptReviewSection
+        showReview={showPromptReview}
+        requests={
+          showPromptReview
+            ? getDeckCards(settings.includeMinorArcana).map((card) => composeCardRequest(card, selectedDeck, settings))
+            : []
+        }
+        getCardName={(cardNumber) => getCardByNumber(cardNumber)?.traditional.name || `Card ${cardNumber}`}
+        onToggle={() => setShowPromptReview(!showPromptReview)}
+      />
+
+      <GenerationQueueSection
+        jobs={generationJobs}
+        getCardName={(cardNumber) => getCardByNumber(cardNumber)?.traditional.name || `Card ${cardNumber}`}
+        onPause={pauseGenerationJob}
+        onResume={resumeGenerationJob}
+        onCancel={cancelGenerationJob}
+        onRetryFailed={retryFailedGenerationJobItems}
+        onClearFinished={clearFinishedGenerationJobs}
+      />
+
+      <CostTrackingSection
+        summary={summarizeCosts(costRecords)}
+        monthlyBudget={settings.monthlyBudget}
+        getDeckName={(deckType) => combinedDecks.find((deck) => deck.id === deckType)?.name || deckType}
+        onMonthlyBudgetChange={(monthlyBudget) => updateSettings({ monthlyBudget })}
       />
 
       <GenerationErrorBanner
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { Text, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
+import { getCardNumberLabel } from '../../utils/tarotCards';
 import type { TarotCard } from '../../types';
 import { getCardNameForDeck, getRandomKeywordForDeck } from './cardInfo';
 
@@ -78,7 +79,7 @@ export function CardDeckCardVisual({
           anchorX="center"
           anchorY="middle"
         >
-          {showCardNumbers ? (card.number === 0 ? '0' : card.number) : '☆'}
+          {showCardNumbers ? getCardNumberLabel(card) : '☆'}
         </Text>
       )}
 
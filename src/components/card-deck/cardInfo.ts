@@ -1,3 +1,4 @@
+import { random } from '../../utils/random';
 import type { TarotCard } from '../../types';
 
 export function getCardNameForDeck(card: TarotCard, deckType: string): string {
@@ -25,5 +26,5 @@ export function getRandomKeywordForDeck(card: TarotCard, deckType: string): stri
   else if (deckType === 'japanese-shinto') keywords = card.shinto.keywords;
   else if (deckType === 'advaita-vedanta') keywords = card.advaita.keywords;
 
-  return keywords[Math.floor(Math.random() * keywords.length)] || 'mystery';
+  return keywords[Math.floor(random() * keywords.length)] || 'mystery';
 }
@@ -1,11 +1,12 @@
 import * as THREE from 'three';
 import type { TarotCard } from '../../types';
+import { random, type RandomSource } from '../../utils/random';
 import type { CardPhysics } from './types';
 
-function getMass(card: TarotCard): number {
+function getMass(card: TarotCard, rng: RandomSource): number {
   if (card.number === 0) return 2.2;
   if (card.number <= 21) return 1.6;
-  return 0.9 + Math.random() * 0.2;
+  return 0.9 + rng() * 0.2;
 }
 
 function getPersonality(card: TarotCard): 'shy' | 'neutral' | 'curious' {
@@ -13,32 +14,32 @@ function getPersonality(card: TarotCard): 'shy' | 'neutral' | 'curious' {
   return hash === 0 ? 'shy' : hash === 1 ? 'neutral' : 'curious';
 }
 
-export function createInitialPhysics(cards: TarotCard[]): CardPhysics[] {
+export function createInitialPhysics(cards: TarotCard[], rng: RandomSource = random): CardPhysics[] {
   return cards.map((card, index) => {
     const angle = (index / cards.length) * Math.PI * 4;
     const radius = 2 + (index % 3) * 1.5;
     const initialPos = new THREE.Vector3(
-      Math.cos(angle) * radius + (Math.random() - 0.5) * 2,
-      Math.sin(angle) * radius * 0.5 + (Math.random() - 0.5) * 2,
-      (Math.random() - 0.5) * 3
+      Math.cos(angle) * radius + (rng() - 0.5) * 2,
+      Math.sin(angle) * radius * 0.5 + (rng() - 0.5) * 2,
+      (rng() - 0.5) * 3
     );
     const curveT = index / cards.length;
-    const curveTVelocity = 0.015 + (Math.random() - 0.5) * 0.008;
+    const curveTVelocity = 0.015 + (rng() - 0.5) * 0.008;
 
     return {
       position: initialPos.clone(),
       velocity: new THREE.Vector3(
-        (Math.random() - 0.5) * 0.15,
-        (Math.random() - 0.5) * 0.15,
-        (Math.random() - 0.5) * 0.1
+        (rng() - 0.5) * 0.15,
+        (rng() - 0.5) * 0.15,
+        (rng() - 0.5) * 0.1
       ),
       acceleration: new THREE.Vector3(),
       targetPosition: initialPos.clone(),
-      mass: getMass(card),
+      mass: getMass(card, rng),
       personality: getPersonality(card),
       breathPhase: (index / cards.length) * Math.PI * 2,
       awarenessTarget: null,
-      restlessness: 0.3 + Math.random() * 0.4,
+      restlessness: 0.3 + rng() * 0.4,
       lastImpulseTime: 0,
       curveT,
       curveTVelocity,
@@ -53,7 +54,7 @@ export function createInitialPhysics(cards: TarotCard[]): CardPhysics[] {
   });
 }
 
-export function createInitialCardData(cards: TarotCard[]): Array<{
+export function createInitialCardData(cards: TarotCard[], rng: RandomSource = random): Array<{
   position: [number, number, number];
   rotation: [number, number, number];
 }> {
@@ -63,14 +64,14 @@ export function createInitialCardData(cards: TarotCard[]): Array<{
 
     return {
       position: [
-        Math.cos(angle) * radius + (Math.random() - 0.5) * 2,
-        Math.sin(angle) * radius * 0.5 + (Math.random() - 0.5) * 2,
-        (Math.random() - 0.5) * 3,
+        Math.cos(angle) * radius + (rng() - 0.5) * 2,
+        Math.sin(angle) * radius * 0.5 + (rng() - 0.5) * 2,
+        (rng() - 0.5) * 3,
       ],
       rotation: [
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
+        rng() * Math.PI,
+        rng() * Math.PI,
+        rng() * Math.PI,
       ],
     };
   });
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react';
 import { type ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
+import { random } from '../../utils/random';
 import type { AmbientCurrentState, CardPhysics, CurveState, PhaseState } from './types';
 import { applyCardVisualMotion, updateDraggingMotion, updateFreeMotion } from './motionUtils';
 
@@ -42,9 +43,9 @@ export function useCardMotion({
   const angularVelocity = useMemo(
     () =>
       new THREE.Vector3(
-        (Math.random() - 0.5) * 0.6,
-        (Math.random() - 0.5) * 0.6,
-        (Math.random() - 0.5) * 0.6
+        (random() - 0.5) * 0.6,
+        (random() - 0.5) * 0.6,
+        (random() - 0.5) * 0.6
       ),
     []
   );
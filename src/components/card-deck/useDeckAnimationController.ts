@@ -2,6 +2,7 @@ import { useEffect, useRef, type Dispatch, type MutableRefObject, type SetStateA
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { debugLog } from '../../utils/logger';
+import { random } from '../../utils/random';
 import { blendCurves, CURVE_CYCLE_DURATION, CURVE_SEQUENCE, CURVE_TRANSITION_DURATION } from './curves';
 import type {
   AmbientCurrentState,
@@ -94,13 +95,13 @@ export function useDeckAnimationController({
     }
 
     currentRef.current.changeTimer += dt;
-    if (currentRef.current.changeTimer > 8 + Math.random() * 7) {
+    if (currentRef.current.changeTimer > 8 + random() * 7) {
       currentRef.current.changeTimer = 0;
-      currentRef.current.targetStrength = Math.random() < 0.3 ? 0 : 0.15 + Math.random() * 0.2;
+      currentRef.current.targetStrength = random() < 0.3 ? 0 : 0.15 + random() * 0.2;
       currentRef.current.direction = new THREE.Vector3(
-        Math.random() - 0.5,
-        Math.random() - 0.5,
-        (Math.random() - 0.5) * 0.3
+        random() - 0.5,
+        random() - 0.5,
+        (random() - 0.5) * 0.3
       ).normalize();
     }
     currentRef.current.strength += (currentRef.current.targetStrength - currentRef.current.strength) * dt * 0.5;
@@ -177,16 +178,16 @@ export function useDeckAnimationController({
       const totalCards = allPhysicsRef.current.length;
       const selectedIndices = new Set<number>();
       while (selectedIndices.size < INJECTION_COUNT) {
-        selectedIndices.add(Math.floor(Math.random() * totalCards));
+        selectedIndices.add(Math.floor(random() * totalCards));
       }
 
       selectedIndices.forEach((index) => {
         const physics = allPhysicsRef.current[index];
-        const magnitude = INJECTION_MAGNITUDE_MIN + Math.random() * (INJECTION_MAGNITUDE_MAX - INJECTION_MAGNITUDE_MIN);
+        const magnitude = INJECTION_MAGNITUDE_MIN + random() * (INJECTION_MAGNITUDE_MAX - INJECTION_MAGNITUDE_MIN);
         const direction = new THREE.Vector3(
-          Math.random() - 0.5,
-          Math.random() - 0.5,
-          Math.random() - 0.5
+          random() - 0.5,
+          random() - 0.5,
+          random() - 0.5
         ).normalize();
 
         const impulse = direction.multiplyScalar(magnitude);
@@ -1,5 +1,6 @@
 import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
-import type { CardInterpretation, GeneratedCard, TarotCard } from '../../types';
+import type { CardInterpretation, CardOrientation, GeneratedCard, PromptVersion, TarotCard } from '../../types';
+import type { ComposedCardRequest } from '../../utils/imageGeneration';
 import { CardDetailExpandedMediaColumn } from './CardDetailExpandedMediaColumn';
 import { CardDetailExpandedInfoColumn } from './CardDetailExpandedInfoColumn';
 
@@ -12,6 +13,8 @@ type FlipOrientation = {
 type CardDetailExpandedProps = {
   selectedCard: TarotCard;
   interpretation: CardInterpretation;
+  orientation: CardOrientation | null;
+  reversedMeaning?: string;
   generatedCard?: GeneratedCard;
   allGenerations: GeneratedCard[];
   currentGenerationIndex: number;
@@ -24,6 +27,9 @@ type CardDetailExpandedProps = {
   promptText: string;
   setPromptText: Dispatch<SetStateAction<string>>;
   onSavePrompt: () => void;
+  composedRequest?: ComposedCardRequest;
+  promptVersions: PromptVersion[];
+  onRegenerateWithVersion: (version: PromptVersion) => void;
   getTitle: () => string;
   flipOrientation: FlipOrientation;
   flipTrigger: number;
@@ -62,12 +68,20 @@ export function CardDetailExpanded(props: CardDetailExpandedProps) {
       <CardDetailExpandedInfoColumn
         selectedCard={props.selectedCard}
         interpretation={props.interpretation}
+        orientation={props.orientation}
+        reversedMeaning={props.reversedMeaning}
         totalCards={props.totalCards}
         currentCardPosition={props.currentCardPosition}
         getTitle={props.getTitle}
         promptText={props.promptText}
         setPromptText={props.setPromptText}
         onSavePrompt={props.onSavePrompt}
+        composedRequest={props.composedRequest}
+        promptVersions={props.promptVersions}
+        allGenerations={props.allGenerations}
+        shownPromptVersion={props.generatedCard?.promptVersion}
+        isGenerating={props.isGenerating}
+        onRegenerateWithVersion={props.onRegenerateWithVersion}
       />
     </>
   );
@@ -1,26 +1,45 @@
 import type { Dispatch, SetStateAction } from 'react';
-import type { CardInterpretation, TarotCard } from '../../types';
+import type { CardInterpretation, CardOrientation, GeneratedCard, PromptVersion, TarotCard } from '../../types';
+import type { ComposedCardRequest } from '../../utils/imageGeneration';
+import { ComposedRequestView } from '../ComposedRequestView';
+import { CardDetailPromptHistory } from './CardDetailPromptHistory';
 
 type CardDetailExpandedInfoColumnProps = {
   selectedCard: TarotCard;
   interpretation: CardInterpretation;
+  orientation: CardOrientation | null;
+  reversedMeaning?: string;
   totalCards: number;
   currentCardPosition: number;
   getTitle: () => string;
   promptText: string;
   setPromptText: Dispatch<SetStateAction<string>>;
   onSavePrompt: () => void;
+  composedRequest?: ComposedCardRequest;
+  promptVersions: PromptVersion[];
+  allGenerations: GeneratedCard[];
+  shownPromptVersion?: number;
+  isGenerating: boolean;
+  onRegenerateWithVersion: (version: PromptVersion) => void;
 };
 
 export function CardDetailExpandedInfoColumn({
   selectedCard,
   interpretation,
+  orientation,
+  reversedMeaning,
   totalCards,
   currentCardPosition,
   getTitle,
   promptText,
   setPromptText,
   onSavePrompt,
+  composedRequest,
+  promptVersions,
+  allGenerations,
+  shownPromptVersion,
+  isGenerating,
+  onRegenerateWithVersion,
 }: CardDetailExpandedInfoColumnProps) {
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '2rem' }}>
@@ -36,6 +55,21 @@ export function CardDetailExpandedInfoColumn({
             {interpretation.sequence}
           </div>
         )}
+        {orientation && (
+          <div
+            style={{
+              display: 'inline-block',
+              padding: '0.25rem 0.75rem',
+              background: orientation === 'reversed' ? 'rgba(147, 51, 234, 0.2)' : 'rgba(212, 175, 55, 0.15)',
+              border: `1px solid ${orientation === 'reversed' ? 'rgba(147, 51, 234, 0.5)' : 'rgba(212, 175, 55, 0.4)'}`,
+              borderRadius: '999px',
+              fontSize: '0.85rem',
+              color: orientation === 'reversed' ? '#c084fc' : '#d4af37',
+            }}
+          >
+            {orientation === 'reversed' ? '⟲ Drawn reversed' : 'Drawn upright'}
+          </div>
+        )}
       </div>
 
       {interpretation.meaning && (
@@ -49,6 +83,17 @@ export function CardDetailExpandedInfoColumn({
         </div>
       )}
 
+      {reversedMeaning && (
+        <div>
+          <h3 style={{ fontSize: '1.1rem', marginBottom: '0.75rem', opacity: 0.9, color: orientation === 'reversed' ? '#c084fc' : undefined }}>
+            Reversed Meaning
+          </h3>
+          <p style={{ fontSize: '1rem', lineHeight: '1.6', opacity: orientation === 'reversed' ? 0.95 : 0.6 }}>
+            {reversedMeaning}
+          </p>
+        </div>
+      )}
+
       {interpretation.abilities && (
         <div>
           <h3 style={{ fontSize: '1.1rem', marginBottom: '0.75rem', opacity: 0.9 }}>
@@ -100,9 +145,29 @@ export function CardDetailExpandedInfoColumn({
           placeholder="Edit the generation prompt for this card"
         />
         <div style={{ fontSize: '0.85rem', opacity: 0.65, marginTop: '0.35rem' }}>
-          Changes save on blur. Future uploads/share will include this prompt.
+          Changes save on blur as a new prompt version. Future generations use the latest version.
         </div>
       </div>
+
+      <CardDetailPromptHistory
+        versions={promptVersions}
+        generations={allGenerations}
+        shownVersion={shownPromptVersion}
+        isGenerating={isGenerating}
+        onRegenerate={onRegenerateWithVersion}
+      />
+
+      {composedRequest && (
+        <details>
+          <summary style={{ fontSize: '1.1rem', fontWeight: 600, opacity: 0.9, cursor: 'pointer' }}>
+            Next Generation Request (Dry Run)
+          </summary>
+          <div style={{ fontSize: '0.85rem', opacity: 0.65, margin: '0.35rem 0' }}>
+            What regenerating this card would send with the current settings. Nothing is sent.
+          </div>
+          <ComposedRequestView composed={composedRequest} />
+        </details>
+      )}
     </div>
   );
 }
@@ -1,5 +1,7 @@
 import type { MutableRefObject } from 'react';
 import { CardFlipImageInner } from '../CardFlipImageInner';
+import { getCardImageSources } from '../../utils/cardAnimation';
+import { getCardNumberLabel } from '../../utils/tarotCards';
 import type { GeneratedCard, TarotCard } from '../../types';
 
 type FlipOrientation = {
@@ -49,6 +51,8 @@ export function CardDetailExpandedMediaColumn({
   videoRef,
   videoSrc,
 }: CardDetailExpandedMediaColumnProps) {
+  const { stillSrc, animatedSrc } = getCardImageSources(generatedCard);
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
       <div
@@ -64,22 +68,11 @@ export function CardDetailExpandedMediaColumn({
           overflow: 'hidden',
         }}
       >
-        {generatedCard?.gifUrl ? (
-          <CardFlipImageInner
-            key={generatedCard.gifUrl}
-            src={generatedCard.gifUrl}
-            alt={getTitle()}
-            startAngle={flipOrientation.startAngle}
-            startTilt={flipOrientation.startTilt}
-            targetAngle={flipOrientation.targetAngle}
-            flipTrigger={flipTrigger}
-            loadedMediaRef={loadedMediaRef}
-            onReady={onCardReady}
-          />
-        ) : generatedCard?.frames?.[0] ? (
+        {stillSrc ? (
           <CardFlipImageInner
-            key={generatedCard.frames[0]}
-            src={generatedCard.frames[0]}
+            key={stillSrc}
+            src={stillSrc}
+            animatedSrc={animatedSrc}
             alt={getTitle()}
             startAngle={flipOrientation.startAngle}
             startTilt={flipOrientation.startTilt}
@@ -92,7 +85,7 @@ export function CardDetailExpandedMediaColumn({
           <div style={{ textAlign: 'center', padding: '2rem', opacity: 0.5 }}>
             <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🎴</div>
             <div style={{ fontSize: '1.2rem', marginBottom: '0.5rem' }}>
-              {selectedCard.number === 0 ? '0' : selectedCard.number}
+              {getCardNumberLabel(selectedCard)}
             </div>
             <div style={{ fontSize: '0.9rem' }}>Card not generated yet</div>
             <div style={{ fontSize: '0.8rem', marginTop: '1rem' }}>
@@ -107,6 +100,7 @@ export function CardDetailExpandedMediaColumn({
           <video
             ref={videoRef}
             src={videoSrc}
+            poster={generatedCard.posterUrl}
             controls
             style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover' }}
           />
@@ -1,6 +1,7 @@
 import { motion } from 'framer-motion';
 import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
-import type { CardInterpretation, GeneratedCard, TarotCard } from '../../types';
+import type { CardInterpretation, CardOrientation, GeneratedCard, PromptVersion, TarotCard } from '../../types';
+import type { ComposedCardRequest } from '../../utils/imageGeneration';
 import { CardDetailPreview } from './CardDetailPreview';
 import { CardDetailExpanded } from './CardDetailExpanded';
 
@@ -33,6 +34,8 @@ type CardDetailModalProps = {
   loadedMediaRef: MutableRefObject<Set<string>>;
   onCardReady: (src: string) => void;
   interpretation: CardInterpretation;
+  orientation: CardOrientation | null;
+  reversedMeaning?: string;
   allGenerations: GeneratedCard[];
   currentGenerationIndex: number;
   onPrevGeneration: () => void;
@@ -43,6 +46,9 @@ type CardDetailModalProps = {
   promptText: string;
   setPromptText: Dispatch<SetStateAction<string>>;
   onSavePrompt: () => void;
+  composedRequest?: ComposedCardRequest;
+  promptVersions: PromptVersion[];
+  onRegenerateWithVersion: (version: PromptVersion) => void;
   totalCards: number;
   currentCardPosition: number;
 };
@@ -70,6 +76,8 @@ export function CardDetailModal({
   loadedMediaRef,
   onCardReady,
   interpretation,
+  orientation,
+  reversedMeaning,
   allGenerations,
   currentGenerationIndex,
   onPrevGeneration,
@@ -80,6 +88,9 @@ export function CardDetailModal({
   promptText,
   setPromptText,
   onSavePrompt,
+  composedRequest,
+  promptVersions,
+  onRegenerateWithVersion,
   totalCards,
   currentCardPosition,
 }: CardDetailModalProps) {
@@ -257,6 +268,8 @@ export function CardDetailModal({
           <CardDetailExpanded
             selectedCard={selectedCard}
             interpretation={interpretation}
+            orientation={orientation}
+            reversedMeaning={reversedMeaning}
             generatedCard={generatedCard}
             allGenerations={allGenerations}
             currentGenerationIndex={currentGenerationIndex}
@@ -269,6 +282,9 @@ export function CardDetailModal({
             promptText={promptText}
             setPromptText={setPromptText}
             onSavePrompt={onSavePrompt}
+            composedRequest={composedRequest}
+            promptVersions={promptVersions}
+            onRegenerateWithVersion={onRegenerateWithVersion}
             getTitle={getTitle}
             flipOrientation={flipOrientation}
             flipTrigger={flipTrigger}
@@ -1,5 +1,7 @@
 import { useState, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
 import { CardFlipImageInner } from '../CardFlipImageInner';
+import { getCardImageSources } from '../../utils/cardAnimation';
+import { getCardNumberLabel } from '../../utils/tarotCards';
 import type { GeneratedCard, TarotCard } from '../../types';
 
 type FlipOrientation = {
@@ -38,6 +40,7 @@ export function CardDetailPreview({
   isCardReady,
 }: CardDetailPreviewProps) {
   const [tilt, setTilt] = useState({ x: 0, y: 0, shineX: 50, shineY: 50 });
+  const { stillSrc, animatedSrc } = getCardImageSources(generatedCard);
 
   return (
     <div style={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
@@ -87,6 +90,7 @@ export function CardDetailPreview({
             <video
               ref={videoRef}
               src={videoSrc}
+              poster={generatedCard.posterUrl}
               autoPlay
               loop
               playsInline
@@ -122,22 +126,11 @@ export function CardDetailPreview({
               {videoMuted ? '🔇' : '🔊'}
             </button>
           </>
-        ) : generatedCard?.gifUrl ? (
+        ) : stillSrc ? (
           <CardFlipImageInner
-            key={generatedCard.gifUrl}
-            src={generatedCard.gifUrl}
-            alt={getTitle()}
-            startAngle={flipOrientation.startAngle}
-            startTilt={flipOrientation.startTilt}
-            targetAngle={flipOrientation.targetAngle}
-            flipTrigger={flipTrigger}
-            loadedMediaRef={loadedMediaRef}
-            onReady={onCardReady}
-          />
-        ) : generatedCard?.frames?.[0] ? (
-          <CardFlipImageInner
-            key={generatedCard.frames[0]}
-            src={generatedCard.frames[0]}
+            key={stillSrc}
+            src={stillSrc}
+            animatedSrc={animatedSrc}
             alt={getTitle()}
             startAngle={flipOrientation.startAngle}
             startTilt={flipOrientation.startTilt}
@@ -150,7 +143,7 @@ export function CardDetailPreview({
           <div style={{ textAlign: 'center', padding: '2rem', opacity: 0.5 }}>
             <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🎴</div>
             <div style={{ fontSize: '1.2rem', marginBottom: '0.5rem' }}>
-              {selectedCard.number === 0 ? '0' : selectedCard.number}
+              {getCardNumberLabel(selectedCard)}
             </div>
             <div style={{ fontSize: '0.9rem' }}>Card not generated yet</div>
           </div>
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { GeneratedCard, PromptVersion } from '../../types';
+import { diffPrompts } from '../../utils/promptVersions';
+
+type CardDetailPromptHistoryProps = {
+  versions: PromptVersion[];          // this card and deck, oldest first
+  generations: GeneratedCard[];
+  shownVersion?: number;              // version of the generation in the carousel
+  isGenerating: boolean;
+  onRegenerate: (version: PromptVersion) => void;
+};
+
+const selectStyle = {
+  padding: '0.35rem 0.5rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+const DIFF_STYLES = {
+  same: {},
+  added: { color: '#d4af37', background: 'rgba(212, 175, 55, 0.15)' },
+  removed: { color: '#ff6b6b', textDecoration: 'line-through' },
+};
+
+export function CardDetailPromptHistory({
+  versions,
+  generations,
+  shownVersion,
+  isGenerating,
+  onRegenerate,
+}: CardDetailPromptHistoryProps) {
+  const latest = versions[versions.length - 1];
+  const [compareTo, setCompareTo] = useState<number | undefined>(undefined);
+  const [compareFrom, setCompareFrom] = useState<number | undefined>(undefined);
+
+  if (!latest) {
+    return (
+      <div>
+        <h3 style={{ fontSize: '1.1rem', marginBottom: '0.5rem', opacity: 0.9 }}>Prompt History</h3>
+        <div style={{ fontSize: '0.85rem', opacity: 0.65 }}>
+          No versions yet. Saving an edit or generating this card records one.
+        </div>
+      </div>
+    );
+  }
+
+  // Default comparison: the shown image's version against the one before it
+  const to = versions.find((v) => v.version === (compareTo ?? shownVersion)) ?? latest;
+  const from =
+    versions.find((v) => v.version === compareFrom) ?? versions.filter((v) => v.version < to.version).pop() ?? to;
+  const imageCount = (version: number) => generations.filter((g) => g.promptVersion === version).length;
+
+  return (
+    <div>
+      <h3 style={{ fontSize: '1.1rem', marginBottom: '0.5rem', opacity: 0.9 }}>Prompt History</h3>
+      <div style={{ fontSize: '0.85rem', opacity: 0.75, marginBottom: '0.5rem' }}>
+        {shownVersion ? `This image was generated with v${shownVersion}.` : 'This image predates prompt history.'}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem', marginBottom: '0.75rem' }}>
+        {[...versions].reverse().map((version) => (
+          <div
+            key={version.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.75rem',
+              padding: '0.4rem 0.6rem',
+              background: version.version === shownVersion ? 'rgba(212, 175, 55, 0.1)' : 'rgba(0, 0, 0, 0.2)',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+              borderRadius: '8px',
+              fontSize: '0.85rem',
+            }}
+          >
+            <span style={{ color: '#d4af37', fontWeight: 600 }}>v{version.version}</span>
+            <span style={{ opacity: 0.7 }}>{new Date(version.createdAt).toLocaleString()}</span>
+            <span style={{ opacity: 0.7, flex: 1 }}>
+              {imageCount(version.version)} image{imageCount(version.version) === 1 ? '' : 's'}
+            </span>
+            <button
+              onClick={() => onRegenerate(version)}
+              disabled={isGenerating}
+              style={{
+                padding: '0.3rem 0.6rem',
+                background: 'rgba(147, 51, 234, 0.2)',
+                border: '1px solid rgba(147, 51, 234, 0.5)',
+                borderRadius: '6px',
+                color: '#e8e8e8',
+                fontSize: '0.8rem',
+                cursor: isGenerating ? 'not-allowed' : 'pointer',
+                opacity: isGenerating ? 0.5 : 1,
+              }}
+            >
+              Regenerate with v{version.version}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', fontSize: '0.85rem' }}>
+            Compare
+            <select value={from.version} onChange={(e) => setCompareFrom(Number(e.target.value))} style={selectStyle}>
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            →
+            <select value={to.version} onChange={(e) => setCompareTo(Number(e.target.value))} style={selectStyle}>
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+          </div>
+          <div
+            style={{
+              padding: '0.75rem',
+              background: 'rgba(0, 0, 0, 0.25)',
+              border: '1px solid rgba(147, 51, 234, 0.3)',
+              borderRadius: '10px',
+              fontFamily: 'monospace',
+              fontSize: '0.85rem',
+              lineHeight: 1.5,
+              whiteSpace: 'pre-wrap',
+            }}
+          >
+            {diffPrompts(from.prompt, to.prompt).map((segment, index) => (
+              <span key={index} style={DIFF_STYLES[segment.type]}>
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
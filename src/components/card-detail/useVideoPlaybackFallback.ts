@@ -9,7 +9,7 @@ type UseVideoPlaybackFallbackArgs = {
   videoObjectUrl?: string;
   setVideoObjectUrl: Dispatch<SetStateAction<string | undefined>>;
   setVideoSrc: Dispatch<SetStateAction<string | undefined>>;
-  apiProvider: 'openrouter' | 'gemini';
+  apiProvider: string;
   geminiApiKey?: string;
 };
 
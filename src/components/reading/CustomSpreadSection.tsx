@@ -0,0 +1,104 @@
+import { useState } from 'react';
+
+type CustomSpreadSectionProps = {
+  showEditor: boolean;
+  onToggle: () => void;
+  onSave: (name: string, positionNames: string[]) => boolean;
+};
+
+export function CustomSpreadSection({ showEditor, onToggle, onSave }: CustomSpreadSectionProps) {
+  const [name, setName] = useState('');
+  const [positionsText, setPositionsText] = useState('');
+
+  const handleSave = () => {
+    const saved = onSave(name, positionsText.split('\n'));
+    if (saved) {
+      setName('');
+      setPositionsText('');
+    }
+  };
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(147, 51, 234, 0.1)',
+          border: '1px solid rgba(147, 51, 234, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showEditor ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.1rem', margin: 0, color: '#9333ea' }}>
+          Create a Custom Spread
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#9333ea' }}>
+          {showEditor ? '−' : '+'}
+        </span>
+      </div>
+
+      {showEditor && (
+        <div style={{ padding: '1.5rem', background: 'rgba(0, 0, 0, 0.2)', borderRadius: '8px' }}>
+          <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+            Spread Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Relationship Check-in"
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              marginBottom: '1rem',
+              background: 'rgba(0, 0, 0, 0.3)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+              color: '#e8e8e8',
+              fontSize: '0.95rem',
+            }}
+          />
+          <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+            Positions (one per line, in draw order)
+          </label>
+          <textarea
+            value={positionsText}
+            onChange={(e) => setPositionsText(e.target.value)}
+            placeholder={'You\nThem\nThe connection'}
+            rows={5}
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              background: 'rgba(0, 0, 0, 0.3)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+              color: '#e8e8e8',
+              fontSize: '0.9rem',
+              resize: 'vertical',
+            }}
+          />
+          <button
+            onClick={handleSave}
+            style={{
+              marginTop: '1rem',
+              padding: '0.75rem 1.5rem',
+              background: 'rgba(147, 51, 234, 0.3)',
+              border: '1px solid rgba(147, 51, 234, 0.5)',
+              borderRadius: '8px',
+              color: '#e8e8e8',
+              fontSize: '0.95rem',
+              cursor: 'pointer',
+            }}
+          >
+            Save Spread
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
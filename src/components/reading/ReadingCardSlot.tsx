@@ -0,0 +1,74 @@
+import type { CardOrientation, SpreadPosition, TarotCard } from '../../types';
+import { getCardNumberLabel } from '../../utils/tarotCards';
+
+type ReadingCardSlotProps = {
+  position: SpreadPosition;
+  card: TarotCard;
+  orientation: CardOrientation;
+  cardName: string;
+  mediaSrc?: string;
+  onOpen: () => void;
+};
+
+export function ReadingCardSlot({ position, card, orientation, cardName, mediaSrc, onOpen }: ReadingCardSlotProps) {
+  const rotation = (position.rotated ? 90 : 0) + (orientation === 'reversed' ? 180 : 0);
+  return (
+    <div
+      style={{
+        gridColumn: position.column,
+        gridRow: position.row,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '0.4rem',
+        zIndex: position.rotated ? 1 : 0,
+        pointerEvents: 'none',
+      }}
+    >
+      <button
+        onClick={onOpen}
+        title={`${position.description ? `${position.name}: ${position.description}` : position.name}${orientation === 'reversed' ? ' (reversed)' : ''}`}
+        style={{
+          width: '110px',
+          aspectRatio: '2/3',
+          padding: 0,
+          background: 'linear-gradient(135deg, #1a1a2e 0%, #0a0e27 100%)',
+          border: '2px solid rgba(212, 175, 55, 0.5)',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          cursor: 'pointer',
+          transform: rotation ? `rotate(${rotation}deg)` : undefined,
+          boxShadow: '0 6px 20px rgba(0, 0, 0, 0.45)',
+          pointerEvents: 'auto',
+          color: '#e8e8e8',
+        }}
+      >
+        {mediaSrc ? (
+          <img
+            src={mediaSrc}
+            alt={cardName}
+            style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+          />
+        ) : (
+          <div style={{ padding: '0.5rem', fontSize: '0.8rem', textAlign: 'center' }}>
+            <div style={{ fontSize: '1.5rem', marginBottom: '0.35rem' }}>🎴</div>
+            <div style={{ color: '#d4af37', marginBottom: '0.25rem' }}>{getCardNumberLabel(card)}</div>
+            <div style={{ opacity: 0.8 }}>{cardName}</div>
+          </div>
+        )}
+      </button>
+      {!position.rotated && (
+        <div style={{ textAlign: 'center', maxWidth: '130px' }}>
+          <div style={{ fontSize: '0.8rem', color: '#d4af37', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+            {position.name}
+          </div>
+          <div style={{ fontSize: '0.85rem', opacity: 0.8 }}>
+            {cardName}
+            {orientation === 'reversed' && <span style={{ color: '#c084fc' }}> ⟲</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
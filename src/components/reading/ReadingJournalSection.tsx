@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import type { Reading, TarotCard } from '../../types';
+import { getCardNameForDeck } from '../card-deck/cardInfo';
+import { countCardAppearances, dateInputToTimestamp, filterReadings } from '../../utils/readingJournal';
+import { getCardNumberLabel } from '../../utils/tarotCards';
+
+type ReadingJournalSectionProps = {
+  readings: Reading[];
+  cards: TarotCard[];
+  deckType: string;
+  onOpenReading: (reading: Reading) => void;
+  onDeleteReading: (id: string) => void;
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.6rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e8e8e8',
+  fontSize: '0.9rem',
+};
+
+const labelStyle = { display: 'block', fontSize: '0.85rem', marginBottom: '0.4rem', opacity: 0.9 };
+
+export function ReadingJournalSection({
+  readings,
+  cards,
+  deckType,
+  onOpenReading,
+  onDeleteReading,
+}: ReadingJournalSectionProps) {
+  const [cardFilter, setCardFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const filtered = useMemo(
+    () =>
+      filterReadings(readings, {
+        cardNumber: cardFilter === '' ? undefined : Number(cardFilter),
+        from: dateInputToTimestamp(fromDate),
+        to: dateInputToTimestamp(toDate, true),
+      }),
+    [readings, cardFilter, fromDate, toDate]
+  );
+  const recurring = useMemo(
+    () => countCardAppearances(filtered).filter((a) => a.count > 1).slice(0, 5),
+    [filtered]
+  );
+
+  const cardName = (cardNumber: number, readingDeckType = deckType) => {
+    const card = cards.find((c) => c.number === cardNumber);
+    return card ? getCardNameForDeck(card, readingDeckType) : `Card ${cardNumber}`;
+  };
+
+  return (
+    <section>
+      <h3 style={{ fontSize: '1.3rem', marginBottom: '1rem', color: '#d4af37' }}>
+        Reading Journal
+      </h3>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: '0.75rem', marginBottom: '1.25rem' }}>
+        <div>
+          <label style={labelStyle}>Card</label>
+          <select value={cardFilter} onChange={(e) => setCardFilter(e.target.value)} style={inputStyle}>
+            <option value="">Any card</option>
+            {cards.map((card) => (
+              <option key={card.number} value={card.number}>
+                {getCardNumberLabel(card)} — {getCardNameForDeck(card, deckType)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>From</label>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={inputStyle} />
+        </div>
+        <div>
+          <label style={labelStyle}>To</label>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} style={inputStyle} />
+        </div>
+      </div>
+
+      {recurring.length > 0 && (
+        <div
+          style={{
+            padding: '0.75rem 1rem',
+            marginBottom: '1.25rem',
+            background: 'rgba(212, 175, 55, 0.08)',
+            border: '1px solid rgba(212, 175, 55, 0.3)',
+            borderRadius: '8px',
+            fontSize: '0.9rem',
+          }}
+        >
+          <span style={{ color: '#d4af37' }}>Keeps coming up: </span>
+          {recurring
+            .map((a) => `${cardName(a.cardNumber)} ×${a.count}${a.reversedCount ? ` (${a.reversedCount} reversed)` : ''}`)
+            .join(' · ')}
+        </div>
+      )}
+
+      {filtered.length === 0 ? (
+        <div style={{ opacity: 0.6, fontSize: '0.9rem' }}>
+          {readings.length === 0 ? 'No readings yet. Draw one and it will be saved here.' : 'No readings match these filters.'}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {filtered.map((reading) => (
+            <div
+              key={reading.id}
+              style={{
+                padding: '1rem',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', alignItems: 'flex-start' }}>
+                <div>
+                  <div style={{ fontSize: '1rem', fontWeight: '600' }}>{reading.spread.name}</div>
+                  <div style={{ fontSize: '0.8rem', opacity: 0.6 }}>{new Date(reading.timestamp).toLocaleString()}</div>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button
+                    onClick={() => onOpenReading(reading)}
+                    style={{
+                      padding: '0.35rem 0.8rem',
+                      background: 'rgba(147, 51, 234, 0.3)',
+                      border: '1px solid rgba(147, 51, 234, 0.5)',
+                      borderRadius: '6px',
+                      color: '#e8e8e8',
+                      fontSize: '0.85rem',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('Delete this reading from your journal?')) {
+                        onDeleteReading(reading.id);
+                      }
+                    }}
+                    style={{
+                      padding: '0.35rem 0.8rem',
+                      background: 'rgba(255, 0, 0, 0.15)',
+                      border: '1px solid rgba(255, 0, 0, 0.3)',
+                      borderRadius: '6px',
+                      color: '#ff6b6b',
+                      fontSize: '0.85rem',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {reading.question && (
+                <div style={{ fontSize: '0.9rem', fontStyle: 'italic', opacity: 0.85, marginTop: '0.5rem' }}>
+                  “{reading.question}”
+                </div>
+              )}
+              <div style={{ fontSize: '0.85rem', marginTop: '0.5rem', opacity: 0.85 }}>
+                {reading.cards
+                  .map((c) => `${cardName(c.cardNumber, reading.deckType)}${c.orientation === 'reversed' ? ' ⟲' : ''}`)
+                  .join(' · ')}
+              </div>
+              {reading.notes && (
+                <div style={{ fontSize: '0.85rem', marginTop: '0.5rem', opacity: 0.65, whiteSpace: 'pre-wrap' }}>
+                  {reading.notes}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,71 @@
+import { motion } from 'framer-motion';
+import type { ReactNode } from 'react';
+
+type ReadingModalShellProps = {
+  onClose: () => void;
+  children: ReactNode;
+};
+
+export function ReadingModalShell({ onClose, children }: ReadingModalShellProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 150,
+        background: 'rgba(10, 14, 39, 0.95)',
+        backdropFilter: 'blur(20px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '2rem',
+      }}
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          maxWidth: '1100px',
+          width: '100%',
+          maxHeight: '90vh',
+          background: 'linear-gradient(135deg, rgba(26, 26, 46, 0.98) 0%, rgba(22, 33, 62, 0.98) 100%)',
+          borderRadius: '20px',
+          border: '2px solid rgba(212, 175, 55, 0.3)',
+          boxShadow: '0 20px 60px rgba(0, 0, 0, 0.5)',
+          overflow: 'auto',
+          padding: '2.5rem',
+        }}
+      >
+        <div style={{ marginBottom: '2rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h2 style={{ fontSize: '2rem', fontWeight: '700' }}>Reading</h2>
+          <button
+            onClick={onClose}
+            style={{
+              width: '36px',
+              height: '36px',
+              borderRadius: '50%',
+              background: 'rgba(255, 255, 255, 0.1)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              color: '#e8e8e8',
+              fontSize: '1.2rem',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            ✕
+          </button>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '2rem' }}>
+          {children}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import type { CardOrientation, GeneratedCard, Reading, SpreadDefinition, TarotCard } from '../../types';
+import { getCardNameForDeck } from '../card-deck/cardInfo';
+import { ReadingCardSlot } from './ReadingCardSlot';
+
+type ReadingSpreadLayoutProps = {
+  reading: Reading;
+  spread: SpreadDefinition;
+  cards: TarotCard[];
+  getGeneratedCard: (cardNumber: number, deckType: string) => GeneratedCard | undefined;
+  onOpenCard: (card: TarotCard, orientation: CardOrientation) => void;
+  onNewReading: () => void;
+  onSaveNotes: (notes: string) => void;
+};
+
+export function ReadingSpreadLayout({
+  reading,
+  spread,
+  cards,
+  getGeneratedCard,
+  onOpenCard,
+  onNewReading,
+  onSaveNotes,
+}: ReadingSpreadLayoutProps) {
+  const [notes, setNotes] = useState(reading.notes ?? '');
+  useEffect(() => {
+    setNotes(reading.notes ?? '');
+  }, [reading.id, reading.notes]);
+
+  const columns = Math.max(...spread.positions.map((p) => p.column));
+  const rows = Math.max(...spread.positions.map((p) => p.row));
+  const placements = spread.positions
+    .map((position) => {
+      const drawn = reading.cards.find((c) => c.positionId === position.id);
+      const card = drawn ? cards.find((c) => c.number === drawn.cardNumber) : undefined;
+      if (!drawn || !card) return null;
+      const generated = getGeneratedCard(card.number, reading.deckType);
+      return {
+        position,
+        card,
+        orientation: drawn.orientation,
+        cardName: getCardNameForDeck(card, reading.deckType),
+        mediaSrc: generated?.gifUrl || generated?.frames?.[0],
+      };
+    })
+    .filter((placement): placement is NonNullable<typeof placement> => placement !== null);
+
+  return (
+    <section>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem', marginBottom: '1.5rem' }}>
+        <div>
+          <h3 style={{ fontSize: '1.3rem', marginBottom: '0.35rem', color: '#d4af37' }}>
+            {spread.name}
+          </h3>
+          {reading.question && (
+            <div style={{ fontSize: '1rem', fontStyle: 'italic', opacity: 0.85 }}>
+              “{reading.question}”
+            </div>
+          )}
+          <div style={{ fontSize: '0.8rem', opacity: 0.5, marginTop: '0.35rem' }}>
+            {new Date(reading.timestamp).toLocaleString()}
+          </div>
+          {reading.seed && (
+            <div style={{ fontSize: '0.8rem', opacity: 0.7, marginTop: '0.35rem' }}>
+              Seed{' '}
+              <code style={{ fontFamily: 'monospace', color: '#d4af37' }}>{reading.seed}</code>{' '}
+              <button
+                onClick={() => void navigator.clipboard?.writeText(reading.seed ?? '')}
+                title="Copy the seed to replay or share this reading with the same spread"
+                style={{
+                  marginLeft: '0.25rem',
+                  padding: '0.1rem 0.5rem',
+                  background: 'transparent',
+                  border: '1px solid rgba(212, 175, 55, 0.4)',
+                  borderRadius: '6px',
+                  color: '#d4af37',
+                  fontSize: '0.75rem',
+                  cursor: 'pointer',
+                }}
+              >
+                Copy
+              </button>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onNewReading}
+          style={{
+            padding: '0.6rem 1.2rem',
+            background: 'rgba(147, 51, 234, 0.3)',
+            border: '1px solid rgba(147, 51, 234, 0.5)',
+            borderRadius: '8px',
+            color: '#e8e8e8',
+            fontSize: '0.9rem',
+            cursor: 'pointer',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          New Reading
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(130px, 1fr))`,
+          gridTemplateRows: `repeat(${rows}, auto)`,
+          gap: '1.25rem',
+          justifyItems: 'center',
+          overflowX: 'auto',
+          padding: '0.5rem',
+        }}
+      >
+        {placements.map(({ position, card, orientation, cardName, mediaSrc }) => (
+          <ReadingCardSlot
+            key={position.id}
+            position={position}
+            card={card}
+            orientation={orientation}
+            cardName={cardName}
+            mediaSrc={mediaSrc}
+            onOpen={() => onOpenCard(card, orientation)}
+          />
+        ))}
+      </div>
+
+      <ol style={{ marginTop: '1.5rem', paddingLeft: '1.25rem', fontSize: '0.9rem', lineHeight: 1.7 }}>
+        {placements.map(({ position, orientation, cardName }) => (
+          <li key={position.id}>
+            <strong style={{ color: '#d4af37' }}>{position.name}</strong>
+            {position.description && <span style={{ opacity: 0.6 }}> ({position.description})</span>}
+            {' — '}
+            {cardName}
+            {orientation === 'reversed' && <span style={{ color: '#c084fc' }}> (reversed)</span>}
+          </li>
+        ))}
+      </ol>
+
+      <div style={{ marginTop: '1.5rem' }}>
+        <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+          Journal Notes
+        </label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => onSaveNotes(notes)}
+          rows={4}
+          placeholder="What stood out? What do you want to remember about this reading?"
+          style={{
+            width: '100%',
+            padding: '0.75rem',
+            background: 'rgba(0, 0, 0, 0.3)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '8px',
+            color: '#e8e8e8',
+            fontSize: '0.9rem',
+            resize: 'vertical',
+          }}
+        />
+        <div style={{ fontSize: '0.8rem', opacity: 0.6, marginTop: '0.35rem' }}>
+          Saved to your reading journal on blur.
+        </div>
+      </div>
+    </section>
+  );
+}
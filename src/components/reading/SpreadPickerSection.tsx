@@ -0,0 +1,153 @@
+import type { SpreadDefinition } from '../../types';
+
+type SpreadPickerSectionProps = {
+  spreads: SpreadDefinition[];
+  selectedSpreadId: string;
+  question: string;
+  seed: string;
+  onSelectSpread: (spreadId: string) => void;
+  onQuestionChange: (question: string) => void;
+  onSeedChange: (seed: string) => void;
+  onDeleteCustomSpread: (spreadId: string) => void;
+  onDraw: () => void;
+};
+
+export function SpreadPickerSection({
+  spreads,
+  selectedSpreadId,
+  question,
+  seed,
+  onSelectSpread,
+  onQuestionChange,
+  onSeedChange,
+  onDeleteCustomSpread,
+  onDraw,
+}: SpreadPickerSectionProps) {
+  return (
+    <section>
+      <h3 style={{ fontSize: '1.3rem', marginBottom: '1rem', color: '#d4af37' }}>
+        Choose a Spread
+      </h3>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '0.75rem' }}>
+        {spreads.map((spread) => (
+          <label
+            key={spread.id}
+            style={{
+              display: 'flex',
+              alignItems: 'flex-start',
+              gap: '0.75rem',
+              padding: '1rem',
+              background: selectedSpreadId === spread.id ? 'rgba(147, 51, 234, 0.2)' : 'rgba(255, 255, 255, 0.05)',
+              border: `1px solid ${selectedSpreadId === spread.id ? 'rgba(147, 51, 234, 0.5)' : 'rgba(255, 255, 255, 0.1)'}`,
+              borderRadius: '8px',
+              cursor: 'pointer',
+              transition: 'all 0.3s ease',
+            }}
+          >
+            <input
+              type="radio"
+              name="spread"
+              value={spread.id}
+              checked={selectedSpreadId === spread.id}
+              onChange={(e) => onSelectSpread(e.target.value)}
+              style={{ marginTop: '0.25rem' }}
+            />
+            <div style={{ flex: 1 }}>
+              <div style={{ fontSize: '1rem', fontWeight: '600', marginBottom: '0.25rem' }}>
+                {spread.name}
+              </div>
+              <div style={{ fontSize: '0.85rem', opacity: 0.7 }}>
+                {spread.description}
+              </div>
+              {spread.custom && (
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (window.confirm(`Delete the "${spread.name}" spread?`)) {
+                      onDeleteCustomSpread(spread.id);
+                    }
+                  }}
+                  style={{
+                    marginTop: '0.5rem',
+                    padding: '0.25rem 0.6rem',
+                    background: 'rgba(255, 0, 0, 0.15)',
+                    border: '1px solid rgba(255, 0, 0, 0.3)',
+                    borderRadius: '6px',
+                    color: '#ff6b6b',
+                    fontSize: '0.8rem',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', marginTop: '1.25rem' }}>
+        <div style={{ flex: 1 }}>
+          <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+            Question (optional)
+          </label>
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => onQuestionChange(e.target.value)}
+            placeholder="What do I need to know about..."
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              background: 'rgba(0, 0, 0, 0.3)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+              color: '#e8e8e8',
+              fontSize: '0.95rem',
+            }}
+          />
+        </div>
+        <div style={{ width: '160px' }}>
+          <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+            Seed (optional)
+          </label>
+          <input
+            type="text"
+            value={seed}
+            onChange={(e) => onSeedChange(e.target.value)}
+            placeholder="Replay a reading"
+            title="Same spread + same seed draws the same cards"
+            style={{
+              width: '100%',
+              padding: '0.75rem',
+              background: 'rgba(0, 0, 0, 0.3)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+              color: '#e8e8e8',
+              fontSize: '0.95rem',
+              fontFamily: 'monospace',
+            }}
+          />
+        </div>
+        <button
+          onClick={onDraw}
+          disabled={!selectedSpreadId}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: 'linear-gradient(135deg, #d4af37 0%, #b98c28 100%)',
+            border: 'none',
+            borderRadius: '8px',
+            color: '#ffffff',
+            fontSize: '1rem',
+            fontWeight: '600',
+            cursor: selectedSpreadId ? 'pointer' : 'not-allowed',
+            whiteSpace: 'nowrap',
+            boxShadow: '0 4px 15px rgba(212, 175, 55, 0.35)',
+          }}
+        >
+          🔮 Draw Cards
+        </button>
+      </div>
+    </section>
+  );
+}
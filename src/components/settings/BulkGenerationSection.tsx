@@ -1,7 +1,16 @@
+import { MAJOR_ARCANA_COUNT } from '../../utils/tarotCards';
+import { formatCost, type RunEstimate } from '../../utils/costTracking';
+
 type BulkGenerationSectionProps = {
+  deckCardCount: number;
   isGenerating: boolean;
   hasImageApiKey: boolean;
-  hasGeminiApiKey: boolean;
+  canGenerateVideos: boolean;
+  videoQuota?: { used: number; limit?: number; exhausted: boolean };
+  imageEstimate: RunEstimate;
+  videoEstimate: RunEstimate;
+  imageBudgetMessage?: string;   // set when the run would exceed the monthly budget
+  videoBudgetMessage?: string;
   missingApiKeyMessage: string;
   onGenerateAllCards: () => void;
   onClearCache: () => void;
@@ -9,14 +18,23 @@ type BulkGenerationSectionProps = {
 };
 
 export function BulkGenerationSection({
+  deckCardCount,
   isGenerating,
   hasImageApiKey,
-  hasGeminiApiKey,
+  canGenerateVideos,
+  videoQuota,
+  imageEstimate,
+  videoEstimate,
+  imageBudgetMessage,
+  videoBudgetMessage,
   missingApiKeyMessage,
   onGenerateAllCards,
   onClearCache,
   onGenerateAllVideos,
 }: BulkGenerationSectionProps) {
+  const imageBlocked = isGenerating || !hasImageApiKey || Boolean(imageBudgetMessage);
+  const videoBlocked = isGenerating || !canGenerateVideos || Boolean(videoBudgetMessage);
+
   return (
     <>
       <section>
@@ -29,27 +47,28 @@ export function BulkGenerationSection({
           }}
         >
           <h3 style={{ fontSize: '1.2rem', marginBottom: '0.75rem' }}>
-            Generate All 22 Cards
+            Generate All {deckCardCount} Cards
           </h3>
           <p style={{ fontSize: '0.9rem', marginBottom: '1.5rem', opacity: 0.8 }}>
-            This will generate all 22 Major Arcana cards with your photo. Make sure to test one card first!
+            This will generate all {deckCardCount > MAJOR_ARCANA_COUNT ? `${deckCardCount} Major and Minor Arcana` : `${deckCardCount} Major Arcana`} cards with your photo. Make sure to test one card first!
           </p>
+          <RunEstimateLine estimate={imageEstimate} noun="image" />
           <div style={{ display: 'flex', gap: '1rem' }}>
             <button
               onClick={onGenerateAllCards}
-              disabled={isGenerating || !hasImageApiKey}
+              disabled={imageBlocked}
               style={{
                 flex: 1,
                 padding: '1rem 2rem',
-                background: isGenerating || !hasImageApiKey ? 'rgba(100, 100, 100, 0.5)' : 'linear-gradient(135deg, #9333ea 0%, #7c3aed 100%)',
+                background: imageBlocked ? 'rgba(100, 100, 100, 0.5)' : 'linear-gradient(135deg, #9333ea 0%, #7c3aed 100%)',
                 border: 'none',
                 borderRadius: '8px',
                 color: '#ffffff',
                 fontSize: '1rem',
                 fontWeight: '600',
-                cursor: isGenerating || !hasImageApiKey ? 'not-allowed' : 'pointer',
+                cursor: imageBlocked ? 'not-allowed' : 'pointer',
                 boxShadow: '0 4px 15px rgba(147, 51, 234, 0.4)',
-                opacity: isGenerating || !hasImageApiKey ? 0.6 : 1,
+                opacity: imageBlocked ? 0.6 : 1,
               }}
             >
               {isGenerating ? '⏳ Generating...' : '🎴 Generate All Cards'}
@@ -74,6 +93,11 @@ export function BulkGenerationSection({
               {missingApiKeyMessage}
             </p>
           )}
+          {imageBudgetMessage && (
+            <p style={{ marginTop: '0.75rem', fontSize: '0.85rem', color: '#ffb347' }}>
+              {imageBudgetMessage}
+            </p>
+          )}
         </div>
       </section>
 
@@ -93,30 +117,49 @@ export function BulkGenerationSection({
             Uses the first generated frame of each card to create an 8s Veo video. Cards without images are skipped.
           </p>
           <div style={{ fontSize: '0.85rem', marginBottom: '1rem', opacity: 0.7 }}>
-            Videos are throttled to about 2 requests per minute to avoid Gemini rate limits (daily cap is often ~10 videos).
+            Videos are paced to about 2 requests per minute to avoid Gemini rate limits (daily cap is often ~10 videos).
           </div>
+          {videoQuota?.limit !== undefined && (
+            <div
+              style={{
+                fontSize: '0.85rem',
+                marginBottom: '1rem',
+                color: videoQuota.exhausted ? '#ffb347' : '#e8e8e8',
+                opacity: videoQuota.exhausted ? 1 : 0.8,
+              }}
+            >
+              Veo budget today: {videoQuota.used} / {videoQuota.limit} requests
+              {videoQuota.exhausted ? ' — used up, resets at midnight Pacific time' : ''}
+            </div>
+          )}
+          <RunEstimateLine estimate={videoEstimate} noun="video" />
           <button
             onClick={onGenerateAllVideos}
-            disabled={isGenerating || !hasGeminiApiKey}
+            disabled={videoBlocked}
             style={{
               width: '100%',
               padding: '1rem 2rem',
-              background: isGenerating || !hasGeminiApiKey ? 'rgba(100, 100, 100, 0.5)' : 'linear-gradient(135deg, #d4af37 0%, #b98c28 100%)',
+              background: videoBlocked ? 'rgba(100, 100, 100, 0.5)' : 'linear-gradient(135deg, #d4af37 0%, #b98c28 100%)',
               border: 'none',
               borderRadius: '8px',
               color: '#ffffff',
               fontSize: '1rem',
               fontWeight: '600',
-              cursor: isGenerating || !hasGeminiApiKey ? 'not-allowed' : 'pointer',
+              cursor: videoBlocked ? 'not-allowed' : 'pointer',
               boxShadow: '0 4px 15px rgba(212, 175, 55, 0.35)',
-              opacity: isGenerating || !hasGeminiApiKey ? 0.6 : 1,
+              opacity: videoBlocked ? 0.6 : 1,
             }}
           >
             {isGenerating ? '⏳ Generating videos...' : '🎥 Generate All Videos (Veo 3.1)'}
           </button>
-          {!hasGeminiApiKey && (
+          {!canGenerateVideos && (
+            <div style={{ marginTop: '0.75rem', fontSize: '0.85rem', color: '#ffb347' }}>
+              Gemini API key required for video generation (or select the Mock provider).
+            </div>
+          )}
+          {videoBudgetMessage && (
             <div style={{ marginTop: '0.75rem', fontSize: '0.85rem', color: '#ffb347' }}>
-              Gemini API key required for video generation.
+              {videoBudgetMessage}
             </div>
           )}
         </div>
@@ -124,3 +167,13 @@ export function BulkGenerationSection({
     </>
   );
 }
+
+function RunEstimateLine({ estimate, noun }: { estimate: RunEstimate; noun: string }) {
+  return (
+    <div style={{ fontSize: '0.85rem', marginBottom: '1rem', opacity: 0.8 }}>
+      {estimate.priced
+        ? `Estimated cost: ${formatCost(estimate.total)} (${estimate.requests} × ${formatCost(estimate.unitCost)} per ${noun}, ${estimate.model})`
+        : `No price listed for ${estimate.model}; ${estimate.requests} ${noun} requests are not counted toward the budget.`}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { formatCost, type CostSummary } from '../../utils/costTracking';
+
+type CostTrackingSectionProps = {
+  summary: CostSummary;
+  monthlyBudget?: number;
+  getDeckName: (deckType: string) => string;
+  onMonthlyBudgetChange: (budget: number | undefined) => void;
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e8e8e8',
+  fontSize: '0.95rem',
+};
+
+const rowStyle = { display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem', padding: '0.2rem 0' };
+
+export function CostTrackingSection({
+  summary,
+  monthlyBudget,
+  getDeckName,
+  onMonthlyBudgetChange,
+}: CostTrackingSectionProps) {
+  const decks = Object.entries(summary.byDeck).sort((a, b) => b[1] - a[1]);
+  const months = Object.entries(summary.byMonth).sort((a, b) => b[0].localeCompare(a[0]));
+  const overBudget = monthlyBudget !== undefined && summary.thisMonth >= monthlyBudget;
+
+  return (
+    <section>
+      <h3 style={{ fontSize: '1.3rem', marginBottom: '0.75rem', color: '#d4af37' }}>
+        Generation Costs
+      </h3>
+      <p style={{ fontSize: '0.9rem', marginBottom: '0.75rem', opacity: 0.75 }}>
+        Estimated from the listed price of each model for every successful image and video request.
+      </p>
+      <div style={{ fontSize: '0.95rem', marginBottom: '1rem', color: overBudget ? '#ffb347' : '#e8e8e8' }}>
+        This month: {formatCost(summary.thisMonth)}
+        {monthlyBudget !== undefined ? ` of ${formatCost(monthlyBudget)} budget` : ''}
+      </div>
+
+      <div style={{ marginBottom: '1rem' }}>
+        <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+          Monthly budget (USD)
+        </label>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={monthlyBudget ?? ''}
+          placeholder="No limit"
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            onMonthlyBudgetChange(Number.isFinite(value) && value >= 0 ? value : undefined);
+          }}
+          style={inputStyle}
+        />
+        <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
+          Bulk runs whose estimate would take this month over the budget are blocked before they start.
+        </p>
+      </div>
+
+      {decks.length > 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
+          <div>
+            <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>Per deck</div>
+            {decks.map(([deckType, cost]) => (
+              <div key={deckType} style={rowStyle}>
+                <span>{getDeckName(deckType)}</span>
+                <span>{formatCost(cost)}</span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>Per month</div>
+            {months.map(([month, cost]) => (
+              <div key={month} style={rowStyle}>
+                <span>{month}</span>
+                <span>{formatCost(cost)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,8 +1,18 @@
+import type { ImportConflictMode } from '../../utils/importGeneratedCardsZip';
+
 type ExportBackupSectionProps = {
   exporting: boolean;
   exportStatus: string;
   generatedCardsCount: number;
   onExportAll: () => void;
+  importing: boolean;
+  importMode: ImportConflictMode;
+  onImportModeChange: (mode: ImportConflictMode) => void;
+  onImportZip: (file: File) => void;
+  encrypt: boolean;
+  passphrase: string;             // seals exports when `encrypt` is on; opens encrypted imports
+  onEncryptChange: (encrypt: boolean) => void;
+  onPassphraseChange: (passphrase: string) => void;
 };
 
 export function ExportBackupSection({
@@ -10,6 +20,14 @@ export function ExportBackupSection({
   exportStatus,
   generatedCardsCount,
   onExportAll,
+  importing,
+  importMode,
+  onImportModeChange,
+  onImportZip,
+  encrypt,
+  passphrase,
+  onEncryptChange,
+  onPassphraseChange,
 }: ExportBackupSectionProps) {
   return (
     <section>
@@ -17,8 +35,34 @@ export function ExportBackupSection({
         Export / Backup
       </h3>
       <p style={{ fontSize: '0.9rem', marginBottom: '0.75rem', opacity: 0.75 }}>
-        Download all generated cards (images/videos) plus a manifest as a zip file you can keep or import elsewhere.
+        Download all generated cards (images/videos) plus a manifest as a zip file you can keep, then import it here or in another browser.
       </p>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap', marginBottom: '0.75rem', fontSize: '0.9rem' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer' }}>
+          <input type="checkbox" checked={encrypt} onChange={(e) => onEncryptChange(e.target.checked)} />
+          Encrypt with a passphrase
+        </label>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => onPassphraseChange(e.target.value)}
+          placeholder="Backup passphrase"
+          autoComplete="new-password"
+          style={{
+            padding: '0.4rem 0.5rem',
+            background: 'rgba(0, 0, 0, 0.3)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '6px',
+            color: '#e8e8e8',
+            fontSize: '0.85rem',
+          }}
+        />
+      </div>
+      {encrypt && (
+        <p style={{ fontSize: '0.8rem', marginTop: '-0.25rem', marginBottom: '0.75rem', color: '#ffb347' }}>
+          Cards show faces from your photo and reference images. Without the passphrase the backup cannot be opened, so keep it somewhere safe.
+        </p>
+      )}
       <button
         onClick={onExportAll}
         disabled={exporting || generatedCardsCount === 0}
@@ -37,6 +81,50 @@ export function ExportBackupSection({
       >
         {exporting ? '⏳ Exporting...' : '⬇️ Export All Cards (Zip)'}
       </button>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap', marginTop: '0.75rem', fontSize: '0.9rem' }}>
+        <label
+          style={{
+            padding: '0.6rem 1rem',
+            background: 'rgba(147, 51, 234, 0.2)',
+            border: '1px solid rgba(147, 51, 234, 0.5)',
+            borderRadius: '8px',
+            color: '#e8e8e8',
+            cursor: importing ? 'not-allowed' : 'pointer',
+            opacity: importing ? 0.6 : 1,
+          }}
+        >
+          {importing ? '⏳ Importing...' : '⬆️ Import Backup'}
+          <input
+            type="file"
+            accept=".zip,.tarotbackup,application/zip"
+            disabled={importing}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImportZip(file);
+            }}
+            style={{ display: 'none' }}
+          />
+        </label>
+        Cards already saved:
+        <select
+          value={importMode}
+          onChange={(e) => onImportModeChange(e.target.value as ImportConflictMode)}
+          disabled={importing}
+          style={{
+            padding: '0.4rem 0.5rem',
+            background: 'rgba(0, 0, 0, 0.3)',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '6px',
+            color: '#e8e8e8',
+            fontSize: '0.85rem',
+          }}
+        >
+          <option value="skip">Skip</option>
+          <option value="replace">Replace with the backup</option>
+          <option value="keep-both">Keep both</option>
+        </select>
+      </div>
       {exportStatus && (
         <div style={{ marginTop: '0.5rem', fontSize: '0.9rem', color: '#e8e8e8', opacity: 0.8 }}>
           {exportStatus}
@@ -44,7 +132,7 @@ export function ExportBackupSection({
       )}
       {generatedCardsCount === 0 && !exporting && (
         <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', opacity: 0.7 }}>
-          Generate a card first to enable export.
+          Generate a card first to enable export, or import a backup.
         </div>
       )}
     </section>
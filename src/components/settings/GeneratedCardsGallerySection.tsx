@@ -1,3 +1,4 @@
+import { getCardNumberLabel } from '../../utils/tarotCards';
 import type { GeneratedCard, TarotCard, TarotDeckData } from '../../types';
 
 type GeneratedCardsGallerySectionProps = {
@@ -130,7 +131,7 @@ export function GeneratedCardsGallerySection({
                   .map((cardNumber) => {
                     const versions = byCard[cardNumber].sort((a, b) => b.timestamp - a.timestamp);
                     const latestCard = versions[0];
-                    const tarotCard = cards[cardNumber];
+                    const tarotCard = cards.find((c) => c.number === cardNumber);
 
                     return (
                       <div
@@ -186,7 +187,7 @@ export function GeneratedCardsGallerySection({
                             color: '#d4af37',
                           }}
                         >
-                          {cardNumber}
+                          {tarotCard ? getCardNumberLabel(tarotCard) : cardNumber}
                         </div>
 
                         {versions.length > 1 && (
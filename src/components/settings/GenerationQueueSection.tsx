@@ -0,0 +1,115 @@
+import { describeJobProgress, isJobFinished } from '../../utils/generationQueue';
+import type { GenerationJob } from '../../types';
+
+type GenerationQueueSectionProps = {
+  jobs: GenerationJob[];
+  getCardName: (cardNumber: number) => string;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetryFailed: (id: string) => void;
+  onClearFinished: () => void;
+};
+
+const buttonStyle = {
+  padding: '0.4rem 0.8rem',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(212, 175, 55, 0.3)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+  cursor: 'pointer',
+};
+
+export function GenerationQueueSection({
+  jobs,
+  getCardName,
+  onPause,
+  onResume,
+  onCancel,
+  onRetryFailed,
+  onClearFinished,
+}: GenerationQueueSectionProps) {
+  if (jobs.length === 0) return null;
+
+  const sortedJobs = [...jobs].sort((a, b) => b.createdAt - a.createdAt);
+  const hasFinished = jobs.some(isJobFinished);
+
+  return (
+    <section>
+      <h3 style={{ fontSize: '1.3rem', marginBottom: '0.75rem', color: '#d4af37' }}>
+        Generation Queue
+      </h3>
+      <p style={{ fontSize: '0.9rem', marginBottom: '0.75rem', opacity: 0.75 }}>
+        Bulk runs are saved as they go and pick up where they left off after a reload.
+      </p>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {sortedJobs.map((job) => {
+          const progress = describeJobProgress(job);
+          const failedItems = job.items.filter((item) => item.status === 'failed');
+          return (
+            <div
+              key={job.id}
+              style={{
+                padding: '0.9rem 1rem',
+                background: 'rgba(147, 51, 234, 0.08)',
+                border: '1px solid rgba(147, 51, 234, 0.3)',
+                borderRadius: '8px',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', alignItems: 'center' }}>
+                <div>
+                  <div style={{ fontWeight: 600 }}>
+                    {job.kind === 'image' ? '🎴 Cards' : '🎥 Videos'} · {job.deckType}
+                  </div>
+                  <div style={{ fontSize: '0.85rem', opacity: 0.8 }}>
+                    {progress.status} ({progress.current}/{progress.total})
+                  </div>
+                  {job.status === 'paused' && job.pauseReason && (
+                    <div style={{ fontSize: '0.8rem', color: '#ffb347' }}>{job.pauseReason}</div>
+                  )}
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                  {job.status === 'active' && (
+                    <button onClick={() => onPause(job.id)} style={buttonStyle}>
+                      ⏸ Pause
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button onClick={() => onResume(job.id)} style={buttonStyle}>
+                      ▶ Resume
+                    </button>
+                  )}
+                  {failedItems.length > 0 && job.status !== 'active' && (
+                    <button onClick={() => onRetryFailed(job.id)} style={buttonStyle}>
+                      🔁 Retry failed
+                    </button>
+                  )}
+                  {!isJobFinished(job) && (
+                    <button onClick={() => onCancel(job.id)} style={buttonStyle}>
+                      ✖ Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+              {failedItems.length > 0 && (
+                <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.2rem', fontSize: '0.8rem', color: '#ffb347' }}>
+                  {failedItems.map((item) => (
+                    <li key={item.cardNumber}>
+                      {getCardName(item.cardNumber)}: {item.error || 'failed'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {hasFinished && (
+        <button onClick={onClearFinished} style={{ ...buttonStyle, marginTop: '0.75rem' }}>
+          🧹 Clear finished
+        </button>
+      )}
+    </section>
+  );
+}
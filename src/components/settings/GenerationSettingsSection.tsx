@@ -1,4 +1,50 @@
-import type { Settings } from '../../types';
+import {
+  getImageProvider,
+  getModelSizes,
+  getProviderFieldPatch,
+  getProviderFieldValue,
+  listImageProviders,
+  resolveImageProvider,
+  type ImageSize,
+} from '../../utils/imageProviders';
+import {
+  CARD_ANIMATION_FORMATS,
+  MAX_ANIMATION_FRAMES,
+  MIN_ANIMATION_FRAMES,
+  getCardFrameCount,
+} from '../../utils/cardAnimation';
+import type { CardAnimationFormat, Settings } from '../../types';
+
+const IMAGE_SIZE_LABELS: Record<string, string> = {
+  '1K': '1K (1024×1024) - Faster',
+  '2K': '2K (2048×2048) - Higher Quality',
+};
+
+const frameCounts = Array.from(
+  { length: MAX_ANIMATION_FRAMES - MIN_ANIMATION_FRAMES + 1 },
+  (_, i) => MIN_ANIMATION_FRAMES + i
+);
+
+const fieldStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e8e8e8',
+  fontSize: '0.95rem',
+};
+
+const selectStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e8e8e8',
+  fontSize: '0.95rem',
+  cursor: 'pointer',
+};
 
 type GenerationSettingsSectionProps = {
   settings: Settings;
@@ -13,6 +59,9 @@ export function GenerationSettingsSection({
   navWithArrows,
   updateSettings,
 }: GenerationSettingsSectionProps) {
+  const provider = resolveImageProvider(settings);
+  const modelSizes = getModelSizes(provider, settings.generationModel);
+
   return (
     <section>
       <h3 style={{ fontSize: '1.3rem', marginBottom: '1rem', color: '#d4af37' }}>
@@ -24,84 +73,79 @@ export function GenerationSettingsSection({
           API Provider
         </label>
         <select
-          value={settings.apiProvider || 'gemini'}
-          onChange={(e) => updateSettings({ apiProvider: e.target.value as 'openrouter' | 'gemini' })}
-          style={{
-            width: '100%',
-            padding: '0.75rem',
-            background: 'rgba(0, 0, 0, 0.3)',
-            border: '1px solid rgba(255, 255, 255, 0.2)',
-            borderRadius: '8px',
-            color: '#e8e8e8',
-            fontSize: '0.95rem',
-            cursor: 'pointer',
+          value={provider.id}
+          onChange={(e) => {
+            const next = getImageProvider(e.target.value);
+            if (!next) return;
+            const keepModel = next.models.some((model) => model.id === settings.generationModel);
+            updateSettings({
+              apiProvider: next.id,
+              ...(keepModel || !next.models[0] ? {} : { generationModel: next.models[0].id }),
+            });
           }}
+          style={selectStyle}
         >
-          <option value="gemini">Gemini Direct (Supports img2img with your photo!)</option>
-          <option value="openrouter">OpenRouter (Text-to-image only)</option>
+          {listImageProviders().map((option) => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
         </select>
         <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
-          Gemini Direct allows using your photo as reference for tarot cards
+          {provider.description}
         </p>
       </div>
 
-      {settings.apiProvider === 'gemini' && (
-        <div style={{ marginBottom: '1.5rem' }}>
+      {provider.fields.map((field) => (
+        <div key={field.id} style={{ marginBottom: '1.5rem' }}>
           <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
-            Gemini API Key
+            {field.label}
           </label>
-          <input
-            type="password"
-            value={settings.geminiApiKey || ''}
-            onChange={(e) => updateSettings({ geminiApiKey: e.target.value })}
-            placeholder="AIza..."
-            style={{
-              width: '100%',
-              padding: '0.75rem',
-              background: 'rgba(0, 0, 0, 0.3)',
-              border: '1px solid rgba(255, 255, 255, 0.2)',
-              borderRadius: '8px',
-              color: '#e8e8e8',
-              fontSize: '0.95rem',
-            }}
-          />
-          <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
-            Get your API key from{' '}
-            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" style={{ color: '#9333ea' }}>
-              Google AI Studio
-            </a>
-          </p>
-        </div>
-      )}
-
-      {settings.apiProvider === 'openrouter' && (
-        <div style={{ marginBottom: '1.5rem' }}>
-          <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
-            OpenRouter API Key
-          </label>
-          <input
-            type="password"
-            value={settings.apiKey || ''}
-            onChange={(e) => updateSettings({ apiKey: e.target.value })}
-            placeholder="sk-or-v1-..."
-            style={{
-              width: '100%',
-              padding: '0.75rem',
-              background: 'rgba(0, 0, 0, 0.3)',
-              border: '1px solid rgba(255, 255, 255, 0.2)',
-              borderRadius: '8px',
-              color: '#e8e8e8',
-              fontSize: '0.95rem',
-            }}
-          />
-          <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
-            Get your API key from{' '}
-            <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" style={{ color: '#9333ea' }}>
-              openrouter.ai
-            </a>
-          </p>
+          {field.type === 'select' ? (
+            <select
+              value={getProviderFieldValue(settings, provider.id, field) || field.options?.[0]?.value}
+              onChange={(e) => updateSettings(getProviderFieldPatch(settings, provider.id, field, e.target.value))}
+              style={selectStyle}
+            >
+              {field.options?.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ) : field.type === 'textarea' ? (
+            <textarea
+              value={getProviderFieldValue(settings, provider.id, field)}
+              onChange={(e) => updateSettings(getProviderFieldPatch(settings, provider.id, field, e.target.value))}
+              placeholder={field.placeholder}
+              rows={6}
+              style={{
+                ...fieldStyle,
+                fontSize: '0.85rem',
+                fontFamily: 'monospace',
+                resize: 'vertical',
+              }}
+            />
+          ) : (
+            <input
+              type={field.type}
+              value={getProviderFieldValue(settings, provider.id, field)}
+              onChange={(e) => updateSettings(getProviderFieldPatch(settings, provider.id, field, e.target.value))}
+              placeholder={field.placeholder}
+              style={fieldStyle}
+            />
+          )}
+          {(field.help || field.helpLink) && (
+            <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
+              {field.help}
+              {field.helpLink && (
+                <>
+                  {' '}
+                  <a href={field.helpLink.href} target="_blank" rel="noopener noreferrer" style={{ color: '#9333ea' }}>
+                    {field.helpLink.label}
+                  </a>
+                </>
+              )}
+            </p>
+          )}
         </div>
-      )}
+      ))}
 
       <div style={{ marginBottom: '1.5rem' }}>
         <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
@@ -110,58 +154,32 @@ export function GenerationSettingsSection({
         <select
           value={settings.generationModel}
           onChange={(e) => updateSettings({ generationModel: e.target.value })}
-          style={{
-            width: '100%',
-            padding: '0.75rem',
-            background: 'rgba(0, 0, 0, 0.3)',
-            border: '1px solid rgba(255, 255, 255, 0.2)',
-            borderRadius: '8px',
-            color: '#e8e8e8',
-            fontSize: '0.95rem',
-            cursor: 'pointer',
-          }}
+          style={selectStyle}
         >
-          {settings.apiProvider === 'gemini' ? (
-            <>
-              <option value="gemini-2.5-flash-image">Gemini 2.5 Flash Image - $0.039/image (Fast)</option>
-              <option value="gemini-3-pro-image-preview">Gemini 3 Pro Image - Higher quality, 2K resolution</option>
-            </>
-          ) : (
-            <>
-              <option value="google/gemini-2.5-flash-image">Gemini 2.5 Flash - ~$0.003/image (Cheapest)</option>
-              <option value="openai/gpt-5-image-mini">GPT-5 Image Mini - ~$0.0035/image</option>
-              <option value="google/gemini-3-pro-image-preview">Gemini 3 Pro - ~$0.013/image (Best Quality)</option>
-            </>
-          )}
+          {provider.models.map((model) => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
         </select>
-        <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
-          {settings.apiProvider === 'gemini'
-            ? 'Gemini Direct models support multi-image blending. Pro model generates 2K resolution images.'
-            : 'Choose the AI model for generating tarot card images. Costs are approximate per image.'}
-        </p>
+        {provider.modelHint && (
+          <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
+            {provider.modelHint}
+          </p>
+        )}
       </div>
 
-      {settings.apiProvider === 'gemini' && settings.generationModel.includes('gemini-3-pro') && (
+      {modelSizes.length > 1 && (
         <div style={{ marginBottom: '1.5rem' }}>
           <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
             Image Resolution
           </label>
           <select
-            value={settings.imageSize || '2K'}
-            onChange={(e) => updateSettings({ imageSize: e.target.value as '1K' | '2K' })}
-            style={{
-              width: '100%',
-              padding: '0.75rem',
-              background: 'rgba(0, 0, 0, 0.3)',
-              border: '1px solid rgba(255, 255, 255, 0.2)',
-              borderRadius: '8px',
-              color: '#e8e8e8',
-              fontSize: '0.95rem',
-              cursor: 'pointer',
-            }}
+            value={settings.imageSize || modelSizes[modelSizes.length - 1]}
+            onChange={(e) => updateSettings({ imageSize: e.target.value as ImageSize })}
+            style={selectStyle}
           >
-            <option value="1K">1K (1024×1024) - Faster</option>
-            <option value="2K">2K (2048×2048) - Higher Quality</option>
+            {modelSizes.map((size) => (
+              <option key={size} value={size}>{IMAGE_SIZE_LABELS[size] ?? size}</option>
+            ))}
           </select>
           <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
             Higher resolution provides better detail but takes longer to generate
@@ -169,6 +187,39 @@ export function GenerationSettingsSection({
         </div>
       )}
 
+      <div style={{ marginBottom: '1.5rem' }}>
+        <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+          Animated Cards
+        </label>
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          <select
+            value={settings.frameAnimation ?? ''}
+            onChange={(e) => updateSettings({ frameAnimation: (e.target.value || undefined) as CardAnimationFormat | undefined })}
+            style={{ ...selectStyle, flex: 2 }}
+          >
+            <option value="">Off - one still image per card</option>
+            {CARD_ANIMATION_FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+          {settings.frameAnimation && (
+            <select
+              value={getCardFrameCount(settings)}
+              onChange={(e) => updateSettings({ framesPerCard: Number(e.target.value) })}
+              style={{ ...selectStyle, flex: 1 }}
+            >
+              {frameCounts.map((count) => (
+                <option key={count} value={count}>{count} frames</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <p style={{ fontSize: '0.8rem', marginTop: '0.5rem', opacity: 0.6 }}>
+          Generates several frames per card in the deck's motion style and loops them, without Veo.
+          Each frame is a separate image request, so a card costs as many images as it has frames.
+        </p>
+      </div>
+
       <div style={{ marginBottom: '1.5rem' }}>
         <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
           Card Info on Hover
@@ -235,6 +286,50 @@ export function GenerationSettingsSection({
         </label>
       </div>
 
+      <div style={{ marginBottom: '1.5rem' }}>
+        <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+          Reversed Cards
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.allowReversals !== false}
+            onChange={(e) => updateSettings({ allowReversals: e.target.checked })}
+            style={{ width: '18px', height: '18px' }}
+          />
+          <div>
+            <div style={{ fontSize: '0.95rem' }}>
+              Allow reversed draws
+            </div>
+            <div style={{ fontSize: '0.85rem', opacity: 0.7 }}>
+              Cards can come up upside down and read with their reversed meaning. Turn off to draw everything upright.
+            </div>
+          </div>
+        </label>
+      </div>
+
+      <div style={{ marginBottom: '1.5rem' }}>
+        <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
+          Deck Size
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.includeMinorArcana === true}
+            onChange={(e) => updateSettings({ includeMinorArcana: e.target.checked })}
+            style={{ width: '18px', height: '18px' }}
+          />
+          <div>
+            <div style={{ fontSize: '0.95rem' }}>
+              Include the Minor Arcana (78 cards)
+            </div>
+            <div style={{ fontSize: '0.85rem', opacity: 0.7 }}>
+              Adds the four suits — Wands, Cups, Swords and Pentacles — to the 3D deck, readings and bulk generation. Off keeps the 22 Major Arcana.
+            </div>
+          </div>
+        </label>
+      </div>
+
       <div>
         <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
           Prompt Suffix (style modifiers)
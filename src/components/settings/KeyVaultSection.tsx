@@ -0,0 +1,212 @@
+import type { KeyVault, VaultEntry } from '../../utils/keyVault';
+import type { VaultSlotOption } from './useKeyVault';
+
+type KeyVaultSectionProps = {
+  showVault: boolean;
+  vault: KeyVault | null;             // null until the user creates one
+  unlocked: boolean;
+  busy: boolean;
+  status: string;
+  passphrase: string;
+  slots: VaultSlotOption[];
+  newKeySlot: string;
+  newKeyName: string;
+  newKeySecret: string;
+  onToggle: () => void;
+  onPassphraseChange: (passphrase: string) => void;
+  onCreate: () => void;
+  onUnlock: () => void;
+  onLock: () => void;
+  onNewKeySlotChange: (slot: string) => void;
+  onNewKeyNameChange: (name: string) => void;
+  onNewKeySecretChange: (secret: string) => void;
+  onAddKey: () => void;
+  onSelectKey: (entry: VaultEntry) => void;
+  onRemoveKey: (entry: VaultEntry) => void;
+  onRemoveVault: () => void;
+};
+
+const inputStyle = {
+  padding: '0.5rem 0.6rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+function buttonStyle(disabled: boolean, tone: 'primary' | 'danger' = 'primary') {
+  const color = tone === 'danger' ? '255, 107, 107' : '147, 51, 234';
+  return {
+    padding: '0.45rem 0.9rem',
+    background: `rgba(${color}, 0.2)`,
+    border: `1px solid rgba(${color}, 0.5)`,
+    borderRadius: '6px',
+    color: '#e8e8e8',
+    fontSize: '0.85rem',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  };
+}
+
+export function KeyVaultSection({
+  showVault,
+  vault,
+  unlocked,
+  busy,
+  status,
+  passphrase,
+  slots,
+  newKeySlot,
+  newKeyName,
+  newKeySecret,
+  onToggle,
+  onPassphraseChange,
+  onCreate,
+  onUnlock,
+  onLock,
+  onNewKeySlotChange,
+  onNewKeyNameChange,
+  onNewKeySecretChange,
+  onAddKey,
+  onSelectKey,
+  onRemoveKey,
+  onRemoveVault,
+}: KeyVaultSectionProps) {
+  const passphraseInput = (onSubmit: () => void, placeholder: string) => (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => onPassphraseChange(e.target.value)}
+      onKeyDown={(e) => e.key === 'Enter' && !busy && passphrase && onSubmit()}
+      placeholder={placeholder}
+      autoComplete={vault ? 'current-password' : 'new-password'}
+      style={{ ...inputStyle, flex: 1, minWidth: '12rem' }}
+    />
+  );
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showVault ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>
+          API Key Vault {vault && <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>{unlocked ? '· unlocked' : '· locked'}</span>}
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showVault ? '−' : '+'}
+        </span>
+      </div>
+
+      {showVault && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', fontSize: '0.9rem' }}>
+          <p style={{ margin: 0, fontSize: '0.85rem', opacity: 0.75 }}>
+            API keys are not saved with your settings. The vault keeps them in this browser, encrypted with a passphrase
+            you enter once per visit.
+          </p>
+
+          {!vault && (
+            <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+              {passphraseInput(onCreate, 'Choose a vault passphrase')}
+              <button onClick={onCreate} disabled={busy || !passphrase} style={buttonStyle(busy || !passphrase)}>
+                Create vault
+              </button>
+            </div>
+          )}
+
+          {vault && !unlocked && (
+            <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+              {passphraseInput(onUnlock, 'Vault passphrase')}
+              <button onClick={onUnlock} disabled={busy || !passphrase} style={buttonStyle(busy || !passphrase)}>
+                {busy ? 'Unlocking...' : 'Unlock'}
+              </button>
+              <button onClick={onRemoveVault} style={buttonStyle(false, 'danger')}>
+                Delete vault
+              </button>
+            </div>
+          )}
+
+          {vault && unlocked && (
+            <>
+              {slots.map(({ slot, label }) => {
+                const entries = vault.entries.filter((entry) => entry.slot === slot);
+                if (entries.length === 0) return null;
+                return (
+                  <div key={slot}>
+                    <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>{label}</div>
+                    {entries.map((entry) => {
+                      const active = vault.active[slot] === entry.id;
+                      return (
+                        <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.2rem 0' }}>
+                          <span style={{ flex: 1, color: active ? '#d4af37' : '#e8e8e8' }}>
+                            {entry.name}
+                            {active && <span style={{ opacity: 0.7 }}> · in use</span>}
+                          </span>
+                          {!active && (
+                            <button onClick={() => onSelectKey(entry)} disabled={busy} style={buttonStyle(busy)}>
+                              Use
+                            </button>
+                          )}
+                          <button onClick={() => onRemoveKey(entry)} disabled={busy} style={buttonStyle(busy, 'danger')}>
+                            Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                <select value={newKeySlot} onChange={(e) => onNewKeySlotChange(e.target.value)} style={inputStyle}>
+                  {slots.map(({ slot, label }) => (
+                    <option key={slot} value={slot}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  value={newKeyName}
+                  onChange={(e) => onNewKeyNameChange(e.target.value)}
+                  placeholder="Name, e.g. Team key"
+                  style={{ ...inputStyle, width: '10rem' }}
+                />
+                <input
+                  type="password"
+                  value={newKeySecret}
+                  onChange={(e) => onNewKeySecretChange(e.target.value)}
+                  placeholder="API key"
+                  autoComplete="off"
+                  style={{ ...inputStyle, flex: 1, minWidth: '10rem' }}
+                />
+                <button onClick={onAddKey} disabled={busy || !newKeySecret} style={buttonStyle(busy || !newKeySecret)}>
+                  Save key
+                </button>
+              </div>
+
+              <div style={{ display: 'flex', gap: '0.75rem' }}>
+                <button onClick={onLock} style={buttonStyle(false)}>
+                  Lock
+                </button>
+                <button onClick={onRemoveVault} style={buttonStyle(false, 'danger')}>
+                  Delete vault
+                </button>
+              </div>
+            </>
+          )}
+
+          {status && <div style={{ fontSize: '0.85rem', color: status === 'Wrong passphrase.' ? '#ff6b6b' : '#e8e8e8', opacity: 0.85 }}>{status}</div>}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -45,7 +45,7 @@ export function PhotoSettingsSection({
         </div>
         <div style={{ flex: 1 }}>
           <p style={{ fontSize: '0.95rem', marginBottom: '1rem', opacity: 0.8, lineHeight: '1.5' }}>
-            Upload your photo to generate personalized tarot cards. This will be used as the base for all 22 cards, placing you in each archetypal role.
+            Upload your photo to generate personalized tarot cards. This will be used as the base for every card in the deck, placing you in each archetypal role.
           </p>
           <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '0.75rem' }}>
             <label
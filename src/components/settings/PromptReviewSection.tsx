@@ -0,0 +1,62 @@
+import type { ComposedCardRequest } from '../../utils/imageGeneration';
+import { ComposedRequestView } from '../ComposedRequestView';
+
+type PromptReviewSectionProps = {
+  showReview: boolean;
+  requests: ComposedCardRequest[];   // only composed while the section is open
+  getCardName: (cardNumber: number) => string;
+  onToggle: () => void;
+};
+
+export function PromptReviewSection({ showReview, requests, getCardName, onToggle }: PromptReviewSectionProps) {
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showReview ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>
+          Review Prompts (Dry Run)
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showReview ? '−' : '+'}
+        </span>
+      </div>
+
+      {showReview && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <p style={{ fontSize: '0.85rem', margin: '0 0 0.5rem', opacity: 0.7 }}>
+            What "Generate All" would send for each card with the current settings. Nothing is sent or charged.
+          </p>
+          {requests.map((composed) => (
+            <details
+              key={composed.cardNumber}
+              style={{
+                padding: '0.5rem 0.75rem',
+                background: 'rgba(0, 0, 0, 0.2)',
+                border: '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '8px',
+              }}
+            >
+              <summary style={{ cursor: 'pointer', fontSize: '0.9rem' }}>
+                {composed.cardNumber} · {getCardName(composed.cardNumber)}
+                {composed.error && <span style={{ color: '#ffb347' }}> · {composed.error}</span>}
+              </summary>
+              <ComposedRequestView composed={composed} />
+            </details>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
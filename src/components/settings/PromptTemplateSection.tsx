@@ -0,0 +1,202 @@
+import {
+  CARD_PROMPT_TEMPLATE_KEYS,
+  DEFAULT_PROMPT_TEMPLATES,
+  TEMPLATE_PLACEHOLDERS,
+  buildCardPrompt,
+  validateTemplate,
+  type PromptTemplateKey,
+} from '../../utils/promptTemplates';
+import { getCardNumberLabel } from '../../utils/tarotCards';
+import type { DeckType, PromptTemplates, TarotCard } from '../../types';
+
+type PromptTemplateSectionProps = {
+  showEditor: boolean;
+  overrides: Partial<PromptTemplates> | undefined;
+  deckTypes: DeckType[];
+  cards: TarotCard[];
+  previewCardNumber: number;
+  previewDeckType: string;
+  onToggle: () => void;
+  onOverridesChange: (overrides: Partial<PromptTemplates>) => void;
+  onPreviewCardChange: (cardNumber: number) => void;
+  onPreviewDeckChange: (deckType: string) => void;
+};
+
+const TEMPLATE_LABELS: Partial<Record<PromptTemplateKey, { label: string; help: string }>> = {
+  baseTemplate: {
+    label: 'Card prompt',
+    help: 'Assembles the sections below into the prompt sent for each card. Empty sections are dropped.',
+  },
+  loreContextTemplate: {
+    label: 'Card narrative',
+    help: 'Fills {LORE_CONTEXT} for cards that carry a narrative.',
+  },
+  framingTemplate: {
+    label: 'Framing',
+    help: 'Fills {FRAMING}: composition and border instructions shared by every card.',
+  },
+};
+
+const textareaStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+  fontFamily: 'monospace',
+  resize: 'vertical' as const,
+};
+
+const selectStyle = {
+  flex: 1,
+  padding: '0.5rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+export function PromptTemplateSection({
+  showEditor,
+  overrides,
+  deckTypes,
+  cards,
+  previewCardNumber,
+  previewDeckType,
+  onToggle,
+  onOverridesChange,
+  onPreviewCardChange,
+  onPreviewDeckChange,
+}: PromptTemplateSectionProps) {
+  const currentOverrides = overrides || {};
+  const previewCard = cards.find((card) => card.number === previewCardNumber) ?? cards[0];
+
+  const setTemplate = (key: PromptTemplateKey, value: string) => {
+    const next = { ...currentOverrides };
+    // Only store templates that differ from the default
+    if (value === DEFAULT_PROMPT_TEMPLATES[key]) delete next[key];
+    else next[key] = value;
+    onOverridesChange(next);
+  };
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showEditor ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>
+          Prompt Templates
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showEditor ? '−' : '+'}
+        </span>
+      </div>
+
+      {showEditor && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+          {CARD_PROMPT_TEMPLATE_KEYS.map((key) => {
+            const value = currentOverrides[key] ?? DEFAULT_PROMPT_TEMPLATES[key];
+            const errors = validateTemplate(key, value);
+            const meta = TEMPLATE_LABELS[key];
+            return (
+              <div key={key}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '0.5rem' }}>
+                  <label style={{ fontSize: '0.9rem', opacity: 0.9 }}>{meta?.label ?? key}</label>
+                  {currentOverrides[key] !== undefined && (
+                    <button
+                      onClick={() => setTemplate(key, DEFAULT_PROMPT_TEMPLATES[key])}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: '#d4af37',
+                        fontSize: '0.8rem',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      Reset to default
+                    </button>
+                  )}
+                </div>
+                <textarea
+                  value={value}
+                  onChange={(e) => setTemplate(key, e.target.value)}
+                  rows={3}
+                  style={textareaStyle}
+                />
+                <p style={{ fontSize: '0.8rem', marginTop: '0.4rem', opacity: 0.6 }}>
+                  {meta?.help} Placeholders: {TEMPLATE_PLACEHOLDERS[key].map((name) => `{${name}}`).join(' ')}
+                </p>
+                {errors.length > 0 && (
+                  <ul style={{ margin: '0.4rem 0 0', paddingLeft: '1.2rem', fontSize: '0.8rem', color: '#ffb347' }}>
+                    {errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                    <li>The default template is used until this is fixed.</li>
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <div style={{ fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>Preview</div>
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <select
+                value={previewDeckType}
+                onChange={(e) => onPreviewDeckChange(e.target.value)}
+                style={selectStyle}
+              >
+                {deckTypes.map((deck) => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+              <select
+                value={previewCard?.number}
+                onChange={(e) => onPreviewCardChange(Number(e.target.value))}
+                style={selectStyle}
+              >
+                {cards.map((card) => (
+                  <option key={card.number} value={card.number}>
+                    {getCardNumberLabel(card)} · {card.traditional.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <pre
+              style={{
+                margin: 0,
+                padding: '0.75rem',
+                background: 'rgba(0, 0, 0, 0.3)',
+                border: '1px solid rgba(147, 51, 234, 0.3)',
+                borderRadius: '8px',
+                fontSize: '0.8rem',
+                whiteSpace: 'pre-wrap',
+                maxHeight: '16rem',
+                overflowY: 'auto',
+              }}
+            >
+              {previewCard ? buildCardPrompt(previewCard, previewDeckType, { promptTemplates: currentOverrides }) : ''}
+            </pre>
+            <p style={{ fontSize: '0.8rem', marginTop: '0.4rem', opacity: 0.6 }}>
+              Providers add their own request prefix and your prompt suffix to this text.
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
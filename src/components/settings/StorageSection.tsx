@@ -0,0 +1,219 @@
+import { formatBytes, type BrowserStorageEstimate, type StorageUsage } from '../../utils/storageUsage';
+
+type StorageSectionProps = {
+  showStorage: boolean;
+  usage: StorageUsage;
+  estimate?: BrowserStorageEstimate;  // undefined when the browser has no storage estimate API
+  busy: boolean;
+  status: string;
+  keepLatest: number;
+  olderCount: number;                 // generations the keep-latest cleanup would delete
+  communityCount: number;
+  videoDeckType: string;
+  videoCount: number;                 // videos in videoDeckType
+  deckTypes: { id: string; name: string }[];
+  getCardName: (cardNumber: number) => string;
+  onToggle: () => void;
+  onKeepLatestChange: (keep: number) => void;
+  onDeleteOlder: () => void;
+  onDropCommunity: () => void;
+  onVideoDeckChange: (deckType: string) => void;
+  onPurgeVideos: () => void;
+  onRequestPersistence: () => void;
+};
+
+const LARGEST_CARDS_SHOWN = 10;
+
+const rowStyle = { display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem', padding: '0.2rem 0' };
+
+const inputStyle = {
+  padding: '0.4rem 0.5rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+const actionRowStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.75rem',
+  flexWrap: 'wrap' as const,
+  padding: '0.6rem 0.75rem',
+  background: 'rgba(0, 0, 0, 0.2)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '8px',
+  fontSize: '0.9rem',
+};
+
+function actionButtonStyle(disabled: boolean) {
+  return {
+    marginLeft: 'auto',
+    padding: '0.4rem 0.8rem',
+    background: 'rgba(255, 107, 107, 0.15)',
+    border: '1px solid rgba(255, 107, 107, 0.5)',
+    borderRadius: '6px',
+    color: '#e8e8e8',
+    fontSize: '0.85rem',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  };
+}
+
+export function StorageSection({
+  showStorage,
+  usage,
+  estimate,
+  busy,
+  status,
+  keepLatest,
+  olderCount,
+  communityCount,
+  videoDeckType,
+  videoCount,
+  deckTypes,
+  getCardName,
+  onToggle,
+  onKeepLatestChange,
+  onDeleteOlder,
+  onDropCommunity,
+  onVideoDeckChange,
+  onPurgeVideos,
+  onRequestPersistence,
+}: StorageSectionProps) {
+  const getDeckName = (deckType: string) => deckTypes.find((deck) => deck.id === deckType)?.name || deckType;
+  const decks = Object.entries(usage.byDeck).sort((a, b) => b[1] - a[1]);
+  const usedShare = estimate && estimate.quota > 0 ? Math.min(estimate.usage / estimate.quota, 1) : 0;
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showStorage ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>
+          Storage
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showStorage ? '−' : '+'}
+        </span>
+      </div>
+
+      {showStorage && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {estimate ? (
+            <div>
+              <div style={{ fontSize: '0.95rem', marginBottom: '0.4rem', color: usedShare > 0.8 ? '#ffb347' : '#e8e8e8' }}>
+                Using {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} available to this site
+              </div>
+              <div style={{ height: '8px', background: 'rgba(255, 255, 255, 0.1)', borderRadius: '4px', overflow: 'hidden' }}>
+                <div
+                  style={{
+                    width: `${usedShare * 100}%`,
+                    height: '100%',
+                    background: usedShare > 0.8 ? '#ffb347' : '#d4af37',
+                  }}
+                />
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '0.5rem', fontSize: '0.85rem' }}>
+                <span style={{ opacity: 0.75 }}>
+                  {estimate.persisted
+                    ? 'Kept on this device: the browser will not clear it to free space.'
+                    : 'The browser may clear this data when the device runs low on space.'}
+                </span>
+                {!estimate.persisted && (
+                  <button onClick={onRequestPersistence} style={{ ...actionButtonStyle(false), background: 'rgba(147, 51, 234, 0.2)', border: '1px solid rgba(147, 51, 234, 0.5)' }}>
+                    Keep data on this device
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div style={{ fontSize: '0.85rem', opacity: 0.7 }}>This browser does not report storage usage.</div>
+          )}
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>Generated media: {formatBytes(usage.total)}</div>
+              <div style={rowStyle}><span>Images</span><span>{formatBytes(usage.byKind.image)}</span></div>
+              <div style={rowStyle}><span>GIFs</span><span>{formatBytes(usage.byKind.gif)}</span></div>
+              <div style={rowStyle}><span>Videos</span><span>{formatBytes(usage.byKind.video)}</span></div>
+            </div>
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>Per deck</div>
+              {decks.map(([deckType, bytes]) => (
+                <div key={deckType} style={rowStyle}>
+                  <span>{getDeckName(deckType)}</span>
+                  <span>{formatBytes(bytes)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {usage.byCard.length > 0 && (
+            <div>
+              <div style={{ fontWeight: 600, marginBottom: '0.35rem' }}>Largest cards</div>
+              {usage.byCard.slice(0, LARGEST_CARDS_SHOWN).map((card) => (
+                <div key={`${card.deckType}:${card.cardNumber}`} style={rowStyle}>
+                  <span>
+                    {getCardName(card.cardNumber)} · {getDeckName(card.deckType)}
+                    <span style={{ opacity: 0.6 }}> · {card.generations} generation{card.generations === 1 ? '' : 's'}</span>
+                  </span>
+                  <span>{formatBytes(card.bytes)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            <div style={{ fontWeight: 600 }}>Clean up</div>
+            <div style={actionRowStyle}>
+              Keep the latest
+              <input
+                type="number"
+                min="1"
+                value={keepLatest}
+                onChange={(e) => onKeepLatestChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                style={{ ...inputStyle, width: '4rem' }}
+              />
+              generations of each card
+              <button onClick={onDeleteOlder} disabled={busy || olderCount === 0} style={actionButtonStyle(busy || olderCount === 0)}>
+                Delete {olderCount} older
+              </button>
+            </div>
+            <div style={actionRowStyle}>
+              Community imports ({communityCount})
+              <button onClick={onDropCommunity} disabled={busy || communityCount === 0} style={actionButtonStyle(busy || communityCount === 0)}>
+                Remove imports
+              </button>
+            </div>
+            <div style={actionRowStyle}>
+              Videos in
+              <select value={videoDeckType} onChange={(e) => onVideoDeckChange(e.target.value)} style={inputStyle}>
+                {deckTypes.map((deck) => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+              ({videoCount})
+              <button onClick={onPurgeVideos} disabled={busy || videoCount === 0} style={actionButtonStyle(busy || videoCount === 0)}>
+                Remove videos
+              </button>
+            </div>
+            {status && <div style={{ fontSize: '0.85rem', opacity: 0.8 }}>{status}</div>}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
 type TestGenerationSectionProps = {
   testCardNumber: number;
+  deckCardCount: number;
   isGenerating: boolean;
   hasImageApiKey: boolean;
   missingApiKeyMessage: string;
@@ -9,6 +10,7 @@ type TestGenerationSectionProps = {
 
 export function TestGenerationSection({
   testCardNumber,
+  deckCardCount,
   isGenerating,
   hasImageApiKey,
   missingApiKeyMessage,
@@ -21,17 +23,17 @@ export function TestGenerationSection({
         Test Generation
       </h3>
       <p style={{ fontSize: '0.9rem', marginBottom: '1rem', opacity: 0.8 }}>
-        Generate one card first to test your photo and prompt before generating all 22 cards.
+        Generate one card first to test your photo and prompt before generating all {deckCardCount} cards.
       </p>
       <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end' }}>
         <div style={{ flex: 1 }}>
           <label style={{ display: 'block', fontSize: '0.9rem', marginBottom: '0.5rem', opacity: 0.9 }}>
-            Test Card Number (0-21)
+            Test Card Number (0-{deckCardCount - 1})
           </label>
           <input
             type="number"
             min="0"
-            max="21"
+            max={deckCardCount - 1}
             value={Number.isFinite(testCardNumber) ? testCardNumber : 0}
             onChange={(e) => {
               const next = e.target.value === '' ? 0 : parseInt(e.target.value, 10);
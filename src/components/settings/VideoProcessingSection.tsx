@@ -0,0 +1,153 @@
+import type { VideoProcessingSettings } from '../../types';
+import { VIDEO_SIZE_OPTIONS } from '../../utils/videoProcessing';
+
+type VideoProcessingSectionProps = {
+  showVideoProcessing: boolean;
+  processing: VideoProcessingSettings;      // already resolved, see getVideoProcessingSettings
+  supported: boolean;                       // see canProcessVideo
+  deckHasAudio: boolean;                    // the selected deck's videos are generated with sound
+  onToggle: () => void;
+  onChange: (patch: Partial<VideoProcessingSettings>) => void;
+};
+
+const CROSSFADE_OPTIONS = [
+  { value: 0, label: 'Off - play the clip as it ends' },
+  { value: 0.5, label: '0.5 seconds' },
+  { value: 1, label: '1 second' },
+  { value: 1.5, label: '1.5 seconds' },
+];
+
+const labelStyle = { display: 'block', marginBottom: '0.35rem', fontSize: '0.9rem', fontWeight: 600 };
+
+const fieldStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+export function VideoProcessingSection({
+  showVideoProcessing,
+  processing,
+  supported,
+  deckHasAudio,
+  onToggle,
+  onChange,
+}: VideoProcessingSectionProps) {
+  const readSeconds = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showVideoProcessing ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>Video Processing</h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showVideoProcessing ? '−' : '+'}
+        </span>
+      </div>
+
+      {showVideoProcessing && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <p style={{ margin: 0, fontSize: '0.85rem', opacity: 0.75 }}>
+            Trims new videos, blends their end into their start so the loop never jumps, and re-encodes them to fit a
+            size before they are stored. Processed videos are silent WebM files with a poster frame, so videos
+            generated with sound are kept as they are. Videos too large to share are compressed, without sound, when
+            you share them either way.
+          </p>
+
+          {!supported && (
+            <div style={{ fontSize: '0.85rem', color: '#ffb347' }}>
+              This browser cannot encode video (WebCodecs is not available), so videos are kept as generated.
+            </div>
+          )}
+
+          {supported && processing.enabled && deckHasAudio && (
+            <div style={{ fontSize: '0.85rem', color: '#ffb347' }}>
+              This deck's videos are generated with sound, which processing would remove, so they are not processed.
+              Turn sound off in Video Settings to process them.
+            </div>
+          )}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem', opacity: supported ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={processing.enabled}
+              disabled={!supported}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+            />
+            Process new videos
+          </label>
+
+          <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', opacity: processing.enabled ? 1 : 0.5 }}>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>Trim start (s)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={processing.trimStartSeconds}
+                disabled={!processing.enabled}
+                onChange={(e) => onChange({ trimStartSeconds: readSeconds(e.target.value) })}
+                style={fieldStyle}
+              />
+            </div>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>Trim end (s)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={processing.trimEndSeconds}
+                disabled={!processing.enabled}
+                onChange={(e) => onChange({ trimEndSeconds: readSeconds(e.target.value) })}
+                style={fieldStyle}
+              />
+            </div>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>Loop crossfade</label>
+              <select
+                value={processing.crossfadeSeconds}
+                disabled={!processing.enabled}
+                onChange={(e) => onChange({ crossfadeSeconds: Number(e.target.value) })}
+                style={fieldStyle}
+              >
+                {CROSSFADE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div style={{ opacity: processing.enabled ? 1 : 0.5 }}>
+            <label style={labelStyle}>Maximum size</label>
+            <select
+              value={processing.maxSizeBytes}
+              disabled={!processing.enabled}
+              onChange={(e) => onChange({ maxSizeBytes: Number(e.target.value) })}
+              style={fieldStyle}
+            >
+              {VIDEO_SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,198 @@
+import type { VideoAspectRatio, VideoGenerationSettings, VideoPersonGeneration } from '../../types';
+import {
+  CUSTOM_MOTION_PRESET_ID,
+  MOTION_PRESETS,
+  VEO_MODELS,
+  VIDEO_ASPECT_RATIOS,
+  VIDEO_PERSON_GENERATION,
+  getMotionText,
+  getVeoModel,
+} from '../../utils/videoSettings';
+
+type VideoSettingsSectionProps = {
+  showVideoSettings: boolean;
+  deckType: string;
+  deckName: string;
+  videoSettings: VideoGenerationSettings;   // already resolved for the deck, see getDeckVideoSettings
+  customized: boolean;                      // the deck has stored overrides
+  onToggle: () => void;
+  onChange: (patch: Partial<VideoGenerationSettings>) => void;
+  onReset: () => void;
+};
+
+const labelStyle = { display: 'block', marginBottom: '0.35rem', fontSize: '0.9rem', fontWeight: 600 };
+
+const fieldStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e8e8e8',
+  fontSize: '0.85rem',
+};
+
+export function VideoSettingsSection({
+  showVideoSettings,
+  deckType,
+  deckName,
+  videoSettings,
+  customized,
+  onToggle,
+  onChange,
+  onReset,
+}: VideoSettingsSectionProps) {
+  const model = getVeoModel(videoSettings.model);
+  const isCustomMotion = videoSettings.motionPreset === CUSTOM_MOTION_PRESET_ID;
+  const preset = MOTION_PRESETS.find((entry) => entry.id === videoSettings.motionPreset);
+
+  return (
+    <section>
+      <div
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          padding: '0.75rem 1rem',
+          background: 'rgba(212, 175, 55, 0.1)',
+          border: '1px solid rgba(212, 175, 55, 0.3)',
+          borderRadius: '8px',
+          marginBottom: showVideoSettings ? '1rem' : 0,
+        }}
+      >
+        <h3 style={{ fontSize: '1.3rem', margin: 0, color: '#d4af37' }}>
+          Video Settings <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>· {deckName}</span>
+        </h3>
+        <span style={{ fontSize: '1.5rem', color: '#d4af37' }}>
+          {showVideoSettings ? '−' : '+'}
+        </span>
+      </div>
+
+      {showVideoSettings && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <p style={{ margin: 0, fontSize: '0.85rem', opacity: 0.75 }}>
+            These settings apply to videos for the selected deck only. Each video records the settings it was made with.
+          </p>
+
+          <div>
+            <label style={labelStyle}>Model</label>
+            <select value={model.id} onChange={(e) => onChange({ model: e.target.value })} style={fieldStyle}>
+              {VEO_MODELS.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>Duration</label>
+              <select
+                value={videoSettings.durationSeconds}
+                onChange={(e) => onChange({ durationSeconds: Number(e.target.value) })}
+                style={fieldStyle}
+              >
+                {model.durations.map((seconds) => (
+                  <option key={seconds} value={seconds}>{seconds} seconds</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>Aspect ratio</label>
+              <select
+                value={videoSettings.aspectRatio}
+                onChange={(e) => onChange({ aspectRatio: e.target.value as VideoAspectRatio })}
+                style={fieldStyle}
+              >
+                {VIDEO_ASPECT_RATIOS.map((ratio) => (
+                  <option key={ratio.value} value={ratio.value}>{ratio.label}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ flex: 1, minWidth: '8rem' }}>
+              <label style={labelStyle}>People</label>
+              <select
+                value={videoSettings.personGeneration ?? ''}
+                onChange={(e) =>
+                  onChange({ personGeneration: (e.target.value || undefined) as VideoPersonGeneration | undefined })
+                }
+                style={fieldStyle}
+              >
+                {VIDEO_PERSON_GENERATION.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem', opacity: model.audio ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={videoSettings.generateAudio}
+              disabled={!model.audio}
+              onChange={(e) => onChange({ generateAudio: e.target.checked })}
+            />
+            Generate audio {!model.audio && '(not available with this model)'}
+          </label>
+
+          <div>
+            <label style={labelStyle}>Motion style</label>
+            <select value={videoSettings.motionPreset} onChange={(e) => onChange({ motionPreset: e.target.value })} style={fieldStyle}>
+              {MOTION_PRESETS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                  {option.decks?.includes(deckType) ? ' (deck default)' : ''}
+                </option>
+              ))}
+              <option value={CUSTOM_MOTION_PRESET_ID}>Custom…</option>
+            </select>
+            {preset && <div style={{ fontSize: '0.8rem', opacity: 0.7, marginTop: '0.35rem' }}>{preset.description}</div>}
+            {isCustomMotion ? (
+              <textarea
+                value={videoSettings.customMotion ?? ''}
+                onChange={(e) => onChange({ customMotion: e.target.value })}
+                placeholder="Describe the motion and camera, e.g. Candle flames gutter, the figure raises a hand. Camera steady."
+                rows={3}
+                style={{ ...fieldStyle, marginTop: '0.5rem', resize: 'vertical' }}
+              />
+            ) : (
+              <div style={{ fontSize: '0.8rem', opacity: 0.6, marginTop: '0.35rem', fontStyle: 'italic' }}>
+                {getMotionText(videoSettings, deckType)}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label style={labelStyle}>Negative prompt</label>
+            <textarea
+              value={videoSettings.negativePrompt ?? ''}
+              onChange={(e) => onChange({ negativePrompt: e.target.value })}
+              placeholder="What to avoid, e.g. text artifacts, extra limbs, fast camera moves"
+              rows={2}
+              style={{ ...fieldStyle, resize: 'vertical' }}
+            />
+          </div>
+
+          {customized && (
+            <button
+              onClick={onReset}
+              style={{
+                alignSelf: 'flex-start',
+                padding: '0.45rem 0.9rem',
+                background: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '6px',
+                color: '#e8e8e8',
+                fontSize: '0.85rem',
+                cursor: 'pointer',
+              }}
+            >
+              Reset to deck defaults
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { Settings } from '../../types';
+import { getProviderFieldPatch, listImageProviders } from '../../utils/imageProviders';
+import {
+  addVaultKey,
+  createVault,
+  deleteVault,
+  isVaultUnlocked,
+  loadVault,
+  lockVault,
+  readActiveVaultKeys,
+  readVaultKey,
+  removeVaultKey,
+  setActiveVaultKey,
+  unlockVault,
+  vaultSlot,
+  type KeyVault,
+  type VaultEntry,
+} from '../../utils/keyVault';
+
+export type VaultSlotOption = { slot: string; label: string };
+
+type UseKeyVaultArgs = {
+  settings: Settings;
+  updateSettings: (patch: Partial<Settings>) => void;
+};
+
+// Every secret field of every registered provider can hold vault keys
+function listVaultSlots() {
+  return listImageProviders().flatMap((provider) =>
+    provider.fields
+      .filter((field) => field.secret)
+      .map((field) => ({ slot: vaultSlot(provider.id, field.id), label: `${provider.name}: ${field.label}`, provider, field }))
+  );
+}
+
+export function useKeyVault({ settings, updateSettings }: UseKeyVaultArgs) {
+  const [vault, setVault] = useState<KeyVault | null>(() => loadVault());
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [newKeySlot, setNewKeySlot] = useState(() => listVaultSlots()[0]?.slot ?? '');
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeySecret, setNewKeySecret] = useState('');
+
+  const slots = listVaultSlots();
+
+  // Decrypted keys go into settings, which keeps them in memory only
+  const applyKeys = (keys: Record<string, string>) => {
+    let patch: Partial<Settings> = {};
+    slots.forEach(({ slot, provider, field }) => {
+      if (keys[slot] === undefined) return;
+      patch = { ...patch, ...getProviderFieldPatch({ ...settings, ...patch }, provider.id, field, keys[slot]) };
+    });
+    if (Object.keys(patch).length > 0) updateSettings(patch);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setStatus('');
+    try {
+      await action();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Key vault error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return {
+    vault,
+    unlocked,
+    busy,
+    status,
+    passphrase,
+    setPassphrase,
+    slots: slots.map(({ slot, label }): VaultSlotOption => ({ slot, label })),
+    newKeySlot,
+    setNewKeySlot,
+    newKeyName,
+    setNewKeyName,
+    newKeySecret,
+    setNewKeySecret,
+    create: () =>
+      run(async () => {
+        setVault(await createVault(passphrase));
+        setUnlocked(true);
+        setPassphrase('');
+      }),
+    unlock: () =>
+      run(async () => {
+        if (!vault) return;
+        await unlockVault(vault, passphrase);
+        applyKeys(await readActiveVaultKeys(vault));
+        setUnlocked(true);
+        setPassphrase('');
+        setStatus('Unlocked. Saved keys are in use until the page is reloaded.');
+      }),
+    lock: () => {
+      lockVault();
+      setUnlocked(false);
+    },
+    addKey: () =>
+      run(async () => {
+        if (!vault || !newKeySecret) return;
+        setVault(await addVaultKey(vault, newKeySlot, newKeyName, newKeySecret));
+        applyKeys({ [newKeySlot]: newKeySecret });
+        setNewKeyName('');
+        setNewKeySecret('');
+      }),
+    selectKey: (entry: VaultEntry) =>
+      run(async () => {
+        if (!vault) return;
+        applyKeys({ [entry.slot]: await readVaultKey(entry) });
+        setVault(setActiveVaultKey(vault, entry));
+      }),
+    removeKey: (entry: VaultEntry) => {
+      if (!vault || !window.confirm(`Remove the key "${entry.name}" from the vault?`)) return;
+      setVault(removeVaultKey(vault, entry.id));
+    },
+    removeVault: () => {
+      if (!window.confirm('Delete the key vault and every key in it? Keys in use stay in use until the page is reloaded.')) return;
+      deleteVault();
+      setVault(null);
+      setUnlocked(false);
+      setStatus('');
+    },
+  };
+}
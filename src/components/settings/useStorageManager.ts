@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import type { GeneratedCard } from '../../types';
+import { getMediaHash, getStoredMediaSizes } from '../../utils/mediaStore';
+import {
+  getBrowserStorageEstimate,
+  requestPersistentStorage,
+  selectOlderGenerations,
+  selectVideoPurge,
+  summarizeStorage,
+  type BrowserStorageEstimate,
+  type StorageUsage,
+} from '../../utils/storageUsage';
+
+type UseStorageManagerArgs = {
+  open: boolean;
+  generatedCards: GeneratedCard[];
+  selectedDeckType: string;
+  deleteGeneratedCards: (timestamps: number[]) => Promise<void>;
+  removeGeneratedVideos: (deckType: string) => Promise<void>;
+};
+
+export function useStorageManager({
+  open,
+  generatedCards,
+  selectedDeckType,
+  deleteGeneratedCards,
+  removeGeneratedVideos,
+}: UseStorageManagerArgs) {
+  const [mediaSizes, setMediaSizes] = useState<Record<string, number>>({});
+  const [estimate, setEstimate] = useState<BrowserStorageEstimate | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState('');
+  const [keepLatest, setKeepLatest] = useState(1);
+  const [videoDeckType, setVideoDeckType] = useState(selectedDeckType);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  // Sizes are read only while the section is open; cleanup bumps refreshCount
+  // once unused media is gone, since that lands after the card list changes
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    void Promise.all([getStoredMediaSizes(), getBrowserStorageEstimate()]).then(([sizes, browserEstimate]) => {
+      if (cancelled) return;
+      setMediaSizes(sizes);
+      setEstimate(browserEstimate);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, generatedCards, refreshCount]);
+
+  const usage: StorageUsage = summarizeStorage(generatedCards, mediaSizes, getMediaHash);
+  const olderGenerations = selectOlderGenerations(generatedCards, keepLatest);
+  const communityCards = generatedCards.filter((card) => card.source === 'community');
+  const videoPurge = selectVideoPurge(generatedCards, videoDeckType);
+
+  const runCleanup = async (question: string, action: () => Promise<void>) => {
+    if (!window.confirm(question)) return;
+    setBusy(true);
+    setStatus('Cleaning up...');
+    try {
+      await action();
+      setStatus('Done. Space is released as the browser compacts its storage.');
+    } catch (err) {
+      console.error('[Storage] Cleanup failed:', err);
+      setStatus(err instanceof Error ? err.message : 'Cleanup failed');
+    } finally {
+      setBusy(false);
+      setRefreshCount((count) => count + 1);
+    }
+  };
+
+  return {
+    usage,
+    estimate,
+    busy,
+    status,
+    keepLatest,
+    setKeepLatest,
+    videoDeckType,
+    setVideoDeckType,
+    olderCount: olderGenerations.length,
+    communityCount: communityCards.length,
+    videoCount: videoPurge.remove.length + videoPurge.strip.length,
+    deleteOlderGenerations: () =>
+      runCleanup(
+        `Delete ${olderGenerations.length} older generations, keeping the latest ${keepLatest} of each card?`,
+        () => deleteGeneratedCards(olderGenerations.map((card) => card.timestamp))
+      ),
+    dropCommunityImports: () =>
+      runCleanup(`Remove ${communityCards.length} cards imported from the community gallery?`, () =>
+        deleteGeneratedCards(communityCards.map((card) => card.timestamp))
+      ),
+    purgeVideos: () =>
+      runCleanup('Remove every video in this deck? The card images are kept.', () =>
+        removeGeneratedVideos(videoDeckType)
+      ),
+    requestPersistence: async () => {
+      const persisted = await requestPersistentStorage();
+      setStatus(persisted ? '' : 'The browser declined. It may grant this after more use, or when the site is installed.');
+      setRefreshCount((count) => count + 1);
+    },
+  };
+}
@@ -6,21 +6,24 @@
  *     deckInterpretation, videoPrompt, tarot-decks.json)
  *   - Use renderHook + act from @testing-library/react
  *   - Mock tarot-decks.json to 2 cards so batch tests stay fast
- *   - vi.useFakeTimers() for inter-card rate-limit delays
+ *   - vi.useFakeTimers() so no test waits on real timers
  *
  * Scenarios covered:
  *   generateSingleCard  — happy path, bad card number, image failure,
- *                         existing prompt preserved, progress context
+ *                         existing prompt preserved, progress context,
+ *                         cost recorded only on success, prompt version
+ *                         linked to the image
+ *   regenerateWithPromptVersion — generates with an older version as-is
  *   generateVideo       — happy path, no reference image, video API error,
  *                         bad card number
- *   generateAllCards    — generates each card in sequence, continues after failure
- *   generateAllVideos   — skips no-image cards, skips cached videos,
- *                         accumulates failures, formats final status
+ *   generateAllCards    — queues an image job (the run itself is covered in
+ *                         useGenerationQueue.test.ts), refused over budget
+ *   generateAllVideos   — queues a video job
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { act, renderHook } from '@testing-library/react';
-import type { GeneratedCard, Settings } from '../types';
+import type { GeneratedCard, PromptVersion, Settings } from '../types';
 
 // ─── Mocks (must be declared before imports) ────────────────────────────────
 
@@ -46,13 +49,16 @@ vi.mock('../data/tarot-decks.json', () => ({
         lordOfMysteries: { pathway: 'Magician' },
       },
     ],
+    costEstimation: {
+      'gemini-2.5-flash-image': { perImage: 0.04, note: 'test price' },
+    },
   },
 }));
 
 import { useCardGeneration } from './useCardGeneration';
 import { useStore } from '../store/useStore';
 import { generateCardFrames } from '../utils/imageGeneration';
-import { generateVideoFromImage } from '../utils/videoGeneration';
+import { downloadGeneratedVideo, generateVideoFromImage } from '../utils/videoGeneration';
 import { getInterpretationForDeck } from '../utils/deckInterpretation';
 import { buildTarotVideoPrompt } from '../utils/videoPrompt';
 
@@ -61,6 +67,8 @@ import { buildTarotVideoPrompt } from '../utils/videoPrompt';
 const DEFAULT_SETTINGS = {
   selectedDeckType: 'traditional-rider-waite',
   geminiApiKey: 'test-key',
+  apiProvider: 'gemini',
+  generationModel: 'gemini-2.5-flash-image',
 } as Settings;
 
 function makeGeneratedCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
@@ -85,6 +93,22 @@ function makeStoreMock(overrides: Partial<ReturnType<typeof useStore>> = {}) {
     setIsGenerating: vi.fn(),
     setGenerationProgress: vi.fn(),
     getGeneratedCard: vi.fn().mockReturnValue(undefined),
+    enqueueGenerationJob: vi.fn(),
+    generatedCards: [],
+    costRecords: [],
+    recordGenerationCost: vi.fn(),
+    promptVersions: [],
+    savePromptVersion: vi.fn(
+      (cardNumber: number, deckType: string, prompt: string): PromptVersion => ({
+        id: 'version-1',
+        cardNumber,
+        deckType,
+        version: 1,
+        prompt,
+        createdAt: 1_000,
+      })
+    ),
+    pendingVideoOperations: [],
     ...overrides,
   };
 }
@@ -95,6 +119,7 @@ beforeEach(() => {
   vi.mocked(useStore).mockReturnValue(makeStoreMock() as any);
   vi.mocked(generateCardFrames).mockResolvedValue(['data:image/jpeg;base64,frame1']);
   vi.mocked(generateVideoFromImage).mockResolvedValue({ videoUrl: 'https://example.com/video.mp4' });
+  vi.mocked(downloadGeneratedVideo).mockRejectedValue(new Error('offline'));
   vi.mocked(getInterpretationForDeck).mockReturnValue({
     name: 'The Fool',
     prompt: 'A fool stands at the precipice',
@@ -106,6 +131,7 @@ beforeEach(() => {
 
   vi.useFakeTimers();
   vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
 });
 
 afterEach(() => {
@@ -141,6 +167,28 @@ describe('generateSingleCard', () => {
     expect(result.current.error).toBeNull();
   });
 
+  it('records the estimated cost of a successful request', async () => {
+    const store = makeStoreMock();
+    vi.mocked(useStore).mockReturnValue(store as any);
+
+    const { result } = renderHook(() => useCardGeneration());
+
+    await act(async () => {
+      await result.current.generateSingleCard(0);
+    });
+
+    expect(store.recordGenerationCost).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'image',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash-image',
+        deckType: 'traditional-rider-waite',
+        cardNumber: 0,
+        cost: 0.04,
+      })
+    );
+  });
+
   it('sets error and clears isGenerating when card number is invalid', async () => {
     const store = makeStoreMock();
     vi.mocked(useStore).mockReturnValue(store as any);
@@ -170,6 +218,7 @@ describe('generateSingleCard', () => {
     expect(result.current.error).toContain('Gemini API key required');
     expect(store.setIsGenerating).toHaveBeenLastCalledWith(false);
     expect(store.addGeneratedCard).not.toHaveBeenCalled();
+    expect(store.recordGenerationCost).not.toHaveBeenCalled();
   });
 
   it('preserves an existing edited prompt from the store', async () => {
@@ -189,6 +238,22 @@ describe('generateSingleCard', () => {
     expect(saved.prompt).toBe('My custom prompt');
   });
 
+  it('records the prompt as a version and links the image to it', async () => {
+    const store = makeStoreMock();
+    vi.mocked(useStore).mockReturnValue(store as any);
+
+    const { result } = renderHook(() => useCardGeneration());
+
+    await act(async () => {
+      await result.current.generateSingleCard(0);
+    });
+
+    expect(store.savePromptVersion).toHaveBeenCalledWith(0, 'traditional-rider-waite', 'A fool stands at the precipice');
+    expect(vi.mocked(generateCardFrames).mock.calls[0][5]).toBe('A fool stands at the precipice');
+    const saved = store.addGeneratedCard.mock.calls[0][0] as GeneratedCard;
+    expect(saved.promptVersion).toBe(1);
+  });
+
   it('uses generic status message when no progressContext is provided', async () => {
     const store = makeStoreMock();
     vi.mocked(useStore).mockReturnValue(store as any);
@@ -220,6 +285,36 @@ describe('generateSingleCard', () => {
   });
 });
 
+// ─── regenerateWithPromptVersion ─────────────────────────────────────────────
+
+describe('regenerateWithPromptVersion', () => {
+  it('generates with the chosen version without recording a new one', async () => {
+    const store = makeStoreMock({
+      getGeneratedCard: vi.fn().mockReturnValue(makeGeneratedCard({ prompt: 'Latest wording', promptVersion: 3 })),
+    });
+    vi.mocked(useStore).mockReturnValue(store as any);
+    const older: PromptVersion = {
+      id: 'version-2',
+      cardNumber: 0,
+      deckType: 'traditional-rider-waite',
+      version: 2,
+      prompt: 'Older wording',
+      createdAt: 500,
+    };
+
+    const { result } = renderHook(() => useCardGeneration());
+
+    await act(async () => {
+      await result.current.regenerateWithPromptVersion(0, older);
+    });
+
+    expect(store.savePromptVersion).not.toHaveBeenCalled();
+    expect(vi.mocked(generateCardFrames).mock.calls[0][5]).toBe('Older wording');
+    const saved = store.addGeneratedCard.mock.calls[0][0] as GeneratedCard;
+    expect(saved).toMatchObject({ prompt: 'Older wording', promptVersion: 2 });
+  });
+});
+
 // ─── generateVideo ───────────────────────────────────────────────────────────
 
 describe('generateVideo', () => {
@@ -307,203 +402,52 @@ describe('generateVideo', () => {
   });
 });
 
-// ─── generateAllCards ────────────────────────────────────────────────────────
+// ─── generateAllCards / generateAllVideos ────────────────────────────────────
 
 describe('generateAllCards', () => {
-  it('calls generateCardFrames for each card and adds all to store', async () => {
+  it('queues an image job for every card in the deck instead of generating inline', () => {
     const store = makeStoreMock();
     vi.mocked(useStore).mockReturnValue(store as any);
 
     const { result } = renderHook(() => useCardGeneration());
 
-    const promise = act(async () => {
-      const p = result.current.generateAllCards();
-      await vi.runAllTimersAsync();
-      await p;
+    act(() => {
+      result.current.generateAllCards();
     });
-    await promise;
 
-    // 2 mocked cards → 2 frames generated → 2 store writes
-    expect(generateCardFrames).toHaveBeenCalledTimes(2);
-    expect(store.addGeneratedCard).toHaveBeenCalledTimes(2);
-    expect(store.setIsGenerating).toHaveBeenLastCalledWith(false);
+    expect(store.enqueueGenerationJob).toHaveBeenCalledWith('image', 'traditional-rider-waite', [0, 1]);
+    expect(generateCardFrames).not.toHaveBeenCalled();
   });
 
-  it('continues generating remaining cards after one fails', async () => {
-    vi.mocked(generateCardFrames)
-      .mockRejectedValueOnce(new Error('API error on card 0'))
-      .mockResolvedValueOnce(['data:image/jpeg;base64,frame1']);
-
-    const store = makeStoreMock();
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    const promise = act(async () => {
-      const p = result.current.generateAllCards();
-      await vi.runAllTimersAsync();
-      await p;
+  it('refuses to queue a run that would go over the monthly budget', () => {
+    const store = makeStoreMock({
+      settings: { ...DEFAULT_SETTINGS, monthlyBudget: 0.05 },
     });
-    await promise;
-
-    // First card failed, second succeeded
-    expect(store.addGeneratedCard).toHaveBeenCalledTimes(1);
-    const saved = store.addGeneratedCard.mock.calls[0][0] as GeneratedCard;
-    expect(saved.cardNumber).toBe(1);
-  });
-
-  it('sets final progress to total cards on completion', async () => {
-    const store = makeStoreMock();
     vi.mocked(useStore).mockReturnValue(store as any);
 
     const { result } = renderHook(() => useCardGeneration());
 
-    const promise = act(async () => {
-      const p = result.current.generateAllCards();
-      await vi.runAllTimersAsync();
-      await p;
+    act(() => {
+      result.current.generateAllCards();
     });
-    await promise;
 
-    const lastProgress = store.setGenerationProgress.mock.calls.at(-1)[0];
-    expect(lastProgress.current).toBe(2); // 2 mocked cards
-    expect(lastProgress.total).toBe(2);
-    expect(lastProgress.status).toContain('All cards generated');
+    expect(store.enqueueGenerationJob).not.toHaveBeenCalled();
+    expect(result.current.error).toContain('Over budget: this run is estimated at $0.080');
   });
 });
 
-// ─── generateAllVideos ───────────────────────────────────────────────────────
-
 describe('generateAllVideos', () => {
-  it('skips cards with no reference image and lists them in failures', async () => {
-    // No existing cards in store → no reference images
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn().mockReturnValue(undefined),
-    });
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    await act(async () => {
-      await result.current.generateAllVideos();
-    });
-
-    expect(generateVideoFromImage).not.toHaveBeenCalled();
-    expect(result.current.error).toContain('Failed:');
-  });
-
-  it('skips cards that already have a videoUrl (cache hit)', async () => {
-    const cachedCard = makeGeneratedCard({
-      frames: ['data:image/jpeg;base64,ref'],
-      videoUrl: 'https://example.com/cached.mp4',
-    });
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn().mockReturnValue(cachedCard),
-    });
+  it('queues a video job for every card in the deck instead of generating inline', () => {
+    const store = makeStoreMock();
     vi.mocked(useStore).mockReturnValue(store as any);
 
     const { result } = renderHook(() => useCardGeneration());
 
-    await act(async () => {
-      await result.current.generateAllVideos();
+    act(() => {
+      result.current.generateAllVideos();
     });
 
+    expect(store.enqueueGenerationJob).toHaveBeenCalledWith('video', 'traditional-rider-waite', [0, 1]);
     expect(generateVideoFromImage).not.toHaveBeenCalled();
-    expect(store.addGeneratedCard).not.toHaveBeenCalled();
-  });
-
-  it('generates videos for eligible cards and saves them to the store', async () => {
-    const cardWithImage = makeGeneratedCard({ frames: ['data:image/jpeg;base64,ref'] });
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn().mockReturnValue(cardWithImage),
-    });
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    const promise = act(async () => {
-      const p = result.current.generateAllVideos();
-      await vi.runAllTimersAsync();
-      await p;
-    });
-    await promise;
-
-    expect(generateVideoFromImage).toHaveBeenCalledTimes(2); // 2 mocked cards
-    expect(store.addGeneratedCard).toHaveBeenCalledTimes(2);
-
-    const saved = store.addGeneratedCard.mock.calls[0][0] as GeneratedCard;
-    expect(saved.videoUrl).toBe('https://example.com/video.mp4');
-  });
-
-  it('continues after a video failure and records it in the error summary', async () => {
-    const cardWithImage = makeGeneratedCard({ frames: ['data:image/jpeg;base64,ref'] });
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn().mockReturnValue(cardWithImage),
-    });
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    vi.mocked(generateVideoFromImage)
-      .mockResolvedValueOnce({ error: 'Quota exceeded' }) // card 0 fails
-      .mockResolvedValueOnce({ videoUrl: 'https://example.com/video.mp4' }); // card 1 succeeds
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    const promise = act(async () => {
-      const p = result.current.generateAllVideos();
-      await vi.runAllTimersAsync();
-      await p;
-    });
-    await promise;
-
-    // Card 1 still saves despite card 0 failing
-    expect(store.addGeneratedCard).toHaveBeenCalledTimes(1);
-    expect(result.current.error).toContain('Failed');
-  });
-
-  it('reports correct final status when all videos are generated', async () => {
-    const cardWithImage = makeGeneratedCard({ frames: ['data:image/jpeg;base64,ref'] });
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn().mockReturnValue(cardWithImage),
-    });
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    const promise = act(async () => {
-      const p = result.current.generateAllVideos();
-      await vi.runAllTimersAsync();
-      await p;
-    });
-    await promise;
-
-    const lastProgress = store.setGenerationProgress.mock.calls.at(-1)[0];
-    expect(lastProgress.status).toBe('All videos generated!');
-    expect(result.current.error).toBeNull();
-  });
-
-  it('reports mixed status when some cached and some generated', async () => {
-    // Card 0: has existing video (skip/cached), Card 1: has image only (generate)
-    const cachedCard = makeGeneratedCard({ videoUrl: 'https://example.com/cached.mp4', frames: ['f'] });
-    const freshCard = makeGeneratedCard({ cardNumber: 1, frames: ['data:image/jpeg;base64,ref'] });
-
-    const store = makeStoreMock({
-      getGeneratedCard: vi.fn()
-        .mockReturnValueOnce(cachedCard)  // card 0
-        .mockReturnValueOnce(freshCard),  // card 1
-    });
-    vi.mocked(useStore).mockReturnValue(store as any);
-
-    const { result } = renderHook(() => useCardGeneration());
-
-    const promise = act(async () => {
-      const p = result.current.generateAllVideos();
-      await vi.runAllTimersAsync();
-      await p;
-    });
-    await promise;
-
-    const lastProgress = store.setGenerationProgress.mock.calls.at(-1)[0];
-    expect(lastProgress.status).toContain('generated');
-    expect(lastProgress.status).toContain('cached');
   });
 });
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { useStore } from '../store/useStore';
-import { generateCardFrames } from '../utils/imageGeneration';
-import { generateVideoFromImage } from '../utils/videoGeneration';
-import { getInterpretationForDeck } from '../utils/deckInterpretation';
-import { buildTarotVideoPrompt } from '../utils/videoPrompt';
-import tarotData from '../data/tarot-decks.json';
-import type { TarotCard, GeneratedCard } from '../types';
+import { createCardImage, createCardVideo, getCardVideoPrompt } from '../utils/cardGenerationTasks';
+import { createCostRecord, estimateBulkRun, getBudgetBlockMessage } from '../utils/costTracking';
+import { resolveCardPrompt } from '../utils/promptVersions';
+import { getCardByNumber, getDeckCards } from '../utils/tarotCards';
+import { findPendingVideo } from '../utils/videoOperations';
+import { storeVideoOperationTracker } from './usePendingVideoOperations';
+import type { GenerationJobKind, PromptVersion } from '../types';
 
 export function useCardGeneration() {
   const {
@@ -14,19 +15,27 @@ export function useCardGeneration() {
     setIsGenerating,
     setGenerationProgress,
     getGeneratedCard,
+    enqueueGenerationJob,
+    generatedCards,
+    costRecords,
+    recordGenerationCost,
+    promptVersions,
+    savePromptVersion,
+    pendingVideoOperations,
   } = useStore();
   const [error, setError] = useState<string | null>(null);
 
+  // Without a `promptVersion`, the card's current prompt is used (and recorded as a version if new)
   const generateSingleCard = async (
     cardNumber: number,
-    progressContext?: { current: number; total: number; cardName?: string }
+    progressContext?: { current: number; total: number; cardName?: string },
+    promptVersion?: PromptVersion
   ): Promise<void> => {
     try {
       setError(null);
       setIsGenerating(true);
 
-      const cards = tarotData.cards as TarotCard[];
-      const card = cards.find((c) => c.number === cardNumber);
+      const card = getCardByNumber(cardNumber);
 
       if (!card) {
         throw new Error(`Card ${cardNumber} not found`);
@@ -44,38 +53,28 @@ export function useCardGeneration() {
           : `Generating ${cardLabel}...`,
       });
 
-      // Generate single image (for video reference)
-      const frames = await generateCardFrames(
-        card,
-        settings.selectedDeckType,
-        1, // Always 1 frame now
-        settings,
-        (current, _total) => {
-          const progressCurrent = Math.min(totalCards, baseCurrent + current);
-          setGenerationProgress({
-            current: progressCurrent,
-            total: totalCards,
-            status: progressContext
-              ? `Generating card ${baseCurrent + 1}/${totalCards}: ${cardLabel}`
-              : `Generating ${cardLabel}...`,
-          });
-        }
-      );
-
-      // Save to store (keeping frames/gifUrl for backward compatibility); carry over edited prompt if any
       const existing = getGeneratedCard(cardNumber, settings.selectedDeckType);
-      const generatedCard: GeneratedCard = {
-        cardNumber,
-        deckType: settings.selectedDeckType,
-        frames,
-        gifUrl: frames[0], // Use image as static "gif"
-        timestamp: Date.now(),
-        shared: false,
-        source: 'local',
-        prompt: existing?.prompt || undefined,
-      };
+      const version =
+        promptVersion ??
+        savePromptVersion(
+          cardNumber,
+          settings.selectedDeckType,
+          resolveCardPrompt(card, settings.selectedDeckType, promptVersions, existing)
+        );
+      const generatedCard = await createCardImage(card, settings, existing, (current, _total) => {
+        const progressCurrent = Math.min(totalCards, baseCurrent + current);
+        setGenerationProgress({
+          current: progressCurrent,
+          total: totalCards,
+          status: progressContext
+            ? `Generating card ${baseCurrent + 1}/${totalCards}: ${cardLabel}`
+            : `Generating ${cardLabel}...`,
+        });
+      }, version);
 
       addGeneratedCard(generatedCard);
+      // One billed request per frame
+      generatedCard.frames.forEach(() => recordGenerationCost(createCostRecord('image', settings, cardNumber)));
 
       setGenerationProgress({
         current: Math.min(totalCards, baseCurrent + 1),
@@ -98,49 +97,28 @@ export function useCardGeneration() {
       setError(null);
       setIsGenerating(true);
 
-      const cards = tarotData.cards as TarotCard[];
-      const card = cards.find((c) => c.number === cardNumber);
+      const card = getCardByNumber(cardNumber);
       if (!card) throw new Error(`Card ${cardNumber} not found`);
 
       const existingForDeck = getGeneratedCard(cardNumber, settings.selectedDeckType);
-      const referenceImage = existingForDeck?.frames?.[0];
-
-      if (!referenceImage) {
+      if (!existingForDeck?.frames?.[0]) {
         throw new Error('No reference image found. Please generate the card image first.');
       }
+      if (findPendingVideo(pendingVideoOperations, cardNumber, settings.selectedDeckType)) {
+        throw new Error('A video for this card is still rendering. It will be added to the card when it finishes.');
+      }
 
-      const interpretation = getInterpretationForDeck(card, settings.selectedDeckType);
-      const editedPrompt = existingForDeck?.prompt;
-      const { title, basePrompt } = buildTarotVideoPrompt({
-        cardNumber: card.number,
-        titleFallback: interpretation.name || interpretation.pathway || card.traditional.name || `Card ${card.number}`,
-        prompt: editedPrompt || interpretation.prompt,
-      });
-
+      const { title } = getCardVideoPrompt(card, settings, existingForDeck.prompt);
       setGenerationProgress({
         current: 0,
         total: 1,
         status: `Generating video for ${title}...`,
       });
 
-      const videoResult = await generateVideoFromImage(basePrompt, referenceImage, settings);
-      if (videoResult.error || !videoResult.videoUrl) {
-        throw new Error(videoResult.error || 'No video URL returned');
-      }
-
-      const updated: GeneratedCard = {
-        cardNumber,
-        deckType: settings.selectedDeckType,
-        frames: existingForDeck?.frames || [],
-        gifUrl: existingForDeck?.gifUrl,
-        videoUrl: videoResult.videoUrl,
-        timestamp: Date.now(),
-        shared: false,
-        source: 'local',
-        prompt: existingForDeck?.prompt,
-      };
+      const updated = await createCardVideo(card, settings, existingForDeck, storeVideoOperationTracker);
 
       addGeneratedCard(updated);
+      recordGenerationCost(createCostRecord('video', settings, cardNumber));
       setGenerationProgress({
         current: 1,
         total: 1,
@@ -155,143 +133,31 @@ export function useCardGeneration() {
     }
   };
 
-  const generateAllCards = async (): Promise<void> => {
-    try {
-      setError(null);
-      setIsGenerating(true);
-
-      const cards = tarotData.cards as TarotCard[];
-
-      for (let i = 0; i < cards.length; i++) {
-        const card = cards[i];
-
-        await generateSingleCard(card.number, {
-          current: i,
-          total: cards.length,
-          cardName: card.traditional.name,
-        });
-
-        // Delay between cards to avoid rate limiting
-        if (i < cards.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        }
-      }
-
-      setGenerationProgress({
-        current: cards.length,
-        total: cards.length,
-        status: 'All cards generated!',
-      });
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-      console.error('All cards generation error:', err);
-    } finally {
-      setIsGenerating(false);
+  // Bulk runs go through the persisted queue (see useGenerationQueue) so they
+  // survive reloads and closing the settings panel. A run that would take the
+  // month over the budget is refused before anything is queued.
+  const enqueueBulkRun = (kind: GenerationJobKind): void => {
+    setError(null);
+    const estimate = estimateBulkRun(kind, settings, generatedCards);
+    const overBudget = getBudgetBlockMessage(costRecords, estimate, settings.monthlyBudget);
+    if (overBudget) {
+      setError(overBudget);
+      return;
     }
+    const cards = getDeckCards(settings.includeMinorArcana);
+    enqueueGenerationJob(kind, settings.selectedDeckType, cards.map((card) => card.number));
   };
 
-  const generateAllVideos = async (): Promise<void> => {
-    try {
-      setError(null);
-      setIsGenerating(true);
-
-      const cards = tarotData.cards as TarotCard[];
-      const failures: string[] = [];
-      const skipped: string[] = [];
-      const rateLimitDelayMs = 35000; // ~2 requests per minute to stay under RPM
-
-      for (let i = 0; i < cards.length; i++) {
-        const card = cards[i];
-        const interpretation = getInterpretationForDeck(card, settings.selectedDeckType);
-        const existing = getGeneratedCard(card.number, settings.selectedDeckType);
-        const referenceImage = existing?.frames?.[0];
-
-        setGenerationProgress({
-          current: i,
-          total: cards.length,
-          status: `Generating video ${i + 1}/${cards.length}: ${card.traditional.name || interpretation.pathway || `Card ${card.number}`}`,
-        });
-
-        if (!referenceImage) {
-          failures.push(`${card.traditional.name || interpretation.pathway || `Card ${card.number}`} (no image yet)`);
-          continue;
-        }
-
-        // Skip if video already exists (cache hit)
-        if (existing?.videoUrl) {
-          skipped.push(card.traditional.name || card.lordOfMysteries.pathway || `Card ${card.number}`);
-          continue;
-        }
-
-        let requestedVideo = false;
-        try {
-          const { basePrompt } = buildTarotVideoPrompt({
-            cardNumber: card.number,
-            titleFallback: card.traditional.name || interpretation.pathway || `Card ${card.number}`,
-            prompt: interpretation.prompt,
-          });
-
-          const videoResult = await generateVideoFromImage(basePrompt, referenceImage, settings);
-          requestedVideo = true;
-          if (videoResult.error || !videoResult.videoUrl) {
-            throw new Error(videoResult.error || 'No video URL returned');
-          }
+  const regenerateWithPromptVersion = (cardNumber: number, promptVersion: PromptVersion): Promise<void> =>
+    generateSingleCard(cardNumber, undefined, promptVersion);
 
-          const updated: GeneratedCard = {
-            cardNumber: card.number,
-            deckType: settings.selectedDeckType,
-            frames: existing.frames || [],
-            gifUrl: existing.gifUrl,
-            videoUrl: videoResult.videoUrl,
-            timestamp: Date.now(),
-            shared: false,
-            source: 'local',
-          };
-
-          addGeneratedCard(updated);
-        } catch (innerErr) {
-          failures.push(`${card.traditional.name} (${innerErr instanceof Error ? innerErr.message : 'error'})`);
-          console.error('Video generation error:', innerErr);
-        }
-
-        if (i < cards.length - 1 && requestedVideo) {
-          await new Promise((resolve) => setTimeout(resolve, rateLimitDelayMs));
-        }
-      }
+  const generateAllCards = (): void => enqueueBulkRun('image');
 
-      const generated = cards.length - failures.length - skipped.length;
-      let statusMessage = '';
-      if (failures.length === 0 && skipped.length === 0) {
-        statusMessage = 'All videos generated!';
-      } else {
-        const parts: string[] = [];
-        if (generated > 0) parts.push(`${generated} generated`);
-        if (skipped.length > 0) parts.push(`${skipped.length} cached`);
-        if (failures.length > 0) parts.push(`${failures.length} failed`);
-        statusMessage = parts.join(', ');
-      }
-
-      setGenerationProgress({
-        current: cards.length,
-        total: cards.length,
-        status: statusMessage,
-      });
-
-      if (failures.length > 0) {
-        setError(`Failed: ${failures.join(', ')}`);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-      console.error('All videos generation error:', err);
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+  const generateAllVideos = (): void => enqueueBulkRun('video');
 
   return {
     generateSingleCard,
+    regenerateWithPromptVersion,
     generateAllCards,
     generateAllVideos,
     error,
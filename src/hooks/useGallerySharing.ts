@@ -1,10 +1,18 @@
 import { useState } from 'react';
 import { useStore } from '../store/useStore';
 import { getUnsharedCards, markCardsAsShared } from '../utils/idb';
+import { blobToDataUrl, inlineCardMedia, sha256Hex } from '../utils/mediaStore';
+import { UPLOAD_MAX_VIDEO_BYTES, compressVideo } from '../utils/videoProcessing';
+import {
+  buildDeckPackage,
+  migrateDeckPackage,
+  readDeckPackageCards,
+  toUploadCard,
+} from '../utils/deckPackage';
 import { debugLog } from '../utils/logger';
 import * as Client from '@web3-storage/w3up-client';
 import * as Proof from '@web3-storage/w3up-client/proof';
-import type { GeneratedCard, IPFSCardPackage } from '../types';
+import type { GeneratedCard } from '../types';
 
 /**
  * Gallery Sharing Hook
@@ -54,10 +62,13 @@ export function useGallerySharing() {
 
   /**
    * Download Gemini video via streaming proxy
-   * Bypasses CORS and keeps API key server-side
+   * Bypasses CORS and keeps API key server-side. Stored videos arrive inline
+   * as data URLs and are read directly.
    */
   const downloadVideo = async (geminiUrl: string): Promise<Blob> => {
-    const response = await fetch(`/api/proxy?url=${encodeURIComponent(geminiUrl)}`);
+    const response = geminiUrl.startsWith('data:')
+      ? await fetch(geminiUrl)
+      : await fetch(`/api/proxy?url=${encodeURIComponent(geminiUrl)}`);
     if (!response.ok) {
       throw new Error(`Video download failed: ${response.statusText}`);
     }
@@ -101,7 +112,31 @@ export function useGallerySharing() {
         return total;
       };
 
-      const unshared = await getUnsharedCards();
+      // Vercel body limit is ~4.5MB per request
+      const MAX_BATCH_BYTES = 4_500_000;
+
+      /**
+       * Re-encode a video too large for the upload so it fits next to the card's
+       * images. Only the uploaded copy changes; if that fails the card is sent
+       * as is and the size check below reports it.
+       */
+      const fitVideoForUpload = async (card: typeof unshared[number]) => {
+        if (!card.videoUrl?.startsWith('data:')) return card;
+        const videoBytes = dataUrlBytes(card.videoUrl);
+        const maxBytes = Math.min(UPLOAD_MAX_VIDEO_BYTES, MAX_BATCH_BYTES - (estimateCardSize(card) - videoBytes));
+        if (videoBytes <= maxBytes) return card;
+        try {
+          logProgress(`Compressing the video for card ${card.cardNumber}...`);
+          const { bytes, mimeType } = await compressVideo(await (await fetch(card.videoUrl)).blob(), maxBytes);
+          return { ...card, videoUrl: await blobToDataUrl(new Blob([bytes], { type: mimeType })) };
+        } catch (err) {
+          console.warn(`[Gallery] Could not compress the video for card ${card.cardNumber}:`, err);
+          return card;
+        }
+      };
+
+      // Records reference media in IndexedDB; uploads need the bytes inline
+      const unshared = await Promise.all((await getUnsharedCards()).map(inlineCardMedia));
       if (unshared.length === 0) {
         setProgress('No cards to share');
         return true;
@@ -111,7 +146,7 @@ export function useGallerySharing() {
 
       // Supabase interim path: skip w3up
       if (useSupabase) {
-        // Vercel body limit is ~4.5MB; upload in small batches to avoid 500s.
+        // Upload in small batches to stay under the body limit and avoid 500s.
         const MAX_CARDS_PER_BATCH = 1;
         const batches: typeof unshared[] = [];
         for (let i = 0; i < unshared.length; i += MAX_CARDS_PER_BATCH) {
@@ -141,30 +176,23 @@ export function useGallerySharing() {
           });
         }
         for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-          const batch = batches[batchIndex];
+          const batch: typeof unshared = [];
+          for (const card of batches[batchIndex]) batch.push(await fitVideoForUpload(card));
           logProgress(`Uploading batch ${batchIndex + 1}/${batches.length} via Supabase...`);
           const payload = {
-            cards: batch.map((card) => ({
-              cardNumber: card.cardNumber,
-              deckType: card.deckType,
-              frames: card.frames,
-              gifUrl: card.gifUrl,
-              videoUrl: card.videoUrl,
-              timestamp: card.timestamp,
-              model: card.source || 'local',
-              author: displayName || 'anonymous',
-              prompt: card.prompt || null,
-              deckPromptSuffix: card.deckPromptSuffix || null,
-              deckId,
-              deckName,
-              deckDescription,
-            })),
+            cards: batch.map((card) =>
+              toUploadCard(
+                card,
+                { deckType: card.deckType, deckId, name: deckName, description: deckDescription, promptSuffix: card.deckPromptSuffix },
+                displayName || 'anonymous'
+              )
+            ),
           };
 
           // Estimate batch size (bytes) to avoid ~4.5MB Vercel body limit
           const batchBytes = batch.reduce((sum, c) => sum + estimateCardSize(c), 0);
           console.log(`[Gallery] Batch ${batchIndex + 1} estimated size: ${(batchBytes / 1024 / 1024).toFixed(2)} MB`);
-          if (batchBytes > 4_500_000) {
+          if (batchBytes > MAX_BATCH_BYTES) {
             throw new Error(`Batch too large (${(batchBytes / 1024 / 1024).toFixed(2)} MB). Reduce frames or batch size.`);
           }
 
@@ -238,59 +266,48 @@ export function useGallerySharing() {
       // Step 4: Process cards (download videos, convert images)
       logProgress('Processing media...');
       const files: File[] = [];
-      const cardData: IPFSCardPackage['cards'] = [];
+      const videos = new Map<string, Blob>();
+      const shareable: GeneratedCard[] = [];
 
       for (let i = 0; i < unshared.length; i++) {
         const card = unshared[i];
         logProgress(`Processing card ${i + 1}/${unshared.length}...`);
 
-        // Convert image to WebP (90% size reduction)
-        const imageBlob = await convertToWebP(card.frames[0]);
-        const imageName = `image-${card.cardNumber}-${card.deckType}.webp`;
-        files.push(
-          new File([imageBlob], imageName, {
-            type: 'image/webp',
-          })
-        );
-
         // Download video if exists (before Gemini URL expires)
-        let videoName: string | undefined;
-        if (card.videoUrl) {
+        let videoUrl = card.videoUrl;
+        if (videoUrl) {
           try {
-            const videoBlob = await downloadVideo(card.videoUrl);
-            videoName = `video-${card.cardNumber}-${card.deckType}.mp4`;
-            files.push(
-              new File([videoBlob], videoName, {
-                type: 'video/mp4',
-              })
-            );
+            videos.set(videoUrl, await downloadVideo(videoUrl));
           } catch (err) {
             console.warn(`[Gallery] Video download failed for card ${card.cardNumber}:`, err);
-            // Continue without video (degraded mode)
+            videoUrl = undefined; // Continue without video (degraded mode)
           }
         }
-
-        // Add to manifest
-        cardData.push({
-          cardNumber: card.cardNumber,
-          deckType: card.deckType,
-          cardName: `Card ${card.cardNumber}`,
-          imageData: imageName,
-          videoData: videoName,
-          metadata: {
-            generatedAt: card.timestamp,
-            model: 'gemini-2.0-flash-exp',
-          },
+        // The bundle carries the card image and video only, with the video's poster
+        shareable.push({
+          ...card,
+          frames: card.frames.slice(0, 1),
+          gifUrl: undefined,
+          videoUrl,
+          posterUrl: videoUrl ? card.posterUrl : undefined,
         });
       }
 
-      // Step 5: Create manifest.json
-      const manifest: IPFSCardPackage = {
-        author: displayName,
-        timestamp: Date.now(),
-        version: '1.0',
-        cards: cardData,
-      };
+      // Step 5: Create manifest.json, converting images to WebP (90% size reduction)
+      const manifest = await buildDeckPackage(
+        shareable,
+        async (url, name) => {
+          const video = videos.get(url);
+          const blob = video ?? (await convertToWebP(url));
+          // Processed videos are WebM; Veo's own are MP4
+          const mimeType = video ? (video.type === 'video/webm' ? 'video/webm' : 'video/mp4') : 'image/webp';
+          const path = `${name}.${mimeType.split('/')[1]}`;
+          files.push(new File([blob], path, { type: mimeType }));
+          const hash = await sha256Hex(new Uint8Array(await blob.arrayBuffer()));
+          return { path, mimeType, size: blob.size, hash };
+        },
+        { author: displayName }
+      );
 
       files.push(
         new File([JSON.stringify(manifest, null, 2)], 'manifest.json', {
@@ -367,7 +384,7 @@ export function useGallerySharing() {
         `https://cloudflare-ipfs.com/ipfs/${cid}/manifest.json`,
       ];
 
-      let ipfsData: IPFSCardPackage | null = null;
+      let ipfsData: unknown = null;
 
       for (const url of gateways) {
         try {
@@ -388,20 +405,16 @@ export function useGallerySharing() {
       }
 
       // Add cards to IndexedDB
+      const cards = await readDeckPackageCards(migrateDeckPackage(ipfsData), async (media) => `https://w3s.link/ipfs/${cid}/${media.path}`);
       let loaded = 0;
-      for (const card of ipfsData.cards) {
-        const fullCard: GeneratedCard = {
-          cardNumber: card.cardNumber,
-          deckType: card.deckType,
-          frames: [`https://w3s.link/ipfs/${cid}/${card.imageData}`],
-          videoUrl: card.videoData ? `https://w3s.link/ipfs/${cid}/${card.videoData}` : undefined,
+      for (const card of cards) {
+        addGeneratedCard({
+          ...card,
           timestamp: Date.now() + loaded, // Unique timestamp
           shared: true, // Already in IPFS
           source: 'community', // Not generated locally
           bundleCID: cid,
-        };
-
-        addGeneratedCard(fullCard);
+        });
         loaded++;
       }
 
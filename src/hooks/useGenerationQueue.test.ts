@@ -0,0 +1,494 @@
+/**
+ * Tests for the generation queue runner (useGenerationQueue.ts)
+ *
+ * Strategy:
+ *   - Real store with IndexedDB mocked out, so jobs move through the same
+ *     actions the UI uses
+ *   - Mock imageGeneration / videoGeneration / deckInterpretation / videoPrompt
+ *   - Mock tarot-decks.json to 2 cards so runs finish instantly
+ *   - vi.useFakeTimers() so no test waits on real timers
+ *
+ * Scenarios covered:
+ *   image jobs — generates every card, continues after a failure, no sleeps of
+ *                its own, keeps the queued deck, records cost per success
+ *   video jobs — daily quota pauses the job, no-image cards fail, cached videos
+ *                are skipped, mixed status, finished videos stored right away,
+ *                videos still rendering or hit by an auth error handed over to
+ *                the resume hook, failed videos dropped
+ *   control    — pause and cancel before the next item, retry failed items,
+ *                resume an item interrupted by a reload, wait for the startup
+ *                load of the cards
+ *   keys       — a job loaded before its key waits without attempting an item
+ *                and resumes once the key is entered
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { GeneratedCard, Settings } from '../types';
+
+// ─── Mocks (must be declared before imports) ────────────────────────────────
+
+vi.mock('../utils/idb', () => ({
+  getAllGeneratedCards: vi.fn().mockResolvedValue([]),
+  putGeneratedCard: vi.fn().mockResolvedValue(undefined),
+  clearGeneratedCardsStore: vi.fn().mockResolvedValue(undefined),
+  deleteGeneratedCardFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllReadings: vi.fn().mockResolvedValue([]),
+  putReading: vi.fn().mockResolvedValue(undefined),
+  deleteReadingFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllGenerationJobs: vi.fn().mockResolvedValue([]),
+  putGenerationJob: vi.fn().mockResolvedValue(undefined),
+  deleteGenerationJobFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllCostRecords: vi.fn().mockResolvedValue([]),
+  putCostRecord: vi.fn().mockResolvedValue(undefined),
+  getAllPromptVersions: vi.fn().mockResolvedValue([]),
+  putPromptVersion: vi.fn().mockResolvedValue(undefined),
+  getAllVideoOperations: vi.fn().mockResolvedValue([]),
+  putVideoOperation: vi.fn().mockResolvedValue(undefined),
+  deleteVideoOperationFromStore: vi.fn().mockResolvedValue(undefined),
+  getMediaBlob: vi.fn().mockResolvedValue(undefined),
+  putMediaBlob: vi.fn().mockResolvedValue(undefined),
+  hasMediaBlob: vi.fn().mockResolvedValue(false),
+  getAllMediaBlobs: vi.fn().mockResolvedValue([]),
+  deleteMediaBlobs: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock('../utils/imageGeneration');
+vi.mock('../utils/videoGeneration');
+vi.mock('../utils/deckInterpretation');
+vi.mock('../utils/videoPrompt');
+vi.mock('../utils/logger', () => ({ debugLog: vi.fn() }));
+
+vi.mock('../data/tarot-decks.json', () => ({
+  default: {
+    defaultSettings: {},
+    cards: [
+      { number: 0, traditional: { name: 'The Fool' }, lordOfMysteries: { pathway: 'Fool' } },
+      { number: 1, traditional: { name: 'The Magician' }, lordOfMysteries: { pathway: 'Magician' } },
+    ],
+  },
+}));
+
+import { runGenerationQueue, useGenerationQueue } from './useGenerationQueue';
+import { useStore } from '../store/useStore';
+import { generateCardFrames } from '../utils/imageGeneration';
+import {
+  canGenerateVideo,
+  downloadGeneratedVideo,
+  generateVideoFromImage,
+  isVideoGenerationFailedError,
+  isVideoStillRenderingError,
+} from '../utils/videoGeneration';
+import { putMediaBlob } from '../utils/idb';
+import { getInterpretationForDeck } from '../utils/deckInterpretation';
+import { buildTarotVideoPrompt } from '../utils/videoPrompt';
+import {
+  createGenerationJob,
+  recoverInterruptedJob,
+  updateJobItem,
+  WAITING_FOR_KEY_REASON,
+} from '../utils/generationQueue';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+
+const DEFAULT_SETTINGS = {
+  selectedDeckType: DECK,
+  geminiApiKey: 'test-key',
+} as Settings;
+
+function makeGeneratedCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: DECK,
+    timestamp: 1_000,
+    frames: ['data:image/jpeg;base64,ref'],
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+async function runQueue() {
+  const promise = runGenerationQueue();
+  await vi.runAllTimersAsync();
+  await promise;
+}
+
+function getJob() {
+  return useStore.getState().generationJobs[0];
+}
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  useStore.setState({
+    settings: DEFAULT_SETTINGS,
+    generatedCards: [],
+    generationJobs: [],
+    costRecords: [],
+    promptVersions: [],
+    pendingVideoOperations: [],
+    isGenerating: false,
+    generatedCardsLoaded: true,
+    generationJobsLoaded: true,
+  });
+  vi.mocked(generateCardFrames).mockResolvedValue(['data:image/jpeg;base64,frame1']);
+  vi.mocked(canGenerateVideo).mockReturnValue(true);
+  vi.mocked(generateVideoFromImage).mockResolvedValue({ videoUrl: 'https://example.com/video.mp4' });
+  vi.mocked(downloadGeneratedVideo).mockRejectedValue(new Error('offline'));
+  vi.mocked(getInterpretationForDeck).mockReturnValue({
+    name: 'The Fool',
+    prompt: 'A fool stands at the precipice',
+  } as any);
+  vi.mocked(buildTarotVideoPrompt).mockReturnValue({
+    title: 'The Fool',
+    basePrompt: 'Animate a tarot card: The Fool',
+  });
+
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+// ─── Image jobs ──────────────────────────────────────────────────────────────
+
+describe('runGenerationQueue: image jobs', () => {
+  it('generates every card, completes the job and clears isGenerating', async () => {
+    useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(2);
+    expect(useStore.getState().generatedCards.map((c) => c.cardNumber)).toEqual([0, 1]);
+    expect(getJob().status).toBe('completed');
+    expect(getJob().items.every((item) => item.status === 'done' && item.attempts === 1)).toBe(true);
+    expect(useStore.getState().generationProgress).toEqual({ current: 2, total: 2, status: 'All cards generated!' });
+    expect(useStore.getState().isGenerating).toBe(false);
+  });
+
+  it('links each image to a prompt version recorded for its card', async () => {
+    useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+
+    await runQueue();
+
+    const versions = useStore.getState().promptVersions;
+    expect(versions.map((v) => [v.cardNumber, v.version, v.prompt])).toEqual([
+      [0, 1, 'A fool stands at the precipice'],
+      [1, 1, 'A fool stands at the precipice'],
+    ]);
+    expect(useStore.getState().generatedCards.map((c) => c.promptVersion)).toEqual([1, 1]);
+  });
+
+  it('continues with the remaining cards after one fails', async () => {
+    vi.mocked(generateCardFrames)
+      .mockRejectedValueOnce(new Error('API error on card 0'))
+      .mockResolvedValueOnce(['data:image/jpeg;base64,frame1']);
+    useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(useStore.getState().generatedCards.map((c) => c.cardNumber)).toEqual([1]);
+    expect(getJob().items[0]).toMatchObject({ status: 'failed', error: 'API error on card 0' });
+    expect(useStore.getState().generationProgress.status).toBe('1 generated, 1 failed');
+    expect(useStore.getState().costRecords.map((r) => r.cardNumber)).toEqual([1]);
+  });
+
+  it('runs items back to back, leaving pacing to the rate-limit scheduler', async () => {
+    useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+
+    // No timers advanced: the run must finish on its own
+    await runGenerationQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(2);
+  });
+
+  it('generates for the queued deck even after the user switches decks', async () => {
+    useStore.getState().enqueueGenerationJob('image', DECK, [0]);
+    useStore.setState({ settings: { ...DEFAULT_SETTINGS, selectedDeckType: 'egyptian-tarot' } });
+
+    await runQueue();
+
+    expect(vi.mocked(generateCardFrames).mock.calls[0][1]).toBe(DECK);
+    expect(useStore.getState().generatedCards[0].deckType).toBe(DECK);
+    expect(useStore.getState().costRecords[0].deckType).toBe(DECK);
+  });
+});
+
+// ─── Video jobs ──────────────────────────────────────────────────────────────
+
+describe('runGenerationQueue: video jobs', () => {
+  it('pauses instead of failing the rest of the deck when the daily quota runs out', async () => {
+    useStore.setState({
+      generatedCards: [makeGeneratedCard(), makeGeneratedCard({ cardNumber: 1 })],
+    });
+    vi.mocked(generateVideoFromImage).mockResolvedValueOnce({
+      error: 'Daily quota reached for Veo (10/10 today). It resets at midnight Pacific time.',
+    });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(generateVideoFromImage).toHaveBeenCalledTimes(1);
+    expect(getJob().status).toBe('paused');
+    expect(getJob().pauseReason).toContain('Daily quota reached');
+    expect(getJob().items.map((item) => item.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('keeps a video still rendering as a pending operation and skips cards already pending', async () => {
+    useStore.setState({
+      generatedCards: [makeGeneratedCard(), makeGeneratedCard({ cardNumber: 1, timestamp: 2_000 })],
+    });
+    const stillRendering = 'Video still rendering after 10 minutes. It will be added to the card when it finishes.';
+    vi.mocked(isVideoStillRenderingError).mockImplementation((message) => message === stillRendering);
+    vi.mocked(generateVideoFromImage).mockImplementationOnce(async (_prompt, _ref, _settings, _video, onStarted) => {
+      onStarted?.('operations/op-0');
+      return { videoUrl: '', pending: true, error: stillRendering, operationName: 'operations/op-0' };
+    });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(getJob().items[0]).toMatchObject({ status: 'done', error: stillRendering });
+    expect(useStore.getState().pendingVideoOperations).toEqual([
+      expect.objectContaining({ name: 'operations/op-0', cardNumber: 0, deckType: DECK, cardTimestamp: 1_000 }),
+    ]);
+    expect(useStore.getState().costRecords).toHaveLength(1);
+
+    // A new run does not start a second video for the card
+    vi.mocked(generateVideoFromImage).mockClear();
+    useStore.getState().enqueueGenerationJob('video', DECK, [0]);
+    await runQueue();
+    expect(generateVideoFromImage).not.toHaveBeenCalled();
+    expect(useStore.getState().generationJobs[1].items[0]).toMatchObject({ status: 'done', skipped: true });
+  });
+
+  it('keeps the operation when a poll is refused, and drops it when Veo reports a failure', async () => {
+    useStore.setState({
+      generatedCards: [makeGeneratedCard(), makeGeneratedCard({ cardNumber: 1, timestamp: 2_000 })],
+    });
+    vi.mocked(isVideoGenerationFailedError).mockImplementation((message) => Boolean(message?.startsWith('Video generation failed')));
+    vi.mocked(generateVideoFromImage)
+      .mockImplementationOnce(async (_prompt, _ref, _settings, _video, onStarted) => {
+        onStarted?.('operations/op-0');
+        return { videoUrl: '', error: 'Video poll failed: 403 API key not valid', status: 403, operationName: 'operations/op-0' };
+      })
+      .mockImplementationOnce(async (_prompt, _ref, _settings, _video, onStarted) => {
+        onStarted?.('operations/op-1');
+        return { videoUrl: '', error: 'Video generation failed: blocked', operationName: 'operations/op-1' };
+      });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(getJob().items.map((item) => item.status)).toEqual(['failed', 'failed']);
+    expect(useStore.getState().pendingVideoOperations).toEqual([
+      expect.objectContaining({ name: 'operations/op-0', cardNumber: 0 }),
+    ]);
+  });
+
+  it('fails cards that have no image yet without calling the API', async () => {
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(generateVideoFromImage).not.toHaveBeenCalled();
+    expect(getJob().items.map((item) => item.error)).toEqual(['no image yet', 'no image yet']);
+    expect(getJob().status).toBe('completed');
+  });
+
+  it('skips cards that already have a video (cache hit)', async () => {
+    useStore.setState({
+      generatedCards: [
+        makeGeneratedCard({ videoUrl: 'https://example.com/cached.mp4' }),
+        makeGeneratedCard({ cardNumber: 1 }),
+      ],
+    });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(generateVideoFromImage).toHaveBeenCalledTimes(1);
+    expect(getJob().items[0]).toMatchObject({ status: 'done', skipped: true });
+    expect(useStore.getState().generationProgress.status).toBe('1 generated, 1 cached');
+  });
+
+  it('continues after a video failure and records the error on the item', async () => {
+    useStore.setState({
+      generatedCards: [makeGeneratedCard(), makeGeneratedCard({ cardNumber: 1 })],
+    });
+    vi.mocked(generateVideoFromImage)
+      .mockResolvedValueOnce({ error: 'Quota exceeded' })
+      .mockResolvedValueOnce({ videoUrl: 'https://example.com/video.mp4' });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(getJob().items[0]).toMatchObject({ status: 'failed', error: 'Quota exceeded' });
+    const saved = useStore.getState().generatedCards.filter((c) => c.videoUrl);
+    expect(saved.map((c) => c.cardNumber)).toEqual([1]);
+  });
+
+  it('stores each finished video before its link expires, and keeps the link when that fails', async () => {
+    useStore.setState({
+      generatedCards: [makeGeneratedCard(), makeGeneratedCard({ cardNumber: 1 })],
+    });
+    vi.mocked(downloadGeneratedVideo).mockResolvedValueOnce({ bytes: new Uint8Array([1, 2, 3]), mimeType: 'video/mp4' });
+    useStore.getState().enqueueGenerationJob('video', DECK, [0, 1]);
+
+    await runQueue();
+
+    expect(putMediaBlob).toHaveBeenCalledWith(expect.objectContaining({ mimeType: 'video/mp4', size: 3 }));
+    const videos = useStore.getState().generatedCards.filter((c) => c.videoUrl).map((c) => c.videoUrl);
+    expect(videos[0]).toMatch(/^blob:/);
+    expect(videos[1]).toBe('https://example.com/video.mp4');
+  });
+});
+
+// ─── Pause, cancel, retry, resume ────────────────────────────────────────────
+
+describe('runGenerationQueue: control', () => {
+  it('stops before the next item when the job is paused mid-request', async () => {
+    const job = useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+    vi.mocked(generateCardFrames).mockImplementationOnce(async () => {
+      useStore.getState().pauseGenerationJob(job.id);
+      return ['data:image/jpeg;base64,frame1'];
+    });
+
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(1);
+    expect(getJob().status).toBe('paused');
+    expect(getJob().items.map((item) => item.status)).toEqual(['done', 'pending']);
+
+    useStore.getState().resumeGenerationJob(job.id);
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(2);
+    expect(getJob().status).toBe('completed');
+  });
+
+  it('stops for good when the job is cancelled', async () => {
+    const job = useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+    vi.mocked(generateCardFrames).mockImplementationOnce(async () => {
+      useStore.getState().cancelGenerationJob(job.id);
+      return ['data:image/jpeg;base64,frame1'];
+    });
+
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(1);
+    expect(getJob().status).toBe('cancelled');
+    expect(useStore.getState().generationProgress.status).toBe('Cancelled after 1/2 cards');
+  });
+
+  it('reruns only the failed items on retry', async () => {
+    vi.mocked(generateCardFrames).mockRejectedValueOnce(new Error('Rate limited'));
+    const job = useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+    await runQueue();
+
+    useStore.getState().retryFailedGenerationJobItems(job.id);
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(3);
+    expect(getJob().items[0]).toMatchObject({ status: 'done', attempts: 2, error: undefined });
+    expect(getJob().status).toBe('completed');
+  });
+
+  it('picks up an item that was running when the page reloaded', async () => {
+    const job = useStore.getState().enqueueGenerationJob('image', DECK, [0, 1]);
+    // Simulate a reload mid-request: the store reloads jobs through recoverInterruptedJob
+    const interrupted = updateJobItem(
+      updateJobItem(job, 0, { status: 'done', attempts: 1 }),
+      1,
+      { status: 'running', attempts: 1 }
+    );
+    useStore.setState({ generationJobs: [recoverInterruptedJob(interrupted)] });
+
+    await runQueue();
+
+    expect(generateCardFrames).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateCardFrames).mock.calls[0][0].number).toBe(1);
+    expect(getJob().items[1]).toMatchObject({ status: 'done', attempts: 2 });
+  });
+});
+
+describe('useGenerationQueue: startup', () => {
+  it('waits for the cards to load before running a resumed job', async () => {
+    vi.useRealTimers();
+    useStore.setState({ generatedCardsLoaded: false, generationJobs: [createGenerationJob('video', DECK, [0])] });
+
+    renderHook(() => useGenerationQueue());
+    await Promise.resolve();
+
+    expect(generateVideoFromImage).not.toHaveBeenCalled();
+    expect(getJob().items[0].status).toBe('pending');
+
+    useStore.setState({ generatedCards: [makeGeneratedCard()], generatedCardsLoaded: true });
+
+    await waitFor(() => expect(getJob().status).toBe('completed'));
+    expect(generateVideoFromImage).toHaveBeenCalledTimes(1);
+    expect(getJob().items[0]).toMatchObject({ status: 'done', error: undefined });
+  });
+});
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+describe('runGenerationQueue: waiting for keys', () => {
+  // Keys are not persisted, so a job loaded after a reload runs before the vault is unlocked
+  const NO_KEYS = { selectedDeckType: DECK } as Settings;
+
+  it('leaves an active job loaded without a key untouched until one is available', async () => {
+    useStore.setState({ settings: NO_KEYS, generationJobs: [createGenerationJob('image', DECK, [0, 1])] });
+
+    await runQueue();
+
+    expect(generateCardFrames).not.toHaveBeenCalled();
+    expect(getJob()).toMatchObject({ status: 'paused', pauseReason: WAITING_FOR_KEY_REASON });
+    expect(getJob().items.every((item) => item.status === 'pending' && item.attempts === 0)).toBe(true);
+  });
+
+  it('checks video jobs against the video key', async () => {
+    vi.mocked(canGenerateVideo).mockReturnValue(false);
+    useStore.setState({
+      generatedCards: [makeGeneratedCard()],
+      generationJobs: [createGenerationJob('video', DECK, [0])],
+    });
+
+    await runQueue();
+
+    expect(generateVideoFromImage).not.toHaveBeenCalled();
+    expect(getJob().pauseReason).toBe(WAITING_FOR_KEY_REASON);
+  });
+
+  it('resumes the job once the key is entered', async () => {
+    vi.useRealTimers();
+    useStore.setState({ settings: NO_KEYS, generationJobs: [createGenerationJob('image', DECK, [0, 1])] });
+    renderHook(() => useGenerationQueue());
+    await waitFor(() => expect(getJob().status).toBe('paused'));
+
+    useStore.setState({ settings: DEFAULT_SETTINGS });
+
+    await waitFor(() => expect(getJob().status).toBe('completed'));
+    expect(generateCardFrames).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not resume a job the user or the daily quota paused', async () => {
+    vi.useRealTimers();
+    const job = createGenerationJob('image', DECK, [0]);
+    useStore.setState({ generationJobs: [{ ...job, status: 'paused', pauseReason: 'Daily quota reached' }] });
+
+    renderHook(() => useGenerationQueue());
+    useStore.setState({ settings: { ...DEFAULT_SETTINGS } });
+    await Promise.resolve();
+
+    expect(getJob().status).toBe('paused');
+    expect(generateCardFrames).not.toHaveBeenCalled();
+  });
+});
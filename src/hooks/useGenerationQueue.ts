@@ -0,0 +1,158 @@
+import { useEffect, useRef } from 'react';
+import { useStore } from '../store/useStore';
+import { createCardImage, createCardVideo } from '../utils/cardGenerationTasks';
+import { createCostRecord } from '../utils/costTracking';
+import {
+  completeJobIfDrained,
+  describeJobProgress,
+  getActiveJob,
+  getNextPendingItem,
+  setJobStatus,
+  updateJobItem,
+  WAITING_FOR_KEY_REASON,
+} from '../utils/generationQueue';
+import { resolveImageProvider } from '../utils/imageProviders';
+import { resolveCardPrompt } from '../utils/promptVersions';
+import { isDailyQuotaError } from '../utils/rateLimitScheduler';
+import { getCardByNumber } from '../utils/tarotCards';
+import { canGenerateVideo, isVideoStillRenderingError } from '../utils/videoGeneration';
+import { findPendingVideo } from '../utils/videoOperations';
+import { storeVideoOperationTracker } from './usePendingVideoOperations';
+import type { GenerationJob, GenerationJobItem, Settings } from '../types';
+
+type ItemOutcome = Partial<Omit<GenerationJobItem, 'cardNumber'>>;
+
+/**
+ * Whether the key or access token `job` needs is available. Keys are not
+ * persisted and the vault starts locked, so after a reload jobs load before it.
+ */
+function canRunJob(job: GenerationJob, settings: Settings): boolean {
+  const jobSettings = { ...settings, selectedDeckType: job.deckType };
+  return job.kind === 'image' ? resolveImageProvider(jobSettings).isConfigured(jobSettings) : canGenerateVideo(jobSettings);
+}
+
+/**
+ * Runs one pending item of `job`. Pacing between requests is left to the
+ * rate-limit scheduler inside the image and video clients.
+ */
+async function runNextItem(job: GenerationJob): Promise<void> {
+  const store = useStore.getState();
+  const item = getNextPendingItem(job);
+  if (!item) {
+    // Nothing pending but not drained: only possible if an item was left running
+    // by a crashed run. Close the job rather than spin on it.
+    const completed = setJobStatus(job, 'completed');
+    store.saveGenerationJob(completed);
+    store.setGenerationProgress(describeJobProgress(completed));
+    return;
+  }
+
+  const card = getCardByNumber(item.cardNumber);
+  const cardName = card?.traditional.name || `Card ${item.cardNumber}`;
+  const running = updateJobItem(job, item.cardNumber, { status: 'running', attempts: item.attempts + 1 });
+  store.saveGenerationJob(running);
+  store.setGenerationProgress(describeJobProgress(running, cardName));
+
+  // The job keeps the deck it was queued for even if the user switches decks meanwhile.
+  const settings = { ...store.settings, selectedDeckType: job.deckType };
+  let outcome: ItemOutcome;
+  try {
+    if (!card) throw new Error(`Card ${item.cardNumber} not found`);
+    const existing = store.getGeneratedCard(item.cardNumber, job.deckType);
+
+    if (job.kind === 'image') {
+      const promptVersion = store.savePromptVersion(
+        card.number,
+        job.deckType,
+        resolveCardPrompt(card, job.deckType, store.promptVersions, existing)
+      );
+      const generated = await createCardImage(card, settings, existing, undefined, promptVersion);
+      store.addGeneratedCard(generated);
+      generated.frames.forEach(() => store.recordGenerationCost(createCostRecord('image', settings, card.number)));
+      outcome = { status: 'done', error: undefined };
+    } else if (!existing?.frames?.[0]) {
+      outcome = { status: 'failed', error: 'no image yet' };
+    } else if (existing.videoUrl || findPendingVideo(store.pendingVideoOperations, card.number, job.deckType)) {
+      outcome = { status: 'done', skipped: true, error: undefined };
+    } else {
+      store.addGeneratedCard(await createCardVideo(card, settings, existing, storeVideoOperationTracker));
+      store.recordGenerationCost(createCostRecord('video', settings, card.number));
+      outcome = { status: 'done', error: undefined };
+    }
+  } catch (err) {
+    console.error(`Queued ${job.kind} generation error:`, err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    // A video still rendering is attached by usePendingVideoOperations when it finishes
+    outcome = isVideoStillRenderingError(message)
+      ? { status: 'done', error: message }
+      : { status: 'failed', error: message };
+  }
+
+  // Re-read the job: it may have been paused or cancelled while the request ran.
+  const latest = useStore.getState().generationJobs.find((j) => j.id === job.id) ?? running;
+  let updated: GenerationJob;
+  if (outcome.status === 'failed' && isDailyQuotaError(outcome.error)) {
+    // Every remaining item would fail the same way: keep this one queued and
+    // pause until the quota resets rather than burning through the deck.
+    updated = updateJobItem(latest, item.cardNumber, { status: 'pending' });
+    if (updated.status === 'active') updated = { ...setJobStatus(updated, 'paused'), pauseReason: outcome.error };
+  } else {
+    updated = completeJobIfDrained(updateJobItem(latest, item.cardNumber, outcome));
+  }
+  useStore.getState().saveGenerationJob(updated);
+  useStore.getState().setGenerationProgress(describeJobProgress(updated));
+}
+
+/**
+ * Works through the queue until no active job is left. Pause and cancel take
+ * effect before the next item; the request already in flight is allowed to finish.
+ */
+export async function runGenerationQueue(): Promise<void> {
+  const { setIsGenerating } = useStore.getState();
+  setIsGenerating(true);
+  try {
+    let job = getActiveJob(useStore.getState().generationJobs);
+    while (job) {
+      if (canRunJob(job, useStore.getState().settings)) {
+        await runNextItem(job);
+      } else {
+        // Every item would fail without a key: wait, and let the hook resume it once there is one
+        const waiting = { ...setJobStatus(job, 'paused'), pauseReason: WAITING_FOR_KEY_REASON };
+        useStore.getState().saveGenerationJob(waiting);
+        useStore.getState().setGenerationProgress(describeJobProgress(waiting));
+      }
+      job = getActiveJob(useStore.getState().generationJobs);
+    }
+  } finally {
+    setIsGenerating(false);
+  }
+}
+
+/**
+ * Keeps the persisted generation queue running. Mount once near the app root so
+ * bulk runs continue with the settings panel closed and resume after a reload.
+ * Nothing runs until the cards are loaded, as items build on the card's latest
+ * generation. Jobs waiting for a key resume once it is entered or the vault is
+ * unlocked.
+ */
+export function useGenerationQueue(): void {
+  const loaded = useStore((state) => state.generatedCardsLoaded && state.generationJobsLoaded);
+  const activeJobId = useStore((state) => getActiveJob(state.generationJobs)?.id);
+  const generationJobs = useStore((state) => state.generationJobs);
+  const settings = useStore((state) => state.settings);
+  const runningRef = useRef(false);
+
+  useEffect(() => {
+    generationJobs
+      .filter((job) => job.status === 'paused' && job.pauseReason === WAITING_FOR_KEY_REASON && canRunJob(job, settings))
+      .forEach((job) => useStore.getState().resumeGenerationJob(job.id));
+  }, [generationJobs, settings]);
+
+  useEffect(() => {
+    if (!loaded || !activeJobId || runningRef.current) return;
+    runningRef.current = true;
+    void runGenerationQueue().finally(() => {
+      runningRef.current = false;
+    });
+  }, [loaded, activeJobId]);
+}
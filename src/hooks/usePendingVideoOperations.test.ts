@@ -0,0 +1,234 @@
+/**
+ * Tests for resuming Veo operations after a reload (usePendingVideoOperations.ts)
+ *
+ * Strategy:
+ *   - Real store with IndexedDB mocked out; operations are seeded the way the
+ *     startup load leaves them
+ *   - Mock videoGeneration so polls resolve immediately
+ *   - renderHook mounts the hook the way App does
+ *
+ * Scenarios covered:
+ *   finished  — video attached to the generation it animates, cost recorded
+ *               with the operation's settings, operation removed
+ *   failed    — removed when Veo reports it failed or no longer has it, no
+ *               card added; kept and retried later after an auth error
+ *   rendering — kept for the next load and not polled again in this one
+ *   waiting   — nothing polled without a key; expired operations dropped
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { GeneratedCard, PendingVideoOperation, Settings } from '../types';
+
+// ─── Mocks (must be declared before imports) ────────────────────────────────
+
+vi.mock('../utils/idb', () => ({
+  getAllGeneratedCards: vi.fn().mockResolvedValue([]),
+  putGeneratedCard: vi.fn().mockResolvedValue(undefined),
+  clearGeneratedCardsStore: vi.fn().mockResolvedValue(undefined),
+  deleteGeneratedCardFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllReadings: vi.fn().mockResolvedValue([]),
+  putReading: vi.fn().mockResolvedValue(undefined),
+  deleteReadingFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllGenerationJobs: vi.fn().mockResolvedValue([]),
+  putGenerationJob: vi.fn().mockResolvedValue(undefined),
+  deleteGenerationJobFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllCostRecords: vi.fn().mockResolvedValue([]),
+  putCostRecord: vi.fn().mockResolvedValue(undefined),
+  getAllPromptVersions: vi.fn().mockResolvedValue([]),
+  putPromptVersion: vi.fn().mockResolvedValue(undefined),
+  getAllVideoOperations: vi.fn().mockResolvedValue([]),
+  putVideoOperation: vi.fn().mockResolvedValue(undefined),
+  deleteVideoOperationFromStore: vi.fn().mockResolvedValue(undefined),
+  getMediaBlob: vi.fn().mockResolvedValue(undefined),
+  putMediaBlob: vi.fn().mockResolvedValue(undefined),
+  hasMediaBlob: vi.fn().mockResolvedValue(false),
+  getAllMediaBlobs: vi.fn().mockResolvedValue([]),
+  deleteMediaBlobs: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock('../utils/videoGeneration');
+vi.mock('../utils/logger', () => ({ debugLog: vi.fn() }));
+
+import { usePendingVideoOperations } from './usePendingVideoOperations';
+import { useStore } from '../store/useStore';
+import { deleteVideoOperationFromStore } from '../utils/idb';
+import {
+  canGenerateVideo,
+  downloadGeneratedVideo,
+  isVideoGenerationFailedError,
+  pollVideoOperation,
+  VIDEO_GENERATION_FAILED_MESSAGE,
+} from '../utils/videoGeneration';
+import { VIDEO_OPERATION_MAX_AGE_MS } from '../utils/videoOperations';
+import { DEFAULT_VIDEO_SETTINGS } from '../utils/videoSettings';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'egyptian-tarot';
+
+const SETTINGS = {
+  selectedDeckType: 'celtic-tarot',
+  apiProvider: 'gemini',
+  geminiApiKey: 'test-key',
+} as Settings;
+
+function makeGeneratedCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 2,
+    deckType: DECK,
+    timestamp: 1_000,
+    frames: ['data:image/jpeg;base64,source'],
+    prompt: 'The High Priestess',
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+function makeOperation(overrides: Partial<PendingVideoOperation> = {}): PendingVideoOperation {
+  return {
+    name: `operations/${Math.random().toString(36).slice(2)}`,
+    cardNumber: 2,
+    deckType: DECK,
+    cardTimestamp: 1_000,
+    provider: 'gemini',
+    videoGeneration: { ...DEFAULT_VIDEO_SETTINGS, model: 'veo-3.1-fast-generate-preview', durationSeconds: 4 },
+    startedAt: Date.now() - 60_000,
+    ...overrides,
+  };
+}
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  useStore.setState({
+    settings: SETTINGS,
+    generatedCards: [makeGeneratedCard(), makeGeneratedCard({ timestamp: 2_000, prompt: 'A newer High Priestess' })],
+    costRecords: [],
+    pendingVideoOperations: [],
+  });
+  vi.mocked(canGenerateVideo).mockReturnValue(true);
+  vi.mocked(isVideoGenerationFailedError).mockImplementation((message) =>
+    Boolean(message?.startsWith(VIDEO_GENERATION_FAILED_MESSAGE))
+  );
+  vi.mocked(downloadGeneratedVideo).mockRejectedValue(new Error('offline'));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+// ─── Finished ───────────────────────────────────────────────────────────────
+
+describe('usePendingVideoOperations: finished', () => {
+  it('attaches the video to the generation it animates and records its cost', async () => {
+    const operation = makeOperation();
+    vi.mocked(pollVideoOperation).mockResolvedValue({ videoUrl: 'https://example.com/video.mp4' });
+    useStore.setState({ pendingVideoOperations: [operation] });
+
+    renderHook(() => usePendingVideoOperations());
+
+    await waitFor(() => expect(useStore.getState().pendingVideoOperations).toEqual([]));
+    expect(pollVideoOperation).toHaveBeenCalledWith(
+      operation.name,
+      expect.objectContaining({ apiProvider: 'gemini', selectedDeckType: DECK }),
+      expect.objectContaining({ maxWaitMs: expect.any(Number) })
+    );
+    const video = useStore.getState().generatedCards.find((c) => c.videoUrl);
+    expect(video).toMatchObject({
+      cardNumber: 2,
+      deckType: DECK,
+      prompt: 'The High Priestess',
+      videoUrl: 'https://example.com/video.mp4',
+      videoGeneration: operation.videoGeneration,
+    });
+    expect(useStore.getState().costRecords).toEqual([
+      expect.objectContaining({ kind: 'video', model: 'veo-3.1-fast-generate-preview', deckType: DECK, cardNumber: 2 }),
+    ]);
+    expect(deleteVideoOperationFromStore).toHaveBeenCalledWith(operation.name);
+  });
+});
+
+// ─── Failed ─────────────────────────────────────────────────────────────────
+
+describe('usePendingVideoOperations: failed', () => {
+  it('drops an operation that failed', async () => {
+    vi.mocked(pollVideoOperation).mockResolvedValue({ error: 'Video generation failed: Blocked by safety filters' });
+    useStore.setState({ pendingVideoOperations: [makeOperation()] });
+
+    renderHook(() => usePendingVideoOperations());
+
+    await waitFor(() => expect(useStore.getState().pendingVideoOperations).toEqual([]));
+    expect(useStore.getState().generatedCards.some((c) => c.videoUrl)).toBe(false);
+    expect(useStore.getState().costRecords).toEqual([]);
+  });
+
+  it('drops an operation Veo no longer has', async () => {
+    vi.mocked(pollVideoOperation).mockResolvedValue({
+      error: 'Video generation failed: the operation no longer exists',
+      status: 404,
+    });
+    useStore.setState({ pendingVideoOperations: [makeOperation()] });
+
+    renderHook(() => usePendingVideoOperations());
+
+    await waitFor(() => expect(useStore.getState().pendingVideoOperations).toEqual([]));
+  });
+
+  it('keeps the operation after an auth error and tries again with new settings', async () => {
+    const operation = makeOperation();
+    vi.mocked(pollVideoOperation)
+      .mockResolvedValueOnce({ error: 'Video poll failed: 403 API key not valid', status: 403 })
+      .mockResolvedValueOnce({ videoUrl: 'https://example.com/video.mp4' });
+    useStore.setState({ pendingVideoOperations: [operation] });
+
+    renderHook(() => usePendingVideoOperations());
+    await waitFor(() => expect(console.error).toHaveBeenCalled());
+    expect(useStore.getState().pendingVideoOperations).toEqual([operation]);
+    expect(deleteVideoOperationFromStore).not.toHaveBeenCalled();
+
+    // The claim was released, so a fixed key picks it up without a reload
+    useStore.setState({ settings: { ...SETTINGS, geminiApiKey: 'fixed-key' } });
+
+    await waitFor(() => expect(useStore.getState().pendingVideoOperations).toEqual([]));
+    expect(pollVideoOperation).toHaveBeenCalledTimes(2);
+    expect(useStore.getState().generatedCards.some((c) => c.videoUrl)).toBe(true);
+  });
+});
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+describe('usePendingVideoOperations: rendering', () => {
+  it('keeps an operation still rendering for the next load without polling it again', async () => {
+    const operation = makeOperation();
+    vi.mocked(pollVideoOperation).mockResolvedValue({ pending: true, error: 'Video still rendering after 30 minutes.' });
+    useStore.setState({ pendingVideoOperations: [operation] });
+
+    const { rerender } = renderHook(() => usePendingVideoOperations());
+    await waitFor(() => expect(pollVideoOperation).toHaveBeenCalledTimes(1));
+    useStore.setState({ settings: { ...SETTINGS, geminiApiKey: 'rotated-key' } });
+    rerender();
+
+    expect(pollVideoOperation).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().pendingVideoOperations).toEqual([operation]);
+  });
+});
+
+// ─── Waiting ────────────────────────────────────────────────────────────────
+
+describe('usePendingVideoOperations: waiting', () => {
+  it('waits for a key and drops operations Veo no longer keeps', async () => {
+    vi.mocked(canGenerateVideo).mockReturnValue(false);
+    const waiting = makeOperation();
+    const expired = makeOperation({ startedAt: Date.now() - VIDEO_OPERATION_MAX_AGE_MS - 1 });
+    useStore.setState({ pendingVideoOperations: [waiting, expired] });
+
+    renderHook(() => usePendingVideoOperations());
+
+    await waitFor(() => expect(useStore.getState().pendingVideoOperations).toEqual([waiting]));
+    expect(pollVideoOperation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { useEffect } from 'react';
+import { useStore } from '../store/useStore';
+import { resumeCardVideo, type VideoOperationTracker } from '../utils/cardGenerationTasks';
+import { createCostRecord } from '../utils/costTracking';
+import { debugLog } from '../utils/logger';
+import { canGenerateVideo, isVideoGenerationFailedError } from '../utils/videoGeneration';
+import {
+  claimVideoOperation,
+  findVideoSource,
+  getOperationSettings,
+  isVideoOperationExpired,
+  releaseVideoOperation,
+} from '../utils/videoOperations';
+import type { PendingVideoOperation } from '../types';
+
+/** Keeps started operations in the store, and so in IndexedDB, until they settle */
+export const storeVideoOperationTracker: VideoOperationTracker = {
+  started: (operation) => useStore.getState().savePendingVideoOperation(operation),
+  settled: (name) => useStore.getState().removePendingVideoOperation(name),
+};
+
+/**
+ * Polls one leftover operation and attaches the video to its card. The claim is
+ * kept while it is still rendering at the ceiling, so this page load leaves it
+ * alone from then on; the next load tries again. The operation is only dropped
+ * when Veo reports it failed: a rejected key or access token may work later,
+ * until the operation expires.
+ */
+export async function resumePendingVideo(operation: PendingVideoOperation): Promise<void> {
+  const settings = getOperationSettings(useStore.getState().settings, operation);
+  try {
+    const card = await resumeCardVideo(operation, settings, () =>
+      findVideoSource(useStore.getState().generatedCards, operation)
+    );
+    if (!card) {
+      debugLog('[VideoResume] still rendering, trying again on the next load:', operation.name);
+      return;
+    }
+    const store = useStore.getState();
+    store.addGeneratedCard(card);
+    store.recordGenerationCost(createCostRecord('video', settings, operation.cardNumber));
+    store.removePendingVideoOperation(operation.name);
+  } catch (err) {
+    console.error('Resumed video generation error:', err);
+    if (isVideoGenerationFailedError(err instanceof Error ? err.message : undefined)) {
+      useStore.getState().removePendingVideoOperation(operation.name);
+    }
+  }
+  releaseVideoOperation(operation.name);
+}
+
+/**
+ * Resumes Veo operations left over from an earlier page load. Mount once near
+ * the app root. Operations wait until the key or access token they need is
+ * available, e.g. after the key vault is unlocked.
+ */
+export function usePendingVideoOperations(): void {
+  const operations = useStore((state) => state.pendingVideoOperations);
+  const settings = useStore((state) => state.settings);
+
+  useEffect(() => {
+    for (const operation of operations) {
+      if (isVideoOperationExpired(operation)) {
+        useStore.getState().removePendingVideoOperation(operation.name);
+        continue;
+      }
+      if (!canGenerateVideo(getOperationSettings(settings, operation))) continue;
+      if (!claimVideoOperation(operation.name)) continue;
+      void resumePendingVideo(operation);
+    }
+  }, [operations, settings]);
+}
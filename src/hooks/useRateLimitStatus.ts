@@ -0,0 +1,26 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  describeRateLimitWait,
+  getRateLimitWaits,
+  subscribeToRateLimitWaits,
+} from '../utils/rateLimitScheduler';
+
+/**
+ * Countdown text for the rate-limit scheduler's current wait ("Next Veo slot in
+ * 23s"), or null when no request is waiting. Re-renders once a second while waiting.
+ */
+export function useRateLimitStatus(): string | null {
+  const waits = useSyncExternalStore(subscribeToRateLimitWaits, getRateLimitWaits);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (waits.length === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waits]);
+
+  if (waits.length === 0) return null;
+  const soonest = waits.reduce((a, b) => (b.until < a.until ? b : a));
+  return describeRateLimitWait(soonest, now);
+}
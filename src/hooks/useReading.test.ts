@@ -0,0 +1,105 @@
+/**
+ * Tests for drawing readings (useReading.ts)
+ *
+ * Strategy:
+ *   - Real store with IndexedDB mocked out, so drawn readings land in the journal
+ *   - renderHook mounts the hook the way the Reading modal does
+ *
+ * Scenarios covered:
+ *   draw   — the reading records the seed and the deck settings it drew with
+ *   replay — a journal seed draws the same cards after the deck settings change;
+ *            an unknown seed draws with the current settings
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { Settings } from '../types';
+
+// ─── Mocks (must be declared before imports) ────────────────────────────────
+
+vi.mock('../utils/idb', () => ({
+  getAllGeneratedCards: vi.fn().mockResolvedValue([]),
+  putGeneratedCard: vi.fn().mockResolvedValue(undefined),
+  clearGeneratedCardsStore: vi.fn().mockResolvedValue(undefined),
+  deleteGeneratedCardFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllReadings: vi.fn().mockResolvedValue([]),
+  putReading: vi.fn().mockResolvedValue(undefined),
+  deleteReadingFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllGenerationJobs: vi.fn().mockResolvedValue([]),
+  putGenerationJob: vi.fn().mockResolvedValue(undefined),
+  deleteGenerationJobFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllCostRecords: vi.fn().mockResolvedValue([]),
+  putCostRecord: vi.fn().mockResolvedValue(undefined),
+  getAllPromptVersions: vi.fn().mockResolvedValue([]),
+  putPromptVersion: vi.fn().mockResolvedValue(undefined),
+  getAllVideoOperations: vi.fn().mockResolvedValue([]),
+  putVideoOperation: vi.fn().mockResolvedValue(undefined),
+  deleteVideoOperationFromStore: vi.fn().mockResolvedValue(undefined),
+  getMediaBlob: vi.fn().mockResolvedValue(undefined),
+  putMediaBlob: vi.fn().mockResolvedValue(undefined),
+  hasMediaBlob: vi.fn().mockResolvedValue(false),
+  getAllMediaBlobs: vi.fn().mockResolvedValue([]),
+  deleteMediaBlobs: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { useReading } from './useReading';
+import { useStore } from '../store/useStore';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const SPREAD = 'celtic-cross';
+const SEED = 'tower';
+
+const FULL_DECK_SETTINGS = {
+  selectedDeckType: 'celtic-tarot',
+  includeMinorArcana: true,
+  allowReversals: true,
+} as Settings;
+
+function draw(seed?: string) {
+  const { result } = renderHook(() => useReading());
+  act(() => result.current.startReading(SPREAD, undefined, seed));
+  expect(result.current.error).toBeNull();
+  return useStore.getState().activeReading!;
+}
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  useStore.setState({ settings: FULL_DECK_SETTINGS, activeReading: null, readingJournal: [] });
+});
+
+// ─── Draw ───────────────────────────────────────────────────────────────────
+
+describe('startReading', () => {
+  it('records the seed and the deck settings it drew with', () => {
+    const reading = draw(SEED);
+
+    expect(reading).toMatchObject({ seed: SEED, includeMinorArcana: true, allowReversals: true });
+    expect(useStore.getState().readingJournal).toEqual([reading]);
+  });
+});
+
+// ─── Replay ─────────────────────────────────────────────────────────────────
+
+describe('replaying a seed', () => {
+  it('draws the same cards from a journal seed after the deck settings change', () => {
+    const original = draw(SEED);
+    useStore.setState({ settings: { ...FULL_DECK_SETTINGS, includeMinorArcana: false, allowReversals: false } });
+
+    const replay = draw(SEED);
+
+    expect(replay.id).not.toBe(original.id);
+    expect(replay.cards).toEqual(original.cards);
+    expect(replay).toMatchObject({ includeMinorArcana: true, allowReversals: true });
+  });
+
+  it('draws with the current settings when the seed is not in the journal', () => {
+    useStore.setState({ settings: { ...FULL_DECK_SETTINGS, includeMinorArcana: false, allowReversals: false } });
+
+    const reading = draw(SEED);
+
+    expect(reading).toMatchObject({ includeMinorArcana: false, allowReversals: false });
+    expect(reading.cards.every((card) => card.cardNumber <= 21 && card.orientation === 'upright')).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { useMemo, useState } from 'react';
+import { useStore } from '../store/useStore';
+import { createCustomSpread, drawCardsForSpread, getAvailableSpreads } from '../utils/readings';
+import { createSeededRandom, generateSeed, normalizeSeed } from '../utils/random';
+import { getDeckCards } from '../utils/tarotCards';
+import type { Reading } from '../types';
+
+export function useReading() {
+  const { settings, updateSettings, activeReading, setActiveReading, readingJournal, saveReading } = useStore();
+  const [error, setError] = useState<string | null>(null);
+
+  const spreads = useMemo(() => getAvailableSpreads(settings.customSpreads), [settings.customSpreads]);
+
+  const startReading = (spreadId: string, question?: string, seed?: string): void => {
+    try {
+      setError(null);
+      const spread = spreads.find((s) => s.id === spreadId);
+      if (!spread) {
+        throw new Error(`Spread "${spreadId}" not found`);
+      }
+
+      const readingSeed = normalizeSeed(seed ?? '') || generateSeed();
+      // A seed from the journal replays with the deck it was drawn from, not today's settings
+      const replayed = readingJournal.find((r) => r.seed === readingSeed && r.spread.id === spread.id);
+      const includeMinorArcana = replayed?.includeMinorArcana ?? settings.includeMinorArcana === true;
+      const allowReversals = replayed?.allowReversals ?? settings.allowReversals !== false;
+      const cards = getDeckCards(includeMinorArcana);
+      const reading: Reading = {
+        id: crypto.randomUUID(),
+        spread,
+        deckType: settings.selectedDeckType,
+        question: question?.trim() || undefined,
+        seed: readingSeed,
+        includeMinorArcana,
+        allowReversals,
+        cards: drawCardsForSpread(cards, spread, createSeededRandom(readingSeed), allowReversals),
+        timestamp: Date.now(),
+      };
+      setActiveReading(reading);
+      saveReading(reading);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMessage);
+      console.error('Reading draw error:', err);
+    }
+  };
+
+  const saveNotes = (notes: string): void => {
+    if (!activeReading || (activeReading.notes ?? '') === notes) return;
+    saveReading({ ...activeReading, notes });
+  };
+
+  const clearReading = (): void => {
+    setError(null);
+    setActiveReading(null);
+  };
+
+  const saveCustomSpread = (name: string, positionNames: string[]): boolean => {
+    try {
+      setError(null);
+      const spread = createCustomSpread(name, positionNames);
+      updateSettings({ customSpreads: [...(settings.customSpreads || []), spread] });
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save spread');
+      return false;
+    }
+  };
+
+  const deleteCustomSpread = (spreadId: string): void => {
+    updateSettings({
+      customSpreads: (settings.customSpreads || []).filter((spread) => spread.id !== spreadId),
+    });
+  };
+
+  return {
+    spreads,
+    activeReading,
+    startReading,
+    saveNotes,
+    clearReading,
+    saveCustomSpread,
+    deleteCustomSpread,
+    error,
+  };
+}
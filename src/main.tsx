@@ -1,7 +1,12 @@
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { seedRandom } from './utils/random'
 import './index.css'
 
+// `?seed=...` replays the deck layout and ambient motion from a shared seed
+const sharedSeed = new URLSearchParams(window.location.search).get('seed')
+if (sharedSeed) seedRandom(sharedSeed)
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <App />,
 )
@@ -7,12 +7,40 @@ vi.mock('../utils/idb', () => ({
   putGeneratedCard: vi.fn().mockResolvedValue(undefined),
   clearGeneratedCardsStore: vi.fn().mockResolvedValue(undefined),
   deleteGeneratedCardFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllReadings: vi.fn().mockResolvedValue([]),
+  putReading: vi.fn().mockResolvedValue(undefined),
+  deleteReadingFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllGenerationJobs: vi.fn().mockResolvedValue([]),
+  putGenerationJob: vi.fn().mockResolvedValue(undefined),
+  deleteGenerationJobFromStore: vi.fn().mockResolvedValue(undefined),
+  getAllCostRecords: vi.fn().mockResolvedValue([]),
+  putCostRecord: vi.fn().mockResolvedValue(undefined),
+  getAllPromptVersions: vi.fn().mockResolvedValue([]),
+  putPromptVersion: vi.fn().mockResolvedValue(undefined),
+  getAllVideoOperations: vi.fn().mockResolvedValue([]),
+  putVideoOperation: vi.fn().mockResolvedValue(undefined),
+  deleteVideoOperationFromStore: vi.fn().mockResolvedValue(undefined),
+  getMediaBlob: vi.fn().mockResolvedValue(undefined),
+  putMediaBlob: vi.fn().mockResolvedValue(undefined),
+  hasMediaBlob: vi.fn().mockResolvedValue(false),
+  getAllMediaBlobs: vi.fn().mockResolvedValue([]),
+  deleteMediaBlobs: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Import after mocking
 import { useStore } from './useStore';
-import type { GeneratedCard, TarotCard } from '../types';
-import { deleteGeneratedCardFromStore } from '../utils/idb';
+import type { GeneratedCard, GenerationCostRecord, PromptVersion, Reading, TarotCard } from '../types';
+import {
+  deleteGeneratedCardFromStore,
+  deleteGenerationJobFromStore,
+  deleteReadingFromStore,
+  putCostRecord,
+  putGeneratedCard,
+  putGenerationJob,
+  putMediaBlob,
+  putPromptVersion,
+  putReading,
+} from '../utils/idb';
 
 describe('useStore', () => {
   beforeEach(() => {
@@ -68,6 +96,30 @@ describe('useStore', () => {
 
       expect(result.current.selectedCard).toBeNull();
     });
+
+    it('should carry the orientation of a drawn card and reset it on the next selection', () => {
+      const { result } = renderHook(() => useStore());
+
+      const mockCard = { number: 13, traditional: { name: 'Death' } } as TarotCard;
+
+      act(() => {
+        result.current.setSelectedCard(mockCard, 'reversed');
+      });
+
+      expect(result.current.selectedOrientation).toBe('reversed');
+
+      act(() => {
+        result.current.setSelectedCard(mockCard);
+      });
+
+      expect(result.current.selectedOrientation).toBeNull();
+
+      act(() => {
+        result.current.setSelectedOrientation('upright');
+      });
+
+      expect(result.current.selectedOrientation).toBe('upright');
+    });
   });
 
   describe('generatedCards', () => {
@@ -201,6 +253,198 @@ describe('useStore', () => {
       expect(found?.shared).toBe(false);
       expect(found?.source).toBe('local');
     });
+
+    it('should delete generations in bulk and remove videos from one deck', async () => {
+      const { result } = renderHook(() => useStore());
+      const image = { ...mockGeneratedCard, timestamp: 1 };
+      const video = { ...mockGeneratedCard, timestamp: 2, videoUrl: 'https://example.com/video.mp4' };
+      const older = { ...mockGeneratedCard, timestamp: 3, cardNumber: 1 };
+
+      act(() => {
+        [image, video, older].forEach((card) => result.current.addGeneratedCard(card));
+      });
+      await act(async () => {
+        await result.current.deleteGeneratedCards([older.timestamp]);
+        await result.current.removeGeneratedVideos(mockGeneratedCard.deckType);
+      });
+
+      expect(result.current.generatedCards.map((c) => c.timestamp)).toEqual([1]);
+      expect(deleteGeneratedCardFromStore).toHaveBeenCalledWith(3);
+      expect(deleteGeneratedCardFromStore).toHaveBeenCalledWith(2);
+    });
+
+    it('should import backup cards, replacing the saved card with the same timestamp', async () => {
+      const { result } = renderHook(() => useStore());
+      const saved = { ...mockGeneratedCard, timestamp: 1 };
+      const restored = [
+        { ...mockGeneratedCard, timestamp: 1, prompt: 'from backup' },
+        { ...mockGeneratedCard, timestamp: 2 },
+      ];
+
+      act(() => {
+        result.current.addGeneratedCard(saved);
+      });
+      let summary;
+      await act(async () => {
+        summary = await result.current.importGeneratedCards(restored, 'replace');
+      });
+
+      expect(summary).toEqual({ imported: 1, replaced: 1, skipped: 0 });
+      expect(result.current.generatedCards.map((c) => [c.timestamp, c.prompt])).toEqual([
+        [1, 'from backup'],
+        [2, 'A mystical fool'],
+      ]);
+      expect(putGeneratedCard).toHaveBeenCalledWith(expect.objectContaining({ timestamp: 1, prompt: 'from backup' }));
+    });
+
+    it('should save inline media to the media store and show it from an object URL', async () => {
+      const { result } = renderHook(() => useStore());
+      const inlineCard = { ...mockGeneratedCard, frames: ['data:image/png;base64,aW1n'], gifUrl: undefined };
+
+      act(() => {
+        result.current.addGeneratedCard(inlineCard);
+      });
+
+      await vi.waitFor(() => expect(result.current.generatedCards[0].frames[0]).toMatch(/^blob:/));
+      expect(putMediaBlob).toHaveBeenCalledWith(expect.objectContaining({ mimeType: 'image/png', size: 3 }));
+      const calls = vi.mocked(putGeneratedCard).mock.calls;
+      expect(calls[calls.length - 1][0].frames[0]).toMatch(/^media:[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('readingJournal', () => {
+    const mockReading: Reading = {
+      id: 'reading-1',
+      spread: { id: 'single-card', name: 'Single Card', description: '', positions: [] },
+      deckType: 'traditional-rider-waite',
+      question: 'What now?',
+      cards: [{ positionId: 'focus', cardNumber: 13, orientation: 'reversed' }],
+      timestamp: 1_700_000_000_000,
+    };
+
+    it('should save, update and delete readings in the journal and IDB', () => {
+      const { result } = renderHook(() => useStore());
+
+      act(() => {
+        result.current.setActiveReading(mockReading);
+        result.current.saveReading(mockReading);
+      });
+
+      expect(result.current.readingJournal).toEqual([mockReading]);
+      expect(putReading).toHaveBeenCalledWith(mockReading);
+
+      act(() => {
+        result.current.saveReading({ ...mockReading, notes: 'Let it go.' });
+      });
+
+      expect(result.current.readingJournal).toHaveLength(1);
+      expect(result.current.readingJournal[0].notes).toBe('Let it go.');
+      expect(result.current.activeReading?.notes).toBe('Let it go.');
+
+      act(() => {
+        result.current.deleteReading(mockReading.id);
+      });
+
+      expect(result.current.readingJournal).toHaveLength(0);
+      expect(result.current.activeReading).toBeNull();
+      expect(deleteReadingFromStore).toHaveBeenCalledWith(mockReading.id);
+    });
+  });
+
+  describe('generationJobs', () => {
+    it('should enqueue a job once per kind and deck and persist it to IDB', () => {
+      const { result } = renderHook(() => useStore());
+      act(() => {
+        useStore.setState({ generationJobs: [] });
+      });
+
+      let first!: ReturnType<typeof result.current.enqueueGenerationJob>;
+      let second!: ReturnType<typeof result.current.enqueueGenerationJob>;
+      act(() => {
+        first = result.current.enqueueGenerationJob('image', 'traditional-rider-waite', [0, 1]);
+        second = result.current.enqueueGenerationJob('image', 'traditional-rider-waite', [0, 1]);
+      });
+
+      expect(second.id).toBe(first.id);
+      expect(result.current.generationJobs).toHaveLength(1);
+      expect(putGenerationJob).toHaveBeenCalledWith(first);
+    });
+
+    it('should pause, resume, cancel and clear finished jobs', () => {
+      const { result } = renderHook(() => useStore());
+      act(() => {
+        useStore.setState({ generationJobs: [] });
+      });
+
+      let id = '';
+      act(() => {
+        id = result.current.enqueueGenerationJob('video', 'traditional-rider-waite', [0]).id;
+        result.current.pauseGenerationJob(id);
+      });
+      expect(result.current.generationJobs[0].status).toBe('paused');
+
+      act(() => {
+        result.current.resumeGenerationJob(id);
+      });
+      expect(result.current.generationJobs[0].status).toBe('active');
+
+      act(() => {
+        result.current.cancelGenerationJob(id);
+        result.current.clearFinishedGenerationJobs();
+      });
+      expect(result.current.generationJobs).toHaveLength(0);
+      expect(deleteGenerationJobFromStore).toHaveBeenCalledWith(id);
+    });
+  });
+
+  describe('costRecords', () => {
+    it('should append cost records and persist them to IDB', () => {
+      const { result } = renderHook(() => useStore());
+      act(() => {
+        useStore.setState({ costRecords: [] });
+      });
+
+      const record: GenerationCostRecord = {
+        id: 'cost-1',
+        kind: 'video',
+        provider: 'veo',
+        model: 'veo-3.1-generate-preview',
+        deckType: 'traditional-rider-waite',
+        cardNumber: 3,
+        cost: 3.2,
+        timestamp: 1_000,
+      };
+      act(() => {
+        result.current.recordGenerationCost(record);
+      });
+
+      expect(result.current.costRecords).toEqual([record]);
+      expect(putCostRecord).toHaveBeenCalledWith(record);
+    });
+  });
+
+  describe('promptVersions', () => {
+    it('numbers versions per card and deck and skips unchanged prompts', () => {
+      const { result } = renderHook(() => useStore());
+      act(() => {
+        useStore.setState({ promptVersions: [] });
+      });
+
+      let saved: (PromptVersion | undefined)[] = [];
+      act(() => {
+        saved = [
+          result.current.savePromptVersion(0, 'traditional-rider-waite', 'First wording'),
+          result.current.savePromptVersion(0, 'traditional-rider-waite', 'First wording '),
+          result.current.savePromptVersion(0, 'traditional-rider-waite', 'Second wording'),
+          result.current.savePromptVersion(0, 'egyptian-tarot', 'First wording'),
+        ];
+      });
+
+      expect(saved.map((v) => v?.version)).toEqual([1, 1, 2, 1]);
+      expect(saved[1]).toBe(saved[0]);
+      expect(result.current.promptVersions).toHaveLength(3);
+      expect(putPromptVersion).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe('UI state', () => {
@@ -1,8 +1,55 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Settings, GeneratedCard, TarotCard } from '../types';
+import type {
+  Settings,
+  GeneratedCard,
+  TarotCard,
+  Reading,
+  CardOrientation,
+  GenerationJob,
+  GenerationJobKind,
+  GenerationCostRecord,
+  PendingVideoOperation,
+  PromptVersion,
+} from '../types';
 import tarotData from '../data/tarot-decks.json';
-import { getAllGeneratedCards, putGeneratedCard, clearGeneratedCardsStore, deleteGeneratedCardFromStore } from '../utils/idb';
+import {
+  getAllGeneratedCards,
+  putGeneratedCard,
+  clearGeneratedCardsStore,
+  deleteGeneratedCardFromStore,
+  getAllReadings,
+  putReading,
+  deleteReadingFromStore,
+  getAllGenerationJobs,
+  putGenerationJob,
+  deleteGenerationJobFromStore,
+  getAllCostRecords,
+  putCostRecord,
+  getAllPromptVersions,
+  putPromptVersion,
+  getAllVideoOperations,
+  putVideoOperation,
+  deleteVideoOperationFromStore,
+} from '../utils/idb';
+import { createPromptVersion, getLatestPromptVersion } from '../utils/promptVersions';
+import {
+  deleteUnreferencedMedia,
+  hasInlineMedia,
+  persistCardMedia,
+  resolveCardMedia,
+  swapCardMediaUrls,
+} from '../utils/mediaStore';
+import { requestPersistentStorage, selectVideoPurge } from '../utils/storageUsage';
+import { planBackupImport, type ImportConflictMode, type ImportResult } from '../utils/importGeneratedCardsZip';
+import {
+  createGenerationJob,
+  findUnfinishedJob,
+  isJobFinished,
+  recoverInterruptedJob,
+  retryFailedItems,
+  setJobStatus,
+} from '../utils/generationQueue';
 
 // Prefer explicitly-exposed VITE_* defaults when available.
 const envOpenrouterKey = (import.meta as any).env?.VITE_OPENROUTER_API_KEY;
@@ -26,16 +73,24 @@ interface StoreState {
 
   // Generated cards cache
   generatedCards: GeneratedCard[];
+  generatedCardsLoaded: boolean;  // the startup load from IndexedDB has settled
   addGeneratedCard: (card: GeneratedCard) => void;
   updateGeneratedCard: (updated: GeneratedCard) => void;
   getGeneratedCard: (cardNumber: number, deckType: string) => GeneratedCard | undefined;
   getAllGenerationsForCard: (cardNumber: number, deckType: string) => GeneratedCard[];
   deleteGeneratedCard: (timestamp: number) => void;
   clearGeneratedCards: () => void;
+  // Bulk cleanup (storage manager); resolve once IndexedDB is updated and media no card uses is gone
+  deleteGeneratedCards: (timestamps: number[]) => Promise<void>;
+  removeGeneratedVideos: (deckType: string) => Promise<void>;
+  // Restore from a backup zip; clashes on timestamp are resolved by `mode`
+  importGeneratedCards: (cards: GeneratedCard[], mode: ImportConflictMode) => Promise<ImportResult>;
 
   // UI State
   selectedCard: TarotCard | null;
-  setSelectedCard: (card: TarotCard | null) => void;
+  setSelectedCard: (card: TarotCard | null, orientation?: CardOrientation) => void;
+  selectedOrientation: CardOrientation | null; // null until the card is drawn or revealed
+  setSelectedOrientation: (orientation: CardOrientation) => void;
   isGenerating: boolean;
   setIsGenerating: (generating: boolean) => void;
   showSettings: boolean;
@@ -43,6 +98,42 @@ interface StoreState {
   returnToSettingsOnClose: boolean;
   setReturnToSettingsOnClose: (value: boolean) => void;
 
+  // Reading mode
+  showReading: boolean;
+  setShowReading: (show: boolean) => void;
+  activeReading: Reading | null;
+  setActiveReading: (reading: Reading | null) => void;
+
+  // Reading journal (persisted in IndexedDB)
+  readingJournal: Reading[];
+  saveReading: (reading: Reading) => void;
+  deleteReading: (id: string) => void;
+
+  // Bulk generation queue (persisted in IndexedDB, run by useGenerationQueue)
+  generationJobs: GenerationJob[];
+  generationJobsLoaded: boolean;  // the startup load from IndexedDB has settled
+  enqueueGenerationJob: (kind: GenerationJobKind, deckType: string, cardNumbers: number[]) => GenerationJob;
+  saveGenerationJob: (job: GenerationJob) => void;
+  pauseGenerationJob: (id: string) => void;
+  resumeGenerationJob: (id: string) => void;
+  cancelGenerationJob: (id: string) => void;
+  retryFailedGenerationJobItems: (id: string) => void;
+  clearFinishedGenerationJobs: () => void;
+
+  // Estimated spend per billed request (persisted in IndexedDB, see utils/costTracking)
+  costRecords: GenerationCostRecord[];
+  recordGenerationCost: (record: GenerationCostRecord) => void;
+
+  // Prompt edit history per card and deck (persisted in IndexedDB, see utils/promptVersions)
+  promptVersions: PromptVersion[];
+  // Adds a version unless the prompt matches the latest; returns the version holding the prompt
+  savePromptVersion: (cardNumber: number, deckType: string, prompt: string) => PromptVersion | undefined;
+
+  // Veo operations still rendering (persisted in IndexedDB, resumed by usePendingVideoOperations)
+  pendingVideoOperations: PendingVideoOperation[];
+  savePendingVideoOperation: (operation: PendingVideoOperation) => void;
+  removePendingVideoOperation: (name: string) => void;
+
   // Generation progress
   generationProgress: {
     current: number;
@@ -55,10 +146,78 @@ interface StoreState {
 export const useStore = create<StoreState>()(
   persist(
     (set, get) => {
-      // Load any previously stored generations from IndexedDB
+      // Asked once per session, when there is first something to lose to eviction
+      let persistenceRequested = false;
+
+      // Cards are saved with media refs (media blobs stay in IndexedDB) and kept
+      // in memory with object URLs, swapped in once the media is stored
+      const saveCard = (card: GeneratedCard) =>
+        persistCardMedia(card)
+          .then(async (record) => {
+            await putGeneratedCard(record);
+            if (!persistenceRequested) {
+              persistenceRequested = true;
+              void requestPersistentStorage().catch((err) => console.warn('[Store] Persistent storage request failed:', err));
+            }
+            const resolved = await resolveCardMedia(record);
+            set((state) => ({
+              generatedCards: state.generatedCards.map((c) =>
+                c.timestamp === card.timestamp ? swapCardMediaUrls(c, card, resolved) : c
+              ),
+            }));
+          })
+          .catch((err) => console.error('[Store] Failed to save card to IDB (timestamp:', card.timestamp, '):', err));
+
+      // Load any previously stored generations from IndexedDB; cards saved before
+      // the media store carry base64 media inline and are moved into it
       getAllGeneratedCards()
-        .then((cards) => set({ generatedCards: cards }))
-        .catch((err) => console.error('[Store] Failed to load cards from IDB:', err));
+        .then(async (cards) => {
+          set({ generatedCards: await Promise.all(cards.map(resolveCardMedia)), generatedCardsLoaded: true });
+          cards.filter(hasInlineMedia).forEach((card) => void saveCard(card));
+        })
+        .catch((err) => {
+          console.error('[Store] Failed to load cards from IDB:', err);
+          set({ generatedCardsLoaded: true });
+        });
+      getAllReadings()
+        .then((readings) => set({ readingJournal: readings }))
+        .catch((err) => console.error('[Store] Failed to load reading journal from IDB:', err));
+      getAllGenerationJobs()
+        .then((jobs) => set({ generationJobs: jobs.map(recoverInterruptedJob), generationJobsLoaded: true }))
+        .catch((err) => {
+          console.error('[Store] Failed to load generation queue from IDB:', err);
+          set({ generationJobsLoaded: true });
+        });
+      getAllCostRecords()
+        .then((records) => set({ costRecords: records }))
+        .catch((err) => console.error('[Store] Failed to load cost records from IDB:', err));
+      getAllPromptVersions()
+        .then((versions) => set({ promptVersions: versions }))
+        .catch((err) => console.error('[Store] Failed to load prompt versions from IDB:', err));
+      getAllVideoOperations()
+        .then((operations) => set({ pendingVideoOperations: operations }))
+        .catch((err) => console.error('[Store] Failed to load pending videos from IDB:', err));
+
+      const saveJob = (job: GenerationJob) => {
+        set((state) => ({
+          generationJobs: state.generationJobs.some((j) => j.id === job.id)
+            ? state.generationJobs.map((j) => (j.id === job.id ? job : j))
+            : [...state.generationJobs, job],
+        }));
+        void putGenerationJob(job).catch((err) =>
+          console.error('[Store] Failed to save generation job to IDB (id:', job.id, '):', err)
+        );
+      };
+
+      const removeUnreferencedMedia = () =>
+        deleteUnreferencedMedia(get().generatedCards).catch((err) =>
+          console.error('[Store] Failed to remove unused media from IDB:', err)
+        );
+
+      const updateJob = (id: string, update: (job: GenerationJob) => GenerationJob) => {
+        const job = get().generationJobs.find((j) => j.id === id);
+        if (job) saveJob(update(job));
+      };
 
       return {
         // Initial settings
@@ -71,6 +230,7 @@ export const useStore = create<StoreState>()(
 
         // Generated cards (persisted in IndexedDB)
         generatedCards: [],
+        generatedCardsLoaded: false,
 
         addGeneratedCard: (card) =>
           set((state) => {
@@ -81,7 +241,7 @@ export const useStore = create<StoreState>()(
               source: card.source ?? 'local',
             };
             const updated = [...state.generatedCards, fullCard];
-            void putGeneratedCard(fullCard);
+            void saveCard(fullCard);
             return { generatedCards: updated };
           }),
 
@@ -90,7 +250,7 @@ export const useStore = create<StoreState>()(
             const updatedList = state.generatedCards.map((c) =>
               c.timestamp === updatedCard.timestamp ? { ...c, ...updatedCard } : c
             );
-            void putGeneratedCard(updatedCard);
+            void saveCard(updatedCard);
             return { generatedCards: updatedList };
           }),
 
@@ -110,19 +270,60 @@ export const useStore = create<StoreState>()(
         deleteGeneratedCard: (timestamp) => {
           const updated = get().generatedCards.filter((c) => c.timestamp !== timestamp);
           set({ generatedCards: updated });
-          void deleteGeneratedCardFromStore(timestamp).catch((err) =>
-            console.error('[Store] Failed to delete card from IDB (timestamp:', timestamp, '):', err)
-          );
+          void deleteGeneratedCardFromStore(timestamp)
+            .then(removeUnreferencedMedia)
+            .catch((err) => console.error('[Store] Failed to delete card from IDB (timestamp:', timestamp, '):', err));
         },
 
         clearGeneratedCards: () => {
-          void clearGeneratedCardsStore();
+          void clearGeneratedCardsStore()
+            .then(removeUnreferencedMedia)
+            .catch((err) => console.error('[Store] Failed to clear cards from IDB:', err));
           set({ generatedCards: [] });
         },
 
+        deleteGeneratedCards: async (timestamps) => {
+          const removed = new Set(timestamps);
+          set((state) => ({ generatedCards: state.generatedCards.filter((c) => !removed.has(c.timestamp)) }));
+          await Promise.all(timestamps.map((timestamp) => deleteGeneratedCardFromStore(timestamp)));
+          await removeUnreferencedMedia();
+        },
+
+        removeGeneratedVideos: async (deckType) => {
+          const { remove, strip } = selectVideoPurge(get().generatedCards, deckType);
+          const stripped = strip.map((card) => ({ ...card, videoUrl: undefined, posterUrl: undefined }));
+          const removed = new Set(remove);
+          set((state) => ({
+            generatedCards: state.generatedCards
+              .filter((c) => !removed.has(c.timestamp))
+              .map((c) => stripped.find((s) => s.timestamp === c.timestamp) ?? c),
+          }));
+          await Promise.all([
+            ...remove.map((timestamp) => deleteGeneratedCardFromStore(timestamp)),
+            ...stripped.map(saveCard),
+          ]);
+          await removeUnreferencedMedia();
+        },
+
+        importGeneratedCards: async (cards, mode) => {
+          const { add, replace, skipped } = planBackupImport(cards, get().generatedCards, mode);
+          set((state) => ({
+            generatedCards: [
+              ...state.generatedCards.map((c) => replace.find((r) => r.timestamp === c.timestamp) ?? c),
+              ...add,
+            ],
+          }));
+          await Promise.all([...replace, ...add].map(saveCard));
+          if (replace.length > 0) await removeUnreferencedMedia();
+          return { imported: add.length, replaced: replace.length, skipped };
+        },
+
         // UI State
         selectedCard: null,
-        setSelectedCard: (card) => set({ selectedCard: card }),
+        setSelectedCard: (card, orientation) =>
+          set({ selectedCard: card, selectedOrientation: orientation ?? null }),
+        selectedOrientation: null,
+        setSelectedOrientation: (orientation) => set({ selectedOrientation: orientation }),
 
         isGenerating: false,
         setIsGenerating: (generating) => set({ isGenerating: generating }),
@@ -132,6 +333,104 @@ export const useStore = create<StoreState>()(
         returnToSettingsOnClose: false,
         setReturnToSettingsOnClose: (value) => set({ returnToSettingsOnClose: value }),
 
+        showReading: false,
+        setShowReading: (show) => set({ showReading: show }),
+        activeReading: null,
+        setActiveReading: (reading) => set({ activeReading: reading }),
+
+        readingJournal: [],
+        saveReading: (reading) =>
+          set((state) => {
+            const exists = state.readingJournal.some((r) => r.id === reading.id);
+            const updated = exists
+              ? state.readingJournal.map((r) => (r.id === reading.id ? reading : r))
+              : [...state.readingJournal, reading];
+            void putReading(reading).catch((err) =>
+              console.error('[Store] Failed to save reading to IDB (id:', reading.id, '):', err)
+            );
+            return {
+              readingJournal: updated,
+              activeReading: state.activeReading?.id === reading.id ? reading : state.activeReading,
+            };
+          }),
+        deleteReading: (id) => {
+          set((state) => ({
+            readingJournal: state.readingJournal.filter((r) => r.id !== id),
+            activeReading: state.activeReading?.id === id ? null : state.activeReading,
+          }));
+          void deleteReadingFromStore(id).catch((err) =>
+            console.error('[Store] Failed to delete reading from IDB (id:', id, '):', err)
+          );
+        },
+
+        generationJobs: [],
+        generationJobsLoaded: false,
+        enqueueGenerationJob: (kind, deckType, cardNumbers) => {
+          const existing = findUnfinishedJob(get().generationJobs, kind, deckType);
+          if (existing) {
+            const resumed = existing.status === 'paused' ? setJobStatus(existing, 'active') : existing;
+            if (resumed !== existing) saveJob(resumed);
+            return resumed;
+          }
+          const job = createGenerationJob(kind, deckType, cardNumbers);
+          saveJob(job);
+          return job;
+        },
+        saveGenerationJob: saveJob,
+        pauseGenerationJob: (id) =>
+          updateJob(id, (job) => (job.status === 'active' ? setJobStatus(job, 'paused') : job)),
+        resumeGenerationJob: (id) =>
+          updateJob(id, (job) => (job.status === 'paused' ? setJobStatus(job, 'active') : job)),
+        cancelGenerationJob: (id) =>
+          updateJob(id, (job) => (isJobFinished(job) ? job : setJobStatus(job, 'cancelled'))),
+        retryFailedGenerationJobItems: (id) => updateJob(id, retryFailedItems),
+        clearFinishedGenerationJobs: () => {
+          const finished = get().generationJobs.filter(isJobFinished);
+          set((state) => ({ generationJobs: state.generationJobs.filter((job) => !isJobFinished(job)) }));
+          finished.forEach((job) =>
+            void deleteGenerationJobFromStore(job.id).catch((err) =>
+              console.error('[Store] Failed to delete generation job from IDB (id:', job.id, '):', err)
+            )
+          );
+        },
+
+        costRecords: [],
+        recordGenerationCost: (record) => {
+          set((state) => ({ costRecords: [...state.costRecords, record] }));
+          void putCostRecord(record).catch((err) =>
+            console.error('[Store] Failed to save cost record to IDB (id:', record.id, '):', err)
+          );
+        },
+
+        promptVersions: [],
+        savePromptVersion: (cardNumber, deckType, prompt) => {
+          if (!prompt.trim()) return undefined;
+          const versions = get().promptVersions;
+          const version = createPromptVersion(versions, cardNumber, deckType, prompt);
+          if (!version) return getLatestPromptVersion(versions, cardNumber, deckType);
+          set((state) => ({ promptVersions: [...state.promptVersions, version] }));
+          void putPromptVersion(version).catch((err) =>
+            console.error('[Store] Failed to save prompt version to IDB (id:', version.id, '):', err)
+          );
+          return version;
+        },
+
+        pendingVideoOperations: [],
+        savePendingVideoOperation: (operation) => {
+          set((state) => ({
+            pendingVideoOperations: [...state.pendingVideoOperations.filter((op) => op.name !== operation.name), operation],
+          }));
+          void putVideoOperation(operation).catch((err) =>
+            console.error('[Store] Failed to save pending video to IDB (name:', operation.name, '):', err)
+          );
+        },
+        removePendingVideoOperation: (name) => {
+          set((state) => ({ pendingVideoOperations: state.pendingVideoOperations.filter((op) => op.name !== name) }));
+          void deleteVideoOperationFromStore(name).catch((err) =>
+            console.error('[Store] Failed to delete pending video from IDB (name:', name, '):', err)
+          );
+        },
+
         generationProgress: {
           current: 0,
           total: 0,
@@ -157,9 +456,11 @@ export const useStore = create<StoreState>()(
         // Keep only lightweight settings in localStorage; generated cards live in IndexedDB
         settings: {
           ...state.settings,
-          // Avoid persisting raw API keys in browser localStorage.
+          // Avoid persisting raw API keys in browser localStorage; the opt-in key
+          // vault (utils/keyVault) keeps them encrypted instead.
           apiKey: undefined,
           geminiApiKey: undefined,
+          providerSecrets: undefined,
         },
       }),
     }
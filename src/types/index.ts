@@ -13,12 +13,20 @@ export interface CardInterpretation {
   kami?: string;
   keywords: string[];
   meaning?: string;
+  reversed?: string;
   abilities?: string;
   prompt: string;
 }
 
+export type TarotArcana = 'major' | 'minor';
+
+export type TarotSuit = 'wands' | 'cups' | 'swords' | 'pentacles';
+
 export interface TarotCard {
-  number: number;
+  number: number;                // 0–21 Major Arcana, 22–77 Minor Arcana (see utils/tarotCards)
+  arcana?: TarotArcana;          // omitted on the Major Arcana entries in tarot-decks.json
+  suit?: TarotSuit;
+  rank?: number;                 // 1 = Ace … 10, then 11 Page, 12 Knight, 13 Queen, 14 King
   traditional: CardInterpretation;
   lordOfMysteries: CardInterpretation;
   lordOfMysteriesMasterpiece?: CardInterpretation;
@@ -40,23 +48,62 @@ export interface ReferenceImage {
 export interface PromptTemplates {
   baseTemplate: string;
   framingTemplate: string;
-  faceReferenceInstruction: string;
-  styleReferenceInstruction: string;
-  poseReferenceInstruction: string;
-  defaultPromptSuffix: string;
   loreContextTemplate: string;
 }
 
+export interface SpreadPosition {
+  id: string;
+  name: string;
+  description?: string;
+  column: number;   // 1-based grid column in the spread layout
+  row: number;      // 1-based grid row in the spread layout
+  rotated?: boolean; // laid across another card (e.g. Celtic Cross challenge)
+}
+
+export interface SpreadDefinition {
+  id: string;
+  name: string;
+  description: string;
+  positions: SpreadPosition[];
+  custom?: boolean;
+}
+
+export type CardOrientation = 'upright' | 'reversed';
+
+export interface DrawnCard {
+  positionId: string;
+  cardNumber: number;
+  orientation: CardOrientation;
+}
+
+export interface Reading {
+  id: string;
+  spread: SpreadDefinition; // snapshot, so journal entries survive edits to custom spreads
+  deckType: string;
+  question?: string;
+  notes?: string;
+  seed?: string; // replays the same draw for this spread, together with the two deck settings below
+  includeMinorArcana?: boolean; // deck the seed drew from; unset on readings saved before it was recorded
+  allowReversals?: boolean;
+  cards: DrawnCard[];
+  timestamp: number;
+}
+
+export type CardAnimationFormat = 'gif' | 'webp';
+
 export interface Settings {
   userPhoto: string;
   usePhoto?: boolean;
   referenceImages?: ReferenceImage[];
   selectedDeckType: string;
-  framesPerCard: number;
+  framesPerCard: number;          // frames in an animated card; only used with `frameAnimation`
+  frameAnimation?: CardAnimationFormat; // animate cards from several generated frames; unset = one still image
   generationModel: string;
   promptSuffix: string;
-  promptTemplates?: PromptTemplates;
-  apiProvider: 'openrouter' | 'gemini';
+  promptTemplates?: Partial<PromptTemplates>; // per-user overrides of prompt-templates.json (see utils/promptTemplates)
+  apiProvider: string;           // id of a registered image provider (see utils/imageProviders)
+  providerOptions?: Record<string, Record<string, string>>; // per-provider settings, keyed by provider id
+  providerSecrets?: Record<string, Record<string, string>>; // per-provider secrets; never persisted
   apiEndpoint: string;
   apiKey?: string;
   geminiApiKey?: string;
@@ -64,6 +111,8 @@ export interface Settings {
   showCardInfo?: boolean;
   animateCards?: boolean;
   navigateWithArrows?: boolean;
+  allowReversals?: boolean;       // draws and selections may come up reversed (default on)
+  includeMinorArcana?: boolean;   // full 78-card deck instead of the 22 Major Arcana (default off)
   showCardNumbers?: boolean;      // NEW: toggle between card numbers and symbols
   autoShareEnabled?: boolean;     // NEW
   displayName?: string;           // NEW
@@ -73,24 +122,150 @@ export interface Settings {
   deckNameMap?: Record<string, string>; // NEW: per-deck names
   deckDescriptionMap?: Record<string, string>; // NEW: per-deck descriptions
   deckIdMap?: Record<string, string>; // NEW: per-deck upload ids to keep sessions together
+  customSpreads?: SpreadDefinition[]; // user-defined reading spreads
+  videoSettingsMap?: Record<string, Partial<VideoGenerationSettings>>; // per-deck Veo settings (see utils/videoSettings)
+  videoProcessing?: Partial<VideoProcessingSettings>; // trim, loop and compress new videos (see utils/videoProcessing)
+  monthlyBudget?: number;         // hard cap in USD on estimated spend per calendar month; unset = no cap
 }
 
 export interface GeneratedCard {
   cardNumber: number;
   deckType: string;
-  frames: string[]; // URLs to generated images
-  gifUrl?: string;
+  frames: string[]; // URLs to generated images; `media:<hash>` refs in IndexedDB, object URLs in memory
+  gifUrl?: string;  // animated GIF or WebP built from `frames`; the first frame on single-image cards
   videoUrl?: string;
+  posterUrl?: string;      // first frame of a processed video; unset on videos kept as Veo made them
   timestamp: number;
   shared: boolean;         // NEW: has been uploaded to IPFS
   source: 'local' | 'community';  // NEW: origin of card
   bundleCID?: string;      // NEW: IPFS bundle CID if from community
   prompt?: string;         // NEW: prompt used for the card
+  promptVersion?: number;  // PromptVersion.version the image was generated with
   deckPromptSuffix?: string; // NEW: deck-level prompt suffix
   deckId?: string;         // NEW: deck identifier for community import
   deckName?: string;       // NEW: deck display name
   deckDescription?: string; // NEW: deck description
   author?: string;         // NEW: uploader display name
+  generation?: CardGenerationParams; // how the card image was made; unset on cards made before it was recorded
+  videoGeneration?: VideoGenerationSettings; // how the video was made; unset without a video or on older cards
+}
+
+export interface CardGenerationParams {
+  provider: string;        // Settings.apiProvider
+  model: string;
+  imageSize?: string;
+  animation?: CardAnimationFormat; // animated cards only; `frames` holds the frames it was built from
+}
+
+export type VideoAspectRatio = '9:16' | '16:9';
+
+export type VideoPersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+export interface VideoGenerationSettings {
+  model: string;           // a Veo model id from VEO_MODELS
+  durationSeconds: number;
+  aspectRatio: VideoAspectRatio;
+  negativePrompt?: string;
+  personGeneration?: VideoPersonGeneration; // unset = the model's default policy
+  generateAudio: boolean;  // ignored by models without audio
+  motionPreset: string;    // id from video-motion-presets.json, or 'custom'
+  customMotion?: string;   // motion text when motionPreset is 'custom'
+}
+
+export interface VideoProcessingSettings {
+  enabled: boolean;
+  trimStartSeconds: number;
+  trimEndSeconds: number;  // cut from the end of the clip
+  crossfadeSeconds: number; // blend the end into the start so the loop has no jump; 0 = off
+  maxSizeBytes: number;    // re-encoded to fit; processed videos are silent WebM
+}
+
+export type GenerationJobKind = 'image' | 'video';
+
+export type GenerationJobItemStatus = 'pending' | 'running' | 'failed' | 'done';
+
+export type GenerationJobStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface GenerationJobItem {
+  cardNumber: number;
+  status: GenerationJobItemStatus;
+  attempts: number;
+  error?: string;
+  skipped?: boolean;       // done without a request, e.g. the video was already cached
+}
+
+/**
+ * A bulk image or video run, persisted in IndexedDB so it survives reloads.
+ * Items run in order, one at a time; see utils/generationQueue.
+ */
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  deckType: string;
+  status: GenerationJobStatus;
+  pauseReason?: string;    // set when the runner paused the job itself, e.g. daily quota reached
+  items: GenerationJobItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One billed image or video request, persisted in IndexedDB for the cost
+ * totals. `cost` is the estimate from `TarotDeckData.costEstimation` at the
+ * time of the request; see utils/costTracking.
+ */
+export interface GenerationCostRecord {
+  id: string;
+  kind: GenerationJobKind;
+  provider: string;
+  model: string;
+  imageSize?: string;      // image requests only
+  deckType: string;
+  cardNumber: number;
+  cost: number;            // USD; 0 when the model has no listed price
+  timestamp: number;
+}
+
+/**
+ * A Veo operation that was started but has not finished, persisted in
+ * IndexedDB so polling resumes after a reload. Removed once the video is on
+ * its card or the operation fails; see utils/videoOperations.
+ */
+export interface PendingVideoOperation {
+  name: string;            // Veo operation name, the key
+  cardNumber: number;
+  deckType: string;
+  cardTimestamp?: number;  // the generation whose image the video animates
+  provider: string;        // apiProvider at start; polls go the same way
+  videoGeneration: VideoGenerationSettings;
+  startedAt: number;
+}
+
+/**
+ * One saved wording of a card's prompt in a deck, persisted in IndexedDB.
+ * Versions are numbered from 1 per card and deck; generations point back to
+ * theirs through `GeneratedCard.promptVersion`. See utils/promptVersions.
+ */
+export interface PromptVersion {
+  id: string;
+  cardNumber: number;
+  deckType: string;
+  version: number;
+  prompt: string;          // replaces the deck's card prompt ({CARD_PROMPT}) when composing
+  createdAt: number;
+}
+
+/**
+ * Generated image or video bytes, persisted in IndexedDB and keyed by the
+ * SHA-256 of their content. Card records reference them as `media:<hash>`.
+ * See utils/mediaStore.
+ */
+export interface MediaBlob {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;            // bytes
+  createdAt: number;
 }
 
 export interface TarotDeckData {
@@ -98,8 +273,10 @@ export interface TarotDeckData {
   cards: TarotCard[];
   defaultSettings: Settings;
   costEstimation: {
-    [key: string]: {
-      perImage: number;
+    [model: string]: {
+      perImage?: number;
+      perVideo?: number;
+      perVideoSecond?: number;   // Veo bills per second of video; takes precedence over perVideo
       note: string;
     };
   };
@@ -158,19 +335,3 @@ export interface CommunityDeckGroup {
   cards: CommunityGalleryRow[];
 }
 
-export interface IPFSCardPackage {
-  author?: string;
-  timestamp: number;
-  version: string;
-  cards: Array<{
-    cardNumber: number;
-    deckType: string;
-    cardName: string;
-    imageData: string;     // base64 or data URL
-    videoData?: string;    // base64 or data URL
-    metadata: {
-      generatedAt: number;
-      model: string;
-    };
-  }>;
-}
@@ -0,0 +1,130 @@
+/**
+ * Tests for animatedWebp.ts
+ *
+ * Strategy:
+ *   - Still frames are minimal hand-built RIFF files; their image payloads are
+ *     placeholder bytes, as only the container layout is under test
+ *   - Output is walked chunk by chunk against the WebP container spec
+ *
+ * Scenarios covered:
+ *   extract — image chunks kept, metadata dropped, alpha detected, bad input rejected
+ *   mux     — RIFF size, VP8X flags and canvas, loop count, one ANMF per frame
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractWebpFrameChunks, muxAnimatedWebp } from './animatedWebp';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function fourCC(value: string): number[] {
+  return Array.from(value, (c) => c.charCodeAt(0));
+}
+
+function uint32(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+}
+
+function uint24(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function rawChunk(id: string, payload: number[]): number[] {
+  return [...fourCC(id), ...uint32(payload.length), ...payload, ...(payload.length % 2 ? [0] : [])];
+}
+
+function makeWebp(...chunks: number[][]): Uint8Array {
+  const body = [...fourCC('WEBP'), ...chunks.flat()];
+  return new Uint8Array([...fourCC('RIFF'), ...uint32(body.length), ...body]);
+}
+
+/** Top-level chunks after the RIFF header, as id and payload */
+function readChunks(bytes: Uint8Array, start = 12): { id: string; payload: Uint8Array }[] {
+  const chunks = [];
+  let offset = start;
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = uint24(bytes, offset + 4) + bytes[offset + 7] * 0x1000000;
+    chunks.push({ id, payload: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+const LOSSY_FRAME = makeWebp(rawChunk('VP8 ', [1, 2, 3]));
+const ALPHA_FRAME = makeWebp(rawChunk('VP8X', new Array(10).fill(0)), rawChunk('ALPH', [9]), rawChunk('VP8 ', [4, 5]));
+
+// ─── Extract ─────────────────────────────────────────────────────────────────
+
+describe('extractWebpFrameChunks', () => {
+  it('keeps the image chunk of a simple lossy file, padding included', () => {
+    const { chunks, hasAlpha } = extractWebpFrameChunks(LOSSY_FRAME);
+
+    expect(Array.from(chunks)).toEqual(rawChunk('VP8 ', [1, 2, 3]));
+    expect(hasAlpha).toBe(false);
+  });
+
+  it('drops the VP8X header and keeps the alpha and image chunks', () => {
+    const { chunks, hasAlpha } = extractWebpFrameChunks(ALPHA_FRAME);
+
+    expect(readChunks(chunks, 0).map((c) => c.id)).toEqual(['ALPH', 'VP8 ']);
+    expect(hasAlpha).toBe(true);
+  });
+
+  it('rejects files that are not WebP', () => {
+    expect(() => extractWebpFrameChunks(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toThrow('Frame is not a WebP image');
+  });
+
+  it('rejects WebP files without image data', () => {
+    expect(() => extractWebpFrameChunks(makeWebp(rawChunk('EXIF', [1, 2])))).toThrow('WebP frame has no image data');
+  });
+});
+
+// ─── Mux ─────────────────────────────────────────────────────────────────────
+
+describe('muxAnimatedWebp', () => {
+  it('writes a RIFF file whose size covers everything after the size field', () => {
+    const file = muxAnimatedWebp([LOSSY_FRAME, LOSSY_FRAME], { width: 100, height: 160, delayMs: 250 });
+
+    expect(String.fromCharCode(...file.subarray(0, 4))).toBe('RIFF');
+    expect(String.fromCharCode(...file.subarray(8, 12))).toBe('WEBP');
+    expect(uint24(file, 4)).toBe(file.length - 8);
+  });
+
+  it('declares an animated canvas and loops forever by default', () => {
+    const file = muxAnimatedWebp([LOSSY_FRAME], { width: 100, height: 160, delayMs: 250 });
+    const [vp8x, anim] = readChunks(file);
+
+    expect(vp8x.id).toBe('VP8X');
+    expect(vp8x.payload[0]).toBe(0x02);
+    expect(uint24(vp8x.payload, 4)).toBe(99);
+    expect(uint24(vp8x.payload, 7)).toBe(159);
+    expect(anim.id).toBe('ANIM');
+    expect(Array.from(anim.payload.subarray(4))).toEqual([0, 0]);
+  });
+
+  it('sets the alpha flag when any frame has alpha', () => {
+    const file = muxAnimatedWebp([LOSSY_FRAME, ALPHA_FRAME], { width: 10, height: 10, delayMs: 100, loopCount: 3 });
+    const [vp8x, anim] = readChunks(file);
+
+    expect(vp8x.payload[0]).toBe(0x02 | 0x10);
+    expect(anim.payload[4]).toBe(3);
+  });
+
+  it('wraps each frame in an ANMF chunk with its size, delay and image data', () => {
+    const file = muxAnimatedWebp([LOSSY_FRAME, ALPHA_FRAME, LOSSY_FRAME], { width: 100, height: 160, delayMs: 250 });
+    const frames = readChunks(file).filter((c) => c.id === 'ANMF');
+
+    expect(frames).toHaveLength(3);
+    for (const frame of frames) {
+      expect(uint24(frame.payload, 6)).toBe(99);
+      expect(uint24(frame.payload, 9)).toBe(159);
+      expect(uint24(frame.payload, 12)).toBe(250);
+      expect(frame.payload[15]).toBe(0x02);
+    }
+    expect(readChunks(frames[1].payload, 16).map((c) => c.id)).toEqual(['ALPH', 'VP8 ']);
+  });
+
+  it('needs at least one frame', () => {
+    expect(() => muxAnimatedWebp([], { width: 10, height: 10, delayMs: 100 })).toThrow('No frames to animate');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Animated WebP container assembly. Browsers can encode still WebP images but
+ * not animations, so each frame is encoded on its own and the still files are
+ * wrapped into one RIFF file: a VP8X header, an ANIM chunk, then one ANMF chunk
+ * per frame carrying that frame's image chunks.
+ * See https://developers.google.com/speed/webp/docs/riff_container
+ */
+
+export interface AnimatedWebpOptions {
+  width: number;
+  height: number;
+  delayMs: number;
+  loopCount?: number;      // 0 = forever
+}
+
+// Image data chunks a frame keeps; metadata chunks (VP8X, ICCP, EXIF, XMP) are dropped
+const FRAME_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+const VP8X_ANIMATION = 0x02;
+const VP8X_ALPHA = 0x10;
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number) {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number) {
+  writeUint24(target, offset, value);
+  target[offset + 3] = (value >>> 24) & 0xff;
+}
+
+function chunk(fourCC: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = fourCC.charCodeAt(i);
+  writeUint32(out, 4, payload.length);
+  out.set(payload, 8);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Image chunks of a still WebP file, padding included. Throws if it is not a WebP file. */
+export function extractWebpFrameChunks(still: Uint8Array): { chunks: Uint8Array; hasAlpha: boolean } {
+  if (still.length < 12 || readFourCC(still, 0) !== 'RIFF' || readFourCC(still, 8) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image');
+  }
+  const kept: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+  while (offset + 8 <= still.length) {
+    const fourCC = readFourCC(still, offset);
+    const size = readUint32(still, offset + 4);
+    const end = Math.min(still.length, offset + 8 + size + (size % 2));
+    if (FRAME_CHUNKS.has(fourCC)) {
+      kept.push(still.subarray(offset, end));
+      if (fourCC !== 'VP8 ') hasAlpha = true;
+    }
+    offset = end;
+  }
+  if (kept.length === 0) throw new Error('WebP frame has no image data');
+  return { chunks: concat(kept), hasAlpha };
+}
+
+/** One animated WebP file from still WebP frames of the same size */
+export function muxAnimatedWebp(stills: Uint8Array[], { width, height, delayMs, loopCount = 0 }: AnimatedWebpOptions): Uint8Array<ArrayBuffer> {
+  if (stills.length === 0) throw new Error('No frames to animate');
+  const frames = stills.map(extractWebpFrameChunks);
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = VP8X_ANIMATION | (frames.some((frame) => frame.hasAlpha) ? VP8X_ALPHA : 0);
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  const anim = new Uint8Array(6);   // background colour 0 (transparent), then the loop count
+  anim[4] = loopCount & 0xff;
+  anim[5] = (loopCount >> 8) & 0xff;
+
+  const anmf = frames.map(({ chunks }) => {
+    const header = new Uint8Array(16);  // offset x/y stay 0
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.round(delayMs));
+    header[15] = 0x02;                  // no blending: each frame replaces the last
+    return chunk('ANMF', concat([header, chunks]));
+  });
+
+  const body = concat([chunk('VP8X', vp8x), chunk('ANIM', anim), ...anmf]);
+  const riff = new Uint8Array(12);
+  riff.set([0x52, 0x49, 0x46, 0x46], 0);  // RIFF
+  writeUint32(riff, 4, body.length + 4);
+  riff.set([0x57, 0x45, 0x42, 0x50], 8);  // WEBP
+  return concat([riff, body]);
+}
@@ -0,0 +1,49 @@
+import { muxAnimatedWebp } from './animatedWebp';
+
+/**
+ * Encodes frames to still WebP off the main thread and muxes them into one
+ * animated WebP. Started by utils/cardAnimation; replies once per request with
+ * the file bytes or an error message.
+ */
+
+export interface AnimatedWebpRequest {
+  frames: ImageBitmap[];
+  order: number[];         // indexes into `frames` in playback order; frames may repeat
+  width: number;
+  height: number;
+  delayMs: number;
+}
+
+export type AnimatedWebpResponse = { bytes: Uint8Array<ArrayBuffer> } | { error: string };
+
+const WEBP_QUALITY = 0.85;
+
+// The app is type-checked against the DOM lib, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AnimatedWebpRequest>) => void) | null;
+  postMessage: (message: AnimatedWebpResponse, transfer?: Transferable[]) => void;
+};
+
+async function encodeStill(frame: ImageBitmap, width: number, height: number): Promise<Uint8Array> {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.drawImage(frame, 0, 0, width, height);
+  frame.close();
+  const blob = await canvas.convertToBlob({ type: 'image/webp', quality: WEBP_QUALITY });
+  // Browsers without a WebP encoder silently fall back to PNG
+  if (blob.type !== 'image/webp') throw new Error('This browser cannot encode WebP images');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+scope.onmessage = async ({ data }) => {
+  try {
+    const stills: Uint8Array[] = [];
+    for (const frame of data.frames) stills.push(await encodeStill(frame, data.width, data.height));
+    const ordered = data.order.map((index) => stills[index]);
+    const bytes = muxAnimatedWebp(ordered, { width: data.width, height: data.height, delayMs: data.delayMs });
+    scope.postMessage({ bytes }, [bytes.buffer]);
+  } catch (error) {
+    scope.postMessage({ error: error instanceof Error ? error.message : 'WebP encoding failed' });
+  }
+};
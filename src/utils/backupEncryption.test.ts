@@ -0,0 +1,76 @@
+/**
+ * Tests for backupEncryption.ts
+ *
+ * Strategy:
+ *   - Real WebCrypto; the lowest PBKDF2 iteration count a header may carry
+ *     keeps the suite fast, and is read back from the header like any other count
+ *
+ * Scenarios covered:
+ *   round trip  — sealed bytes open with the passphrase and are recognised as encrypted
+ *   failures    — wrong passphrase, altered header, not an encrypted file,
+ *                 iteration count out of range
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  MIN_PBKDF2_ITERATIONS,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from './backupEncryption';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const ITERATIONS = MIN_PBKDF2_ITERATIONS;
+const ZIP = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 1, 2, 3]);
+
+// ─── Round trip ──────────────────────────────────────────────────────────────
+
+describe('encryptBackup', () => {
+  it('seals data that only the passphrase opens', async () => {
+    const sealed = await encryptBackup(ZIP, 'correct horse', ITERATIONS);
+
+    expect(isEncryptedBackup(sealed)).toBe(true);
+    expect(isEncryptedBackup(ZIP)).toBe(false);
+    expect(Array.from(await decryptBackup(sealed, 'correct horse'))).toEqual(Array.from(ZIP));
+  });
+
+  it('uses a fresh salt and IV every time', async () => {
+    const [a, b] = await Promise.all([encryptBackup(ZIP, 'pw', ITERATIONS), encryptBackup(ZIP, 'pw', ITERATIONS)]);
+
+    expect(Array.from(a)).not.toEqual(Array.from(b));
+  });
+});
+
+// ─── Failures ────────────────────────────────────────────────────────────────
+
+describe('decryptBackup', () => {
+  it('fails the same way for a wrong passphrase and an altered header', async () => {
+    const sealed = await encryptBackup(ZIP, 'correct horse', ITERATIONS);
+    const altered = sealed.slice();
+    altered[14] ^= 1; // a salt byte
+
+    await expect(decryptBackup(sealed, 'wrong')).rejects.toThrow('passphrase is wrong or the file is damaged');
+    await expect(decryptBackup(altered, 'correct horse')).rejects.toThrow('passphrase is wrong or the file is damaged');
+  });
+
+  it('refuses files that are not encrypted backups', async () => {
+    await expect(decryptBackup(ZIP, 'pw')).rejects.toThrow('not an encrypted backup');
+  });
+
+  it('refuses an iteration count outside the accepted range before deriving a key', async () => {
+    const sealed = await encryptBackup(ZIP, 'pw', ITERATIONS);
+    const withIterations = (iterations: number) => {
+      const altered = sealed.slice();
+      new DataView(altered.buffer).setUint32(9, iterations);
+      return altered;
+    };
+
+    await expect(decryptBackup(withIterations(1_000), 'pw')).rejects.toThrow('not a valid encrypted backup');
+    await expect(decryptBackup(withIterations(0xffffffff), 'pw')).rejects.toThrow('not a valid encrypted backup');
+    await expect(decryptBackup(withIterations(DEFAULT_PBKDF2_ITERATIONS * 10), 'pw')).rejects.toThrow(
+      'not a valid encrypted backup'
+    );
+  });
+});
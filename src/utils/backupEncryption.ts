@@ -0,0 +1,102 @@
+/**
+ * Passphrase encryption for exported backups. The zip is sealed with AES-GCM
+ * under a key derived from the passphrase with PBKDF2-SHA256; the header
+ * carries everything needed to derive it again, and is authenticated with the
+ * ciphertext so it cannot be altered either.
+ *
+ * Layout: magic "TAROTENC" · format version (1 byte) · PBKDF2 iterations
+ * (uint32, big-endian) · salt (16 bytes) · IV (12 bytes) · ciphertext + tag
+ */
+
+const MAGIC = new TextEncoder().encode('TAROTENC');
+const FORMAT_VERSION = 1;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = MAGIC.length + 1 + 4 + SALT_BYTES + IV_BYTES;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+// Counts a header may carry: none weaker than this, and none so high that a
+// crafted file keeps the tab busy deriving a key
+export const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = DEFAULT_PBKDF2_ITERATIONS * 4;
+
+export const ENCRYPTED_BACKUP_EXTENSION = '.tarotbackup';
+
+export function isEncryptedBackup(bytes: Uint8Array): boolean {
+  return bytes.length >= MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/** AES-GCM key from a passphrase with PBKDF2-SHA256; shared with the key vault */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBackup(
+  data: Uint8Array,
+  passphrase: string,
+  iterations = DEFAULT_PBKDF2_ITERATIONS
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (!passphrase) throw new Error('Enter a passphrase to encrypt the backup.');
+  const header = new Uint8Array(HEADER_BYTES);
+  const view = new DataView(header.buffer);
+  header.set(MAGIC, 0);
+  header[MAGIC.length] = FORMAT_VERSION;
+  view.setUint32(MAGIC.length + 1, iterations);
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  header.set(salt, MAGIC.length + 5);
+  header.set(iv, MAGIC.length + 5 + SALT_BYTES);
+
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, new Uint8Array(data));
+
+  const sealed = new Uint8Array(HEADER_BYTES + ciphertext.byteLength);
+  sealed.set(header, 0);
+  sealed.set(new Uint8Array(ciphertext), HEADER_BYTES);
+  return sealed;
+}
+
+/** Opens a backup sealed by `encryptBackup`; a wrong passphrase and a damaged file fail alike */
+export async function decryptBackup(sealed: Uint8Array, passphrase: string): Promise<Uint8Array<ArrayBuffer>> {
+  if (!isEncryptedBackup(sealed) || sealed.length < HEADER_BYTES) {
+    throw new Error('This file is not an encrypted backup.');
+  }
+  const header = sealed.slice(0, HEADER_BYTES);
+  const version = header[MAGIC.length];
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`This backup uses encryption format ${version}, which this app cannot read.`);
+  }
+  const iterations = new DataView(header.buffer).getUint32(MAGIC.length + 1);
+  if (iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('This file is not a valid encrypted backup.');
+  }
+  const salt = header.slice(MAGIC.length + 5, MAGIC.length + 5 + SALT_BYTES);
+  const iv = header.slice(MAGIC.length + 5 + SALT_BYTES, HEADER_BYTES);
+
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      key,
+      sealed.slice(HEADER_BYTES)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error('Could not decrypt the backup: the passphrase is wrong or the file is damaged.');
+  }
+}
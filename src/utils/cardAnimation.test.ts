@@ -0,0 +1,135 @@
+/**
+ * Tests for cardAnimation.ts
+ *
+ * Strategy:
+ *   - Pure helpers only; encoding runs in workers and is left to the browser
+ *
+ * Scenarios covered:
+ *   frames   — one frame unless animated cards are on, then clamped to 2-8
+ *   prompts  — frame position and motion, chained vs. independent wording
+ *   order    — ping-pong playback without repeating the end frames
+ *   sources  — still and animation for animated, single-image and empty cards
+ *   gif      — worker pages joined in frame order, last page trimmed to its cursor
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard, Settings } from '../types';
+import {
+  MAX_ANIMATION_FRAMES,
+  MIN_ANIMATION_FRAMES,
+  buildFramePrompt,
+  getAnimationSize,
+  getCardFrameCount,
+  getCardImageSources,
+  getPingPongOrder,
+  joinGifFrames,
+} from './cardAnimation';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return { framesPerCard: 4, ...overrides } as Settings;
+}
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: 'traditional-rider-waite',
+    timestamp: 1_000,
+    frames: ['blob:frame-1'],
+    gifUrl: 'blob:frame-1',
+    shared: false,
+    source: 'local',
+    ...overrides,
+  } as GeneratedCard;
+}
+
+// ─── Frames ──────────────────────────────────────────────────────────────────
+
+describe('getCardFrameCount', () => {
+  it('generates one frame while animated cards are off', () => {
+    expect(getCardFrameCount(makeSettings({ framesPerCard: 6 }))).toBe(1);
+  });
+
+  it('uses the frame setting once a format is chosen', () => {
+    expect(getCardFrameCount(makeSettings({ frameAnimation: 'gif', framesPerCard: 6 }))).toBe(6);
+  });
+
+  it('clamps the frame setting to the supported range', () => {
+    expect(getCardFrameCount(makeSettings({ frameAnimation: 'webp', framesPerCard: 1 }))).toBe(MIN_ANIMATION_FRAMES);
+    expect(getCardFrameCount(makeSettings({ frameAnimation: 'webp', framesPerCard: 50 }))).toBe(MAX_ANIMATION_FRAMES);
+    expect(getCardFrameCount(makeSettings({ frameAnimation: 'webp', framesPerCard: 0 }))).toBe(MIN_ANIMATION_FRAMES);
+  });
+});
+
+// ─── Prompts ─────────────────────────────────────────────────────────────────
+
+describe('buildFramePrompt', () => {
+  it('numbers the frame from 1 and adds the motion', () => {
+    const prompt = buildFramePrompt('The Fool at a cliff edge', 'the cloak billows', 2, 4, true);
+
+    expect(prompt.startsWith('The Fool at a cliff edge\n\nFrame 3 of 4')).toBe(true);
+    expect(prompt).toContain('the cloak billows');
+  });
+
+  it('refers to the attached previous frame only when chaining', () => {
+    expect(buildFramePrompt('base', 'motion', 1, 3, true)).toContain('previous frame');
+    expect(buildFramePrompt('base', 'motion', 1, 3, false)).not.toContain('previous frame');
+  });
+});
+
+// ─── Order and size ──────────────────────────────────────────────────────────
+
+describe('getPingPongOrder', () => {
+  it('plays forward then back without repeating either end', () => {
+    expect(getPingPongOrder(4)).toEqual([0, 1, 2, 3, 2, 1]);
+    expect(getPingPongOrder(2)).toEqual([0, 1]);
+  });
+});
+
+describe('getAnimationSize', () => {
+  it('scales wide frames down and keeps the aspect ratio', () => {
+    expect(getAnimationSize(1024, 1792)).toEqual({ width: 512, height: 896 });
+  });
+
+  it('never scales small frames up', () => {
+    expect(getAnimationSize(300, 500)).toEqual({ width: 300, height: 500 });
+  });
+});
+
+// ─── Sources ─────────────────────────────────────────────────────────────────
+
+describe('getCardImageSources', () => {
+  it('shows the first frame and plays the animation over it', () => {
+    const card = makeCard({ frames: ['blob:frame-1', 'blob:frame-2'], gifUrl: 'blob:animation' });
+
+    expect(getCardImageSources(card)).toEqual({ stillSrc: 'blob:frame-1', animatedSrc: 'blob:animation' });
+  });
+
+  it('treats a single-image card as a still', () => {
+    expect(getCardImageSources(makeCard())).toEqual({ stillSrc: 'blob:frame-1', animatedSrc: undefined });
+  });
+
+  it('falls back to gifUrl for cards without frames', () => {
+    const card = makeCard({ frames: [], gifUrl: 'blob:image' });
+
+    expect(getCardImageSources(card)).toEqual({ stillSrc: 'blob:image', animatedSrc: undefined });
+  });
+
+  it('has nothing to show without a card', () => {
+    expect(getCardImageSources(undefined)).toEqual({ stillSrc: undefined, animatedSrc: undefined });
+  });
+});
+
+// ─── GIF ─────────────────────────────────────────────────────────────────────
+
+describe('joinGifFrames', () => {
+  it('joins frames in index order, using only the filled part of each last page', () => {
+    const gif = joinGifFrames([
+      { index: 1, data: [new Uint8Array([7, 8, 0, 0])], cursor: 2, pageSize: 4 },
+      { index: 0, data: [new Uint8Array([1, 2, 3, 4]), new Uint8Array([5, 6, 0, 0])], cursor: 2, pageSize: 4 },
+    ]);
+
+    expect(Array.from(gif)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
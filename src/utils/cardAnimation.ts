@@ -0,0 +1,174 @@
+import type { CardAnimationFormat, GeneratedCard, Settings } from '../types';
+import type { AnimatedWebpRequest, AnimatedWebpResponse } from './animatedWebp.worker';
+
+/**
+ * Animated cards built from several generated frames, for when Veo is not an
+ * option. Frames play forward then back (ping-pong), so the loop never jumps.
+ * GIFs are encoded by the bundled gif.js worker (`public/gif.worker.js`), one
+ * frame per message; animated WebP by utils/animatedWebp.worker.
+ */
+
+export const CARD_ANIMATION_FORMATS: { value: CardAnimationFormat; label: string }[] = [
+  { value: 'gif', label: 'GIF - plays everywhere' },
+  { value: 'webp', label: 'Animated WebP - smaller, full colour' },
+];
+
+export const MIN_ANIMATION_FRAMES = 2;
+export const MAX_ANIMATION_FRAMES = 8;
+export const ANIMATION_FRAME_DELAY_MS = 250;
+
+// Animations are shown at card size; larger frames only make the file heavier
+const ANIMATION_MAX_WIDTH = 512;
+const GIF_QUALITY = 10;   // gif.js sample interval: lower is better and slower
+
+const MIME_TYPES: Record<CardAnimationFormat, string> = { gif: 'image/gif', webp: 'image/webp' };
+
+/** Frames to generate per card: 1 unless animated cards are on */
+export function getCardFrameCount(settings: Settings): number {
+  if (!settings.frameAnimation) return 1;
+  const requested = Math.round(settings.framesPerCard || MIN_ANIMATION_FRAMES);
+  return Math.min(MAX_ANIMATION_FRAMES, Math.max(MIN_ANIMATION_FRAMES, requested));
+}
+
+/**
+ * Prompt for frame `index` (from 1) of an animated card. With `chained`, the
+ * previous frame is attached as the reference image.
+ */
+export function buildFramePrompt(basePrompt: string, motion: string, index: number, count: number, chained: boolean): string {
+  const reference = chained
+    ? 'The attached image is the previous frame: redraw it exactly, with the same composition, figure, face, colours, border and framing,'
+    : 'Keep the composition, figure, colours, border and framing exactly as they would be in every other frame,';
+  return (
+    `${basePrompt}\n\nFrame ${index + 1} of ${count} of a short looping animation of this card. ` +
+    `${reference} changing only small details to advance this motion by one step: ${motion}`
+  );
+}
+
+/** Playback order that loops without a jump: 0..n-1, then back down to 1 */
+export function getPingPongOrder(count: number): number[] {
+  const forward = Array.from({ length: count }, (_, i) => i);
+  return [...forward, ...forward.slice(1, -1).reverse()];
+}
+
+/** Output size for frames of `width`×`height`, scaled down to the animation width */
+export function getAnimationSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, ANIMATION_MAX_WIDTH / width);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * The still a card shows (and flips on) and its animation, if it has one.
+ * Single-image cards carry their image in `gifUrl` as well, which is no animation.
+ */
+export function getCardImageSources(card: GeneratedCard | undefined): { stillSrc?: string; animatedSrc?: string } {
+  const stillSrc = card?.frames?.[0] || card?.gifUrl;
+  const animatedSrc = card?.gifUrl && card.gifUrl !== stillSrc ? card.gifUrl : undefined;
+  return { stillSrc, animatedSrc };
+}
+
+// ─── GIF ─────────────────────────────────────────────────────────────────────
+
+/** What gif.worker.js posts back per frame: its encoded bytes split into pages */
+export interface GifWorkerFrame {
+  index: number;
+  data: Uint8Array[];
+  cursor: number;          // bytes used in the last page
+  pageSize: number;
+}
+
+/** Joins the workers' frames, in index order, into one GIF file */
+export function joinGifFrames(frames: GifWorkerFrame[]): Uint8Array<ArrayBuffer> {
+  const sorted = [...frames].sort((a, b) => a.index - b.index);
+  const length = sorted.reduce((sum, frame) => sum + (frame.data.length - 1) * frame.pageSize + frame.cursor, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const frame of sorted) {
+    frame.data.forEach((page, i) => {
+      const used = i === frame.data.length - 1 ? frame.cursor : frame.pageSize;
+      out.set(page.subarray(0, used), offset);
+      offset += used;
+    });
+  }
+  return out;
+}
+
+function runWorker<T>(worker: Worker, message: unknown, transfer: Transferable[] = []): Promise<T> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<T>) => resolve(event.data);
+    worker.onerror = (event) => reject(new Error(event.message || 'Animation worker failed'));
+    worker.postMessage(message, transfer);
+  });
+}
+
+async function encodeGif(pixels: Uint8ClampedArray[], order: number[], width: number, height: number): Promise<Uint8Array<ArrayBuffer>> {
+  const worker = new Worker(`${import.meta.env.BASE_URL}gif.worker.js`);
+  try {
+    const encoded: GifWorkerFrame[] = [];
+    for (const [index, frame] of order.entries()) {
+      encoded.push(
+        await runWorker<GifWorkerFrame>(worker, {
+          index,
+          last: index === order.length - 1,
+          data: pixels[frame],
+          width,
+          height,
+          delay: ANIMATION_FRAME_DELAY_MS,
+          quality: GIF_QUALITY,
+          dither: false,
+          globalPalette: false,
+          repeat: 0,
+          transparent: null,
+          canTransfer: true,
+        })
+      );
+    }
+    return joinGifFrames(encoded);
+  } finally {
+    worker.terminate();
+  }
+}
+
+// ─── Assembly ────────────────────────────────────────────────────────────────
+
+async function loadFrames(frames: string[]): Promise<ImageBitmap[]> {
+  return Promise.all(frames.map(async (url) => createImageBitmap(await (await fetch(url)).blob())));
+}
+
+function readPixels(bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available in this browser');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Builds the animation for a card's frames (URLs the page can fetch, such as
+ * data or object URLs), sized from the first frame.
+ */
+export async function assembleCardAnimation(
+  frames: string[],
+  format: CardAnimationFormat
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; mimeType: string }> {
+  const bitmaps = await loadFrames(frames);
+  const { width, height } = getAnimationSize(bitmaps[0].width, bitmaps[0].height);
+  const order = getPingPongOrder(bitmaps.length);
+
+  if (format === 'gif') {
+    const pixels = bitmaps.map((bitmap) => readPixels(bitmap, width, height));
+    bitmaps.forEach((bitmap) => bitmap.close());
+    return { bytes: await encodeGif(pixels, order, width, height), mimeType: MIME_TYPES.gif };
+  }
+
+  const worker = new Worker(new URL('./animatedWebp.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    const request: AnimatedWebpRequest = { frames: bitmaps, order, width, height, delayMs: ANIMATION_FRAME_DELAY_MS };
+    const response = await runWorker<AnimatedWebpResponse>(worker, request, bitmaps);
+    if ('error' in response) throw new Error(response.error);
+    return { bytes: response.bytes, mimeType: MIME_TYPES.webp };
+  } finally {
+    worker.terminate();
+  }
+}
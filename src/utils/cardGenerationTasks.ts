@@ -0,0 +1,242 @@
+import type {
+  CardAnimationFormat,
+  GeneratedCard,
+  PendingVideoOperation,
+  PromptVersion,
+  Settings,
+  TarotCard,
+  VideoGenerationSettings,
+} from '../types';
+import { generateCardFrames } from './imageGeneration';
+import { assembleCardAnimation, getCardFrameCount } from './cardAnimation';
+import {
+  downloadGeneratedVideo,
+  generateVideoFromImage,
+  isVideoGenerationFailedError,
+  pollVideoOperation,
+} from './videoGeneration';
+import { readMediaAsDataUrl, resolveMediaUrl, storeMedia } from './mediaStore';
+import { getInterpretationForDeck } from './deckInterpretation';
+import { buildTarotVideoPrompt } from './videoPrompt';
+import { getDeckVideoSettings, getMotionText } from './videoSettings';
+import { getVideoProcessingSettings, processVideo, shouldProcessVideo } from './videoProcessing';
+import {
+  RESUMED_VIDEO_MAX_WAIT_MS,
+  claimVideoOperation,
+  createPendingVideoOperation,
+  releaseVideoOperation,
+} from './videoOperations';
+
+/**
+ * One card's image or video generation, shared by the single-card actions in
+ * `useCardGeneration` and the bulk queue runner. Both build the record for the
+ * deck in `settings.selectedDeckType` and throw on failure; the caller saves it.
+ */
+
+/** Video prompt for the card in the selected deck, shaped by that deck's video settings */
+export function getCardVideoPrompt(card: TarotCard, settings: Settings, editedPrompt?: string) {
+  const deckType = settings.selectedDeckType;
+  const interpretation = getInterpretationForDeck(card, deckType);
+  const videoSettings = getDeckVideoSettings(settings, deckType);
+  return buildTarotVideoPrompt({
+    cardNumber: card.number,
+    titleFallback: interpretation.name || interpretation.pathway || card.traditional.name || `Card ${card.number}`,
+    prompt: editedPrompt || interpretation.prompt,
+    durationSeconds: videoSettings.durationSeconds,
+    aspectRatio: videoSettings.aspectRatio,
+    motion: getMotionText(videoSettings, deckType),
+  });
+}
+
+/**
+ * `promptVersion` is the card prompt wording to generate with; the record links
+ * back to it. Without one, a prompt carried on `existing` is reused.
+ */
+export async function createCardImage(
+  card: TarotCard,
+  settings: Settings,
+  existing?: GeneratedCard,
+  onProgress?: (current: number, total: number) => void,
+  promptVersion?: PromptVersion
+): Promise<GeneratedCard> {
+  const cardPrompt = promptVersion?.prompt ?? existing?.prompt;
+
+  const frames = await generateCardFrames(
+    card,
+    settings.selectedDeckType,
+    getCardFrameCount(settings),
+    settings,
+    onProgress,
+    cardPrompt
+  );
+  const animation = frames.length > 1 && settings.frameAnimation;
+
+  return {
+    cardNumber: card.number,
+    deckType: settings.selectedDeckType,
+    frames,
+    // Single-image cards keep the image as a static "gif" for older readers of the record
+    gifUrl: animation ? await keepCardAnimation(frames, animation) : frames[0],
+    timestamp: Date.now(),
+    shared: false,
+    source: 'local',
+    prompt: cardPrompt || undefined,
+    promptVersion: promptVersion?.version,
+    generation: {
+      provider: settings.apiProvider,
+      model: settings.generationModel,
+      imageSize: settings.imageSize,
+      ...(animation ? { animation } : {}),
+    },
+  };
+}
+
+/**
+ * Build the animation and keep it in the media store. WebP falls back to GIF
+ * where the browser cannot encode it; if both fail the card stays a still.
+ */
+async function keepCardAnimation(frames: string[], format: CardAnimationFormat): Promise<string> {
+  const formats: CardAnimationFormat[] = format === 'webp' ? ['webp', 'gif'] : ['gif'];
+  for (const candidate of formats) {
+    try {
+      const { bytes, mimeType } = await assembleCardAnimation(frames, candidate);
+      return await resolveMediaUrl(await storeMedia(bytes, mimeType));
+    } catch (error) {
+      console.warn(`[Generation] Could not build the ${candidate} animation:`, error);
+    }
+  }
+  return frames[0];
+}
+
+interface KeptVideo {
+  videoUrl: string;
+  posterUrl?: string;
+}
+
+/**
+ * Processed first when video processing is on and the video has no sound; if
+ * processing fails the video is stored as Veo made it.
+ */
+async function storeVideo(
+  { bytes, mimeType }: { bytes: Uint8Array<ArrayBuffer>; mimeType: string },
+  settings: Settings,
+  videoGeneration: VideoGenerationSettings
+): Promise<KeptVideo> {
+  const processing = getVideoProcessingSettings(settings);
+  if (shouldProcessVideo(processing, videoGeneration)) {
+    try {
+      const processed = await processVideo(new Blob([bytes], { type: mimeType }), processing);
+      return {
+        videoUrl: await resolveMediaUrl(await storeMedia(processed.bytes, processed.mimeType)),
+        posterUrl: await resolveMediaUrl(await storeMedia(processed.poster.bytes, processed.poster.mimeType)),
+      };
+    } catch (error) {
+      console.warn('[Generation] Could not process the video; keeping it as generated:', error);
+    }
+  }
+  return { videoUrl: await resolveMediaUrl(await storeMedia(bytes, mimeType)) };
+}
+
+/**
+ * Keep a finished video in the media store right away, before its link expires.
+ * If the download fails the link is kept, so the video stays playable for now.
+ */
+async function keepGeneratedVideo(
+  videoUrl: string,
+  settings: Settings,
+  videoGeneration: VideoGenerationSettings
+): Promise<KeptVideo> {
+  if (!/^https?:\/\//.test(videoUrl)) return { videoUrl };
+  try {
+    return await storeVideo(await downloadGeneratedVideo(videoUrl, settings), settings, videoGeneration);
+  } catch (error) {
+    console.warn('[Generation] Could not download the video; keeping its link, which expires:', error);
+    return { videoUrl };
+  }
+}
+
+/** Lets the caller keep a started video operation somewhere that survives a reload */
+export interface VideoOperationTracker {
+  started: (operation: PendingVideoOperation) => void;
+  settled: (name: string) => void;   // finished or failed; not called while still rendering
+}
+
+function buildVideoCard(
+  cardNumber: number,
+  deckType: string,
+  source: GeneratedCard | undefined,
+  { videoUrl, posterUrl }: KeptVideo,
+  videoGeneration: VideoGenerationSettings
+): GeneratedCard {
+  return {
+    cardNumber,
+    deckType,
+    frames: source?.frames || [],
+    gifUrl: source?.gifUrl,
+    videoUrl,
+    posterUrl,
+    timestamp: Date.now(),
+    shared: false,
+    source: 'local',
+    prompt: source?.prompt,
+    promptVersion: source?.promptVersion,
+    generation: source?.generation,
+    videoGeneration,
+  };
+}
+
+/**
+ * Throws a `VIDEO_STILL_RENDERING_MESSAGE` error when the video outlasts the
+ * poll ceiling; the operation then stays with `tracker` to be resumed, as it
+ * does after any error other than a failure Veo reports.
+ */
+export async function createCardVideo(
+  card: TarotCard,
+  settings: Settings,
+  existing: GeneratedCard | undefined,
+  tracker?: VideoOperationTracker
+): Promise<GeneratedCard> {
+  if (!existing?.frames?.[0]) {
+    throw new Error('No reference image found. Please generate the card image first.');
+  }
+  // The provider needs the image bytes inline, not an object URL
+  const referenceImage = await readMediaAsDataUrl(existing.frames[0]);
+
+  const videoSettings = getDeckVideoSettings(settings, settings.selectedDeckType);
+  const { basePrompt } = getCardVideoPrompt(card, settings, existing?.prompt);
+  let operationName: string | undefined;
+  const videoResult = await generateVideoFromImage(basePrompt, referenceImage, settings, videoSettings, (name) => {
+    operationName = name;
+    claimVideoOperation(name);
+    tracker?.started(createPendingVideoOperation(name, settings, existing, card.number, videoSettings));
+  });
+  if (operationName) {
+    // Keep the paid operation after an auth or poll error; the resume hook tries it again
+    if (videoResult.videoUrl || isVideoGenerationFailedError(videoResult.error)) tracker?.settled(operationName);
+    releaseVideoOperation(operationName);
+  }
+  if (videoResult.error || !videoResult.videoUrl) {
+    throw new Error(videoResult.error || 'No video URL returned');
+  }
+  const video = await keepGeneratedVideo(videoResult.videoUrl, settings, videoSettings);
+  return buildVideoCard(card.number, settings.selectedDeckType, existing, video, videoSettings);
+}
+
+/**
+ * Polls an operation left over from an earlier page load, with `settings` from
+ * `getOperationSettings`. Resolves undefined while the video is still
+ * rendering; `getSource` is read once it is done, so the card list is current.
+ */
+export async function resumeCardVideo(
+  operation: PendingVideoOperation,
+  settings: Settings,
+  getSource: () => GeneratedCard | undefined
+): Promise<GeneratedCard | undefined> {
+  const result = await pollVideoOperation(operation.name, settings, { maxWaitMs: RESUMED_VIDEO_MAX_WAIT_MS });
+  if (result.pending) return undefined;
+  if (result.error || !result.videoUrl) {
+    throw new Error(result.error || 'No video URL returned');
+  }
+  const video = await keepGeneratedVideo(result.videoUrl, settings, operation.videoGeneration);
+  return buildVideoCard(operation.cardNumber, operation.deckType, getSource(), video, operation.videoGeneration);
+}
@@ -8,6 +8,7 @@ import {
   isWithinBoundaries,
   wouldCollide,
 } from './cardPhysics';
+import { createSeededRandom } from './random';
 
 describe('Card Physics Integration Tests', () => {
   describe('Multiple cards repelling each other', () => {
@@ -190,13 +191,14 @@ describe('Card Physics Integration Tests', () => {
 
   describe('Combined forces stability', () => {
     it('should reach stable equilibrium with all forces', () => {
-      // Start with multiple cards in random positions
+      // Start with multiple cards in random (seeded, so reproducible) positions
+      const rng = createSeededRandom('combined-forces');
       const numCards = 5;
       const positions = Array.from({ length: numCards }, () =>
         new THREE.Vector3(
-          (Math.random() - 0.5) * 4,
-          (Math.random() - 0.5) * 4,
-          (Math.random() - 0.5) * 4
+          (rng() - 0.5) * 4,
+          (rng() - 0.5) * 4,
+          (rng() - 0.5) * 4
         )
       );
       const velocities = Array.from({ length: numCards }, () =>
@@ -255,6 +257,7 @@ describe('Card Physics Integration Tests', () => {
     });
 
     it('should maintain separation even with continuous disturbance', () => {
+      const rng = createSeededRandom('continuous-disturbance');
       const positions = [
         new THREE.Vector3(0, 0, 0),
         new THREE.Vector3(1, 0, 0),
@@ -274,14 +277,14 @@ describe('Card Physics Integration Tests', () => {
 
         // Add random disturbance
         accelerations[0].add(new THREE.Vector3(
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01
+          (rng() - 0.5) * 0.01,
+          (rng() - 0.5) * 0.01,
+          (rng() - 0.5) * 0.01
         ));
         accelerations[1].add(new THREE.Vector3(
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01
+          (rng() - 0.5) * 0.01,
+          (rng() - 0.5) * 0.01,
+          (rng() - 0.5) * 0.01
         ));
 
         // Update
@@ -299,21 +302,22 @@ describe('Card Physics Integration Tests', () => {
 
   describe('Performance characteristics', () => {
     it('should maintain stable motion with 22 cards (full deck)', () => {
+      const rng = createSeededRandom('full-deck');
       const numCards = 22;
       const positions = Array.from({ length: numCards }, (_, i) => {
         const angle = (i / numCards) * Math.PI * 4;
         const radius = 2 + (i % 3) * 1.5;
         return new THREE.Vector3(
-          Math.cos(angle) * radius + (Math.random() - 0.5) * 2,
-          Math.sin(angle) * radius * 0.5 + (Math.random() - 0.5) * 2,
-          (Math.random() - 0.5) * 3
+          Math.cos(angle) * radius + (rng() - 0.5) * 2,
+          Math.sin(angle) * radius * 0.5 + (rng() - 0.5) * 2,
+          (rng() - 0.5) * 3
         );
       });
       const velocities = Array.from({ length: numCards }, () =>
         new THREE.Vector3(
-          (Math.random() - 0.5) * 0.1,
-          (Math.random() - 0.5) * 0.1,
-          (Math.random() - 0.5) * 0.05
+          (rng() - 0.5) * 0.1,
+          (rng() - 0.5) * 0.1,
+          (rng() - 0.5) * 0.05
         )
       );
 
@@ -0,0 +1,194 @@
+/**
+ * Tests for costTracking.ts
+ *
+ * Strategy:
+ *   - Real tarot-decks.json, so the prices under test are the shipped ones
+ *   - Settings and records are plain fixtures; nothing touches IndexedDB
+ *
+ * Scenarios covered:
+ *   pricing   — request target per provider, exact model-id lookup,
+ *               unpriced models
+ *   estimates — a 22-card image run, every frame of animated cards, video runs
+ *               only count cards that need a video, record built from settings
+ *   totals    — per deck and per month, budget check before a run
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard, GenerationCostRecord, Settings } from '../types';
+import {
+  createCostRecord,
+  estimateBulkRun,
+  formatCost,
+  getBudgetBlockMessage,
+  getRequestTarget,
+  getUnitCost,
+  summarizeCosts,
+} from './costTracking';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+
+const SETTINGS = {
+  selectedDeckType: DECK,
+  apiProvider: 'openrouter',
+  generationModel: 'google/gemini-2.5-flash-image',
+  imageSize: '1K',
+} as Settings;
+
+function makeRecord(overrides: Partial<GenerationCostRecord> = {}): GenerationCostRecord {
+  return {
+    id: 'cost-1',
+    kind: 'image',
+    provider: 'openrouter',
+    model: 'google/gemini-2.5-flash-image',
+    imageSize: '1K',
+    deckType: DECK,
+    cardNumber: 0,
+    cost: 0.5,
+    timestamp: new Date(2026, 2, 10).getTime(),
+    ...overrides,
+  };
+}
+
+function makeGeneratedCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: DECK,
+    timestamp: 1_000,
+    frames: ['data:image/jpeg;base64,abc'],
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+// ─── Pricing ─────────────────────────────────────────────────────────────────
+
+describe('pricing', () => {
+  it('targets the selected image provider and Veo (or the mock) for video', () => {
+    expect(getRequestTarget('image', SETTINGS)).toEqual({
+      provider: 'openrouter',
+      model: 'google/gemini-2.5-flash-image',
+      imageSize: '1K',
+    });
+    expect(getRequestTarget('video', SETTINGS)).toEqual({
+      provider: 'veo',
+      model: 'veo-3.1-generate-preview',
+      durationSeconds: 8,
+    });
+    expect(getRequestTarget('video', { ...SETTINGS, apiProvider: 'mock' })).toEqual({
+      provider: 'mock',
+      model: 'mock-placeholder',
+    });
+  });
+
+  it('looks prices up by exact model id, so OpenRouter and Gemini direct differ', () => {
+    expect(getUnitCost('image', 'google/gemini-2.5-flash-image')).toBe(0.003);
+    expect(getUnitCost('image', 'gemini-2.5-flash-image')).toBe(0.039);
+    expect(getUnitCost('video', 'veo-3.1-generate-preview')).toBe(3.2);
+    expect(getUnitCost('image', 'local-checkpoint')).toBe(0);
+  });
+
+  it('prices Veo by the second for the deck\'s video settings', () => {
+    const settings = {
+      ...SETTINGS,
+      videoSettingsMap: { [SETTINGS.selectedDeckType]: { model: 'veo-3.1-fast-generate-preview', durationSeconds: 4 } },
+    };
+
+    expect(getUnitCost('video', 'veo-3.1-generate-preview', 6)).toBeCloseTo(2.4);
+    expect(createCostRecord('video', settings, 0)).toMatchObject({ model: 'veo-3.1-fast-generate-preview', cost: 0.6 });
+    expect(createCostRecord('video', settings, 0)).not.toHaveProperty('durationSeconds');
+  });
+
+  it('reports unlisted models as unpriced and records them at $0', () => {
+    const settings = { ...SETTINGS, generationModel: 'some/new-model' };
+
+    expect(getUnitCost('image', 'some/new-model')).toBeUndefined();
+    expect(estimateBulkRun('image', settings, [])).toMatchObject({ total: 0, priced: false });
+    expect(createCostRecord('image', settings, 4).cost).toBe(0);
+  });
+});
+
+// ─── Estimates ───────────────────────────────────────────────────────────────
+
+describe('estimates', () => {
+  it('prices a "Generate all 22" run before it starts', () => {
+    const estimate = estimateBulkRun('image', SETTINGS, []);
+
+    expect(estimate).toMatchObject({ kind: 'image', requests: 22, unitCost: 0.003, priced: true });
+    expect(estimate.total).toBeCloseTo(0.066);
+  });
+
+  it('prices every frame of an animated card as an image', () => {
+    const estimate = estimateBulkRun('image', { ...SETTINGS, frameAnimation: 'gif', framesPerCard: 4 }, []);
+
+    expect(estimate.requests).toBe(88);
+    expect(estimate.total).toBeCloseTo(0.264);
+  });
+
+  it('only counts cards with an image and no video for a video run', () => {
+    const cards = [
+      makeGeneratedCard({ cardNumber: 0 }),
+      makeGeneratedCard({ cardNumber: 1, videoUrl: 'https://example.com/1.mp4' }),
+      makeGeneratedCard({ cardNumber: 2, frames: [] }),
+      makeGeneratedCard({ cardNumber: 3, deckType: 'egyptian-tarot' }),
+    ];
+
+    const estimate = estimateBulkRun('video', SETTINGS, cards);
+
+    expect(estimate.requests).toBe(1);
+    expect(estimate.total).toBe(3.2);
+  });
+
+  it('builds a record from the settings used for the request', () => {
+    const record = createCostRecord('image', SETTINGS, 7);
+
+    expect(record).toMatchObject({
+      kind: 'image',
+      provider: 'openrouter',
+      model: 'google/gemini-2.5-flash-image',
+      imageSize: '1K',
+      deckType: DECK,
+      cardNumber: 7,
+      cost: 0.003,
+    });
+    expect(record.id).toBeTruthy();
+  });
+});
+
+// ─── Totals and budget ───────────────────────────────────────────────────────
+
+describe('totals and budget', () => {
+  const NOW = new Date(2026, 2, 20).getTime();
+  const records = [
+    makeRecord({ id: 'a' }),
+    makeRecord({ id: 'b', deckType: 'egyptian-tarot', cost: 0.25 }),
+    makeRecord({ id: 'c', cost: 1, timestamp: new Date(2026, 1, 28).getTime() }),
+  ];
+
+  it('sums spend per deck and per month', () => {
+    expect(summarizeCosts(records, NOW)).toEqual({
+      total: 1.75,
+      thisMonth: 0.75,
+      byDeck: { [DECK]: 1.5, 'egyptian-tarot': 0.25 },
+      byMonth: { '2026-03': 0.75, '2026-02': 1 },
+    });
+  });
+
+  it('blocks a run that would take this month over the budget', () => {
+    const estimate = estimateBulkRun('video', SETTINGS, [makeGeneratedCard()]);
+
+    expect(getBudgetBlockMessage(records, estimate, 5, NOW)).toBeUndefined();
+    expect(getBudgetBlockMessage(records, estimate, 3.5, NOW)).toBe(
+      'Over budget: this run is estimated at $3.20 and $0.750 of the $3.50 monthly budget is already spent.'
+    );
+    expect(getBudgetBlockMessage(records, estimate, undefined, NOW)).toBeUndefined();
+  });
+
+  it('formats small amounts with a third decimal', () => {
+    expect(formatCost(0.066)).toBe('$0.066');
+    expect(formatCost(3.2)).toBe('$3.20');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});
@@ -0,0 +1,159 @@
+import type { GeneratedCard, GenerationCostRecord, GenerationJobKind, Settings, TarotDeckData } from '../types';
+import tarotData from '../data/tarot-decks.json';
+import { getCardFrameCount } from './cardAnimation';
+import { resolveImageProvider } from './imageProviders';
+import { MOCK_MODEL_ID, MOCK_PROVIDER_ID } from './mockGeneration';
+import { VEO_RATE_LIMIT_ID } from './rateLimitScheduler';
+import { getDeckVideoSettings } from './videoSettings';
+import { getDeckCards } from './tarotCards';
+
+/**
+ * Spend estimates from `costEstimation` in tarot-decks.json, keyed by model id.
+ * Only successful requests are recorded: providers do not bill rejected or
+ * failed generations. Models without a listed price count as $0 and are
+ * flagged as unpriced so the UI can say so.
+ */
+
+const costEstimation = (tarotData as unknown as TarotDeckData).costEstimation ?? {};
+
+export interface RequestTarget {
+  provider: string;
+  model: string;
+  imageSize?: string;
+  durationSeconds?: number;  // video requests only
+}
+
+export interface RunEstimate {
+  kind: GenerationJobKind;
+  model: string;
+  requests: number;
+  unitCost: number;
+  total: number;
+  priced: boolean;
+}
+
+export interface CostSummary {
+  total: number;
+  thisMonth: number;
+  byDeck: Record<string, number>;
+  byMonth: Record<string, number>;   // keyed by YYYY-MM, local time
+}
+
+/** Provider and model a request of `kind` would go to with these settings */
+export function getRequestTarget(kind: GenerationJobKind, settings: Settings): RequestTarget {
+  if (kind === 'video') {
+    if (settings.apiProvider === MOCK_PROVIDER_ID) return { provider: MOCK_PROVIDER_ID, model: MOCK_MODEL_ID };
+    const { model, durationSeconds } = getDeckVideoSettings(settings, settings.selectedDeckType);
+    return { provider: VEO_RATE_LIMIT_ID, model, durationSeconds };
+  }
+  return {
+    provider: resolveImageProvider(settings).id,
+    model: settings.generationModel,
+    imageSize: settings.imageSize,
+  };
+}
+
+/**
+ * Listed price of one request, or undefined when the model has none. Videos
+ * priced per second need the clip length; without it the flat price is used.
+ */
+export function getUnitCost(kind: GenerationJobKind, model: string, durationSeconds?: number): number | undefined {
+  const entry = costEstimation[model];
+  if (kind === 'image') return entry?.perImage;
+  if (entry?.perVideoSecond !== undefined && durationSeconds) return entry.perVideoSecond * durationSeconds;
+  return entry?.perVideo;
+}
+
+export function createCostRecord(
+  kind: GenerationJobKind,
+  settings: Settings,
+  cardNumber: number
+): GenerationCostRecord {
+  const { durationSeconds, ...target } = getRequestTarget(kind, settings);
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    ...target,
+    deckType: settings.selectedDeckType,
+    cardNumber,
+    cost: getUnitCost(kind, target.model, durationSeconds) ?? 0,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * What a bulk run for the selected deck would cost. Image runs regenerate every
+ * card, every frame of it; video runs only request cards that have an image but no video yet,
+ * matching what the queue runner skips.
+ */
+export function estimateBulkRun(
+  kind: GenerationJobKind,
+  settings: Settings,
+  generatedCards: GeneratedCard[]
+): RunEstimate {
+  const cards = getDeckCards(settings.includeMinorArcana);
+  // Animated cards take one image request per frame
+  let requests = cards.length * getCardFrameCount(settings);
+  if (kind === 'video') {
+    const latest = new Map<number, GeneratedCard>();
+    generatedCards
+      .filter((card) => card.deckType === settings.selectedDeckType)
+      .forEach((card) => {
+        const current = latest.get(card.cardNumber);
+        if (!current || card.timestamp > current.timestamp) latest.set(card.cardNumber, card);
+      });
+    requests = cards.filter((card) => {
+      const generated = latest.get(card.number);
+      return Boolean(generated?.frames?.[0]) && !generated?.videoUrl;
+    }).length;
+  }
+
+  const { model, durationSeconds } = getRequestTarget(kind, settings);
+  const unitCost = getUnitCost(kind, model, durationSeconds);
+  return {
+    kind,
+    model,
+    requests,
+    unitCost: unitCost ?? 0,
+    total: requests * (unitCost ?? 0),
+    priced: unitCost !== undefined,
+  };
+}
+
+export function getMonthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function summarizeCosts(records: GenerationCostRecord[], now = Date.now()): CostSummary {
+  const currentMonth = getMonthKey(now);
+  const summary: CostSummary = { total: 0, thisMonth: 0, byDeck: {}, byMonth: {} };
+  for (const record of records) {
+    const month = getMonthKey(record.timestamp);
+    summary.total += record.cost;
+    summary.byDeck[record.deckType] = (summary.byDeck[record.deckType] ?? 0) + record.cost;
+    summary.byMonth[month] = (summary.byMonth[month] ?? 0) + record.cost;
+    if (month === currentMonth) summary.thisMonth += record.cost;
+  }
+  return summary;
+}
+
+/**
+ * Why a run must not start under the monthly budget, or undefined when it fits
+ * (or no budget is set). The estimate is checked before anything is queued.
+ */
+export function getBudgetBlockMessage(
+  records: GenerationCostRecord[],
+  estimate: RunEstimate,
+  budget: number | undefined,
+  now = Date.now()
+): string | undefined {
+  if (budget === undefined || estimate.total === 0) return undefined;
+  const spent = summarizeCosts(records, now).thisMonth;
+  if (spent + estimate.total <= budget) return undefined;
+  return `Over budget: this run is estimated at ${formatCost(estimate.total)} and ${formatCost(spent)} of the ${formatCost(budget)} monthly budget is already spent.`;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+}
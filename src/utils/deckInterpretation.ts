@@ -1,4 +1,8 @@
+import { traditionalSymbols } from '../data/traditional-symbols';
 import type { CardInterpretation, TarotCard } from '../types';
+import buddhistLore from '../data/buddhist-lore.json';
+
+type BuddhistLoreEntry = { number: number; reversed?: string };
 
 export function getInterpretationForDeck(card: TarotCard, deckType: string): CardInterpretation {
   switch (deckType) {
@@ -22,3 +26,29 @@ export function getInterpretationForDeck(card: TarotCard, deckType: string): Car
       return card.traditional;
   }
 }
+
+/**
+ * Reversed meaning for a card in the given deck. Rider-Waite falls back to the
+ * Golden Dawn table, the Masterpiece deck to the base LOTM text, and Buddhist
+ * reads from its own lore file since it borrows the traditional interpretation
+ * (the lore only covers the Major Arcana, so Minor Arcana use the traditional text).
+ */
+export function getReversedMeaningForDeck(card: TarotCard, deckType: string): string | undefined {
+  switch (deckType) {
+    case 'lord-of-mysteries-masterpiece':
+      return card.lordOfMysteriesMasterpiece?.reversed || card.lordOfMysteries.reversed;
+    case 'buddhist':
+      return (
+        (buddhistLore.cards as BuddhistLoreEntry[]).find((entry) => entry.number === card.number)?.reversed ||
+        card.traditional.reversed
+      );
+    case 'egyptian-tarot':
+    case 'celtic-tarot':
+    case 'japanese-shinto':
+    case 'advaita-vedanta':
+    case 'lord-of-mysteries':
+      return getInterpretationForDeck(card, deckType).reversed;
+    default:
+      return card.traditional.reversed || traditionalSymbols.find((entry) => entry.number === card.number)?.reversed;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Tests for deckPackage.ts
+ *
+ * Strategy:
+ *   - Packages are built with an addMedia stand-in that names files and fakes hashes
+ *   - Older manifests are written out literally, as the earlier code produced them
+ *
+ * Scenarios covered:
+ *   build     — decks and media listed once, lore and generation recorded,
+ *               cards read back unchanged
+ *   migrate   — first zip exports, IPFS bundles and v2 backups reach the current
+ *               version; broken references, unknown and newer versions rejected
+ *   upload    — the Supabase wire shape
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard } from '../types';
+import {
+  DECK_PACKAGE_VERSION,
+  buildDeckPackage,
+  migrateDeckPackage,
+  readDeckPackageCards,
+  toUploadCard,
+  type PackageMedia,
+} from './deckPackage';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+const HASH = 'a'.repeat(64);
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: DECK,
+    timestamp: 1_000,
+    frames: ['blob:image-1'],
+    gifUrl: 'blob:image-1',
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+const addMedia = async (url: string, name: string): Promise<PackageMedia> => ({
+  path: `media/${name}.png`,
+  mimeType: 'image/png',
+  size: url.length,
+  hash: HASH,
+});
+
+const pathsAsUrls = async (media: PackageMedia) => `zip:${media.path}`;
+
+// ─── Build ───────────────────────────────────────────────────────────────────
+
+describe('buildDeckPackage', () => {
+  it('lists each deck and media file once and reads the cards back', async () => {
+    const cards = [
+      makeCard({ prompt: 'A fool at the cliff', generation: { provider: 'gemini', model: 'gemini-3-pro-image-preview' } }),
+      makeCard({
+        timestamp: 2_000,
+        videoUrl: 'blob:video-1',
+        posterUrl: 'blob:poster-1',
+        deckName: 'Night Deck',
+        deckPromptSuffix: 'ink',
+      }),
+      makeCard({ cardNumber: 1, timestamp: 3_000, frames: ['blob:image-2'], gifUrl: undefined }),
+    ];
+
+    const pkg = await buildDeckPackage(cards, addMedia, { author: 'Ada' });
+
+    expect(pkg.schemaVersion).toBe(DECK_PACKAGE_VERSION);
+    expect(pkg.decks.map((deck) => [deck.id, deck.name])).toEqual([[DECK, undefined], [`${DECK}#2`, 'Night Deck']]);
+    expect(pkg.media.map((file) => file.path)).toEqual([
+      `media/${DECK}/card-0-1000-frame-0.png`,
+      `media/${DECK}/card-0-2000-video.png`,
+      `media/${DECK}/card-0-2000-poster.png`,
+      `media/${DECK}/card-1-3000-frame-0.png`,
+    ]);
+    expect(pkg.cards[0]).toMatchObject({ cardName: 'The Fool', lore: { keywords: expect.any(Array) } });
+    expect(migrateDeckPackage(JSON.parse(JSON.stringify(pkg)))).toEqual(pkg);
+
+    const restored = await readDeckPackageCards(pkg, pathsAsUrls);
+    expect(restored[0]).toEqual({ ...cards[0], frames: [`zip:${pkg.media[0].path}`], gifUrl: `zip:${pkg.media[0].path}` });
+    expect(restored[1]).toMatchObject({
+      deckName: 'Night Deck',
+      deckPromptSuffix: 'ink',
+      videoUrl: `zip:${pkg.media[1].path}`,
+      posterUrl: `zip:${pkg.media[2].path}`,
+    });
+  });
+});
+
+// ─── Migrate ─────────────────────────────────────────────────────────────────
+
+describe('migrateDeckPackage', () => {
+  it('brings a first zip export up through every version', async () => {
+    const pkg = migrateDeckPackage([
+      { cardNumber: 3, cardName: 'The Empress', deckType: 'egyptian-tarot', timestamp: 5, shared: false, source: 'local', frames: ['media/card-3-frame-0.jpg'] },
+    ]);
+
+    expect(pkg.media).toEqual([{ path: 'media/card-3-frame-0.jpg', mimeType: 'image/jpeg' }]);
+    expect(await readDeckPackageCards(pkg, pathsAsUrls)).toEqual([
+      expect.objectContaining({ cardNumber: 3, deckType: 'egyptian-tarot', timestamp: 5, frames: ['zip:media/card-3-frame-0.jpg'] }),
+    ]);
+  });
+
+  it('reads IPFS bundles as community cards by the bundle author', async () => {
+    const pkg = migrateDeckPackage({
+      author: 'Ada',
+      timestamp: 9,
+      version: '1.0',
+      cards: [
+        {
+          cardNumber: 2,
+          deckType: DECK,
+          cardName: 'Card 2',
+          imageData: 'image-2.webp',
+          videoData: 'video-2.mp4',
+          metadata: { generatedAt: 7, model: 'gemini-2.0-flash-exp' },
+        },
+      ],
+    });
+
+    const [card] = await readDeckPackageCards(pkg, pathsAsUrls);
+    expect(card).toMatchObject({ timestamp: 7, source: 'community', shared: true, author: 'Ada', videoUrl: 'zip:video-2.mp4' });
+  });
+
+  it('keeps the deck details of v2 backups', () => {
+    const pkg = migrateDeckPackage({
+      format: 'tarot-cards-backup',
+      version: 2,
+      exportedAt: 1,
+      cards: [{ cardNumber: 0, deckType: DECK, timestamp: 1, frames: ['a.png'], deckId: 'deck-1', deckName: 'Night Deck' }],
+    });
+
+    expect(pkg.decks).toEqual([{ id: 'deck-1', deckType: DECK, deckId: 'deck-1', name: 'Night Deck' }]);
+  });
+
+  it('rejects broken references, unknown manifests and newer versions', async () => {
+    const pkg = await buildDeckPackage([makeCard()], addMedia);
+    const broken = { ...pkg, media: [] };
+
+    expect(() => migrateDeckPackage(broken)).toThrow(/invalid at cards\.0: .* is not listed in media/);
+    expect(() => migrateDeckPackage({ hello: 'world' })).toThrow('not a deck package');
+    expect(() => migrateDeckPackage({ ...pkg, schemaVersion: DECK_PACKAGE_VERSION + 1 })).toThrow(/reads up to version/);
+  });
+});
+
+// ─── Upload ──────────────────────────────────────────────────────────────────
+
+describe('toUploadCard', () => {
+  it('flattens the deck onto the card and reports the image model', () => {
+    const card = makeCard({ prompt: 'A fool', generation: { provider: 'gemini', model: 'gemini-3-pro-image-preview' } });
+
+    expect(toUploadCard(card, { deckType: DECK, deckId: 'deck-1', name: 'Night Deck', description: '' }, 'Ada')).toEqual({
+      cardNumber: 0,
+      deckType: DECK,
+      frames: ['blob:image-1'],
+      gifUrl: 'blob:image-1',
+      videoUrl: undefined,
+      timestamp: 1_000,
+      model: 'gemini-3-pro-image-preview',
+      author: 'Ada',
+      prompt: 'A fool',
+      deckPromptSuffix: null,
+      deckId: 'deck-1',
+      deckName: 'Night Deck',
+      deckDescription: '',
+    });
+  });
+});
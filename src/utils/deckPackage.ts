@@ -0,0 +1,464 @@
+import { z } from 'zod';
+import type { GeneratedCard } from '../types';
+import { getInterpretationForDeck } from './deckInterpretation';
+import { getCardByNumber } from './tarotCards';
+
+/**
+ * The deck package: one manifest for every way a deck leaves the app (zip
+ * backups, IPFS bundles, the Supabase upload). Decks and media are listed
+ * once; cards point at them by id and path. Media paths are relative to the
+ * package root and carry the SHA-256 of their bytes.
+ *
+ * Manifests written before this format are read through `migrateDeckPackage`,
+ * which steps them up one version at a time:
+ *   1  first zip exports (a bare card list) and IPFS bundles (`version: '1.0'`)
+ *   2  zip backups (`format: 'tarot-cards-backup'`)
+ *   3  deck packages
+ */
+
+export const DECK_PACKAGE_FORMAT = 'tarot-deck-package';
+export const DECK_PACKAGE_VERSION = 3;
+
+const optionalText = z.string().optional();
+const timestampSchema = z.number().int().positive();
+
+// ─── Version 1 ───────────────────────────────────────────────────────────────
+
+const zipCardV1Schema = z.object({
+  cardNumber: z.number().int().min(0),
+  cardName: optionalText,
+  deckType: z.string().min(1),
+  timestamp: timestampSchema,
+  shared: z.boolean().optional(),
+  source: z.enum(['local', 'community']).optional(),
+  frames: z.array(z.string().min(1)),
+  gifUrl: optionalText,
+  videoUrl: optionalText,
+});
+
+const ipfsBundleV1Schema = z.object({
+  author: optionalText,
+  timestamp: z.number(),
+  version: z.literal('1.0'),
+  cards: z.array(
+    z.object({
+      cardNumber: z.number().int().min(0),
+      deckType: z.string().min(1),
+      cardName: optionalText,
+      imageData: z.string().min(1),  // file name in the bundle
+      videoData: optionalText,
+      metadata: z.object({ generatedAt: timestampSchema, model: optionalText }),
+    })
+  ),
+});
+
+const manifestV1Schema = z.union([z.array(zipCardV1Schema), ipfsBundleV1Schema]);
+
+// ─── Version 2 ───────────────────────────────────────────────────────────────
+
+const manifestV2Schema = z.object({
+  format: z.literal('tarot-cards-backup'),
+  version: z.literal(2),
+  exportedAt: z.number(),
+  cards: z.array(
+    zipCardV1Schema.extend({
+      prompt: optionalText,
+      promptVersion: z.number().int().positive().optional(),
+      deckPromptSuffix: optionalText,
+      deckId: optionalText,
+      deckName: optionalText,
+      deckDescription: optionalText,
+      author: optionalText,
+      bundleCID: optionalText,
+    })
+  ),
+});
+
+// ─── Version 3 ───────────────────────────────────────────────────────────────
+
+const packageDeckSchema = z.object({
+  id: z.string().min(1),           // package-local; cards refer to it
+  deckType: z.string().min(1),
+  deckId: optionalText,            // community deck id, shared across uploads
+  name: optionalText,
+  description: optionalText,
+  promptSuffix: optionalText,
+});
+
+const packageMediaSchema = z.object({
+  path: z.string().min(1),
+  mimeType: z.string().min(1),
+  size: z.number().int().min(0).optional(),
+  // Set on everything written as a package; manifests migrated from earlier
+  // versions never recorded one
+  hash: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+});
+
+const packageCardSchema = z.object({
+  cardNumber: z.number().int().min(0),
+  cardName: optionalText,
+  deck: z.string().min(1),
+  timestamp: timestampSchema,
+  source: z.enum(['local', 'community']),
+  shared: z.boolean(),
+  author: optionalText,
+  bundleCID: optionalText,
+  prompt: optionalText,
+  promptVersion: z.number().int().positive().optional(),
+  lore: z
+    .object({
+      keywords: z.array(z.string()),
+      meaning: optionalText,
+      reversed: optionalText,
+    })
+    .optional(),
+  generation: z
+    .object({
+      provider: z.string(),
+      model: z.string(),
+      imageSize: optionalText,
+      animation: z.enum(['gif', 'webp']).optional(),
+    })
+    .optional(),
+  videoGeneration: z
+    .object({
+      model: z.string(),
+      durationSeconds: z.number().positive(),
+      aspectRatio: z.enum(['9:16', '16:9']),
+      negativePrompt: optionalText,
+      personGeneration: z.enum(['allow_all', 'allow_adult', 'dont_allow']).optional(),
+      generateAudio: z.boolean(),
+      motionPreset: z.string(),
+      customMotion: optionalText,
+    })
+    .optional(),
+  frames: z.array(z.string().min(1)),
+  gif: optionalText,
+  video: optionalText,
+  poster: optionalText,
+});
+
+export const deckPackageSchema = z
+  .object({
+    format: z.literal(DECK_PACKAGE_FORMAT),
+    schemaVersion: z.literal(DECK_PACKAGE_VERSION),
+    createdAt: z.number(),
+    author: optionalText,
+    decks: z.array(packageDeckSchema),
+    media: z.array(packageMediaSchema),
+    cards: z.array(packageCardSchema),
+  })
+  .superRefine((pkg, ctx) => {
+    const decks = new Set(pkg.decks.map((deck) => deck.id));
+    const media = new Set(pkg.media.map((file) => file.path));
+    pkg.cards.forEach((card, index) => {
+      if (!decks.has(card.deck)) {
+        ctx.addIssue({ code: 'custom', path: ['cards', index, 'deck'], message: `No deck with id "${card.deck}"` });
+      }
+      cardMediaPaths(card)
+        .filter((path) => !media.has(path))
+        .forEach((path) => {
+          ctx.addIssue({ code: 'custom', path: ['cards', index], message: `${path} is not listed in media` });
+        });
+    });
+  });
+
+export type DeckPackage = z.infer<typeof deckPackageSchema>;
+export type PackageDeck = z.infer<typeof packageDeckSchema>;
+export type PackageMedia = z.infer<typeof packageMediaSchema>;
+export type PackageCard = z.infer<typeof packageCardSchema>;
+
+export function cardMediaPaths(card: Pick<PackageCard, 'frames' | 'gif' | 'video' | 'poster'>): string[] {
+  return [...card.frames, card.gif, card.video, card.poster].filter((path): path is string => Boolean(path));
+}
+
+/** Deck entries deduplicated by their metadata, with readable unique ids */
+function createDeckList() {
+  const list: PackageDeck[] = [];
+  const add = (deck: Omit<PackageDeck, 'id'>): string => {
+    const existing = list.find(
+      (other) =>
+        other.deckType === deck.deckType &&
+        other.deckId === deck.deckId &&
+        other.name === deck.name &&
+        other.description === deck.description &&
+        other.promptSuffix === deck.promptSuffix
+    );
+    if (existing) return existing.id;
+    const base = deck.deckId || deck.deckType;
+    let id = base;
+    for (let n = 2; list.some((other) => other.id === id); n++) id = `${base}#${n}`;
+    list.push({ id, ...deck });
+    return id;
+  };
+  return { list, add };
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────────────
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+export function mimeTypeFromPath(path: string): string {
+  return MIME_BY_EXTENSION[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+}
+
+function migrateV1(manifest: z.infer<typeof manifestV1Schema>): z.infer<typeof manifestV2Schema> {
+  if (Array.isArray(manifest)) {
+    return { format: 'tarot-cards-backup', version: 2, exportedAt: 0, cards: manifest };
+  }
+  return {
+    format: 'tarot-cards-backup',
+    version: 2,
+    exportedAt: manifest.timestamp,
+    cards: manifest.cards.map((card) => ({
+      cardNumber: card.cardNumber,
+      cardName: card.cardName,
+      deckType: card.deckType,
+      timestamp: card.metadata.generatedAt,
+      shared: true,
+      source: 'community',
+      frames: [card.imageData],
+      videoUrl: card.videoData,
+      author: manifest.author,
+    })),
+  };
+}
+
+function migrateV2(manifest: z.infer<typeof manifestV2Schema>): DeckPackage {
+  const decks = createDeckList();
+  const media = new Map<string, PackageMedia>();
+  const cards = manifest.cards.map((card): PackageCard => {
+    const packaged: PackageCard = {
+      cardNumber: card.cardNumber,
+      cardName: card.cardName,
+      deck: decks.add({
+        deckType: card.deckType,
+        deckId: card.deckId,
+        name: card.deckName,
+        description: card.deckDescription,
+        promptSuffix: card.deckPromptSuffix,
+      }),
+      timestamp: card.timestamp,
+      source: card.source ?? 'local',
+      shared: card.shared ?? false,
+      author: card.author,
+      bundleCID: card.bundleCID,
+      prompt: card.prompt,
+      promptVersion: card.promptVersion,
+      frames: card.frames,
+      gif: card.gifUrl,
+      video: card.videoUrl,
+    };
+    cardMediaPaths(packaged).forEach((path) => media.set(path, { path, mimeType: mimeTypeFromPath(path) }));
+    return packaged;
+  });
+  return {
+    format: DECK_PACKAGE_FORMAT,
+    schemaVersion: DECK_PACKAGE_VERSION,
+    createdAt: manifest.exportedAt,
+    decks: decks.list,
+    media: Array.from(media.values()),
+    cards,
+  };
+}
+
+interface Migration {
+  schema: z.ZodType;
+  migrate: (manifest: never) => unknown;
+}
+
+// Keyed by the version migrated from; each step parses its input first
+const MIGRATIONS: Record<number, Migration> = {
+  1: { schema: manifestV1Schema, migrate: migrateV1 },
+  2: { schema: manifestV2Schema, migrate: migrateV2 },
+};
+
+function detectVersion(manifest: unknown): number | undefined {
+  if (Array.isArray(manifest)) return 1;
+  if (!manifest || typeof manifest !== 'object') return undefined;
+  const fields = manifest as Record<string, unknown>;
+  if (fields.format === DECK_PACKAGE_FORMAT) return typeof fields.schemaVersion === 'number' ? fields.schemaVersion : undefined;
+  if (fields.format === 'tarot-cards-backup') return typeof fields.version === 'number' ? fields.version : undefined;
+  if (fields.version === '1.0') return 1;
+  return undefined;
+}
+
+function describeIssue(error: z.ZodError, version: number): string {
+  const issue = error.issues[0];
+  return `The deck manifest (version ${version}) is invalid at ${issue.path.join('.') || 'the top level'}: ${issue.message}`;
+}
+
+/**
+ * Validates a manifest of any known version and brings it up to the current
+ * one. Throws with a readable message on an unknown or invalid manifest.
+ */
+export function migrateDeckPackage(manifest: unknown): DeckPackage {
+  let version = detectVersion(manifest);
+  if (version === undefined) throw new Error('This is not a deck package or card backup manifest.');
+  if (version > DECK_PACKAGE_VERSION) {
+    throw new Error(`This deck package is version ${version}; this app reads up to version ${DECK_PACKAGE_VERSION}.`);
+  }
+
+  let current = manifest;
+  while (version < DECK_PACKAGE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`Deck packages of version ${version} are not supported.`);
+    const parsed = step.schema.safeParse(current);
+    if (!parsed.success) throw new Error(describeIssue(parsed.error, version));
+    current = step.migrate(parsed.data as never);
+    version++;
+  }
+
+  const parsed = deckPackageSchema.safeParse(current);
+  if (!parsed.success) throw new Error(describeIssue(parsed.error, DECK_PACKAGE_VERSION));
+  return parsed.data;
+}
+
+// ─── Building and reading ────────────────────────────────────────────────────
+
+/** A card's deck as the package lists it, from the deck fields on the record */
+export function getCardDeck(card: GeneratedCard): Omit<PackageDeck, 'id'> {
+  return {
+    deckType: card.deckType,
+    deckId: card.deckId,
+    name: card.deckName,
+    description: card.deckDescription,
+    promptSuffix: card.deckPromptSuffix,
+  };
+}
+
+/** The card's name and meaning in its deck, for readers of the package without this app's deck data */
+function describeCard(card: GeneratedCard): Pick<PackageCard, 'cardName' | 'lore'> {
+  const tarotCard = getCardByNumber(card.cardNumber);
+  if (!tarotCard) return {};
+  const interpretation = getInterpretationForDeck(tarotCard, card.deckType);
+  return {
+    cardName: interpretation.name || interpretation.pathway || tarotCard.traditional.name,
+    lore: { keywords: interpretation.keywords, meaning: interpretation.meaning, reversed: interpretation.reversed },
+  };
+}
+
+/**
+ * Builds a package from cards. `addMedia` stores one media URL wherever the
+ * package is headed and returns its listing; each distinct URL is added once,
+ * `name` being a collision-free file name without extension.
+ */
+export async function buildDeckPackage(
+  cards: GeneratedCard[],
+  addMedia: (url: string, name: string) => Promise<PackageMedia>,
+  options: { author?: string; getDeck?: (card: GeneratedCard) => Omit<PackageDeck, 'id'> } = {}
+): Promise<DeckPackage> {
+  const decks = createDeckList();
+  const media = new Map<string, PackageMedia>();
+  const getDeck = options.getDeck ?? getCardDeck;
+
+  const add = async (url: string, name: string): Promise<string> => {
+    const existing = media.get(url);
+    if (existing) return existing.path;
+    const file = await addMedia(url, name);
+    media.set(url, file);
+    return file.path;
+  };
+
+  const packaged: PackageCard[] = [];
+  for (const card of cards) {
+    const name = `${card.deckType}/card-${card.cardNumber}-${card.timestamp}`;
+    const frames: string[] = [];
+    for (let i = 0; i < card.frames.length; i++) frames.push(await add(card.frames[i], `${name}-frame-${i}`));
+    packaged.push({
+      cardNumber: card.cardNumber,
+      ...describeCard(card),
+      deck: decks.add(getDeck(card)),
+      timestamp: card.timestamp,
+      source: card.source,
+      shared: card.shared,
+      author: card.author,
+      bundleCID: card.bundleCID,
+      prompt: card.prompt,
+      promptVersion: card.promptVersion,
+      generation: card.generation,
+      videoGeneration: card.videoGeneration,
+      frames,
+      gif: card.gifUrl ? await add(card.gifUrl, `${name}-gif`) : undefined,
+      video: card.videoUrl ? await add(card.videoUrl, `${name}-video`) : undefined,
+      poster: card.posterUrl ? await add(card.posterUrl, `${name}-poster`) : undefined,
+    });
+  }
+
+  return {
+    format: DECK_PACKAGE_FORMAT,
+    schemaVersion: DECK_PACKAGE_VERSION,
+    createdAt: Date.now(),
+    author: options.author,
+    decks: decks.list,
+    media: Array.from(media.values()),
+    cards: packaged,
+  };
+}
+
+/** Card records from a package; `resolveMedia` turns a media listing into a URL the app can show */
+export async function readDeckPackageCards(
+  pkg: DeckPackage,
+  resolveMedia: (media: PackageMedia) => Promise<string>
+): Promise<GeneratedCard[]> {
+  const decks = new Map(pkg.decks.map((deck) => [deck.id, deck]));
+  const media = new Map(pkg.media.map((file) => [file.path, file]));
+  const resolve = (path: string) => resolveMedia(media.get(path)!);
+
+  const cards: GeneratedCard[] = [];
+  for (const card of pkg.cards) {
+    const deck = decks.get(card.deck)!;
+    cards.push({
+      cardNumber: card.cardNumber,
+      deckType: deck.deckType,
+      frames: await Promise.all(card.frames.map(resolve)),
+      gifUrl: card.gif ? await resolve(card.gif) : undefined,
+      videoUrl: card.video ? await resolve(card.video) : undefined,
+      posterUrl: card.poster ? await resolve(card.poster) : undefined,
+      timestamp: card.timestamp,
+      shared: card.shared,
+      source: card.source,
+      bundleCID: card.bundleCID,
+      prompt: card.prompt,
+      promptVersion: card.promptVersion,
+      deckPromptSuffix: deck.promptSuffix,
+      deckId: deck.deckId,
+      deckName: deck.name,
+      deckDescription: deck.description,
+      author: card.author,
+      generation: card.generation,
+      videoGeneration: card.videoGeneration,
+    });
+  }
+  return cards;
+}
+
+/**
+ * One card as `/api/upload-supabase` takes it: the deck flattened onto the
+ * card and media inline, since the server fetches and stores it
+ */
+export function toUploadCard(card: GeneratedCard, deck: Omit<PackageDeck, 'id'>, author: string) {
+  return {
+    cardNumber: card.cardNumber,
+    deckType: card.deckType,
+    frames: card.frames,
+    gifUrl: card.gifUrl,
+    videoUrl: card.videoUrl,
+    timestamp: card.timestamp,
+    model: card.generation?.model,
+    author,
+    prompt: card.prompt || null,
+    deckPromptSuffix: deck.promptSuffix || null,
+    deckId: deck.deckId,
+    deckName: deck.name,
+    deckDescription: deck.description,
+  };
+}
@@ -1,5 +1,8 @@
 import JSZip from 'jszip';
 import type { GeneratedCard } from '../types';
+import { buildDeckPackage, mimeTypeFromPath } from './deckPackage';
+import { getMediaHash, sha256Hex } from './mediaStore';
+import { ENCRYPTED_BACKUP_EXTENSION, encryptBackup } from './backupEncryption';
 
 function getExtensionFromUrl(url: string): string {
   const match = url.split('.').pop();
@@ -12,19 +15,20 @@ function mimeToExtension(mime: string): string {
   if (mime.includes('png')) return '.png';
   if (mime.includes('jpeg') || mime.includes('jpg')) return '.jpg';
   if (mime.includes('gif')) return '.gif';
+  if (mime.includes('webp')) return '.webp';
   if (mime.includes('mp4')) return '.mp4';
   if (mime.includes('webm')) return '.webm';
   if (mime.includes('octet-stream')) return '.bin';
   return '';
 }
 
-async function fetchAsArrayBuffer(url: string): Promise<{ data: ArrayBuffer; ext: string }> {
+async function fetchAsArrayBuffer(url: string): Promise<{ data: ArrayBuffer; ext: string; mimeType: string }> {
   if (url.startsWith('data:')) {
     const [meta, data] = url.split(',');
     const mime = meta.split(';')[0].replace('data:', '') || 'application/octet-stream';
     const ext = mimeToExtension(mime);
     const buffer = Uint8Array.from(atob(data), (c) => c.charCodeAt(0)).buffer;
-    return { data: buffer, ext };
+    return { data: buffer, ext, mimeType: mime };
   }
 
   const resp = await fetch(url);
@@ -32,73 +36,64 @@ async function fetchAsArrayBuffer(url: string): Promise<{ data: ArrayBuffer; ext
   const blob = await resp.blob();
   const ext = mimeToExtension(blob.type) || getExtensionFromUrl(url);
   const buffer = await blob.arrayBuffer();
-  return { data: buffer, ext };
+  return { data: buffer, ext, mimeType: blob.type || mimeTypeFromPath(url.split('?')[0]) };
 }
 
 type ExportStatusWriter = (status: string) => void;
 
-export async function exportGeneratedCardsZip(
+/**
+ * Bundles cards into a deck package zip that `readBackupZip` restores: the
+ * manifest plus one file per distinct media URL, named by deck, card and
+ * generation so files from different generations never collide.
+ */
+export async function buildGeneratedCardsZip(
   generatedCards: GeneratedCard[],
   onStatus: ExportStatusWriter
-): Promise<void> {
+): Promise<JSZip> {
   const zip = new JSZip();
+  let files = 0;
 
-  const manifest = generatedCards.map((card) => ({
-    cardNumber: card.cardNumber,
-    deckType: card.deckType,
-    timestamp: card.timestamp,
-    shared: card.shared,
-    source: card.source,
-    frames: [] as string[],
-    gifUrl: undefined as string | undefined,
-    videoUrl: undefined as string | undefined,
-  }));
+  const manifest = await buildDeckPackage(generatedCards, async (url, name) => {
+    files++;
+    onStatus(`Exporting ${name}...`);
+    const { data, ext, mimeType } = await fetchAsArrayBuffer(url);
+    const path = `media/${name}${ext}`;
+    zip.file(path, data);
+    return {
+      path,
+      mimeType,
+      size: data.byteLength,
+      hash: getMediaHash(url) ?? (await sha256Hex(new Uint8Array(data))),
+    };
+  });
 
   zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  onStatus(`Bundling ${files} media files...`);
+  return zip;
+}
 
-  let processed = 0;
-  const totalAssets = generatedCards.reduce(
-    (sum, card) => sum + card.frames.length + (card.gifUrl ? 1 : 0) + (card.videoUrl ? 1 : 0),
-    0
-  );
-
-  for (let cardIndex = 0; cardIndex < generatedCards.length; cardIndex++) {
-    const card = generatedCards[cardIndex];
-
-    for (let i = 0; i < card.frames.length; i++) {
-      onStatus(`Exporting card ${card.cardNumber} frame ${i + 1}/${card.frames.length}...`);
-      const { data, ext } = await fetchAsArrayBuffer(card.frames[i]);
-      const path = `media/card-${card.cardNumber}-frame-${i}${ext}`;
-      zip.file(path, data);
-      manifest[cardIndex].frames.push(path);
-      processed++;
-    }
-
-    if (card.gifUrl) {
-      onStatus(`Exporting card ${card.cardNumber} gif...`);
-      const { data, ext } = await fetchAsArrayBuffer(card.gifUrl);
-      const path = `media/card-${card.cardNumber}-gif${ext}`;
-      zip.file(path, data);
-      manifest[cardIndex].gifUrl = path;
-      processed++;
-    }
-
-    if (card.videoUrl) {
-      onStatus(`Exporting card ${card.cardNumber} video...`);
-      const { data, ext } = await fetchAsArrayBuffer(card.videoUrl);
-      const path = `media/card-${card.cardNumber}-video${ext}`;
-      zip.file(path, data);
-      manifest[cardIndex].videoUrl = path;
-      processed++;
-    }
+/** Downloads the backup zip, sealed with `passphrase` when one is given (see utils/backupEncryption) */
+export async function exportGeneratedCardsZip(
+  generatedCards: GeneratedCard[],
+  onStatus: ExportStatusWriter,
+  passphrase?: string
+): Promise<void> {
+  const zip = await buildGeneratedCardsZip(generatedCards, onStatus);
+  let content: Blob;
+  let fileName = `tarot-cards-export-${Date.now()}`;
+  if (passphrase) {
+    onStatus('Encrypting backup...');
+    const sealed = await encryptBackup(await zip.generateAsync({ type: 'uint8array' }), passphrase);
+    content = new Blob([sealed], { type: 'application/octet-stream' });
+    fileName += ENCRYPTED_BACKUP_EXTENSION;
+  } else {
+    content = await zip.generateAsync({ type: 'blob' });
+    fileName += '.zip';
   }
-
-  onStatus(`Bundling ${processed}/${totalAssets} assets...`);
-  const content = await zip.generateAsync({ type: 'blob' });
   const url = URL.createObjectURL(content);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `tarot-cards-export-${Date.now()}.zip`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
 }
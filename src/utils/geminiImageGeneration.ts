@@ -1,8 +1,77 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { Settings } from '../types';
-import type { ImageGenerationResult } from './imageGeneration';
+import type { ImageGenerationResult, ImageProvider } from './imageProviders';
 import { debugLog } from './logger';
 import configData from '../data/tarot-config.json';
+import { applyRequestPrefix, fillTemplate } from './promptTemplates';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+function toInlineData(dataUrl: string) {
+  return {
+    inlineData: {
+      mimeType: dataUrl.match(/data:([^;]+);/)?.[1] || 'image/jpeg',
+      data: dataUrl.split(',')[1],
+    },
+  };
+}
+
+/**
+ * The `generateContent` payload for a prompt: the request prefix, then each
+ * reference image followed by its instruction (or the legacy photo and the
+ * photo instruction). Shared by generation and the dry-run preview.
+ */
+export function buildGeminiRequest(prompt: string, userPhoto: string, settings: Settings) {
+  const apiInstructions = configData.configuration?.apiInstructions?.gemini || {};
+  const promptWithSuffix = settings.promptSuffix ? `${prompt}${settings.promptSuffix}` : prompt;
+  const requestTemplate =
+    apiInstructions.requestPrefix ||
+    'Generate a tarot card image based on this description: {PROMPT}. Aspect ratio: 2:3 (vertical tarot card).';
+  const resolvedPrompt = applyRequestPrefix(requestTemplate, promptWithSuffix);
+  const photoInstruction =
+    apiInstructions.photoInstruction || "Use the provided reference photo to maintain the person's facial features and likeness.";
+  const multiInstructionTemplate = apiInstructions.multiImageInstructionTemplate || '{INSTRUCTION}';
+
+  const allowImages = settings.usePhoto !== false;
+  const hasReferenceImages = allowImages && Array.isArray(settings.referenceImages) && settings.referenceImages.length > 0;
+  const hasUserPhoto = allowImages && Boolean(userPhoto);
+
+  const parts: any[] = [{ text: resolvedPrompt }];
+
+  if (hasReferenceImages) {
+    // Multi-image reference system
+    settings.referenceImages?.forEach((refImg) => {
+      parts.push(toInlineData(refImg.dataUrl));
+      parts.push({ text: fillTemplate(multiInstructionTemplate, { INSTRUCTION: refImg.instruction || photoInstruction }) });
+    });
+  } else if (hasUserPhoto) {
+    // Fallback to legacy single photo
+    parts.push(toInlineData(userPhoto));
+    parts.push({ text: photoInstruction });
+  }
+
+  // responseModalities is not in the SDK's GenerationConfig type yet
+  const payload: any = {
+    contents: [{ role: 'user', parts }],
+    // Response modalities for image generation with Pro model features
+    generationConfig: { responseModalities: ['TEXT', 'IMAGE'] },
+  };
+
+  return { resolvedPrompt, parts, payload };
+}
+
+/**
+ * First inline image of a `generateContent` response as a data URL, or null
+ * when the model returned none. The REST body and the SDK response share this shape.
+ */
+export function extractGeminiImageUrl(response: { candidates?: { content?: { parts?: any[] } }[] }): string | null {
+  const responseParts = response.candidates?.[0]?.content?.parts || [];
+  const part = responseParts.find((p) => p.inlineData?.data);
+  if (!part) return null;
+  const partMimeType = part.inlineData.mimeType || 'image/png';
+  debugLog('[Gemini] Found image data, mime type:', partMimeType);
+  return `data:${partMimeType};base64,${part.inlineData.data}`;
+}
 
 /**
  * Generate image using Gemini API with img2img support
@@ -19,18 +88,7 @@ export async function generateImageWithGemini(
       throw new Error('Gemini API key is required. Please add it in settings.');
     }
 
-    const apiInstructions = configData.configuration?.apiInstructions?.gemini || {};
-    const promptWithSuffix = settings.promptSuffix ? `${prompt}${settings.promptSuffix}` : prompt;
-    const requestTemplate =
-      apiInstructions.requestPrefix ||
-      'Generate a tarot card image based on this description: {prompt}. Aspect ratio: 2:3 (vertical tarot card).';
-    const resolvedPrompt = requestTemplate.includes('{prompt}')
-      ? requestTemplate.replace('{prompt}', promptWithSuffix)
-      : `${requestTemplate}${promptWithSuffix}`;
-    const photoInstruction =
-      apiInstructions.photoInstruction || "Use the provided reference photo to maintain the person's facial features and likeness.";
-    const multiInstructionTemplate = apiInstructions.multiImageInstructionTemplate || '{instruction}';
-
+    const { resolvedPrompt, parts, payload: requestPayload } = buildGeminiRequest(prompt, userPhoto, settings);
     const allowImages = settings.usePhoto !== false;
 
     debugLog('[Gemini] Starting image generation');
@@ -43,73 +101,6 @@ export async function generateImageWithGemini(
 
     const genAI = new GoogleGenerativeAI(apiKey);
     const model = genAI.getGenerativeModel({ model: settings.generationModel });
-    const hasReferenceImages = allowImages && Array.isArray(settings.referenceImages) && settings.referenceImages.length > 0;
-    const hasUserPhoto = allowImages && Boolean(userPhoto);
-
-    // Build parts array for the request
-    const parts: any[] = [
-      {
-        text: resolvedPrompt,
-      },
-    ];
-
-    // Use new multi-image system if available
-    if (hasReferenceImages) {
-      debugLog('[Gemini] Using multi-image reference system');
-
-      settings.referenceImages?.forEach((refImg, index) => {
-        const base64Data = refImg.dataUrl.split(',')[1];
-        const mimeType = refImg.dataUrl.match(/data:([^;]+);/)?.[1] || 'image/jpeg';
-
-        debugLog(`[Gemini] Adding reference image ${index + 1}: ${refImg.type} - "${refImg.instruction}"`);
-
-        parts.push({
-          inlineData: {
-            mimeType,
-            data: base64Data,
-          },
-        });
-
-        parts.push({
-          text: multiInstructionTemplate.includes('{instruction}')
-            ? multiInstructionTemplate.replace('{instruction}', refImg.instruction || photoInstruction)
-            : refImg.instruction || photoInstruction,
-        });
-      });
-    } else if (hasUserPhoto) {
-      // Fallback to legacy single photo
-      debugLog('[Gemini] Using legacy single photo system');
-      const base64Data = userPhoto.split(',')[1];
-      const mimeType = userPhoto.match(/data:([^;]+);/)?.[1] || 'image/jpeg';
-
-      parts.push({
-        inlineData: {
-          mimeType,
-          data: base64Data,
-        },
-      });
-
-      parts.push({
-        text: photoInstruction,
-      });
-    } else if (!allowImages) {
-      debugLog('[Gemini] Personal images disabled via settings; generating from text prompt only');
-    }
-
-    // Prepare request with all parts
-    const requestPayload: any = {
-      contents: [
-        {
-          role: 'user',
-          parts,
-        },
-      ],
-    };
-
-    // Add response modalities for image generation with Pro model features
-    requestPayload.generationConfig = {
-      responseModalities: ['TEXT', 'IMAGE'],
-    };
 
     debugLog('[Gemini] Config:', JSON.stringify(requestPayload.generationConfig, null, 2));
     debugLog('[Gemini] Request:', {
@@ -127,20 +118,9 @@ export async function generateImageWithGemini(
 
     debugLog('[Gemini] Response received');
 
-    // Extract image from response
-    let foundImageData: string | null = null;
-    const responseParts = response.candidates?.[0]?.content?.parts || [];
-
-    for (const part of responseParts) {
-      if (part.inlineData?.data) {
-        foundImageData = part.inlineData.data;
-        const partMimeType = part.inlineData.mimeType || 'image/png';
-        debugLog('[Gemini] Found image data, mime type:', partMimeType);
-
-        // Return as data URL
-        const imageUrl = `data:${partMimeType};base64,${foundImageData}`;
-        return { imageUrl };
-      }
+    const imageUrl = extractGeminiImageUrl(response);
+    if (imageUrl) {
+      return { imageUrl };
     }
 
     // If no image found, log full response for debugging
@@ -166,6 +146,43 @@ export async function generateImageWithGemini(
     return {
       imageUrl: '',
       error: message,
+      status: typeof error?.status === 'number' ? error.status : undefined,
     };
   }
 }
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Gemini Direct (Supports img2img with your photo!)',
+  description: 'Gemini Direct allows using your photo as reference for tarot cards',
+  capabilities: {
+    img2img: true,
+    multiReference: true,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image - $0.039/image (Fast)' },
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image - Higher quality, 2K resolution', sizes: ['1K', '2K'] },
+  ],
+  modelHint: 'Gemini Direct models support multi-image blending. Pro model generates 2K resolution images.',
+  buildRequest: (prompt, userPhoto, settings) => ({
+    endpoint: `${GEMINI_API_BASE}/${settings.generationModel}:generateContent`,
+    body: buildGeminiRequest(prompt, userPhoto, settings).payload,
+  }),
+  fields: [
+    {
+      id: 'apiKey',
+      label: 'Gemini API Key',
+      type: 'password',
+      placeholder: 'AIza...',
+      secret: true,
+      settingsKey: 'geminiApiKey',
+      help: 'Get your API key from',
+      helpLink: { href: 'https://aistudio.google.com/app/apikey', label: 'Google AI Studio' },
+    },
+  ],
+  isConfigured: (settings) => Boolean(settings.geminiApiKey),
+  missingConfigMessage: 'Enter your Gemini API key above to enable generation.',
+  generate: generateImageWithGemini,
+};
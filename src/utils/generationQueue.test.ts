@@ -0,0 +1,158 @@
+/**
+ * Tests for generationQueue.ts (pure job state transitions)
+ *
+ * Scenarios covered:
+ *   creation     — one pending item per card, active status
+ *   selection    — oldest active job, unfinished job lookup, next pending item
+ *   transitions  — item updates, drain completion, retry failed, reload recovery
+ *   progress     — running, paused, cancelled and completed status text
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GenerationJob } from '../types';
+import {
+  completeJobIfDrained,
+  createGenerationJob,
+  describeJobProgress,
+  findUnfinishedJob,
+  getActiveJob,
+  getNextPendingItem,
+  recoverInterruptedJob,
+  retryFailedItems,
+  setJobStatus,
+  summarizeJob,
+  updateJobItem,
+} from './generationQueue';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+
+function makeJob(overrides: Partial<GenerationJob> = {}): GenerationJob {
+  return { ...createGenerationJob('image', DECK, [0, 1, 2], 1_000), ...overrides };
+}
+
+// ─── Creation and selection ──────────────────────────────────────────────────
+
+describe('createGenerationJob', () => {
+  it('creates an active job with a pending item per card', () => {
+    const job = createGenerationJob('video', DECK, [3, 4], 5_000);
+
+    expect(job).toMatchObject({ kind: 'video', deckType: DECK, status: 'active', createdAt: 5_000, updatedAt: 5_000 });
+    expect(job.items).toEqual([
+      { cardNumber: 3, status: 'pending', attempts: 0 },
+      { cardNumber: 4, status: 'pending', attempts: 0 },
+    ]);
+    expect(job.id).not.toBe(createGenerationJob('video', DECK, [3, 4]).id);
+  });
+});
+
+describe('job selection', () => {
+  it('runs the oldest active job first and ignores paused ones', () => {
+    const older = makeJob({ id: 'older', createdAt: 1_000, status: 'paused' });
+    const middle = makeJob({ id: 'middle', createdAt: 2_000 });
+    const newer = makeJob({ id: 'newer', createdAt: 3_000 });
+
+    expect(getActiveJob([newer, older, middle])?.id).toBe('middle');
+    expect(getActiveJob([older])).toBeUndefined();
+  });
+
+  it('finds an unfinished job for the same kind and deck only', () => {
+    const paused = makeJob({ id: 'paused', status: 'paused' });
+    const done = makeJob({ id: 'done', status: 'completed' });
+
+    expect(findUnfinishedJob([done, paused], 'image', DECK)?.id).toBe('paused');
+    expect(findUnfinishedJob([paused], 'video', DECK)).toBeUndefined();
+    expect(findUnfinishedJob([paused], 'image', 'egyptian-tarot')).toBeUndefined();
+  });
+
+  it('returns the first pending item in card order', () => {
+    const job = updateJobItem(makeJob(), 0, { status: 'done' });
+    expect(getNextPendingItem(job)?.cardNumber).toBe(1);
+  });
+});
+
+// ─── Transitions ─────────────────────────────────────────────────────────────
+
+describe('job transitions', () => {
+  it('updates one item without mutating the original job', () => {
+    const job = makeJob();
+    const updated = updateJobItem(job, 1, { status: 'failed', error: 'boom', attempts: 1 }, 9_000);
+
+    expect(updated.items[1]).toEqual({ cardNumber: 1, status: 'failed', error: 'boom', attempts: 1 });
+    expect(updated.updatedAt).toBe(9_000);
+    expect(job.items[1].status).toBe('pending');
+  });
+
+  it('completes an active job only once every item is done or failed', () => {
+    let job = makeJob();
+    job = updateJobItem(job, 0, { status: 'done' });
+    job = updateJobItem(job, 1, { status: 'failed' });
+    expect(completeJobIfDrained(job).status).toBe('active');
+
+    job = updateJobItem(job, 2, { status: 'done' });
+    expect(completeJobIfDrained(job).status).toBe('completed');
+    expect(completeJobIfDrained(setJobStatus(job, 'cancelled')).status).toBe('cancelled');
+  });
+
+  it('puts failed items back in line and reactivates the job on retry', () => {
+    let job = updateJobItem(makeJob(), 0, { status: 'failed', error: 'Quota exceeded', attempts: 1 });
+    job = updateJobItem(job, 1, { status: 'done', attempts: 1 });
+    const retried = retryFailedItems(setJobStatus(job, 'completed'));
+
+    expect(retried.status).toBe('active');
+    expect(retried.items[0]).toMatchObject({ status: 'pending', error: undefined, attempts: 1 });
+    expect(retried.items[1].status).toBe('done');
+  });
+
+  it('returns running items to pending after a reload', () => {
+    const interrupted = updateJobItem(makeJob(), 0, { status: 'running', attempts: 1 });
+    const recovered = recoverInterruptedJob(interrupted);
+
+    expect(recovered.items[0]).toMatchObject({ status: 'pending', attempts: 1 });
+    const untouched = makeJob();
+    expect(recoverInterruptedJob(untouched)).toBe(untouched);
+  });
+});
+
+// ─── Progress ────────────────────────────────────────────────────────────────
+
+describe('describeJobProgress', () => {
+  it('labels the running card', () => {
+    let job = updateJobItem(makeJob(), 0, { status: 'done' });
+    job = updateJobItem(job, 1, { status: 'running' });
+
+    expect(describeJobProgress(job, 'The Magician')).toEqual({
+      current: 1,
+      total: 3,
+      status: 'Generating card 2/3: The Magician',
+    });
+  });
+
+  it('reports paused and cancelled jobs', () => {
+    const job = updateJobItem(makeJob(), 0, { status: 'done' });
+
+    expect(describeJobProgress(setJobStatus(job, 'paused')).status).toBe('Paused at 1/3 cards');
+    expect(describeJobProgress(setJobStatus(job, 'cancelled')).status).toBe('Cancelled after 1/3 cards');
+  });
+
+  it('summarizes generated, cached and failed items once completed', () => {
+    let job = makeJob({ kind: 'video' });
+    job = updateJobItem(job, 0, { status: 'done' });
+    job = updateJobItem(job, 1, { status: 'done', skipped: true });
+    job = updateJobItem(job, 2, { status: 'failed', error: 'no image yet' });
+    job = setJobStatus(job, 'completed');
+
+    expect(summarizeJob(job)).toEqual({ total: 3, pending: 0, running: 0, failed: 1, done: 2, skipped: 1 });
+    expect(describeJobProgress(job)).toEqual({ current: 3, total: 3, status: '1 generated, 1 cached, 1 failed' });
+  });
+
+  it('reports a clean run', () => {
+    let job = makeJob({ kind: 'video' });
+    [0, 1, 2].forEach((n) => {
+      job = updateJobItem(job, n, { status: 'done' });
+    });
+
+    expect(describeJobProgress(setJobStatus(job, 'completed')).status).toBe('All videos generated!');
+  });
+});
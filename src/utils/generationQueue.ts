@@ -0,0 +1,164 @@
+import type {
+  GenerationJob,
+  GenerationJobItem,
+  GenerationJobKind,
+  GenerationJobStatus,
+} from '../types';
+
+/**
+ * Pure state transitions for the persisted generation queue. The store applies
+ * them and writes the result to IndexedDB; `useGenerationQueue` runs the items.
+ * Every function returns a new job and never mutates its input.
+ */
+
+export type GenerationJobSummary = {
+  total: number;
+  pending: number;
+  running: number;
+  failed: number;
+  done: number;
+  skipped: number;
+};
+
+export type GenerationProgress = {
+  current: number;
+  total: number;
+  status: string;
+};
+
+const FINISHED_STATUSES: GenerationJobStatus[] = ['cancelled', 'completed'];
+
+/** `pauseReason` of a job held back until its provider has a key, e.g. right after a reload */
+export const WAITING_FOR_KEY_REASON = 'Waiting for an API key: add one or unlock the key vault to continue';
+
+export function createGenerationJob(
+  kind: GenerationJobKind,
+  deckType: string,
+  cardNumbers: number[],
+  now = Date.now()
+): GenerationJob {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    deckType,
+    status: 'active',
+    items: cardNumbers.map((cardNumber) => ({ cardNumber, status: 'pending', attempts: 0 })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function isJobFinished(job: GenerationJob): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+/**
+ * The job the runner should work on: the oldest active one. Jobs run one at a
+ * time so image and video runs never compete for the same rate limits.
+ */
+export function getActiveJob(jobs: GenerationJob[]): GenerationJob | undefined {
+  return jobs
+    .filter((job) => job.status === 'active')
+    .sort((a, b) => a.createdAt - b.createdAt)[0];
+}
+
+/**
+ * An unfinished (active or paused) job for the same kind and deck, so asking
+ * for the same bulk run twice does not queue duplicate requests.
+ */
+export function findUnfinishedJob(
+  jobs: GenerationJob[],
+  kind: GenerationJobKind,
+  deckType: string
+): GenerationJob | undefined {
+  return jobs.find((job) => job.kind === kind && job.deckType === deckType && !isJobFinished(job));
+}
+
+export function getNextPendingItem(job: GenerationJob): GenerationJobItem | undefined {
+  return job.items.find((item) => item.status === 'pending');
+}
+
+export function updateJobItem(
+  job: GenerationJob,
+  cardNumber: number,
+  patch: Partial<Omit<GenerationJobItem, 'cardNumber'>>,
+  now = Date.now()
+): GenerationJob {
+  return {
+    ...job,
+    items: job.items.map((item) => (item.cardNumber === cardNumber ? { ...item, ...patch } : item)),
+    updatedAt: now,
+  };
+}
+
+export function setJobStatus(job: GenerationJob, status: GenerationJobStatus, now = Date.now()): GenerationJob {
+  return { ...job, status, pauseReason: undefined, updatedAt: now };
+}
+
+/**
+ * Marks an active job completed once nothing is left to run.
+ */
+export function completeJobIfDrained(job: GenerationJob, now = Date.now()): GenerationJob {
+  const drained = job.items.every((item) => item.status === 'done' || item.status === 'failed');
+  return job.status === 'active' && drained ? setJobStatus(job, 'completed', now) : job;
+}
+
+/**
+ * Puts failed items back in line and reactivates the job.
+ */
+export function retryFailedItems(job: GenerationJob, now = Date.now()): GenerationJob {
+  const items = job.items.map((item) =>
+    item.status === 'failed' ? { ...item, status: 'pending' as const, error: undefined } : item
+  );
+  return { ...job, items, status: 'active', pauseReason: undefined, updatedAt: now };
+}
+
+/**
+ * After a reload nothing is actually running: items that were mid-request go
+ * back to pending so the runner picks them up again.
+ */
+export function recoverInterruptedJob(job: GenerationJob): GenerationJob {
+  if (!job.items.some((item) => item.status === 'running')) return job;
+  return {
+    ...job,
+    items: job.items.map((item) => (item.status === 'running' ? { ...item, status: 'pending' } : item)),
+  };
+}
+
+export function summarizeJob(job: GenerationJob): GenerationJobSummary {
+  const summary: GenerationJobSummary = { total: job.items.length, pending: 0, running: 0, failed: 0, done: 0, skipped: 0 };
+  job.items.forEach((item) => {
+    summary[item.status] += 1;
+    if (item.skipped) summary.skipped += 1;
+  });
+  return summary;
+}
+
+function describeOutcome(job: GenerationJob): string {
+  const { total, failed, done, skipped } = summarizeJob(job);
+  const noun = job.kind === 'image' ? 'cards' : 'videos';
+  if (failed === 0 && skipped === 0 && done === total) return `All ${noun} generated!`;
+  const parts: string[] = [];
+  if (done - skipped > 0) parts.push(`${done - skipped} generated`);
+  if (skipped > 0) parts.push(`${skipped} cached`);
+  if (failed > 0) parts.push(`${failed} failed`);
+  return parts.join(', ') || `No ${noun} generated`;
+}
+
+/**
+ * `generationProgress` for a job. `cardName` labels the item currently running.
+ */
+export function describeJobProgress(job: GenerationJob, cardName?: string): GenerationProgress {
+  const { total, failed, done, running } = summarizeJob(job);
+  const finished = failed + done;
+  const noun = job.kind === 'image' ? 'card' : 'video';
+
+  let status: string;
+  if (job.status === 'completed') status = describeOutcome(job);
+  else if (job.status === 'cancelled') status = `Cancelled after ${finished}/${total} ${noun}s`;
+  else if (job.status === 'paused') status = `Paused at ${finished}/${total} ${noun}s`;
+  else if (running > 0 && cardName) status = `Generating ${noun} ${finished + 1}/${total}: ${cardName}`;
+  else status = `Queued ${noun}s: ${finished}/${total} done`;
+
+  return { current: finished, total, status };
+}
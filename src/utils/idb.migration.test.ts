@@ -12,11 +12,24 @@
  *   v1 → v3  common upgrade: adds shared/source fields, skips keyPath rebuild
  *   v1 → v3  legacy upgrade: rebuilds store when old keyPath was 'id' not 'timestamp'
  *   v2 → v3  adds-nothing upgrade: keyPath already correct, records preserved
+ *   v3 → v4  adds the reading journal store without touching generated cards
+ *   v4 → v5  adds the generation job queue store, keeping cards and readings
+ *   v5 → v6  adds the cost records store, keeping queued jobs
+ *   v6 → v7  adds the prompt versions store, keeping cost records
+ *   v7 → v8  adds the media store; cards keep inline media until the store rewrites them
+ *   v8 → v9  adds the pending video operations store, keeping cards
  */
 
 import { IDBFactory } from 'fake-indexeddb';
 import { beforeEach, describe, it, expect, vi } from 'vitest';
-import type { GeneratedCard } from '../types';
+import type {
+  GeneratedCard,
+  GenerationCostRecord,
+  GenerationJob,
+  PendingVideoOperation,
+  PromptVersion,
+  Reading,
+} from '../types';
 
 // Must match the private constants inside idb.ts
 const DB_NAME = 'tarot-cards-idb';
@@ -238,6 +251,214 @@ describe('idb migration: v2 → v3 (timestamp keyPath already correct)', () => {
   });
 });
 
+describe('idb migration: v3 → v4 (reading journal store)', () => {
+  it('keeps existing cards and adds a usable reading journal store', async () => {
+    const db = await rawOpen(3, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      store.createIndex('by-source', 'source', { unique: false });
+      store.createIndex('by-shared', 'shared', { unique: false });
+    });
+    await rawPut(db, [makeCard({ cardNumber: 4, timestamp: 4_000 })]);
+    db.close();
+
+    const { getAllGeneratedCards, getAllReadings, putReading, deleteReadingFromStore } = await import('./idb');
+
+    const cards = await getAllGeneratedCards();
+    expect(cards).toHaveLength(1);
+    expect(cards[0].cardNumber).toBe(4);
+
+    expect(await getAllReadings()).toEqual([]);
+
+    const reading: Reading = {
+      id: 'reading-1',
+      spread: { id: 'single-card', name: 'Single Card', description: '', positions: [] },
+      deckType: 'traditional-rider-waite',
+      question: 'What now?',
+      notes: 'Keep going.',
+      cards: [{ positionId: 'focus', cardNumber: 13, orientation: 'reversed' }],
+      timestamp: 5_000,
+    };
+    await putReading(reading);
+    expect(await getAllReadings()).toEqual([reading]);
+
+    await deleteReadingFromStore('reading-1');
+    expect(await getAllReadings()).toEqual([]);
+  });
+});
+
+describe('idb migration: v4 → v5 (generation job queue store)', () => {
+  it('keeps existing cards and readings and adds a usable job store', async () => {
+    const reading = { id: 'reading-1', timestamp: 5_000 };
+    const db = await rawOpen(4, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      store.createIndex('by-source', 'source', { unique: false });
+      store.createIndex('by-shared', 'shared', { unique: false });
+      const readings = d.createObjectStore('readingJournal', { keyPath: 'id' });
+      readings.createIndex('by-timestamp', 'timestamp', { unique: false });
+      readings.put(reading);
+    });
+    await rawPut(db, [makeCard({ cardNumber: 6, timestamp: 6_000 })]);
+    db.close();
+
+    const { getAllGeneratedCards, getAllReadings, getAllGenerationJobs, putGenerationJob, deleteGenerationJobFromStore } =
+      await import('./idb');
+
+    expect((await getAllGeneratedCards()).map((c) => c.cardNumber)).toEqual([6]);
+    expect(await getAllReadings()).toEqual([reading]);
+    expect(await getAllGenerationJobs()).toEqual([]);
+
+    const job: GenerationJob = {
+      id: 'job-1',
+      kind: 'video',
+      deckType: 'traditional-rider-waite',
+      status: 'paused',
+      items: [{ cardNumber: 6, status: 'failed', attempts: 2, error: 'Quota exceeded' }],
+      createdAt: 7_000,
+      updatedAt: 8_000,
+    };
+    await putGenerationJob(job);
+    expect(await getAllGenerationJobs()).toEqual([job]);
+
+    await deleteGenerationJobFromStore('job-1');
+    expect(await getAllGenerationJobs()).toEqual([]);
+  });
+});
+
+describe('idb migration: v5 → v6 (cost records store)', () => {
+  it('keeps queued jobs and adds a usable cost records store', async () => {
+    const job = { id: 'job-1', createdAt: 7_000 };
+    const db = await rawOpen(5, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      d.createObjectStore('readingJournal', { keyPath: 'id' });
+      const jobs = d.createObjectStore('generationJobs', { keyPath: 'id' });
+      jobs.createIndex('by-created', 'createdAt', { unique: false });
+      jobs.put(job);
+    });
+    db.close();
+
+    const { getAllGenerationJobs, getAllCostRecords, putCostRecord } = await import('./idb');
+
+    expect(await getAllGenerationJobs()).toEqual([job]);
+    expect(await getAllCostRecords()).toEqual([]);
+
+    const record: GenerationCostRecord = {
+      id: 'cost-1',
+      kind: 'image',
+      provider: 'openrouter',
+      model: 'google/gemini-2.5-flash-image',
+      imageSize: '1K',
+      deckType: 'traditional-rider-waite',
+      cardNumber: 0,
+      cost: 0.003,
+      timestamp: 9_000,
+    };
+    await putCostRecord(record);
+    expect(await getAllCostRecords()).toEqual([record]);
+  });
+});
+
+describe('idb migration: v6 → v7 (prompt versions store)', () => {
+  it('keeps cost records and adds a usable prompt versions store', async () => {
+    const record = { id: 'cost-1', timestamp: 9_000 };
+    const db = await rawOpen(6, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      d.createObjectStore('readingJournal', { keyPath: 'id' });
+      d.createObjectStore('generationJobs', { keyPath: 'id' });
+      const costs = d.createObjectStore('costRecords', { keyPath: 'id' });
+      costs.put(record);
+    });
+    db.close();
+
+    const { getAllCostRecords, getAllPromptVersions, putPromptVersion } = await import('./idb');
+
+    expect(await getAllCostRecords()).toEqual([record]);
+    expect(await getAllPromptVersions()).toEqual([]);
+
+    const version: PromptVersion = {
+      id: 'version-1',
+      cardNumber: 0,
+      deckType: 'traditional-rider-waite',
+      version: 1,
+      prompt: 'The Fool stands at the precipice',
+      createdAt: 10_000,
+    };
+    await putPromptVersion(version);
+    expect(await getAllPromptVersions()).toEqual([version]);
+  });
+});
+
+describe('idb migration: v7 → v8 (media store)', () => {
+  it('leaves card records as they were and adds a usable media store', async () => {
+    const card = makeCard();
+    const db = await rawOpen(7, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      d.createObjectStore('readingJournal', { keyPath: 'id' });
+      d.createObjectStore('generationJobs', { keyPath: 'id' });
+      d.createObjectStore('costRecords', { keyPath: 'id' });
+      d.createObjectStore('promptVersions', { keyPath: 'id' });
+    });
+    await rawPut(db, [card]);
+    db.close();
+
+    const { getAllGeneratedCards, getMediaBlob, hasMediaBlob, putMediaBlob } = await import('./idb');
+
+    expect(await getAllGeneratedCards()).toEqual([card]);
+    expect(await hasMediaBlob('abc')).toBe(false);
+
+    await putMediaBlob({ hash: 'abc', blob: new Blob(['abc']), mimeType: 'image/png', size: 3, createdAt: 10_000 });
+    expect(await hasMediaBlob('abc')).toBe(true);
+    expect(await getMediaBlob('abc')).toMatchObject({ hash: 'abc', mimeType: 'image/png', size: 3 });
+  });
+});
+
+describe('idb migration: v8 → v9 (video operations store)', () => {
+  it('keeps card records and adds a usable video operations store', async () => {
+    const card = makeCard();
+    const db = await rawOpen(8, (d) => {
+      const store = d.createObjectStore(STORE_NAME, { keyPath: 'timestamp' });
+      store.createIndex('by-card-deck', ['cardNumber', 'deckType'], { unique: false });
+      d.createObjectStore('readingJournal', { keyPath: 'id' });
+      d.createObjectStore('generationJobs', { keyPath: 'id' });
+      d.createObjectStore('costRecords', { keyPath: 'id' });
+      d.createObjectStore('promptVersions', { keyPath: 'id' });
+      d.createObjectStore('media', { keyPath: 'hash' });
+    });
+    await rawPut(db, [card]);
+    db.close();
+
+    const { deleteVideoOperationFromStore, getAllGeneratedCards, getAllVideoOperations, putVideoOperation } = await import('./idb');
+
+    expect(await getAllGeneratedCards()).toEqual([card]);
+    expect(await getAllVideoOperations()).toEqual([]);
+
+    const operation: PendingVideoOperation = {
+      name: 'models/veo-3.1-generate-preview/operations/op-1',
+      cardNumber: 3,
+      deckType: 'egyptian-tarot',
+      cardTimestamp: 1_000,
+      provider: 'gemini',
+      videoGeneration: {
+        model: 'veo-3.1-generate-preview',
+        durationSeconds: 8,
+        aspectRatio: '9:16',
+        generateAudio: true,
+        motionPreset: 'temple',
+      },
+      startedAt: 20_000,
+    };
+    await putVideoOperation(operation);
+    expect(await getAllVideoOperations()).toEqual([operation]);
+
+    await deleteVideoOperationFromStore(operation.name);
+    expect(await getAllVideoOperations()).toEqual([]);
+  });
+});
+
 describe('idb read/write invariants after migration', () => {
   it('deleteGeneratedCardFromStore removes only the target card', async () => {
     const { getAllGeneratedCards, putGeneratedCard, deleteGeneratedCardFromStore } = await import('./idb');
@@ -1,10 +1,24 @@
-// Lightweight IndexedDB helpers for storing generated cards
-import type { GeneratedCard } from '../types';
+// Lightweight IndexedDB helpers for storing generated cards and their media, the reading journal, generation jobs, cost records, prompt versions and pending video operations
+import type {
+  GeneratedCard,
+  GenerationCostRecord,
+  GenerationJob,
+  MediaBlob,
+  PendingVideoOperation,
+  PromptVersion,
+  Reading,
+} from '../types';
 import { debugLog } from './logger';
 
 const DB_NAME = 'tarot-cards-idb';
 const STORE_NAME = 'generatedCards';
-const DB_VERSION = 3; // Increment to handle keyPath change
+const READINGS_STORE_NAME = 'readingJournal';
+const GENERATION_JOBS_STORE_NAME = 'generationJobs';
+const COST_RECORDS_STORE_NAME = 'costRecords';
+const PROMPT_VERSIONS_STORE_NAME = 'promptVersions';
+const MEDIA_STORE_NAME = 'media';
+const VIDEO_OPERATIONS_STORE_NAME = 'videoOperations';
+const DB_VERSION = 9; // Increment to add the pending video operations store
 
 // Error notification system
 let errorCallback: ((message: string, error: unknown) => void) | null = null;
@@ -20,6 +34,13 @@ function notifyDatabaseError(message: string, error: unknown) {
   }
 }
 
+// Writes fail with QuotaExceededError once the browser's storage allowance is used up
+function describeWriteError(message: string, error: unknown): string {
+  return error instanceof DOMException && error.name === 'QuotaExceededError'
+    ? `${message}: browser storage is full. Free space under Settings → Storage.`
+    : message;
+}
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     if (!('indexedDB' in window)) {
@@ -163,6 +184,65 @@ function openDB(): Promise<IDBDatabase> {
           }
         }
 
+        // Version 4: Reading journal store, keyed by reading id
+        if (oldVersion < 4) {
+          debugLog('[IDB Migration] Creating v4 reading journal store...');
+          if (!db.objectStoreNames.contains(READINGS_STORE_NAME)) {
+            const readingsStore = db.createObjectStore(READINGS_STORE_NAME, { keyPath: 'id' });
+            readingsStore.createIndex('by-timestamp', 'timestamp', { unique: false });
+            debugLog('[IDB Migration] v4 reading journal store created');
+          }
+        }
+
+        // Version 5: Persisted generation job queue, keyed by job id
+        if (oldVersion < 5) {
+          debugLog('[IDB Migration] Creating v5 generation jobs store...');
+          if (!db.objectStoreNames.contains(GENERATION_JOBS_STORE_NAME)) {
+            const jobsStore = db.createObjectStore(GENERATION_JOBS_STORE_NAME, { keyPath: 'id' });
+            jobsStore.createIndex('by-created', 'createdAt', { unique: false });
+            debugLog('[IDB Migration] v5 generation jobs store created');
+          }
+        }
+
+        // Version 6: Per-request cost records, keyed by record id
+        if (oldVersion < 6) {
+          debugLog('[IDB Migration] Creating v6 cost records store...');
+          if (!db.objectStoreNames.contains(COST_RECORDS_STORE_NAME)) {
+            const costStore = db.createObjectStore(COST_RECORDS_STORE_NAME, { keyPath: 'id' });
+            costStore.createIndex('by-timestamp', 'timestamp', { unique: false });
+            debugLog('[IDB Migration] v6 cost records store created');
+          }
+        }
+
+        // Version 7: Prompt version history per card and deck, keyed by version id
+        if (oldVersion < 7) {
+          debugLog('[IDB Migration] Creating v7 prompt versions store...');
+          if (!db.objectStoreNames.contains(PROMPT_VERSIONS_STORE_NAME)) {
+            const versionsStore = db.createObjectStore(PROMPT_VERSIONS_STORE_NAME, { keyPath: 'id' });
+            versionsStore.createIndex('by-card', ['deckType', 'cardNumber'], { unique: false });
+            debugLog('[IDB Migration] v7 prompt versions store created');
+          }
+        }
+
+        // Version 8: Generated media as Blobs keyed by content hash. Card records
+        // keep their inline data URLs until the store rewrites them (see utils/mediaStore).
+        if (oldVersion < 8) {
+          debugLog('[IDB Migration] Creating v8 media store...');
+          if (!db.objectStoreNames.contains(MEDIA_STORE_NAME)) {
+            db.createObjectStore(MEDIA_STORE_NAME, { keyPath: 'hash' });
+            debugLog('[IDB Migration] v8 media store created');
+          }
+        }
+
+        // Version 9: Veo operations still rendering, keyed by operation name
+        if (oldVersion < 9) {
+          debugLog('[IDB Migration] Creating v9 video operations store...');
+          if (!db.objectStoreNames.contains(VIDEO_OPERATIONS_STORE_NAME)) {
+            db.createObjectStore(VIDEO_OPERATIONS_STORE_NAME, { keyPath: 'name' });
+            debugLog('[IDB Migration] v9 video operations store created');
+          }
+        }
+
         debugLog(`[IDB Migration] Migration to version ${DB_VERSION} completed successfully`);
       } catch (migrationError) {
         console.error('[IDB Migration] CRITICAL ERROR during migration:', migrationError);
@@ -190,12 +270,13 @@ function openDB(): Promise<IDBDatabase> {
 
 function withStore<T>(
   mode: IDBTransactionMode,
-  fn: (store: IDBObjectStore) => IDBRequest
+  fn: (store: IDBObjectStore) => IDBRequest,
+  storeName: string = STORE_NAME
 ): Promise<T> {
   return openDB().then((db) => {
     return new Promise<T>((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, mode);
-      const store = tx.objectStore(STORE_NAME);
+      const tx = db.transaction(storeName, mode);
+      const store = tx.objectStore(storeName);
       const request = fn(store);
 
       request.onsuccess = () => resolve(request.result as T);
@@ -224,7 +305,7 @@ export async function putGeneratedCard(card: GeneratedCard): Promise<void> {
     debugLog(`[IDB] Successfully saved card ${card.cardNumber} (${card.deckType})`);
   } catch (error) {
     console.error('[IDB] putGeneratedCard failed', error);
-    notifyDatabaseError('Failed to save generated card to storage', error);
+    notifyDatabaseError(describeWriteError('Failed to save generated card to storage', error), error);
     throw error; // Re-throw so caller knows it failed
   }
 }
@@ -343,3 +424,214 @@ export async function markCardsAsShared(timestamps: number[]): Promise<void> {
     throw error;
   }
 }
+
+export async function getAllReadings(): Promise<Reading[]> {
+  try {
+    const result = await withStore<Reading[]>('readonly', (store) => store.getAll(), READINGS_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} journal readings`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllReadings failed:', error);
+    notifyDatabaseError('Failed to load the reading journal from storage', error);
+    return [];
+  }
+}
+
+export async function putReading(reading: Reading): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(reading), READINGS_STORE_NAME);
+    debugLog(`[IDB] Successfully saved reading ${reading.id}`);
+  } catch (error) {
+    console.error('[IDB] putReading failed', error);
+    notifyDatabaseError('Failed to save reading to the journal', error);
+    throw error;
+  }
+}
+
+export async function deleteReadingFromStore(id: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(id), READINGS_STORE_NAME);
+    debugLog(`[IDB] Successfully deleted reading ${id}`);
+  } catch (error) {
+    console.error('[IDB] deleteReadingFromStore failed', error);
+    notifyDatabaseError('Failed to delete reading from the journal', error);
+    throw error;
+  }
+}
+
+export async function getAllGenerationJobs(): Promise<GenerationJob[]> {
+  try {
+    const result = await withStore<GenerationJob[]>('readonly', (store) => store.getAll(), GENERATION_JOBS_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} generation jobs`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllGenerationJobs failed:', error);
+    notifyDatabaseError('Failed to load the generation queue from storage', error);
+    return [];
+  }
+}
+
+export async function putGenerationJob(job: GenerationJob): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(job), GENERATION_JOBS_STORE_NAME);
+    debugLog(`[IDB] Successfully saved generation job ${job.id} (${job.status})`);
+  } catch (error) {
+    console.error('[IDB] putGenerationJob failed', error);
+    notifyDatabaseError('Failed to save the generation queue', error);
+    throw error;
+  }
+}
+
+export async function deleteGenerationJobFromStore(id: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(id), GENERATION_JOBS_STORE_NAME);
+    debugLog(`[IDB] Successfully deleted generation job ${id}`);
+  } catch (error) {
+    console.error('[IDB] deleteGenerationJobFromStore failed', error);
+    notifyDatabaseError('Failed to delete a generation job', error);
+    throw error;
+  }
+}
+
+export async function getAllVideoOperations(): Promise<PendingVideoOperation[]> {
+  try {
+    const result = await withStore<PendingVideoOperation[]>('readonly', (store) => store.getAll(), VIDEO_OPERATIONS_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} pending video operations`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllVideoOperations failed:', error);
+    notifyDatabaseError('Failed to load pending videos from storage', error);
+    return [];
+  }
+}
+
+export async function putVideoOperation(operation: PendingVideoOperation): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(operation), VIDEO_OPERATIONS_STORE_NAME);
+    debugLog(`[IDB] Successfully saved pending video operation ${operation.name}`);
+  } catch (error) {
+    console.error('[IDB] putVideoOperation failed', error);
+    notifyDatabaseError('Failed to save a pending video', error);
+    throw error;
+  }
+}
+
+export async function deleteVideoOperationFromStore(name: string): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.delete(name), VIDEO_OPERATIONS_STORE_NAME);
+    debugLog(`[IDB] Successfully deleted pending video operation ${name}`);
+  } catch (error) {
+    console.error('[IDB] deleteVideoOperationFromStore failed', error);
+    notifyDatabaseError('Failed to delete a pending video', error);
+    throw error;
+  }
+}
+
+export async function getAllCostRecords(): Promise<GenerationCostRecord[]> {
+  try {
+    const result = await withStore<GenerationCostRecord[]>('readonly', (store) => store.getAll(), COST_RECORDS_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} cost records`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllCostRecords failed:', error);
+    notifyDatabaseError('Failed to load generation costs from storage', error);
+    return [];
+  }
+}
+
+export async function putCostRecord(record: GenerationCostRecord): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(record), COST_RECORDS_STORE_NAME);
+    debugLog(`[IDB] Successfully saved cost record ${record.id} (${record.model})`);
+  } catch (error) {
+    console.error('[IDB] putCostRecord failed', error);
+    notifyDatabaseError('Failed to save a generation cost record', error);
+    throw error;
+  }
+}
+
+export async function getAllPromptVersions(): Promise<PromptVersion[]> {
+  try {
+    const result = await withStore<PromptVersion[]>('readonly', (store) => store.getAll(), PROMPT_VERSIONS_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} prompt versions`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllPromptVersions failed:', error);
+    notifyDatabaseError('Failed to load prompt history from storage', error);
+    return [];
+  }
+}
+
+export async function putPromptVersion(version: PromptVersion): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(version), PROMPT_VERSIONS_STORE_NAME);
+    debugLog(`[IDB] Successfully saved prompt version ${version.version} of card ${version.cardNumber} (${version.deckType})`);
+  } catch (error) {
+    console.error('[IDB] putPromptVersion failed', error);
+    notifyDatabaseError('Failed to save a prompt version', error);
+    throw error;
+  }
+}
+
+export async function getMediaBlob(hash: string): Promise<MediaBlob | undefined> {
+  try {
+    return await withStore<MediaBlob | undefined>('readonly', (store) => store.get(hash), MEDIA_STORE_NAME);
+  } catch (error) {
+    console.error('[IDB] getMediaBlob failed:', error);
+    notifyDatabaseError('Failed to load generated media from storage', error);
+    return undefined;
+  }
+}
+
+export async function putMediaBlob(media: MediaBlob): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => store.put(media), MEDIA_STORE_NAME);
+    debugLog(`[IDB] Successfully saved media ${media.hash} (${media.mimeType}, ${media.size} bytes)`);
+  } catch (error) {
+    console.error('[IDB] putMediaBlob failed', error);
+    notifyDatabaseError(describeWriteError('Failed to save generated media to storage', error), error);
+    throw error;
+  }
+}
+
+export async function hasMediaBlob(hash: string): Promise<boolean> {
+  try {
+    const count = await withStore<number>('readonly', (store) => store.count(hash), MEDIA_STORE_NAME);
+    return count > 0;
+  } catch (error) {
+    console.error('[IDB] hasMediaBlob failed:', error);
+    return false;
+  }
+}
+
+export async function getAllMediaBlobs(): Promise<MediaBlob[]> {
+  try {
+    const result = await withStore<MediaBlob[]>('readonly', (store) => store.getAll(), MEDIA_STORE_NAME);
+    debugLog(`[IDB] Successfully retrieved ${result?.length || 0} media blobs`);
+    return result || [];
+  } catch (error) {
+    console.error('[IDB] getAllMediaBlobs failed:', error);
+    notifyDatabaseError('Failed to load generated media from storage', error);
+    return [];
+  }
+}
+
+export async function deleteMediaBlobs(hashes: string[]): Promise<void> {
+  if (hashes.length === 0) return;
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(MEDIA_STORE_NAME);
+      hashes.forEach((hash) => store.delete(hash));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error ?? new Error('Failed to delete media'));
+      tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    });
+    debugLog(`[IDB] Successfully deleted ${hashes.length} media blobs`);
+  } catch (error) {
+    console.error('[IDB] deleteMediaBlobs failed', error);
+    notifyDatabaseError('Failed to delete generated media from storage', error);
+    throw error;
+  }
+}
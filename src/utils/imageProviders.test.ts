@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getImageProvider,
+  getModelCapabilities,
+  getModelSizes,
+  getProviderFieldPatch,
+  getProviderFieldValue,
+  listImageProviders,
+  redactImageData,
+  registerImageProvider,
+  resolveImageProvider,
+  type ImageProvider,
+} from './imageProviders';
+import { composeCardRequest, generateImage } from './imageGeneration';
+import { getDailyUsage, getRateLimitBudget, resetRateLimitScheduler, VEO_RATE_LIMIT_ID } from './rateLimitScheduler';
+import { getCardByNumber } from './tarotCards';
+import type { Settings } from '../types';
+
+const baseSettings = {
+  apiProvider: 'gemini',
+  generationModel: 'gemini-2.5-flash-image',
+  promptSuffix: '',
+} as Settings;
+
+function makeProvider(overrides: Partial<ImageProvider> = {}): ImageProvider {
+  return {
+    id: 'test-backend',
+    name: 'Test Backend',
+    description: 'Test provider',
+    capabilities: { img2img: false, multiReference: false, sizes: ['1K'], aspectRatios: ['2:3'] },
+    models: [{ id: 'test-model', label: 'Test Model' }],
+    fields: [
+      { id: 'endpoint', label: 'Endpoint', type: 'url' },
+      { id: 'token', label: 'Token', type: 'password', secret: true },
+    ],
+    isConfigured: () => true,
+    missingConfigMessage: '',
+    generate: vi.fn().mockResolvedValue({ imageUrl: 'data:image/png;base64,test' }),
+    ...overrides,
+  };
+}
+
+describe('image provider registry', () => {
+  it('registers the built-in Gemini and OpenRouter providers', () => {
+    const ids = listImageProviders().map((p) => p.id);
+    expect(ids.slice(0, 2)).toEqual(['gemini', 'openrouter']);
+    expect(getImageProvider('gemini')?.capabilities.img2img).toBe(true);
+    expect(getImageProvider('openrouter')?.capabilities.img2img).toBe(false);
+  });
+
+  it('routes generateImage to a newly registered provider', async () => {
+    const provider = makeProvider();
+    registerImageProvider(provider);
+
+    const settings = { ...baseSettings, apiProvider: 'test-backend' };
+    const context = { card: getCardByNumber(0)!, deckType: 'traditional-rider-waite' };
+    const result = await generateImage('a prompt', 'photo', settings, context);
+
+    expect(result.imageUrl).toBe('data:image/png;base64,test');
+    expect(provider.generate).toHaveBeenCalledWith('a prompt', 'photo', settings, context);
+  });
+
+  it('falls back to the default provider for an unknown id', () => {
+    expect(resolveImageProvider({ ...baseSettings, apiProvider: 'gone' }).id).toBe('gemini');
+  });
+
+  it('lets a model narrow the provider sizes', () => {
+    const gemini = getImageProvider('gemini')!;
+    expect(getModelSizes(gemini, 'gemini-2.5-flash-image')).toEqual([]);
+    expect(getModelSizes(gemini, 'gemini-3-pro-image-preview')).toEqual(['1K', '2K']);
+  });
+
+  it('gives server-managed models the capabilities of the provider behind the proxy', () => {
+    const server = getImageProvider('server')!;
+    expect(getModelCapabilities(server, 'gemini-2.5-flash-image')).toMatchObject({ img2img: true, multiReference: true });
+    // OpenRouter requests are text only, so frames are drawn as variations and no photo UI is shown
+    expect(getModelCapabilities(server, 'google/gemini-2.5-flash-image')).toMatchObject({ img2img: false, multiReference: false });
+    expect(getModelCapabilities(getImageProvider('gemini')!, 'gemini-2.5-flash-image').img2img).toBe(true);
+  });
+
+  it('paces server-managed requests under the budget of the provider behind the proxy', () => {
+    const server = getImageProvider('server')!;
+    expect(server.rateLimitId?.({ ...baseSettings, generationModel: 'gemini-3-pro-image-preview' })).toBe('gemini');
+    expect(server.rateLimitId?.({ ...baseSettings, generationModel: 'openai/gpt-5-image-mini' })).toBe('openrouter');
+    expect(getRateLimitBudget('openrouter').rpm).toBeGreaterThan(0);
+  });
+
+  it("schedules generateImage under the provider's rate-limit budget", async () => {
+    resetRateLimitScheduler();
+    // The Veo budget counts daily use, which makes the budget a request went through visible
+    registerImageProvider(makeProvider({ id: 'paced-backend', rateLimitId: () => VEO_RATE_LIMIT_ID }));
+
+    await generateImage('a prompt', '', { ...baseSettings, apiProvider: 'paced-backend' });
+
+    expect(getDailyUsage(VEO_RATE_LIMIT_ID).used).toBe(1);
+    resetRateLimitScheduler();
+  });
+});
+
+describe('provider fields', () => {
+  const provider = makeProvider();
+  const [endpoint, token] = provider.fields;
+
+  it('keeps plain options and secrets in separate per-provider bags', () => {
+    let settings = { ...baseSettings };
+    settings = { ...settings, ...getProviderFieldPatch(settings, provider.id, endpoint, 'http://localhost:7860') };
+    settings = { ...settings, ...getProviderFieldPatch(settings, provider.id, token, 's3cret') };
+
+    expect(settings.providerOptions).toEqual({ 'test-backend': { endpoint: 'http://localhost:7860' } });
+    expect(settings.providerSecrets).toEqual({ 'test-backend': { token: 's3cret' } });
+    expect(getProviderFieldValue(settings, provider.id, endpoint)).toBe('http://localhost:7860');
+    expect(getProviderFieldValue(settings, provider.id, token)).toBe('s3cret');
+  });
+
+  it('maps built-in fields onto the legacy top-level keys', () => {
+    const field = getImageProvider('gemini')!.fields[0];
+    expect(getProviderFieldPatch(baseSettings, 'gemini', field, 'AIza-test')).toEqual({ geminiApiKey: 'AIza-test' });
+    expect(getProviderFieldValue({ ...baseSettings, geminiApiKey: 'AIza-test' }, 'gemini', field)).toBe('AIza-test');
+  });
+});
+
+describe('compose-only requests', () => {
+  const fool = getCardByNumber(0)!;
+  const face = `data:image/png;base64,${'A'.repeat(600)}`;
+
+  it('returns the Gemini body with the request prefix and reference instructions, images redacted', () => {
+    const settings = {
+      ...baseSettings,
+      promptSuffix: ', gold leaf',
+      referenceImages: [{ id: 'r1', dataUrl: face, instruction: 'Keep this face.', type: 'face' }],
+    } as Settings;
+
+    const composed = composeCardRequest(fool, 'traditional-rider-waite', settings);
+    const parts = (composed.request!.body as any).contents[0].parts;
+
+    expect(composed.providerId).toBe('gemini');
+    expect(composed.request!.endpoint).toContain('/gemini-2.5-flash-image:generateContent');
+    expect(parts[0].text).toBe(
+      `Generate a tarot card image based on this description: ${composed.prompt}, gold leaf. Aspect ratio: 2:3 (vertical tarot card).`
+    );
+    expect(parts[1].inlineData).toEqual({ mimeType: 'image/png', data: '<base64 image, 600 chars>' });
+    expect(parts[2].text).toBe('Keep this face.');
+    expect(composed.parts.tradition).toMatch(/^Traditional Rider-Waite symbolism:/);
+  });
+
+  it('reports providers that cannot build a request, and never generates', () => {
+    const generate = vi.fn();
+    registerImageProvider(makeProvider({ id: 'no-preview', generate }));
+    registerImageProvider(
+      makeProvider({
+        id: 'misconfigured',
+        generate,
+        buildRequest: () => {
+          throw new Error('Set the endpoint first');
+        },
+      })
+    );
+
+    expect(composeCardRequest(fool, 'traditional-rider-waite', { ...baseSettings, apiProvider: 'no-preview' }).request).toBeUndefined();
+    expect(composeCardRequest(fool, 'traditional-rider-waite', { ...baseSettings, apiProvider: 'misconfigured' }).error).toBe(
+      'Set the endpoint first'
+    );
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('redacts data URLs and long base64 runs anywhere in a body', () => {
+    expect(redactImageData({ a: ['data:image/jpeg;base64,abc', 'short text'], b: { c: 'Q'.repeat(512), n: 3 } })).toEqual({
+      a: ['<image/jpeg image, 26 chars>', 'short text'],
+      b: { c: '<base64 image, 512 chars>', n: 3 },
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import type { Settings, TarotCard } from '../types';
+import { geminiImageProvider } from './geminiImageGeneration';
+import { openRouterImageProvider } from './openRouterImageGeneration';
+import { serverManagedImageProvider } from './serverManagedImageGeneration';
+import { automatic1111ImageProvider, comfyUIImageProvider } from './localDiffusionImageGeneration';
+import { mockImageProvider } from './mockGeneration';
+
+/**
+ * Image provider registry. `generateImage` and the generation settings UI only
+ * talk to providers through this interface, so a new backend is one module that
+ * builds an `ImageProvider` plus a `registerImageProvider` call.
+ */
+
+export interface ImageGenerationResult {
+  imageUrl: string;
+  error?: string;
+  status?: number;   // HTTP status of a failed request, when known (drives rate-limit retries)
+}
+
+/**
+ * The card being illustrated, passed by `generateCardFrames`. Most providers
+ * only need the prompt; the mock provider draws the card metadata itself.
+ */
+export interface ImageGenerationContext {
+  card: TarotCard;
+  deckType: string;
+}
+
+export type ImageSize = NonNullable<Settings['imageSize']>;
+
+export interface ImageProviderCapabilities {
+  img2img: boolean;          // conditions on the uploaded user photo for likeness
+  multiReference: boolean;   // accepts the typed `Settings.referenceImages` list
+  sizes: ImageSize[];        // selectable output sizes; models may narrow this
+  aspectRatios: string[];    // supported card aspect ratios, preferred first
+}
+
+export interface ImageProviderModel {
+  id: string;
+  label: string;
+  sizes?: ImageSize[];       // overrides the provider-level sizes for this model
+  capabilities?: ImageProviderCapabilities;   // overrides the provider's, e.g. behind a proxy
+}
+
+/**
+ * A per-provider setting rendered by the settings panel. Secret fields are kept
+ * in `Settings.providerSecrets` (never persisted); the rest in `providerOptions`.
+ * Built-in providers map their fields onto the legacy top-level keys instead.
+ */
+export interface ImageProviderField {
+  id: string;
+  label: string;
+  type: 'text' | 'password' | 'url' | 'number' | 'textarea' | 'select';
+  placeholder?: string;
+  options?: { value: string; label: string }[];   // for `select`; the first is the default
+  secret?: boolean;
+  settingsKey?: 'apiKey' | 'geminiApiKey' | 'apiEndpoint';
+  help?: string;
+  helpLink?: { href: string; label: string };
+}
+
+/**
+ * The request a provider would send for a prompt, built without sending it.
+ * Used by the compose-only dry run; image data is still inline here and is
+ * redacted before display.
+ */
+export interface ImageProviderRequest {
+  endpoint: string;
+  body: unknown;
+  note?: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ImageProviderCapabilities;
+  models: ImageProviderModel[];
+  modelHint?: string;
+  fields: ImageProviderField[];
+  isConfigured: (settings: Settings) => boolean;
+  missingConfigMessage: string;
+  /** Rate-limit budget the request is paced under, when not the provider's own id (see utils/rateLimitScheduler) */
+  rateLimitId?: (settings: Settings) => string;
+  generate: (
+    prompt: string,
+    userPhoto: string,
+    settings: Settings,
+    context?: ImageGenerationContext
+  ) => Promise<ImageGenerationResult>;
+  /** Builds the request `generate` would send; providers without one skip the dry-run body */
+  buildRequest?: (prompt: string, userPhoto: string, settings: Settings) => ImageProviderRequest;
+}
+
+export const DEFAULT_IMAGE_PROVIDER_ID = 'gemini';
+
+const providers = new Map<string, ImageProvider>();
+
+/**
+ * Adds a provider (or replaces one with the same id). Registration order is the
+ * order shown in the provider picker.
+ */
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listImageProviders(): ImageProvider[] {
+  return [...providers.values()];
+}
+
+export function getImageProvider(id: string | undefined): ImageProvider | undefined {
+  return id ? providers.get(id) : undefined;
+}
+
+/**
+ * Provider selected in settings, falling back to the default when the stored id
+ * is no longer registered.
+ */
+export function resolveImageProvider(settings: Settings): ImageProvider {
+  return getImageProvider(settings.apiProvider) || providers.get(DEFAULT_IMAGE_PROVIDER_ID)!;
+}
+
+export function getModelSizes(provider: ImageProvider, modelId: string): ImageSize[] {
+  return provider.models.find((model) => model.id === modelId)?.sizes ?? provider.capabilities.sizes;
+}
+
+export function getModelCapabilities(provider: ImageProvider, modelId: string): ImageProviderCapabilities {
+  return provider.models.find((model) => model.id === modelId)?.capabilities ?? provider.capabilities;
+}
+
+const INLINE_IMAGE_PATTERN = /^data:([^;,]+)[;,]/;
+const BASE64_RUN_PATTERN = /^[A-Za-z0-9+/=\s]{512,}$/;
+
+/**
+ * Copy of a request body with inline images (data URLs and long base64
+ * strings) replaced by a short marker, so a dry run stays readable
+ */
+export function redactImageData(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const dataUrl = value.match(INLINE_IMAGE_PATTERN);
+    if (dataUrl) return `<${dataUrl[1]} image, ${value.length} chars>`;
+    if (BASE64_RUN_PATTERN.test(value)) return `<base64 image, ${value.length} chars>`;
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(redactImageData);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactImageData(entry)]));
+  }
+  return value;
+}
+
+export function getProviderFieldValue(settings: Settings, providerId: string, field: ImageProviderField): string {
+  if (field.settingsKey) return settings[field.settingsKey] || '';
+  const bag = field.secret ? settings.providerSecrets : settings.providerOptions;
+  return bag?.[providerId]?.[field.id] || '';
+}
+
+export function getProviderFieldPatch(
+  settings: Settings,
+  providerId: string,
+  field: ImageProviderField,
+  value: string
+): Partial<Settings> {
+  if (field.settingsKey) return { [field.settingsKey]: value };
+  const bagKey = field.secret ? 'providerSecrets' : 'providerOptions';
+  const bag = settings[bagKey] || {};
+  return { [bagKey]: { ...bag, [providerId]: { ...bag[providerId], [field.id]: value } } };
+}
+
+registerImageProvider(geminiImageProvider);
+registerImageProvider(openRouterImageProvider);
+registerImageProvider(serverManagedImageProvider);
+registerImageProvider(automatic1111ImageProvider);
+registerImageProvider(comfyUIImageProvider);
+registerImageProvider(mockImageProvider);
@@ -0,0 +1,124 @@
+/**
+ * Tests for importGeneratedCardsZip.ts
+ *
+ * Strategy:
+ *   - Backups are built in memory with buildGeneratedCardsZip or JSZip directly
+ *   - Media is inline data URLs, so nothing is fetched
+ *
+ * Scenarios covered:
+ *   read  — export round trip keeps prompts and deck details, shared media is
+ *           written once, first-version manifests, invalid, incomplete and
+ *           damaged zips, encrypted backups
+ *   plan  — skip, replace and keep-both on clashing timestamps
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import type { GeneratedCard } from '../types';
+import { buildGeneratedCardsZip } from './exportGeneratedCardsZip';
+import { encryptBackup, MIN_PBKDF2_ITERATIONS } from './backupEncryption';
+import { planBackupImport, readBackupZip } from './importGeneratedCardsZip';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const PNG = 'data:image/png;base64,aW1n';
+const MP4 = 'data:video/mp4;base64,dmlkZW8=';
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: 'traditional-rider-waite',
+    timestamp: 1_000,
+    frames: [PNG],
+    gifUrl: PNG,
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+async function zipWithManifest(manifest: unknown, files: Record<string, string> = {}): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify(manifest));
+  Object.entries(files).forEach(([path, base64]) => zip.file(path, base64, { base64: true }));
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+// ─── Read ────────────────────────────────────────────────────────────────────
+
+describe('readBackupZip', () => {
+  it('restores what the export wrote, including prompt, deck and author', async () => {
+    const cards = [
+      makeCard({ prompt: 'A fool at the cliff', promptVersion: 2, deckName: 'Night Deck', author: 'Ada' }),
+      makeCard({ timestamp: 2_000, videoUrl: MP4, source: 'community', shared: true, bundleCID: 'bafy123' }),
+    ];
+
+    const zip = await buildGeneratedCardsZip(cards, () => {});
+    const restored = await readBackupZip(await zip.generateAsync({ type: 'uint8array' }));
+
+    expect(restored).toEqual(cards);
+    expect(Object.keys(zip.files).filter((path) => !zip.files[path].dir)).toEqual([
+      'media/traditional-rider-waite/card-0-1000-frame-0.png',
+      'media/traditional-rider-waite/card-0-2000-video.mp4',
+      'manifest.json',
+    ]);
+  });
+
+  it('opens encrypted backups with their passphrase', async () => {
+    const zip = await buildGeneratedCardsZip([makeCard()], () => {});
+    const sealed = await encryptBackup(await zip.generateAsync({ type: 'uint8array' }), 'pw', MIN_PBKDF2_ITERATIONS);
+
+    await expect(readBackupZip(sealed)).rejects.toThrow('This backup is encrypted');
+    expect(await readBackupZip(sealed, 'pw')).toEqual([makeCard()]);
+  });
+
+  it('reads the bare card list written by the first exports', async () => {
+    const data = await zipWithManifest(
+      [{ cardNumber: 3, cardName: 'The Empress', deckType: 'egyptian-tarot', timestamp: 5, shared: false, source: 'local', frames: ['media/card-3-frame-0.jpg'] }],
+      { 'media/card-3-frame-0.jpg': 'aW1n' }
+    );
+
+    const [card] = await readBackupZip(data);
+
+    expect(card).toMatchObject({ cardNumber: 3, deckType: 'egyptian-tarot', timestamp: 5, frames: ['data:image/jpeg;base64,aW1n'] });
+    expect(card).not.toHaveProperty('cardName');
+  });
+
+  it('names the first problem in an invalid manifest', async () => {
+    const data = await zipWithManifest({ format: 'tarot-cards-backup', version: 2, exportedAt: 1, cards: [{ cardNumber: 0 }] });
+
+    await expect(readBackupZip(data)).rejects.toThrow(/invalid at cards\.0\./);
+  });
+
+  it('rejects zips that are not backups or miss media', async () => {
+    const missing = await zipWithManifest([{ cardNumber: 0, deckType: 'd', timestamp: 1, frames: ['media/a.png'] }]);
+
+    await expect(readBackupZip(new Uint8Array([1, 2, 3]))).rejects.toThrow('not a zip archive');
+    await expect(readBackupZip(missing)).rejects.toThrow('missing media/a.png');
+  });
+
+  it('rejects media whose content does not match its hash', async () => {
+    const zip = await buildGeneratedCardsZip([makeCard()], () => {});
+    zip.file('media/traditional-rider-waite/card-0-1000-frame-0.png', 'b3RoZXI=', { base64: true });
+
+    await expect(readBackupZip(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow('is damaged');
+  });
+});
+
+// ─── Plan ────────────────────────────────────────────────────────────────────
+
+describe('planBackupImport', () => {
+  const existing = [makeCard({ timestamp: 1 }), makeCard({ timestamp: 2 })];
+  const incoming = [makeCard({ timestamp: 1, prompt: 'backup' }), makeCard({ timestamp: 3 })];
+
+  it('skips or replaces cards whose timestamp is already saved', () => {
+    expect(planBackupImport(incoming, existing, 'skip')).toEqual({ add: [incoming[1]], replace: [], skipped: 1 });
+    expect(planBackupImport(incoming, existing, 'replace')).toEqual({ add: [incoming[1]], replace: [incoming[0]], skipped: 0 });
+  });
+
+  it('keeps both by moving the backup copy to the next free timestamp', () => {
+    const plan = planBackupImport(incoming, existing, 'keep-both');
+
+    expect(plan.add.map((card) => [card.timestamp, card.prompt])).toEqual([[4, 'backup'], [3, undefined]]);
+  });
+});
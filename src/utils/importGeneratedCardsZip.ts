@@ -0,0 +1,98 @@
+import JSZip from 'jszip';
+import type { GeneratedCard } from '../types';
+import { migrateDeckPackage, readDeckPackageCards, type PackageMedia } from './deckPackage';
+import { sha256Hex } from './mediaStore';
+import { decryptBackup, isEncryptedBackup } from './backupEncryption';
+
+/**
+ * Reads back the backup written by `exportGeneratedCardsZip`: a deck package
+ * manifest (see utils/deckPackage) plus the media files it lists. Media is
+ * returned inline as data URLs; saving the cards through the store moves it
+ * into the media store.
+ */
+
+export type ImportConflictMode = 'skip' | 'replace' | 'keep-both';
+
+export interface ImportResult {
+  imported: number;
+  replaced: number;
+  skipped: number;
+}
+
+/** What an import does to the saved cards, keyed on timestamp */
+export interface ImportPlan {
+  add: GeneratedCard[];
+  replace: GeneratedCard[];
+  skipped: number;
+}
+
+async function readMedia(zip: JSZip, media: PackageMedia): Promise<string> {
+  const file = zip.file(media.path);
+  if (!file) throw new Error(`The backup is missing ${media.path}.`);
+  if (media.hash && (await sha256Hex(new Uint8Array(await file.async('arraybuffer')))) !== media.hash) {
+    throw new Error(`${media.path} is damaged: its content does not match the manifest.`);
+  }
+  return `data:${media.mimeType};base64,${await file.async('base64')}`;
+}
+
+/**
+ * Parses and validates a backup zip; throws with a readable message when it is
+ * not one. Encrypted backups are recognised by their header and opened with
+ * `passphrase`.
+ */
+export async function readBackupZip(data: Blob | ArrayBuffer | Uint8Array, passphrase?: string): Promise<GeneratedCard[]> {
+  let bytes = data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : new Uint8Array(data);
+  if (isEncryptedBackup(bytes)) {
+    if (!passphrase) throw new Error('This backup is encrypted. Enter its passphrase, then import it again.');
+    bytes = await decryptBackup(bytes, passphrase);
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new Error('This file is not a zip archive.');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new Error('This zip has no manifest.json, so it is not a card backup.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error('The backup manifest is not valid JSON.');
+  }
+  return readDeckPackageCards(migrateDeckPackage(raw), (media) => readMedia(zip, media));
+}
+
+/**
+ * Sorts imported cards against the saved ones by timestamp. Without a clash a
+ * card is added; with one it is skipped, replaces the saved card, or is added
+ * under the next free timestamp.
+ */
+export function planBackupImport(
+  incoming: GeneratedCard[],
+  existing: GeneratedCard[],
+  mode: ImportConflictMode
+): ImportPlan {
+  const saved = new Set(existing.map((card) => card.timestamp));
+  // Timestamps a kept copy must not take: saved cards and the rest of the backup
+  const taken = new Set([...saved, ...incoming.map((card) => card.timestamp)]);
+  const plan: ImportPlan = { add: [], replace: [], skipped: 0 };
+  for (const card of incoming) {
+    if (!saved.has(card.timestamp)) {
+      plan.add.push(card);
+    } else if (mode === 'replace') {
+      plan.replace.push(card);
+    } else if (mode === 'keep-both') {
+      let timestamp = card.timestamp + 1;
+      while (taken.has(timestamp)) timestamp++;
+      plan.add.push({ ...card, timestamp });
+      taken.add(timestamp);
+    } else {
+      plan.skipped++;
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for keyVault.ts
+ *
+ * Strategy:
+ *   - Real WebCrypto and jsdom localStorage; a low PBKDF2 iteration count keeps
+ *     the suite fast
+ *   - The session key is module state, so each test locks or deletes the vault
+ *
+ * Scenarios covered:
+ *   storage  — keys never reach localStorage in plaintext
+ *   unlock   — right and wrong passphrase, locked vault refuses reads
+ *   keys     — several named keys per slot, switching and removing the one in use
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  addVaultKey,
+  createVault,
+  deleteVault,
+  loadVault,
+  lockVault,
+  readActiveVaultKeys,
+  readVaultKey,
+  removeVaultKey,
+  setActiveVaultKey,
+  unlockVault,
+  vaultSlot,
+} from './keyVault';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const ITERATIONS = 1_000;
+const GEMINI = vaultSlot('gemini', 'apiKey');
+const OPENROUTER = vaultSlot('openrouter', 'apiKey');
+
+afterEach(() => {
+  deleteVault();
+});
+
+// ─── Storage ─────────────────────────────────────────────────────────────────
+
+describe('createVault', () => {
+  it('keeps only ciphertext in localStorage', async () => {
+    const vault = await addVaultKey(await createVault('pw', ITERATIONS), GEMINI, 'Team key', 'AIza-secret');
+
+    const stored = window.localStorage.getItem('tarot:keyVault') ?? '';
+    expect(stored).toContain('Team key');
+    expect(stored).not.toContain('AIza-secret');
+    expect(loadVault()).toEqual(vault);
+  });
+});
+
+// ─── Unlock ──────────────────────────────────────────────────────────────────
+
+describe('unlockVault', () => {
+  it('opens the vault with its passphrase only', async () => {
+    const vault = await addVaultKey(await createVault('pw', ITERATIONS), GEMINI, 'Team key', 'AIza-secret');
+    lockVault();
+
+    await expect(readVaultKey(vault.entries[0])).rejects.toThrow('Unlock the key vault first');
+    await expect(unlockVault(vault, 'nope')).rejects.toThrow('Wrong passphrase');
+    await unlockVault(vault, 'pw');
+    expect(await readActiveVaultKeys(vault)).toEqual({ [GEMINI]: 'AIza-secret' });
+  });
+});
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+describe('vault keys', () => {
+  it('holds several named keys per slot with one in use', async () => {
+    let vault = await createVault('pw', ITERATIONS);
+    vault = await addVaultKey(vault, GEMINI, 'Personal', 'key-1');
+    vault = await addVaultKey(vault, GEMINI, 'Team', 'key-2');
+    vault = await addVaultKey(vault, OPENROUTER, '', 'key-3');
+
+    expect(vault.entries.map((entry) => entry.name)).toEqual(['Personal', 'Team', 'Key']);
+    expect(await readActiveVaultKeys(vault)).toEqual({ [GEMINI]: 'key-2', [OPENROUTER]: 'key-3' });
+
+    vault = setActiveVaultKey(vault, vault.entries[0]);
+    expect(await readActiveVaultKeys(vault)).toEqual({ [GEMINI]: 'key-1', [OPENROUTER]: 'key-3' });
+
+    vault = removeVaultKey(vault, vault.entries[0].id);
+    expect(await readActiveVaultKeys(vault)).toEqual({ [OPENROUTER]: 'key-3' });
+  });
+});
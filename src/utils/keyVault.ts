@@ -0,0 +1,162 @@
+import { DEFAULT_PBKDF2_ITERATIONS, derivePassphraseKey } from './backupEncryption';
+
+/**
+ * Opt-in vault for provider API keys. Keys are sealed with AES-GCM under a key
+ * derived from the user's passphrase and kept in localStorage; names and which
+ * key is in use stay readable so the vault can be listed while locked.
+ *
+ * Unlocking derives the key once and holds it in memory for the rest of the
+ * page session. Decrypted keys are only ever placed in the store's settings,
+ * which never persists them (see `partialize` in useStore).
+ */
+
+const VAULT_STORAGE_KEY = 'tarot:keyVault';
+const VAULT_VERSION = 1;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const CHECK_TEXT = 'tarot-key-vault';
+
+interface Sealed {
+  iv: string;                         // base64
+  ciphertext: string;                 // base64
+}
+
+export interface VaultEntry extends Sealed {
+  id: string;
+  slot: string;                       // see vaultSlot
+  name: string;
+  createdAt: number;
+}
+
+export interface KeyVault {
+  version: typeof VAULT_VERSION;
+  salt: string;                       // base64
+  iterations: number;
+  check: Sealed;                      // CHECK_TEXT, to tell a wrong passphrase from an empty vault
+  entries: VaultEntry[];
+  active: Record<string, string>;     // slot → entry id
+}
+
+let sessionKey: CryptoKey | null = null;
+
+/** A provider's secret field, e.g. `gemini:apiKey` */
+export function vaultSlot(providerId: string, fieldId: string): string {
+  return `${providerId}:${fieldId}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''));
+}
+
+function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function seal(key: CryptoKey, text: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function open(key: CryptoKey, sealed: Sealed): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+function saveVault(vault: KeyVault): KeyVault {
+  window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+  return vault;
+}
+
+function requireSessionKey(): CryptoKey {
+  if (!sessionKey) throw new Error('Unlock the key vault first.');
+  return sessionKey;
+}
+
+export function loadVault(): KeyVault | null {
+  try {
+    const stored = window.localStorage.getItem(VAULT_STORAGE_KEY);
+    const vault = stored ? (JSON.parse(stored) as KeyVault) : null;
+    return vault?.version === VAULT_VERSION ? vault : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isVaultUnlocked(): boolean {
+  return sessionKey !== null;
+}
+
+export async function createVault(passphrase: string, iterations = DEFAULT_PBKDF2_ITERATIONS): Promise<KeyVault> {
+  if (!passphrase) throw new Error('Choose a passphrase for the key vault.');
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+  sessionKey = key;
+  return saveVault({
+    version: VAULT_VERSION,
+    salt: toBase64(salt),
+    iterations,
+    check: await seal(key, CHECK_TEXT),
+    entries: [],
+    active: {},
+  });
+}
+
+/** Derives the vault key for this session; throws on a wrong passphrase */
+export async function unlockVault(vault: KeyVault, passphrase: string): Promise<void> {
+  const key = await derivePassphraseKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    if ((await open(key, vault.check)) !== CHECK_TEXT) throw new Error();
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+  sessionKey = key;
+}
+
+export function lockVault(): void {
+  sessionKey = null;
+}
+
+export function deleteVault(): void {
+  sessionKey = null;
+  window.localStorage.removeItem(VAULT_STORAGE_KEY);
+}
+
+/** Stores a named key and makes it the one in use for its slot */
+export async function addVaultKey(vault: KeyVault, slot: string, name: string, secret: string): Promise<KeyVault> {
+  const entry: VaultEntry = {
+    id: crypto.randomUUID(),
+    slot,
+    name: name.trim() || 'Key',
+    createdAt: Date.now(),
+    ...(await seal(requireSessionKey(), secret)),
+  };
+  return saveVault({ ...vault, entries: [...vault.entries, entry], active: { ...vault.active, [slot]: entry.id } });
+}
+
+export function removeVaultKey(vault: KeyVault, id: string): KeyVault {
+  const active = Object.fromEntries(Object.entries(vault.active).filter(([, entryId]) => entryId !== id));
+  return saveVault({ ...vault, entries: vault.entries.filter((entry) => entry.id !== id), active });
+}
+
+export function setActiveVaultKey(vault: KeyVault, entry: VaultEntry): KeyVault {
+  return saveVault({ ...vault, active: { ...vault.active, [entry.slot]: entry.id } });
+}
+
+export async function readVaultKey(entry: VaultEntry): Promise<string> {
+  return open(requireSessionKey(), entry);
+}
+
+/** The decrypted key in use for each slot that has one */
+export async function readActiveVaultKeys(vault: KeyVault): Promise<Record<string, string>> {
+  const keys: Record<string, string> = {};
+  for (const [slot, id] of Object.entries(vault.active)) {
+    const entry = vault.entries.find((e) => e.id === id);
+    if (entry) keys[slot] = await readVaultKey(entry);
+  }
+  return keys;
+}
@@ -0,0 +1,245 @@
+/**
+ * Local diffusion providers
+ *
+ * Covers the Automatic1111 request shapes (txt2img, img2img fallback and
+ * IP-Adapter units), the ComfyUI upload → queue → poll → view flow and the
+ * ComfyUI dry-run request.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  fillWorkflowPlaceholders,
+  generateImageWithAutomatic1111,
+  comfyUIImageProvider,
+  generateImageWithComfyUI,
+  getFaceReferences,
+} from './localDiffusionImageGeneration';
+import { generateImage } from './imageGeneration';
+import type { Settings } from '../types';
+
+const FACE = 'data:image/png;base64,RkFDRQ==';
+const BODY = 'data:image/jpeg;base64,Qk9EWQ==';
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    apiProvider: 'automatic1111',
+    generationModel: 'local-checkpoint',
+    promptSuffix: ', oil painting',
+    usePhoto: true,
+    referenceImages: [],
+    ...overrides,
+  } as Settings;
+}
+
+function jsonResponse(data: unknown, ok = true, status = 200) {
+  return { ok, status, json: async () => data, text: async () => JSON.stringify(data) };
+}
+
+function imageResponse(content: string) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'image/png' }),
+    arrayBuffer: async () => new TextEncoder().encode(content).buffer,
+  };
+}
+
+function requestBody(call: unknown[]) {
+  return JSON.parse((call[1] as RequestInit).body as string);
+}
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── Face references ───
+
+describe('getFaceReferences', () => {
+  it('prefers face over body references and ignores style references', () => {
+    const settings = makeSettings({
+      referenceImages: [
+        { id: 'b', dataUrl: BODY, type: 'body', instruction: '' },
+        { id: 's', dataUrl: 'data:image/png;base64,U1RZTEU=', type: 'style', instruction: '' },
+        { id: 'f', dataUrl: FACE, type: 'face', instruction: '' },
+      ],
+    });
+    expect(getFaceReferences('', settings)).toEqual([FACE, BODY]);
+  });
+
+  it('falls back to the legacy photo and respects usePhoto', () => {
+    expect(getFaceReferences(FACE, makeSettings())).toEqual([FACE]);
+    expect(getFaceReferences(FACE, makeSettings({ usePhoto: false }))).toEqual([]);
+  });
+});
+
+// ─── Automatic1111 ───
+
+describe('generateImageWithAutomatic1111', () => {
+  it('posts a txt2img request with the config prompt prefix and suffix', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ images: ['UE5H'] }));
+
+    const result = await generateImageWithAutomatic1111(
+      'The Fool',
+      '',
+      makeSettings({ providerOptions: { automatic1111: { endpoint: 'localhost:7860/', checkpoint: 'dream.safetensors' } } })
+    );
+
+    expect(result).toEqual({ imageUrl: 'data:image/png;base64,UE5H' });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:7860/sdapi/v1/txt2img');
+    const body = requestBody(fetchMock.mock.calls[0]);
+    expect(body.prompt).toBe('tarot card illustration, The Fool, oil painting');
+    expect(body.width / body.height).toBeCloseTo(2 / 3, 1);
+    expect(body.override_settings).toEqual({ sd_model_checkpoint: 'dream.safetensors' });
+    expect(body.init_images).toBeUndefined();
+  });
+
+  it('uses the face reference as the img2img init image without an IP-Adapter model', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ images: ['UE5H'] }));
+
+    await generateImageWithAutomatic1111('The Star', FACE, makeSettings());
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:7860/sdapi/v1/img2img');
+    const body = requestBody(fetchMock.mock.calls[0]);
+    expect(body.init_images).toEqual(['RkFDRQ==']);
+    expect(body.denoising_strength).toBeGreaterThan(0);
+  });
+
+  it('sends every face reference as an IP-Adapter unit when a model is set', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ images: ['UE5H'] }));
+
+    await generateImageWithAutomatic1111(
+      'The Sun',
+      '',
+      makeSettings({
+        referenceImages: [
+          { id: 'f', dataUrl: FACE, type: 'face', instruction: '' },
+          { id: 'b', dataUrl: BODY, type: 'body', instruction: '' },
+        ],
+        providerOptions: { automatic1111: { ipAdapterModel: 'ip-adapter-plus-face_sd15' } },
+      })
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:7860/sdapi/v1/txt2img');
+    const args = requestBody(fetchMock.mock.calls[0]).alwayson_scripts.controlnet.args;
+    expect(args).toHaveLength(2);
+    expect(args[0]).toMatchObject({ image: 'RkFDRQ==', model: 'ip-adapter-plus-face_sd15', enabled: true });
+  });
+
+  it('returns the HTTP error instead of throwing', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ detail: 'Not Found' }, false, 404));
+
+    const result = await generateImageWithAutomatic1111('The Moon', '', makeSettings());
+
+    expect(result.imageUrl).toBe('');
+    expect(result.error).toContain('404');
+  });
+
+  it('is reachable through generateImage with the card prompt', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ images: ['UE5H'] }));
+
+    const result = await generateImage('The Magician', '', makeSettings());
+
+    expect(result.imageUrl).toBe('data:image/png;base64,UE5H');
+    expect(fetchMock.mock.calls[0][0]).toContain('/sdapi/v1/');
+  });
+});
+
+// ─── ComfyUI ───
+
+describe('fillWorkflowPlaceholders', () => {
+  it('keeps exact placeholders typed and interpolates the rest', () => {
+    const filled = fillWorkflowPlaceholders(
+      { '3': { inputs: { seed: '{{seed}}', label: 'card {{seed}}', missing: '{{other}}', list: ['{{width}}'] } } },
+      { seed: 42, width: 832 }
+    );
+    expect(filled).toEqual({ '3': { inputs: { seed: 42, label: 'card 42', missing: '{{other}}', list: [832] } } });
+  });
+});
+
+describe('generateImageWithComfyUI', () => {
+  const comfySettings = makeSettings({
+    apiProvider: 'comfyui',
+    providerOptions: { comfyui: { checkpoint: 'sdxl.safetensors' } },
+  });
+
+  it('queues the workflow, polls history and downloads the output image', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ prompt_id: 'abc' }))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(
+        jsonResponse({ abc: { status: { status_str: 'success' }, outputs: { '9': { images: [{ filename: 'card.png', subfolder: '', type: 'output' }] } } } })
+      )
+      .mockResolvedValueOnce(imageResponse('PNG'));
+
+    const pending = generateImageWithComfyUI('The Tower', '', comfySettings);
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await pending;
+
+    expect(result).toEqual({ imageUrl: `data:image/png;base64,${btoa('PNG')}` });
+    const queued = requestBody(fetchMock.mock.calls[0]).prompt;
+    expect(queued['4'].inputs.ckpt_name).toBe('sdxl.safetensors');
+    expect(queued['6'].inputs.text).toBe('tarot card illustration, The Tower, oil painting');
+    expect(typeof queued['3'].inputs.seed).toBe('number');
+    expect(fetchMock.mock.calls[1][0]).toBe('http://127.0.0.1:8188/history/abc');
+    expect(fetchMock.mock.calls[3][0]).toBe('http://127.0.0.1:8188/view?filename=card.png&subfolder=&type=output');
+  });
+
+  it('uploads the face reference for the img2img workflow', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ name: 'tarot-reference.png', subfolder: '' }))
+      .mockResolvedValueOnce(jsonResponse({ prompt_id: 'xyz' }))
+      .mockResolvedValueOnce(jsonResponse({ xyz: { outputs: { '9': { images: [{ filename: 'out.png' }] } } } }))
+      .mockResolvedValueOnce(imageResponse('PNG'));
+
+    const pending = generateImageWithComfyUI('The Empress', FACE, comfySettings);
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:8188/upload/image');
+    expect((fetchMock.mock.calls[0][1] as RequestInit).body).toBeInstanceOf(FormData);
+    const queued = requestBody(fetchMock.mock.calls[1]).prompt;
+    expect(queued['10'].inputs.image).toBe('tarot-reference.png');
+  });
+
+  it('reports a workflow error from history', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ prompt_id: 'bad' }))
+      .mockResolvedValueOnce(jsonResponse({ bad: { status: { status_str: 'error' }, outputs: {} } }));
+
+    const pending = generateImageWithComfyUI('Death', '', comfySettings);
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    expect(result.imageUrl).toBe('');
+    expect(result.error).toContain('ComfyUI reported an error');
+  });
+
+  it('asks for a checkpoint before queueing the default workflow', async () => {
+    const result = await generateImageWithComfyUI('Judgement', '', makeSettings({ apiProvider: 'comfyui' }));
+
+    expect(result.error).toContain('checkpoint');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('builds the dry-run workflow without uploading or queueing', () => {
+    const request = comfyUIImageProvider.buildRequest!('The Empress', FACE, comfySettings);
+    const workflow = (request.body as { prompt: Record<string, { inputs: Record<string, unknown> }> }).prompt;
+
+    expect(request.endpoint).toBe('http://127.0.0.1:8188/prompt');
+    expect(workflow['6'].inputs.text).toBe('tarot card illustration, The Empress, oil painting');
+    expect(workflow['3'].inputs.seed).toBe('<random per request>');
+    expect(workflow['10'].inputs.image).toBe('<uploaded face reference>');
+    expect(request.note).toContain('/upload/image');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
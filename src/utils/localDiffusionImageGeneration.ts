@@ -0,0 +1,429 @@
+import type { Settings } from '../types';
+import type { ImageGenerationResult, ImageProvider } from './imageProviders';
+import { debugLog } from './logger';
+import { random } from './random';
+import configData from '../data/tarot-config.json';
+import comfyWorkflows from '../data/comfyui-workflows.json';
+import { applyRequestPrefix } from './promptTemplates';
+
+/**
+ * Self-hosted Stable Diffusion backends (Automatic1111 WebUI and ComfyUI).
+ * Both receive the prompt assembled by `generateCardFrames`; face references
+ * from `Settings.referenceImages` (or the legacy user photo) become an img2img
+ * init image or IP-Adapter inputs.
+ */
+
+export const AUTOMATIC1111_PROVIDER_ID = 'automatic1111';
+export const COMFYUI_PROVIDER_ID = 'comfyui';
+
+const DEFAULT_A1111_ENDPOINT = 'http://127.0.0.1:7860';
+const DEFAULT_COMFYUI_ENDPOINT = 'http://127.0.0.1:8188';
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+const COMFYUI_MAX_POLL_ATTEMPTS = 600; // ~10 minutes; whole-deck runs queue behind each other
+
+type ComfyWorkflow = Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+type ComfyHistoryEntry = {
+  status?: { status_str?: string; completed?: boolean };
+  outputs?: Record<string, { images?: { filename: string; subfolder?: string; type?: string }[] }>;
+};
+
+function getLocalDiffusionConfig() {
+  const config = configData.configuration?.apiInstructions?.localDiffusion;
+  return {
+    requestPrefix: config?.requestPrefix || '{PROMPT}',
+    negativePrompt: config?.negativePrompt || '',
+    width: config?.width || 832,
+    height: config?.height || 1248,
+    steps: config?.steps || 30,
+    cfgScale: config?.cfgScale || 7,
+    denoisingStrength: config?.denoisingStrength ?? 0.55,
+    ipAdapterWeight: config?.ipAdapterWeight ?? 0.7,
+  };
+}
+
+function getOptions(settings: Settings, providerId: string): Record<string, string> {
+  return settings.providerOptions?.[providerId] || {};
+}
+
+function normalizeEndpoint(raw: string | undefined, fallback: string): string {
+  const endpoint = raw?.trim() || fallback;
+  const withScheme = /^https?:\/\//.test(endpoint) || endpoint.startsWith('/') ? endpoint : `http://${endpoint}`;
+  return withScheme.replace(/\/+$/, '');
+}
+
+function buildLocalPrompt(prompt: string, settings: Settings): string {
+  const { requestPrefix } = getLocalDiffusionConfig();
+  const requestPrompt = applyRequestPrefix(requestPrefix, prompt);
+  return settings.promptSuffix ? `${requestPrompt}${settings.promptSuffix}` : requestPrompt;
+}
+
+/**
+ * Likeness references as data URLs: face references first, then body, falling
+ * back to the legacy single photo. Empty when personal images are disabled.
+ */
+export function getFaceReferences(userPhoto: string, settings: Settings): string[] {
+  if (settings.usePhoto === false) return [];
+  const references = (settings.referenceImages || [])
+    .filter((ref) => ref.type === 'face' || ref.type === 'body')
+    .sort((a, b) => (a.type === b.type ? 0 : a.type === 'face' ? -1 : 1))
+    .map((ref) => ref.dataUrl);
+  if (references.length > 0) return references;
+  return userPhoto ? [userPhoto] : [];
+}
+
+function stripDataUrlPrefix(dataUrl: string): string {
+  const commaIndex = dataUrl.indexOf(',');
+  return dataUrl.startsWith('data:') && commaIndex !== -1 ? dataUrl.slice(commaIndex + 1) : dataUrl;
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const mime = dataUrl.match(/data:([^;]+);/)?.[1] || 'image/png';
+  const bytes = Uint8Array.from(atob(stripDataUrlPrefix(dataUrl)), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type: mime });
+}
+
+function bytesToDataUrl(buffer: ArrayBuffer, mime: string): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+}
+
+async function describeHttpError(response: Response, backend: string): Promise<string> {
+  let detail = '';
+  try {
+    detail = await response.text();
+  } catch {
+    // body already consumed or unreadable
+  }
+  return `${backend} request failed: ${response.status}${detail ? ` - ${detail.slice(0, 300)}` : ''}`;
+}
+
+function toErrorResult(backend: string, error: unknown): ImageGenerationResult {
+  console.error(`[${backend}] Image generation error:`, error);
+  let message = error instanceof Error ? error.message : 'Unknown error occurred';
+  if (error instanceof TypeError && /fetch/i.test(message)) {
+    message = `Could not reach ${backend}. Check that the server is running and allows requests from this origin (CORS).`;
+  }
+  return { imageUrl: '', error: message };
+}
+
+// Shown in dry runs in place of values only known when the request is sent
+const PREVIEW_SEED = '<random per request>';
+const PREVIEW_REFERENCE_IMAGE = '<uploaded face reference>';
+
+/**
+ * Automatic1111 route and body. With an IP-Adapter model configured, face
+ * references are sent as ControlNet IP-Adapter units on txt2img; otherwise the
+ * first reference is the img2img init image.
+ */
+function buildAutomatic1111Request(prompt: string, userPhoto: string, settings: Settings, seed: number | string) {
+  const options = getOptions(settings, AUTOMATIC1111_PROVIDER_ID);
+  const endpoint = normalizeEndpoint(options.endpoint, DEFAULT_A1111_ENDPOINT);
+  const config = getLocalDiffusionConfig();
+  const faces = getFaceReferences(userPhoto, settings);
+
+  const body: Record<string, unknown> = {
+    prompt: buildLocalPrompt(prompt, settings),
+    negative_prompt: config.negativePrompt,
+    steps: config.steps,
+    cfg_scale: config.cfgScale,
+    width: config.width,
+    height: config.height,
+    seed,
+  };
+  if (options.checkpoint) {
+    body.override_settings = { sd_model_checkpoint: options.checkpoint };
+  }
+
+  let route = 'txt2img';
+  if (faces.length > 0 && options.ipAdapterModel) {
+    body.alwayson_scripts = {
+      controlnet: {
+        args: faces.map((face) => ({
+          enabled: true,
+          image: stripDataUrlPrefix(face),
+          module: options.ipAdapterModule || 'ip-adapter_clip_sd15',
+          model: options.ipAdapterModel,
+          weight: config.ipAdapterWeight,
+        })),
+      },
+    };
+  } else if (faces.length > 0) {
+    route = 'img2img';
+    body.init_images = [stripDataUrlPrefix(faces[0])];
+    body.denoising_strength = config.denoisingStrength;
+  }
+
+  return { endpoint, route, body, references: faces.length };
+}
+
+/**
+ * Automatic1111 WebUI (`/sdapi/v1`), txt2img or img2img depending on the face
+ * references (see `buildAutomatic1111Request`).
+ */
+export async function generateImageWithAutomatic1111(
+  prompt: string,
+  userPhoto: string,
+  settings: Settings
+): Promise<ImageGenerationResult> {
+  try {
+    const { endpoint, route, body, references } = buildAutomatic1111Request(
+      prompt,
+      userPhoto,
+      settings,
+      Math.floor(random() * 0xffffffff)
+    );
+
+    debugLog('[A1111] Endpoint:', endpoint, 'route:', route, 'references:', references);
+
+    const response = await fetch(`${endpoint}/sdapi/v1/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response, 'Automatic1111'));
+    }
+
+    const data = (await response.json()) as { images?: string[] };
+    const image = data.images?.[0];
+    if (!image) {
+      throw new Error('No images in Automatic1111 response');
+    }
+    return { imageUrl: image.startsWith('data:') ? image : `data:image/png;base64,${image}` };
+  } catch (error) {
+    return toErrorResult('Automatic1111', error);
+  }
+}
+
+/**
+ * Replaces `{{name}}` placeholders in a ComfyUI workflow. A value that is
+ * exactly one placeholder takes the typed value (numbers stay numbers).
+ */
+export function fillWorkflowPlaceholders<T>(node: T, values: Record<string, string | number>): T {
+  if (typeof node === 'string') {
+    const exact = node.match(/^\{\{(\w+)\}\}$/);
+    if (exact && exact[1] in values) return values[exact[1]] as T;
+    return node.replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? String(values[key]) : match)) as T;
+  }
+  if (Array.isArray(node)) return node.map((item) => fillWorkflowPlaceholders(item, values)) as T;
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, fillWorkflowPlaceholders(value, values)])
+    ) as T;
+  }
+  return node;
+}
+
+function parseCustomWorkflow(raw: string | undefined): ComfyWorkflow | null {
+  if (!raw?.trim()) return null;
+  try {
+    return JSON.parse(raw) as ComfyWorkflow;
+  } catch {
+    throw new Error('ComfyUI workflow is not valid JSON. Export it with "Save (API Format)".');
+  }
+}
+
+async function uploadComfyReference(endpoint: string, dataUrl: string): Promise<string> {
+  const form = new FormData();
+  form.append('image', dataUrlToBlob(dataUrl), `tarot-reference-${Date.now()}.png`);
+  form.append('overwrite', 'true');
+  const response = await fetch(`${endpoint}/upload/image`, { method: 'POST', body: form });
+  if (!response.ok) {
+    throw new Error(await describeHttpError(response, 'ComfyUI upload'));
+  }
+  const data = (await response.json()) as { name?: string; subfolder?: string };
+  if (!data.name) throw new Error('ComfyUI upload returned no file name');
+  return data.subfolder ? `${data.subfolder}/${data.name}` : data.name;
+}
+
+async function waitForComfyOutput(endpoint: string, promptId: string): Promise<ComfyHistoryEntry> {
+  for (let attempt = 0; attempt < COMFYUI_MAX_POLL_ATTEMPTS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, COMFYUI_POLL_INTERVAL_MS));
+    const response = await fetch(`${endpoint}/history/${encodeURIComponent(promptId)}`);
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response, 'ComfyUI history'));
+    }
+    const history = (await response.json()) as Record<string, ComfyHistoryEntry>;
+    const entry = history[promptId];
+    if (!entry) continue;
+    if (entry.status?.status_str === 'error') {
+      throw new Error('ComfyUI reported an error while running the workflow');
+    }
+    if (entry.outputs && Object.keys(entry.outputs).length > 0) return entry;
+  }
+  throw new Error('Timed out waiting for ComfyUI to finish the workflow');
+}
+
+/**
+ * Workflow template for the request: the custom one when configured, else the
+ * default img2img or txt2img workflow. Throws when the configuration cannot
+ * produce a runnable workflow.
+ */
+function selectComfyWorkflow(userPhoto: string, settings: Settings) {
+  const options = getOptions(settings, COMFYUI_PROVIDER_ID);
+  const faces = getFaceReferences(userPhoto, settings);
+
+  const customWorkflow = parseCustomWorkflow(options.workflow);
+  const template: ComfyWorkflow =
+    customWorkflow || ((faces.length > 0 ? comfyWorkflows.img2img : comfyWorkflows.txt2img) as ComfyWorkflow);
+  const needsReference = JSON.stringify(template).includes('{{reference_image}}');
+
+  if (!customWorkflow && !options.checkpoint) {
+    throw new Error('Set the ComfyUI checkpoint name in settings (e.g. sd_xl_base_1.0.safetensors).');
+  }
+  if (needsReference && faces.length === 0) {
+    throw new Error('This ComfyUI workflow needs a face reference. Upload a photo or reference image first.');
+  }
+
+  return {
+    endpoint: normalizeEndpoint(options.endpoint, DEFAULT_COMFYUI_ENDPOINT),
+    faces,
+    template,
+    customWorkflow: Boolean(customWorkflow),
+    needsReference,
+  };
+}
+
+function fillComfyWorkflow(
+  template: ComfyWorkflow,
+  prompt: string,
+  settings: Settings,
+  seed: number | string,
+  referenceImage: string
+): ComfyWorkflow {
+  const config = getLocalDiffusionConfig();
+  return fillWorkflowPlaceholders(template, {
+    prompt: buildLocalPrompt(prompt, settings),
+    negative_prompt: config.negativePrompt,
+    seed,
+    steps: config.steps,
+    cfg: config.cfgScale,
+    width: config.width,
+    height: config.height,
+    denoise: config.denoisingStrength,
+    checkpoint: getOptions(settings, COMFYUI_PROVIDER_ID).checkpoint || '',
+    reference_image: referenceImage,
+  });
+}
+
+/**
+ * ComfyUI (`/prompt` + `/history`). Uses the default workflows from
+ * `comfyui-workflows.json` unless a custom API-format workflow is configured;
+ * a face reference is uploaded when the workflow uses `{{reference_image}}`.
+ */
+export async function generateImageWithComfyUI(
+  prompt: string,
+  userPhoto: string,
+  settings: Settings
+): Promise<ImageGenerationResult> {
+  try {
+    const { endpoint, faces, template, customWorkflow, needsReference } = selectComfyWorkflow(userPhoto, settings);
+    const referenceImage = needsReference ? await uploadComfyReference(endpoint, faces[0]) : '';
+    const workflow = fillComfyWorkflow(template, prompt, settings, Math.floor(random() * 0xffffffff), referenceImage);
+
+    debugLog('[ComfyUI] Endpoint:', endpoint, 'custom workflow:', customWorkflow, 'reference:', Boolean(referenceImage));
+
+    const queueResponse = await fetch(`${endpoint}/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow, client_id: 'tarot-cards' }),
+    });
+    if (!queueResponse.ok) {
+      throw new Error(await describeHttpError(queueResponse, 'ComfyUI'));
+    }
+    const { prompt_id: promptId } = (await queueResponse.json()) as { prompt_id?: string };
+    if (!promptId) throw new Error('ComfyUI did not return a prompt id');
+
+    const entry = await waitForComfyOutput(endpoint, promptId);
+    const image = Object.values(entry.outputs || {}).flatMap((output) => output.images || [])[0];
+    if (!image) throw new Error('ComfyUI workflow finished without an image output');
+
+    const params = new URLSearchParams({
+      filename: image.filename,
+      subfolder: image.subfolder || '',
+      type: image.type || 'output',
+    });
+    const imageResponse = await fetch(`${endpoint}/view?${params.toString()}`);
+    if (!imageResponse.ok) {
+      throw new Error(await describeHttpError(imageResponse, 'ComfyUI image download'));
+    }
+    const mime = imageResponse.headers.get('content-type') || 'image/png';
+    return { imageUrl: bytesToDataUrl(await imageResponse.arrayBuffer(), mime) };
+  } catch (error) {
+    return toErrorResult('ComfyUI', error);
+  }
+}
+
+export const automatic1111ImageProvider: ImageProvider = {
+  id: AUTOMATIC1111_PROVIDER_ID,
+  name: 'Automatic1111 WebUI (Local, img2img / IP-Adapter)',
+  description: 'Self-hosted Stable Diffusion with no per-image cost. Start the WebUI with --api and --cors-allow-origins set to this site.',
+  capabilities: {
+    img2img: true,
+    multiReference: true,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [{ id: 'local-checkpoint', label: 'Checkpoint loaded in the WebUI (override below)' }],
+  fields: [
+    { id: 'endpoint', label: 'WebUI URL', type: 'url', placeholder: DEFAULT_A1111_ENDPOINT },
+    { id: 'checkpoint', label: 'Checkpoint (optional)', type: 'text', placeholder: 'sd_xl_base_1.0.safetensors' },
+    {
+      id: 'ipAdapterModel',
+      label: 'IP-Adapter model (optional)',
+      type: 'text',
+      placeholder: 'ip-adapter-plus-face_sd15',
+      help: 'Needs the ControlNet extension. Leave empty to use your face reference as the img2img starting image.',
+    },
+  ],
+  isConfigured: () => true,
+  missingConfigMessage: '',
+  generate: generateImageWithAutomatic1111,
+  buildRequest: (prompt, userPhoto, settings) => {
+    const { endpoint, route, body } = buildAutomatic1111Request(prompt, userPhoto, settings, PREVIEW_SEED);
+    return { endpoint: `${endpoint}/sdapi/v1/${route}`, body };
+  },
+};
+
+export const comfyUIImageProvider: ImageProvider = {
+  id: COMFYUI_PROVIDER_ID,
+  name: 'ComfyUI (Local, custom workflows)',
+  description: 'Self-hosted ComfyUI with no per-image cost. Start it with --enable-cors-header so the browser can reach it.',
+  capabilities: {
+    img2img: true,
+    multiReference: false,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [{ id: 'local-checkpoint', label: 'Checkpoint set below or in the workflow' }],
+  fields: [
+    { id: 'endpoint', label: 'ComfyUI URL', type: 'url', placeholder: DEFAULT_COMFYUI_ENDPOINT },
+    { id: 'checkpoint', label: 'Checkpoint', type: 'text', placeholder: 'sd_xl_base_1.0.safetensors' },
+    {
+      id: 'workflow',
+      label: 'Custom workflow (optional, API format JSON)',
+      type: 'textarea',
+      placeholder: '{ "3": { "class_type": "KSampler", ... } }',
+      help: 'Use {{prompt}}, {{negative_prompt}}, {{seed}}, {{width}}, {{height}}, {{checkpoint}} and {{reference_image}} (e.g. for an IP-Adapter LoadImage node).',
+    },
+  ],
+  isConfigured: (settings) => {
+    const options = getOptions(settings, COMFYUI_PROVIDER_ID);
+    return Boolean(options.checkpoint?.trim() || options.workflow?.trim());
+  },
+  missingConfigMessage: 'Enter the ComfyUI checkpoint name (or a custom workflow) above to enable generation.',
+  generate: generateImageWithComfyUI,
+  buildRequest: (prompt, userPhoto, settings) => {
+    const { endpoint, template, needsReference } = selectComfyWorkflow(userPhoto, settings);
+    const referenceImage = needsReference ? PREVIEW_REFERENCE_IMAGE : '';
+    return {
+      endpoint: `${endpoint}/prompt`,
+      body: { prompt: fillComfyWorkflow(template, prompt, settings, PREVIEW_SEED, referenceImage), client_id: 'tarot-cards' },
+      note: needsReference ? 'The first face reference is uploaded to /upload/image before the workflow is queued.' : undefined,
+    };
+  },
+};
@@ -0,0 +1,176 @@
+/**
+ * Tests for mediaStore.ts
+ *
+ * Strategy:
+ *   - IndexedDB mocked with an in-memory map of media records
+ *   - jsdom's URL.createObjectURL hands out real blob: URLs
+ *
+ * Scenarios covered:
+ *   store   — content hashing, one record per content, data URL decoding
+ *   refs    — object URLs map back to refs, remote URLs pass through
+ *   cards   — save/show round trip, inline copies for uploads, legacy detection
+ *   swap    — only fields unchanged since the save get object URLs
+ *   cleanup — unreferenced media removed, saved, in-memory and fresh media kept
+ */
+
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import type { GeneratedCard, MediaBlob } from '../types';
+
+const mediaRecords = new Map<string, MediaBlob>();
+const savedCards: GeneratedCard[] = [];
+
+vi.mock('./idb', () => ({
+  getMediaBlob: vi.fn(async (hash: string) => mediaRecords.get(hash)),
+  putMediaBlob: vi.fn(async (media: MediaBlob) => void mediaRecords.set(media.hash, media)),
+  hasMediaBlob: vi.fn(async (hash: string) => mediaRecords.has(hash)),
+  getAllMediaBlobs: vi.fn(async () => Array.from(mediaRecords.values())),
+  deleteMediaBlobs: vi.fn(async (hashes: string[]) => hashes.forEach((hash) => mediaRecords.delete(hash))),
+  getAllGeneratedCards: vi.fn(async () => savedCards),
+}));
+vi.mock('./logger', () => ({ debugLog: vi.fn() }));
+
+import { putMediaBlob } from './idb';
+import {
+  decodeDataUrl,
+  deleteUnreferencedMedia,
+  hasInlineMedia,
+  inlineCardMedia,
+  persistCardMedia,
+  readMediaAsDataUrl,
+  resolveCardMedia,
+  storeMedia,
+  swapCardMediaUrls,
+  toMediaRef,
+} from './mediaStore';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+// SHA-256 of the bytes "abc"
+const ABC_HASH = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const ABC_PNG = 'data:image/png;base64,YWJj';
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: 'traditional-rider-waite',
+    timestamp: 1_000,
+    frames: [ABC_PNG],
+    gifUrl: ABC_PNG,
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mediaRecords.clear();
+  savedCards.length = 0;
+  vi.clearAllMocks();
+});
+
+// ─── Store ───────────────────────────────────────────────────────────────────
+
+describe('storeMedia', () => {
+  it('keys media by the SHA-256 of its bytes and stores each content once', async () => {
+    const bytes = new TextEncoder().encode('abc');
+
+    expect(await storeMedia(bytes, 'image/png')).toBe(`media:${ABC_HASH}`);
+    expect(await storeMedia(bytes, 'image/png')).toBe(`media:${ABC_HASH}`);
+
+    expect(putMediaBlob).toHaveBeenCalledOnce();
+    expect(mediaRecords.get(ABC_HASH)).toMatchObject({ mimeType: 'image/png', size: 3 });
+  });
+
+  it('decodes base64 and plain data URLs', () => {
+    const png = decodeDataUrl(ABC_PNG);
+    expect(png?.mimeType).toBe('image/png');
+    expect(Array.from(png!.bytes)).toEqual([97, 98, 99]);
+    expect(Array.from(decodeDataUrl('data:image/svg+xml,%3Cg%3E')!.bytes)).toEqual([60, 103, 62]);
+    expect(decodeDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+// ─── Refs ────────────────────────────────────────────────────────────────────
+
+describe('toMediaRef', () => {
+  it('maps object URLs back to their ref and leaves remote URLs alone', async () => {
+    const [objectUrl] = (await resolveCardMedia(await persistCardMedia(makeCard()))).frames;
+
+    expect(objectUrl).toMatch(/^blob:/);
+    expect(await toMediaRef(objectUrl)).toBe(`media:${ABC_HASH}`);
+    expect(await toMediaRef('https://example.com/video.mp4')).toBe('https://example.com/video.mp4');
+  });
+});
+
+// ─── Cards ───────────────────────────────────────────────────────────────────
+
+describe('card media', () => {
+  it('saves refs in place of inline media and shows them as object URLs', async () => {
+    const card = makeCard({ videoUrl: 'https://example.com/video.mp4', posterUrl: ABC_PNG });
+
+    const record = await persistCardMedia(card);
+    expect(record).toMatchObject({
+      frames: [`media:${ABC_HASH}`],
+      gifUrl: `media:${ABC_HASH}`,
+      videoUrl: 'https://example.com/video.mp4',
+      posterUrl: `media:${ABC_HASH}`,
+    });
+    expect(hasInlineMedia(card)).toBe(true);
+    expect(hasInlineMedia(record)).toBe(false);
+
+    const shown = await resolveCardMedia(record);
+    expect(shown.frames[0]).toMatch(/^blob:/);
+    expect(shown.gifUrl).toBe(shown.frames[0]);
+  });
+
+  it('inlines stored media as data URLs for uploads', async () => {
+    const record = await persistCardMedia(makeCard());
+
+    expect((await inlineCardMedia(record)).frames).toEqual([ABC_PNG]);
+    expect(await readMediaAsDataUrl('https://example.com/a.png')).toBe('https://example.com/a.png');
+  });
+
+  it('fails clearly when a referenced blob is gone', async () => {
+    await expect(readMediaAsDataUrl('media:missing')).rejects.toThrow('Stored media not found');
+  });
+});
+
+// ─── Swap ────────────────────────────────────────────────────────────────────
+
+describe('swapCardMediaUrls', () => {
+  it('switches only the fields that still hold what was saved', () => {
+    const saved = makeCard();
+    const resolved = makeCard({ frames: ['blob:frame'], gifUrl: 'blob:frame' });
+    const current = makeCard({
+      gifUrl: 'data:image/png;base64,bmV3',
+      videoUrl: 'https://example.com/video.mp4',
+      posterUrl: 'data:image/jpeg;base64,cG9zdGVy',
+    });
+
+    expect(swapCardMediaUrls(current, saved, resolved)).toMatchObject({
+      frames: ['blob:frame'],
+      gifUrl: 'data:image/png;base64,bmV3',
+      videoUrl: 'https://example.com/video.mp4',
+      posterUrl: 'data:image/jpeg;base64,cG9zdGVy',
+    });
+  });
+});
+
+// ─── Cleanup ─────────────────────────────────────────────────────────────────
+
+describe('deleteUnreferencedMedia', () => {
+  function addMedia(hash: string, createdAt: number) {
+    mediaRecords.set(hash, { hash, blob: new Blob(['x']), mimeType: 'image/png', size: 10, createdAt });
+  }
+
+  it('removes media no saved or in-memory card uses, sparing what was just stored', async () => {
+    ['saved', 'shown', 'orphan'].forEach((hash) => addMedia(hash, 0));
+    addMedia('fresh', 100_000);
+    savedCards.push(makeCard({ frames: ['media:saved'], gifUrl: undefined }));
+
+    const freed = await deleteUnreferencedMedia([makeCard({ frames: ['media:shown'], gifUrl: undefined })], 120_000);
+
+    expect(freed).toBe(10);
+    expect(Array.from(mediaRecords.keys())).toEqual(['saved', 'shown', 'fresh']);
+  });
+});
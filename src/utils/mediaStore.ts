@@ -0,0 +1,210 @@
+import type { GeneratedCard } from '../types';
+import {
+  deleteMediaBlobs,
+  getAllGeneratedCards,
+  getAllMediaBlobs,
+  getMediaBlob,
+  hasMediaBlob,
+  putMediaBlob,
+} from './idb';
+import { debugLog } from './logger';
+
+/**
+ * Generated images and videos are kept as Blobs in the IndexedDB `media` store,
+ * keyed by the SHA-256 of their bytes, so identical media is stored once.
+ *
+ * Card records in IndexedDB reference them as `media:<hash>`. In memory the same
+ * fields hold object URLs, created once per hash and mapped back to the ref when
+ * the record is saved again. Other URLs (community links, a video link that could
+ * not be downloaded) pass through unchanged.
+ */
+
+export const MEDIA_REF_PREFIX = 'media:';
+
+const objectUrlsByHash = new Map<string, string>();
+const hashesByObjectUrl = new Map<string, string>();
+
+export function isMediaRef(url: string | undefined): url is string {
+  return Boolean(url?.startsWith(MEDIA_REF_PREFIX));
+}
+
+/** Content hash behind a `media:` ref or an object URL made from one */
+export function getMediaHash(url: string): string | undefined {
+  return isMediaRef(url) ? url.slice(MEDIA_REF_PREFIX.length) : hashesByObjectUrl.get(url);
+}
+
+export async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function decodeDataUrl(dataUrl: string): { bytes: Uint8Array<ArrayBuffer>; mimeType: string } | null {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  const mimeType = match[1] || 'application/octet-stream';
+  try {
+    const bytes = match[2]
+      ? Uint8Array.from(atob(match[3]), (c) => c.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(match[3]));
+    return { bytes, mimeType };
+  } catch {
+    return null;
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function rememberObjectUrl(hash: string, blob: Blob): string {
+  const existing = objectUrlsByHash.get(hash);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrlsByHash.set(hash, url);
+  hashesByObjectUrl.set(url, hash);
+  return url;
+}
+
+/** Stores the bytes unless the same content is already stored; returns their `media:` ref */
+export async function storeMedia(bytes: Uint8Array<ArrayBuffer>, mimeType: string): Promise<string> {
+  const hash = await sha256Hex(bytes);
+  if (!(await hasMediaBlob(hash))) {
+    const blob = new Blob([bytes], { type: mimeType });
+    await putMediaBlob({ hash, blob, mimeType, size: bytes.byteLength, createdAt: Date.now() });
+    rememberObjectUrl(hash, blob);
+  }
+  return `${MEDIA_REF_PREFIX}${hash}`;
+}
+
+/** What a record saves for a media field: data URLs are stored and object URLs mapped back to their ref */
+export async function toMediaRef(url: string): Promise<string> {
+  const hash = getMediaHash(url);
+  if (hash) return `${MEDIA_REF_PREFIX}${hash}`;
+  if (url.startsWith('data:')) {
+    const decoded = decodeDataUrl(url);
+    if (decoded) return storeMedia(decoded.bytes, decoded.mimeType);
+  }
+  return url;
+}
+
+/** Displayable URL for a media field: an object URL for a `media:` ref, anything else as is */
+export async function resolveMediaUrl(url: string): Promise<string> {
+  if (!isMediaRef(url)) return url;
+  const hash = url.slice(MEDIA_REF_PREFIX.length);
+  const cached = objectUrlsByHash.get(hash);
+  if (cached) return cached;
+  const media = await getMediaBlob(hash);
+  if (!media) {
+    console.warn(`[Media] No stored media for ${url}`);
+    return '';
+  }
+  return rememberObjectUrl(hash, media.blob);
+}
+
+/**
+ * Stored media as a data URL, for provider requests and uploads that need the
+ * bytes inline. URLs that are not stored media are returned unchanged.
+ */
+export async function readMediaAsDataUrl(url: string): Promise<string> {
+  const hash = getMediaHash(url);
+  if (!hash) return url;
+  const media = await getMediaBlob(hash);
+  if (!media) throw new Error('Stored media not found. It may have been removed from this browser.');
+  return blobToDataUrl(media.blob);
+}
+
+async function mapCardMedia(card: GeneratedCard, map: (url: string) => Promise<string>): Promise<GeneratedCard> {
+  return {
+    ...card,
+    frames: await Promise.all(card.frames.map(map)),
+    gifUrl: card.gifUrl ? await map(card.gifUrl) : card.gifUrl,
+    videoUrl: card.videoUrl ? await map(card.videoUrl) : card.videoUrl,
+    posterUrl: card.posterUrl ? await map(card.posterUrl) : card.posterUrl,
+  };
+}
+
+/** The record to put in IndexedDB: inline and in-memory media replaced by `media:` refs */
+export async function persistCardMedia(card: GeneratedCard): Promise<GeneratedCard> {
+  const record = await mapCardMedia(card, toMediaRef);
+  debugLog(`[Media] Card ${card.cardNumber} (${card.deckType}) saved with media refs`);
+  return record;
+}
+
+/** The card to show: `media:` refs replaced by object URLs */
+export function resolveCardMedia(card: GeneratedCard): Promise<GeneratedCard> {
+  return mapCardMedia(card, resolveMediaUrl);
+}
+
+/** The card with stored media inlined as data URLs, for uploads */
+export function inlineCardMedia(card: GeneratedCard): Promise<GeneratedCard> {
+  return mapCardMedia(card, readMediaAsDataUrl);
+}
+
+/** Whether a record still carries base64 media saved before the media store existed */
+export function hasInlineMedia(card: GeneratedCard): boolean {
+  return [...card.frames, card.gifUrl, card.videoUrl, card.posterUrl].some((url) => url?.startsWith('data:'));
+}
+
+/**
+ * Media fields of `current` that still hold what `saved` had, switched to the
+ * URLs in `resolved`. Fields changed in the meantime are left alone.
+ */
+export function swapCardMediaUrls(
+  current: GeneratedCard,
+  saved: GeneratedCard,
+  resolved: GeneratedCard
+): GeneratedCard {
+  const swap = (now: string | undefined, before: string | undefined, after: string | undefined) =>
+    now === before ? after : now;
+  return {
+    ...current,
+    frames: current.frames.map((url, i) => swap(url, saved.frames[i], resolved.frames[i]) ?? url),
+    gifUrl: swap(current.gifUrl, saved.gifUrl, resolved.gifUrl),
+    videoUrl: swap(current.videoUrl, saved.videoUrl, resolved.videoUrl),
+    posterUrl: swap(current.posterUrl, saved.posterUrl, resolved.posterUrl),
+  };
+}
+
+/** Stored bytes per content hash */
+export async function getStoredMediaSizes(): Promise<Record<string, number>> {
+  const media = await getAllMediaBlobs();
+  return Object.fromEntries(media.map((m) => [m.hash, m.size]));
+}
+
+// Media stored this recently may belong to a card whose record is still being saved
+const UNREFERENCED_GRACE_MS = 60_000;
+
+/**
+ * Removes stored media that no card points to any more, after generations are
+ * deleted or stripped. References are taken from both the saved records and the
+ * cards in memory (`cards`), so a failed read never empties the store.
+ * Returns the bytes freed.
+ */
+export async function deleteUnreferencedMedia(cards: GeneratedCard[], now = Date.now()): Promise<number> {
+  const referenced = new Set<string>();
+  for (const card of [...cards, ...(await getAllGeneratedCards())]) {
+    [...card.frames, card.gifUrl, card.videoUrl, card.posterUrl].forEach((url) => {
+      const hash = url ? getMediaHash(url) : undefined;
+      if (hash) referenced.add(hash);
+    });
+  }
+
+  const unreferenced = (await getAllMediaBlobs()).filter(
+    (m) => !referenced.has(m.hash) && now - m.createdAt > UNREFERENCED_GRACE_MS
+  );
+  await deleteMediaBlobs(unreferenced.map((m) => m.hash));
+  unreferenced.forEach(({ hash }) => {
+    const url = objectUrlsByHash.get(hash);
+    if (!url) return;
+    URL.revokeObjectURL(url);
+    objectUrlsByHash.delete(hash);
+    hashesByObjectUrl.delete(url);
+  });
+  if (unreferenced.length > 0) debugLog(`[Media] Removed ${unreferenced.length} unreferenced media blobs`);
+  return unreferenced.reduce((sum, m) => sum + m.size, 0);
+}
@@ -0,0 +1,166 @@
+/**
+ * Mock provider
+ *
+ * The mock renders deterministic placeholder art and a stub video without any
+ * network access, so these tests run with fetch left unstubbed and assert it is
+ * never called. Timers are faked to skip the simulated latency.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MOCK_PROVIDER_ID,
+  generateMockImage,
+  getMockProviderOptions,
+  hashPrompt,
+  renderPlaceholderCard,
+  resetMockGeneration,
+} from './mockGeneration';
+import { generateCardFrames } from './imageGeneration';
+import { canGenerateVideo, generateVideoFromImage } from './videoGeneration';
+import { getCardByNumber, getMinorCardNumber } from './tarotCards';
+import type { Settings } from '../types';
+
+function makeSettings(options: Record<string, string> = {}): Settings {
+  const settings: Partial<Settings> = {
+    apiProvider: MOCK_PROVIDER_ID,
+    generationModel: 'mock-placeholder',
+    selectedDeckType: 'traditional-rider-waite',
+    promptSuffix: '',
+    providerOptions: { [MOCK_PROVIDER_ID]: { latencyMs: '100', ...options } },
+  };
+  return settings as Settings;
+}
+
+function decodeSvg(dataUrl: string): string {
+  const binary = atob(dataUrl.split(',')[1]);
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  resetMockGeneration();
+  fetchMock = vi.fn();
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  expect(fetchMock).not.toHaveBeenCalled();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ─── Placeholder art ───
+
+describe('renderPlaceholderCard', () => {
+  const context = { card: getCardByNumber(getMinorCardNumber('cups', 12))!, deckType: 'celtic-tarot' };
+
+  it('draws the card name, number, deck and prompt hash', () => {
+    const svg = decodeSvg(renderPlaceholderCard('a knight on a grey horse', context));
+
+    expect(svg).toContain('KnC');
+    expect(svg).toContain('Knight of');
+    expect(svg).toContain('Cauldrons');
+    expect(svg).toContain('Celtic');
+    expect(svg).toContain(`#${hashPrompt('a knight on a grey horse')}`);
+  });
+
+  it('is deterministic per prompt', () => {
+    const first = renderPlaceholderCard('prompt A', context);
+    expect(renderPlaceholderCard('prompt A', context)).toBe(first);
+    expect(renderPlaceholderCard('prompt B', context)).not.toBe(first);
+  });
+});
+
+// ─── Options and failure injection ───
+
+describe('mock failure injection', () => {
+  it('falls back to defaults for missing or invalid options', () => {
+    expect(getMockProviderOptions(undefined)).toEqual({ latencyMs: 600, failEvery: 0, failureMode: 'rate-limit' });
+    expect(getMockProviderOptions(makeSettings({ failEvery: 'x', failureMode: 'nope' })).failEvery).toBe(0);
+  });
+
+  it('waits the configured latency before answering', async () => {
+    const pending = generateMockImage('prompt', '', makeSettings({ latencyMs: '5000' }));
+    let done = false;
+    void pending.then(() => (done = true));
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).imageUrl).toMatch(/^data:image\//);
+  });
+
+  it('fails every Nth request with a 429', async () => {
+    const settings = makeSettings({ failEvery: '2' });
+
+    expect((await settle(generateMockImage('one', '', settings))).error).toBeUndefined();
+    const second = await settle(generateMockImage('two', '', settings));
+    expect(second.imageUrl).toBe('');
+    expect(second.error).toContain('429');
+    expect((await settle(generateMockImage('three', '', settings))).error).toBeUndefined();
+  });
+
+  it('injects timeouts and server errors', async () => {
+    const timeout = await settle(generateMockImage('p', '', makeSettings({ failEvery: '1', failureMode: 'timeout' })));
+    expect(timeout.error).toContain('timed out');
+
+    const serverError = await settle(generateMockImage('p', '', makeSettings({ failEvery: '1', failureMode: 'server-error' })));
+    expect(serverError.error).toContain('500');
+  });
+});
+
+// ─── Through the real generation entry points ───
+
+describe('mock provider via generateCardFrames and generateVideoFromImage', () => {
+  it('produces card art from the composed prompt', async () => {
+    const frames = await settle(generateCardFrames(getCardByNumber(0)!, 'traditional-rider-waite', 1, makeSettings()));
+
+    expect(frames).toHaveLength(1);
+    expect(decodeSvg(frames[0])).toContain('The Fool');
+  });
+
+  it('surfaces injected failures as generateCardFrames errors', async () => {
+    const pending = generateCardFrames(getCardByNumber(1)!, 'traditional-rider-waite', 1, makeSettings({ failEvery: '1' }));
+    const assertion = expect(pending).rejects.toThrow('Image generation failed: Mock image request failed: 429');
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+
+  it('returns a stub video without a Gemini key', async () => {
+    const settings = makeSettings();
+    expect(canGenerateVideo(settings)).toBe(true);
+
+    const result = await settle(generateVideoFromImage('animate', 'data:image/png;base64,abc', settings));
+
+    expect(result.error).toBeUndefined();
+    expect(result.videoUrl).toMatch(/^data:video\/webm;base64,/);
+    expect((await settle(generateVideoFromImage('animate', 'data:image/png;base64,abc', settings))).videoUrl).toBe(result.videoUrl);
+  });
+
+  it('counts video failures separately from images', async () => {
+    // Timeouts are not retried by the rate-limit scheduler, so the failure surfaces
+    const settings = makeSettings({ failEvery: '2', failureMode: 'timeout' });
+    await settle(generateMockImage('image', '', settings));
+
+    expect((await settle(generateVideoFromImage('v1', undefined, settings))).error).toBeUndefined();
+    expect((await settle(generateVideoFromImage('v2', undefined, settings))).error).toContain('Mock video request timed out');
+  });
+
+  it('lets the rate-limit scheduler retry a simulated 429', async () => {
+    const settings = makeSettings({ failEvery: '2' });
+    await settle(generateVideoFromImage('v1', undefined, settings));
+
+    // Request 2 gets a 429; the scheduler backs off and request 3 succeeds
+    const result = await settle(generateVideoFromImage('v2', undefined, settings));
+    expect(result.error).toBeUndefined();
+    expect(result.videoUrl).toMatch(/^data:video\//);
+  });
+});
@@ -0,0 +1,350 @@
+import type { Settings, TarotCard } from '../types';
+import type { ImageGenerationContext, ImageGenerationResult, ImageProvider } from './imageProviders';
+import { debugLog } from './logger';
+import { createSeededRandom, type RandomSource } from './random';
+import { getInterpretationForDeck } from './deckInterpretation';
+import { getCardNumberLabel } from './tarotCards';
+import deckData from '../data/tarot-decks.json';
+
+/**
+ * Deterministic offline provider for development, demos and tests. Images are
+ * placeholder card art drawn from the card metadata and a hash of the prompt;
+ * videos are a short recording of that art. Latency and failures (429s,
+ * timeouts, 5xx) are injected from the provider options so retry and bulk
+ * flows can be exercised without API keys or network access.
+ */
+
+export const MOCK_PROVIDER_ID = 'mock';
+export const MOCK_MODEL_ID = 'mock-placeholder';
+
+export type MockFailureMode = 'rate-limit' | 'timeout' | 'server-error';
+
+export interface MockProviderOptions {
+  latencyMs: number;
+  failEvery: number;         // every Nth request fails; 0 disables injection
+  failureMode: MockFailureMode;
+}
+
+const DEFAULT_LATENCY_MS = 600;
+const CARD_WIDTH = 512;
+const CARD_HEIGHT = 768;
+const VIDEO_DURATION_MS = 2000;
+const VIDEO_FPS = 24;
+
+const requestCounts = { image: 0, video: 0 };
+
+/**
+ * Clears the per-kind request counters used for `failEvery`.
+ */
+export function resetMockGeneration(): void {
+  requestCounts.image = 0;
+  requestCounts.video = 0;
+}
+
+export function getMockProviderOptions(settings?: Settings): MockProviderOptions {
+  const options = settings?.providerOptions?.[MOCK_PROVIDER_ID] || {};
+  const latencyMs = Number.parseInt(options.latencyMs ?? '', 10);
+  const failEvery = Number.parseInt(options.failEvery ?? '', 10);
+  const failureMode = options.failureMode as MockFailureMode;
+  return {
+    latencyMs: Number.isFinite(latencyMs) && latencyMs >= 0 ? latencyMs : DEFAULT_LATENCY_MS,
+    failEvery: Number.isFinite(failEvery) && failEvery > 0 ? failEvery : 0,
+    failureMode: ['rate-limit', 'timeout', 'server-error'].includes(failureMode) ? failureMode : 'rate-limit',
+  };
+}
+
+/** FNV-1a, as 8 hex chars. Same prompt, same art. */
+export function hashPrompt(prompt: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Waits the configured latency, then fails if this request is an injected
+ * failure. Messages mirror the real providers so the UI handles them alike.
+ */
+async function simulateRequest(kind: 'image' | 'video', options: MockProviderOptions): Promise<string | null> {
+  requestCounts[kind] += 1;
+  const shouldFail = options.failEvery > 0 && requestCounts[kind] % options.failEvery === 0;
+
+  if (shouldFail && options.failureMode === 'timeout') {
+    await delay(options.latencyMs * 3);
+    return `Mock ${kind} request timed out after ${options.latencyMs * 3}ms`;
+  }
+  await delay(options.latencyMs);
+  if (!shouldFail) return null;
+  if (options.failureMode === 'server-error') {
+    return `Mock ${kind} request failed: 500 Internal Server Error`;
+  }
+  return `Mock ${kind} request failed: 429 Too Many Requests (rate limit / quota exceeded)`;
+}
+
+// ─── Placeholder art ───
+
+interface PlaceholderArt {
+  title: string;
+  numberLabel: string;
+  deckName: string;
+  hash: string;
+  colors: [string, string];
+  accent: string;
+  points: number;
+  rotation: number;
+}
+
+function describeArt(prompt: string, context?: ImageGenerationContext): PlaceholderArt {
+  const hash = hashPrompt(prompt);
+  const rng: RandomSource = createSeededRandom(hash);
+  const hue = Math.floor(rng() * 360);
+  const card: TarotCard | undefined = context?.card;
+  const interpretation = card && context ? getInterpretationForDeck(card, context.deckType) : undefined;
+  const deckName = deckData.deckTypes?.find((deck) => deck.id === context?.deckType)?.name || context?.deckType || 'Mock deck';
+
+  return {
+    title:
+      interpretation?.pathway || interpretation?.deity || interpretation?.figure || interpretation?.kami ||
+      interpretation?.name || card?.traditional.name || 'Mock Card',
+    numberLabel: card ? getCardNumberLabel(card) : '✦',
+    deckName,
+    hash,
+    colors: [`hsl(${hue}, 55%, 22%)`, `hsl(${(hue + 40 + Math.floor(rng() * 80)) % 360}, 60%, 8%)`],
+    accent: `hsl(${(hue + 180) % 360}, 70%, 65%)`,
+    points: 5 + Math.floor(rng() * 4),
+    rotation: rng() * Math.PI,
+  };
+}
+
+function starPath(cx: number, cy: number, radius: number, points: number, rotation: number): [number, number][] {
+  return Array.from({ length: points * 2 }, (_, i) => {
+    const r = i % 2 === 0 ? radius : radius * 0.45;
+    const angle = rotation + (i * Math.PI) / points;
+    return [cx + Math.cos(angle) * r, cy + Math.sin(angle) * r];
+  });
+}
+
+function wrapTitle(title: string, maxChars = 18): string[] {
+  const lines: string[] = [];
+  for (const word of title.split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last && `${last} ${word}`.length <= maxChars) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  }
+  return lines.slice(0, 3);
+}
+
+function drawArt(ctx: CanvasRenderingContext2D, art: PlaceholderArt): void {
+  const gradient = ctx.createLinearGradient(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  gradient.addColorStop(0, art.colors[0]);
+  gradient.addColorStop(1, art.colors[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  ctx.strokeStyle = '#d4af37';
+  ctx.lineWidth = 6;
+  ctx.strokeRect(18, 18, CARD_WIDTH - 36, CARD_HEIGHT - 36);
+
+  ctx.beginPath();
+  starPath(CARD_WIDTH / 2, 330, 120, art.points, art.rotation).forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+  ctx.closePath();
+  ctx.strokeStyle = art.accent;
+  ctx.lineWidth = 3;
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#d4af37';
+  ctx.font = 'bold 44px serif';
+  ctx.fillText(art.numberLabel, CARD_WIDTH / 2, 90);
+  ctx.fillStyle = '#e8e8e8';
+  ctx.font = 'bold 36px serif';
+  wrapTitle(art.title).forEach((line, i) => ctx.fillText(line, CARD_WIDTH / 2, 540 + i * 42));
+  ctx.font = '20px sans-serif';
+  ctx.fillStyle = 'rgba(232, 232, 232, 0.7)';
+  ctx.fillText(art.deckName, CARD_WIDTH / 2, 690);
+  ctx.font = '16px monospace';
+  ctx.fillText(`MOCK · #${art.hash}`, CARD_WIDTH / 2, 724);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c]!);
+
+// Same layout as drawArt, for environments without a 2D canvas (tests, workers)
+function artToSvg(art: PlaceholderArt): string {
+  const star = starPath(CARD_WIDTH / 2, 330, 120, art.points, art.rotation).map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  const title = wrapTitle(art.title)
+    .map((line, i) => `<text x="256" y="${540 + i * 42}" font-size="36" font-weight="bold" fill="#e8e8e8">${escapeXml(line)}</text>`)
+    .join('');
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" font-family="serif" text-anchor="middle">`,
+    `<defs><linearGradient id="bg" x2="1" y2="1"><stop offset="0" stop-color="${art.colors[0]}"/><stop offset="1" stop-color="${art.colors[1]}"/></linearGradient></defs>`,
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#bg)"/>`,
+    `<rect x="18" y="18" width="${CARD_WIDTH - 36}" height="${CARD_HEIGHT - 36}" fill="none" stroke="#d4af37" stroke-width="6"/>`,
+    `<polygon points="${star}" fill="none" stroke="${art.accent}" stroke-width="3"/>`,
+    `<text x="256" y="90" font-size="44" font-weight="bold" fill="#d4af37">${escapeXml(art.numberLabel)}</text>`,
+    title,
+    `<text x="256" y="690" font-size="20" font-family="sans-serif" fill="#e8e8e8" fill-opacity="0.7">${escapeXml(art.deckName)}</text>`,
+    `<text x="256" y="724" font-size="16" font-family="monospace" fill="#e8e8e8" fill-opacity="0.7">MOCK · #${art.hash}</text>`,
+    '</svg>',
+  ].join('');
+}
+
+// jsdom has no 2D context and logs "not implemented" when asked for one
+function createCanvasContext(): CanvasRenderingContext2D | null {
+  if (typeof document === 'undefined' || typeof navigator === 'undefined' || /jsdom/i.test(navigator.userAgent)) {
+    return null;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  return canvas.getContext('2d');
+}
+
+/**
+ * Placeholder card art as a data URL: a PNG from a canvas in the browser, an
+ * equivalent SVG elsewhere.
+ */
+export function renderPlaceholderCard(prompt: string, context?: ImageGenerationContext): string {
+  const art = describeArt(prompt, context);
+  const ctx = createCanvasContext();
+  if (ctx) {
+    drawArt(ctx, art);
+    return ctx.canvas.toDataURL('image/png');
+  }
+  const bytes = new TextEncoder().encode(artToSvg(art));
+  return `data:image/svg+xml;base64,${btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''))}`;
+}
+
+export async function generateMockImage(
+  prompt: string,
+  _userPhoto: string,
+  settings: Settings,
+  context?: ImageGenerationContext
+): Promise<ImageGenerationResult> {
+  const options = getMockProviderOptions(settings);
+  debugLog('[Mock] image request', { hash: hashPrompt(prompt), card: context?.card.number, ...options });
+  const failure = await simulateRequest('image', options);
+  if (failure) {
+    console.error('[Mock] Image generation error:', failure);
+    return { imageUrl: '', error: failure };
+  }
+  return { imageUrl: renderPlaceholderCard(prompt, context) };
+}
+
+// ─── Fake video ───
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the reference image'));
+    image.src = src;
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Slow zoom over the reference image, recorded from the canvas as WebM
+async function recordPlaceholderVideo(referenceImage: string, ctx: CanvasRenderingContext2D): Promise<string> {
+  const image = await loadImage(referenceImage);
+  const stream = ctx.canvas.captureStream(VIDEO_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+  recorder.start();
+  const frames = Math.round((VIDEO_DURATION_MS / 1000) * VIDEO_FPS);
+  for (let frame = 0; frame <= frames; frame++) {
+    const scale = 1 + (frame / frames) * 0.08;
+    const width = CARD_WIDTH * scale;
+    const height = CARD_HEIGHT * scale;
+    ctx.drawImage(image, (CARD_WIDTH - width) / 2, (CARD_HEIGHT - height) / 2, width, height);
+    await delay(1000 / VIDEO_FPS);
+  }
+  recorder.stop();
+  await stopped;
+  return blobToDataUrl(new Blob(chunks, { type: 'video/webm' }));
+}
+
+/**
+ * Stand-in for Veo. Records a short clip of the reference image where the
+ * browser supports it; otherwise returns a deterministic stub data URL that
+ * is stored, shared and exported like a real video.
+ */
+export async function generateMockVideo(
+  prompt: string,
+  referenceImage: string | undefined,
+  settings?: Settings
+): Promise<{ videoUrl: string; error?: string }> {
+  const options = getMockProviderOptions(settings);
+  const hash = hashPrompt(`${prompt}|${referenceImage ?? ''}`);
+  debugLog('[Mock] video request', { hash, ...options });
+  const failure = await simulateRequest('video', options);
+  if (failure) {
+    console.error('[Mock] Video generation error:', failure);
+    return { videoUrl: '', error: failure };
+  }
+
+  const ctx = createCanvasContext();
+  if (ctx && referenceImage && typeof MediaRecorder !== 'undefined' && 'captureStream' in ctx.canvas) {
+    try {
+      return { videoUrl: await recordPlaceholderVideo(referenceImage, ctx) };
+    } catch (err) {
+      debugLog('[Mock] recording failed, using stub video', err);
+    }
+  }
+  return { videoUrl: `data:video/webm;base64,${btoa(`mock-video:${hash}`)}` };
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: MOCK_PROVIDER_ID,
+  name: 'Mock (Offline placeholder art)',
+  description: 'Deterministic placeholder cards and videos with no API key or network. For development, demos and tests; also handles video generation while selected.',
+  capabilities: {
+    img2img: false,
+    multiReference: false,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [{ id: MOCK_MODEL_ID, label: 'Placeholder art' }],
+  fields: [
+    { id: 'latencyMs', label: 'Simulated latency (ms)', type: 'number', placeholder: String(DEFAULT_LATENCY_MS) },
+    {
+      id: 'failEvery',
+      label: 'Fail every Nth request',
+      type: 'number',
+      placeholder: '0',
+      help: '0 never fails. Counted separately for images and videos.',
+    },
+    {
+      id: 'failureMode',
+      label: 'Injected failure',
+      type: 'select',
+      options: [
+        { value: 'rate-limit', label: '429 rate limit' },
+        { value: 'timeout', label: 'Timeout' },
+        { value: 'server-error', label: '500 server error' },
+      ],
+    },
+  ],
+  isConfigured: () => true,
+  missingConfigMessage: '',
+  generate: generateMockImage,
+  buildRequest: (prompt) => ({
+    endpoint: 'none (drawn in the browser)',
+    body: { prompt, hash: hashPrompt(prompt) },
+    note: 'Placeholder art is drawn from the card metadata and the prompt hash; nothing is sent.',
+  }),
+};
@@ -0,0 +1,164 @@
+import type { Settings } from '../types';
+import type { ImageGenerationResult, ImageProvider } from './imageProviders';
+import { debugLog } from './logger';
+import configData from '../data/tarot-config.json';
+import { applyRequestPrefix } from './promptTemplates';
+
+const DEFAULT_OPENROUTER_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
+
+/**
+ * Endpoint and chat-completions body for a prompt. Shared by generation and
+ * the dry-run preview.
+ */
+export function buildOpenRouterRequest(prompt: string, settings: Settings) {
+  const apiConfig = configData.configuration?.apiInstructions?.openrouter;
+  const requestPrompt = applyRequestPrefix(apiConfig?.requestPrefix || '{PROMPT}', prompt);
+  const fullPrompt = settings.promptSuffix ? `${requestPrompt}${settings.promptSuffix}` : requestPrompt;
+
+  const rawEndpoint = settings.apiEndpoint?.trim() || DEFAULT_OPENROUTER_ENDPOINT;
+  const endpoint = (() => {
+    if (rawEndpoint.startsWith('http://') || rawEndpoint.startsWith('https://')) return rawEndpoint;
+    if (rawEndpoint.startsWith('/')) return rawEndpoint; // relative path for proxy
+    return `https://${rawEndpoint}`;
+  })();
+
+  return {
+    endpoint,
+    body: {
+      model: settings.generationModel,
+      messages: [
+        {
+          role: 'user',
+          content: fullPrompt,
+        },
+      ],
+      modalities: ['image', 'text'],
+    },
+  };
+}
+
+/**
+ * Image URL from a chat-completions response, per OpenRouter docs:
+ * response.choices[0].message.images[0].image_url.url
+ */
+export function extractOpenRouterImageUrl(data: any): string {
+  const images = data.choices?.[0]?.message?.images;
+
+  if (!images || !Array.isArray(images) || images.length === 0) {
+    console.error('[ImageGen] No images in response. Full response:', data);
+    throw new Error('No images in response');
+  }
+
+  const imageUrl = images[0]?.image_url?.url;
+
+  if (!imageUrl || typeof imageUrl !== 'string') {
+    console.error('[ImageGen] Invalid image format. Image object:', images[0]);
+    throw new Error('Invalid image format in response');
+  }
+
+  return imageUrl;
+}
+
+/**
+ * Generate image using OpenRouter API (text-to-image only)
+ */
+export async function generateImageWithOpenRouter(
+  prompt: string,
+  _userPhoto: string,
+  settings: Settings
+): Promise<ImageGenerationResult> {
+  let status: number | undefined;
+  try {
+    if (!settings.apiKey) {
+      throw new Error('API key is required. Please add your OpenRouter API key in settings.');
+    }
+
+    const { endpoint: apiEndpoint, body: requestBody } = buildOpenRouterRequest(prompt, settings);
+
+    debugLog('[OpenRouter] settings.apiEndpoint:', settings.apiEndpoint);
+    debugLog('[OpenRouter] Using endpoint:', apiEndpoint);
+    debugLog('[OpenRouter] Model:', settings.generationModel);
+    debugLog('[OpenRouter] Request body:', requestBody);
+
+    const response = await fetch(apiEndpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${settings.apiKey}`,
+        'Content-Type': 'application/json',
+        'HTTP-Referer': window.location.origin,
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      status = response.status;
+      let errorMessage = `API request failed: ${response.status}`;
+      try {
+        const error = await response.json();
+        if (error?.message) {
+          errorMessage = error.message;
+        }
+      } catch {
+        const text = await response.text();
+        if (text) {
+          errorMessage = `${errorMessage} - ${text}`;
+        }
+      }
+      throw new Error(errorMessage);
+    }
+
+    const data = await response.json();
+
+    debugLog('[ImageGen] Response data:', JSON.stringify(data, null, 2));
+
+    const imageUrl = extractOpenRouterImageUrl(data);
+
+    debugLog('[ImageGen] Successfully extracted image URL (first 50 chars):', imageUrl.substring(0, 50));
+
+    return { imageUrl };
+  } catch (error) {
+    console.error('Image generation error:', error);
+    return {
+      imageUrl: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      status,
+    };
+  }
+}
+
+export const openRouterImageProvider: ImageProvider = {
+  id: 'openrouter',
+  name: 'OpenRouter (Text-to-image only)',
+  description: 'Routes to hosted image models through one OpenRouter key. Your photo is not sent.',
+  capabilities: {
+    img2img: false,
+    multiReference: false,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [
+    { id: 'google/gemini-2.5-flash-image', label: 'Gemini 2.5 Flash - ~$0.003/image (Cheapest)' },
+    { id: 'openai/gpt-5-image-mini', label: 'GPT-5 Image Mini - ~$0.0035/image' },
+    { id: 'google/gemini-3-pro-image-preview', label: 'Gemini 3 Pro - ~$0.013/image (Best Quality)' },
+  ],
+  modelHint: 'Choose the AI model for generating tarot card images. Costs are approximate per image.',
+  fields: [
+    {
+      id: 'apiKey',
+      label: 'OpenRouter API Key',
+      type: 'password',
+      placeholder: 'sk-or-v1-...',
+      secret: true,
+      settingsKey: 'apiKey',
+      help: 'Get your API key from',
+      helpLink: { href: 'https://openrouter.ai/keys', label: 'openrouter.ai' },
+    },
+  ],
+  isConfigured: (settings) => Boolean(settings.apiKey),
+  missingConfigMessage: 'Enter your OpenRouter API key above to enable generation.',
+  generate: generateImageWithOpenRouter,
+  buildRequest: (prompt, _userPhoto, settings) => ({
+    ...buildOpenRouterRequest(prompt, settings),
+    note: 'Text only: your photo and reference images are not sent.',
+  }),
+};
@@ -0,0 +1,148 @@
+/**
+ * Tests for promptTemplates.ts
+ *
+ * Strategy:
+ *   - Real deck data and prompt-templates.json, so the defaults under test are
+ *     the ones that ship
+ *   - Settings are plain `{ promptTemplates }` fixtures
+ *
+ * Scenarios covered:
+ *   validation — allowed placeholders, legacy lowercase names, unbalanced braces
+ *   resolution — overrides win, blank and invalid overrides fall back
+ *   filling    — every occurrence replaced, empty sections leave no gaps,
+ *                provider request wording filled with the same placeholders
+ *   card prompt — default layout, user overrides, cards without a narrative,
+ *                 labelled sections for the dry run
+ */
+
+import { describe, it, expect } from 'vitest';
+import configData from '../data/tarot-config.json';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  REQUEST_PLACEHOLDERS,
+  applyRequestPrefix,
+  buildCardPrompt,
+  composeCardPrompt,
+  fillTemplate,
+  resolvePromptTemplates,
+  validateTemplate,
+} from './promptTemplates';
+import { getCardByNumber } from './tarotCards';
+
+const FOOL = getCardByNumber(0)!;
+const THREE_OF_CUPS = getCardByNumber(38)!;
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+describe('validateTemplate', () => {
+  it('accepts the placeholders listed for the template', () => {
+    expect(validateTemplate('baseTemplate', DEFAULT_PROMPT_TEMPLATES.baseTemplate)).toEqual([]);
+    expect(validateTemplate('loreContextTemplate', DEFAULT_PROMPT_TEMPLATES.loreContextTemplate)).toEqual([]);
+  });
+
+  it('points old lowercase placeholders at their new names', () => {
+    expect(validateTemplate('loreContextTemplate', 'It represents {summary}')).toEqual([
+      'Unknown placeholder {summary}; did you mean {SUMMARY}?',
+    ]);
+  });
+
+  it('rejects placeholders from another template and stray braces', () => {
+    expect(validateTemplate('framingTemplate', 'Border for {SUMMARY}')[0]).toBe(
+      'Unknown placeholder {SUMMARY}; use one of {CARD_NAME}'
+    );
+    expect(validateTemplate('baseTemplate', '{CARD_PROMPT} {FRAMING')).toEqual(['Unbalanced { or } in template']);
+  });
+});
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+describe('resolvePromptTemplates', () => {
+  it('uses valid overrides and falls back for blank or invalid ones', () => {
+    const resolved = resolvePromptTemplates({
+      promptTemplates: {
+        framingTemplate: 'Square card, gold border.',
+        baseTemplate: '{CARD_PROMPT} {OOPS}',
+        loreContextTemplate: '   ',
+      },
+    });
+
+    expect(resolved.framingTemplate).toBe('Square card, gold border.');
+    expect(resolved.baseTemplate).toBe(DEFAULT_PROMPT_TEMPLATES.baseTemplate);
+    expect(resolved.loreContextTemplate).toBe(DEFAULT_PROMPT_TEMPLATES.loreContextTemplate);
+  });
+});
+
+// ─── Filling ─────────────────────────────────────────────────────────────────
+
+describe('fillTemplate', () => {
+  it('replaces every occurrence and closes the gaps left by empty values', () => {
+    expect(fillTemplate('{A} and {A}  {B} {C}', { A: 'x', B: '', C: ' y ' })).toBe('x and x y');
+  });
+});
+
+describe('applyRequestPrefix', () => {
+  it('fills {PROMPT} in the request wording, or appends the prompt', () => {
+    expect(applyRequestPrefix('Draw this: {PROMPT}. Vertical card.', 'The Fool')).toBe('Draw this: The Fool. Vertical card.');
+    expect(applyRequestPrefix('tarot card, ', 'The Fool')).toBe('tarot card, The Fool');
+  });
+
+  it('finds only the shared placeholders in the shipped request wording', () => {
+    const wording = Object.values(configData.configuration.apiInstructions).flatMap((provider) =>
+      Object.entries(provider)
+        .filter(([key, value]) => key !== 'description' && typeof value === 'string')
+        .map(([, value]) => value as string)
+    );
+    const names = wording.flatMap((text) => [...text.matchAll(/\{([^{}]*)\}/g)].map((match) => match[1]));
+
+    expect(names.length).toBeGreaterThan(0);
+    expect(names.every((name) => (REQUEST_PLACEHOLDERS as readonly string[]).includes(name))).toBe(true);
+  });
+});
+
+// ─── Card prompt ─────────────────────────────────────────────────────────────
+
+describe('buildCardPrompt', () => {
+  it('lays out the default sections: card prompt, narrative, tradition, framing, number', () => {
+    const prompt = buildCardPrompt(FOOL, 'traditional-rider-waite', {});
+
+    expect(prompt).toMatch(/^A person standing at the edge of a cliff/);
+    expect(prompt).toContain(' It represents Potential, faith, beginnings');
+    expect(prompt).toContain(' Traditional Rider-Waite symbolism:');
+    expect(prompt).toContain(` ${DEFAULT_PROMPT_TEMPLATES.framingTemplate} `);
+    expect(prompt).toMatch(/Integrate the number 0 into the card design \(corner, frame engraving, or sigil\)\.$/);
+  });
+
+  it('applies the user override for the layout and framing', () => {
+    const prompt = buildCardPrompt(FOOL, 'egyptian-tarot', {
+      promptTemplates: {
+        baseTemplate: '{CARD_NAME}: {FRAMING}',
+        framingTemplate: 'Portrait of {CARD_NAME} in a gold frame.',
+      },
+    });
+
+    expect(prompt).toMatch(/^(.+): Portrait of \1 in a gold frame\.$/);
+  });
+
+  it('leaves the narrative out for cards that have none', () => {
+    const prompt = buildCardPrompt(THREE_OF_CUPS, 'traditional-rider-waite', {});
+
+    expect(prompt).not.toContain('It represents');
+    expect(prompt).toContain('show exactly 3 suit emblems');
+  });
+});
+
+describe('composeCardPrompt', () => {
+  it('labels every section and reports the ones this deck does not use as empty', () => {
+    const { prompt, parts } = composeCardPrompt(FOOL, 'lord-of-mysteries', {});
+
+    expect(prompt).toBe(buildCardPrompt(FOOL, 'lord-of-mysteries', {}));
+    expect(parts.lotm).toMatch(/^LOTM inspiration \(use as flavor only\): Pathway/);
+    expect(parts.tradition).toBe('');
+    expect(parts.deckLore).toBe('');
+    expect(parts.lore).toMatch(/^It represents Potential, faith, beginnings/);
+    expect(parts.cardNumber).toBe('Integrate the number 0 into the card design (corner, frame engraving, or sigil).');
+    for (const section of Object.values(parts).filter(Boolean)) {
+      expect(prompt).toContain(section);
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import type { PromptTemplates, Settings, TarotCard } from '../types';
+import templateDefaults from '../data/prompt-templates.json';
+import { toRoman } from './roman';
+import { traditionalSymbols } from '../data/traditional-symbols';
+import lotmLore from '../data/lotm-lore.json';
+import deckLore from '../data/deck-lore.json';
+import buddhistLore from '../data/buddhist-lore.json';
+import { getInterpretationForDeck } from './deckInterpretation';
+import { describeMinorArcana } from './tarotCards';
+
+/**
+ * Card prompt templates. Defaults live in prompt-templates.json; users override
+ * individual templates through `Settings.promptTemplates`. Placeholders are
+ * `{UPPER_SNAKE}` names from `TEMPLATE_PLACEHOLDERS`, and an override that uses
+ * anything else is ignored in favour of the default, so a typo never reaches
+ * the image API.
+ */
+
+export type PromptTemplateKey = keyof PromptTemplates;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  baseTemplate: templateDefaults.baseTemplate,
+  framingTemplate: templateDefaults.framingTemplate,
+  loreContextTemplate: templateDefaults.loreContextTemplate,
+};
+
+export const TEMPLATE_PLACEHOLDERS: Record<PromptTemplateKey, readonly string[]> = {
+  baseTemplate: ['CARD_PROMPT', 'CARD_NAME', 'DECK_LORE', 'LORE_CONTEXT', 'LOTM', 'TRADITION', 'FRAMING', 'CARD_NUMBER'],
+  loreContextTemplate: ['SUMMARY', 'AXIS', 'FEEL', 'STANCE', 'SCENE', 'QUESTION'],
+  framingTemplate: ['CARD_NAME'],
+};
+
+/** Placeholders of the provider request wording in tarot-config.json `apiInstructions` */
+export const REQUEST_PLACEHOLDERS = ['PROMPT', 'INSTRUCTION'] as const;
+
+/** Templates that make up the card prompt, in the order the editor shows them */
+export const CARD_PROMPT_TEMPLATE_KEYS: PromptTemplateKey[] = ['baseTemplate', 'loreContextTemplate', 'framingTemplate'];
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/** Problems with a template, empty when it is usable */
+export function validateTemplate(key: PromptTemplateKey, template: string): string[] {
+  const allowed = TEMPLATE_PLACEHOLDERS[key];
+  const errors: string[] = [];
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (allowed.includes(name)) continue;
+    const suggestion = allowed.find((candidate) => candidate === name.trim().toUpperCase());
+    errors.push(
+      suggestion
+        ? `Unknown placeholder {${name}}; did you mean {${suggestion}}?`
+        : `Unknown placeholder {${name}}${allowed.length ? `; use one of ${allowed.map((n) => `{${n}}`).join(', ')}` : ''}`
+    );
+  }
+  const stripped = template.replace(PLACEHOLDER_PATTERN, '');
+  if (stripped.includes('{') || stripped.includes('}')) {
+    errors.push('Unbalanced { or } in template');
+  }
+  return errors;
+}
+
+/**
+ * Defaults merged with the user's overrides. Blank or invalid overrides fall
+ * back to the default.
+ */
+export function resolvePromptTemplates(settings: Pick<Settings, 'promptTemplates'>): PromptTemplates {
+  const resolved = { ...DEFAULT_PROMPT_TEMPLATES };
+  const overrides = settings.promptTemplates || {};
+  (Object.keys(resolved) as PromptTemplateKey[]).forEach((key) => {
+    const override = overrides[key];
+    if (override?.trim() && validateTemplate(key, override).length === 0) {
+      resolved[key] = override;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Substitutes every `{NAME}` with its value (missing values become empty) and
+ * tidies the spaces left around empty sections.
+ */
+export function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name]?.trim() ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+function describeCardNumber(card: TarotCard): string {
+  const minor = describeMinorArcana(card);
+  if (minor && card.rank && card.rank <= 10) {
+    // Pips: the count of suit emblems is the card's number
+    return `This is the ${minor.rankName} of ${minor.suitName}: show ${card.rank === 1 ? 'one suit emblem' : `exactly ${card.rank} suit emblems`} (${minor.emblem}) in the composition and integrate the numeral ${card.rank === 1 ? 'A' : toRoman(card.rank)} subtly (corner or border engraving).`;
+  }
+  if (minor) {
+    return `This is the ${minor.rankName} of ${minor.suitName}, a court card: mark it with a small suit emblem (${minor.emblem}) in the corner or border.`;
+  }
+  if (card.number === 0) {
+    return 'Integrate the number 0 into the card design (corner, frame engraving, or sigil).';
+  }
+  return `Integrate the card number ${card.number} (${toRoman(card.number)}) into the design—subtle corner numbering, border engraving, or a small background sigil.`;
+}
+
+function describeTradition(card: TarotCard, deckType: string): string {
+  if (deckType !== 'traditional-rider-waite') return '';
+  const entry = traditionalSymbols.find((e) => e.number === card.number);
+  if (!entry) return '';
+  return `Traditional Rider-Waite symbolism: ${entry.symbols} Archetype: ${entry.archetype}. Astrological/Elemental: ${entry.astro}. Hebrew letter: ${entry.qabalah}. Upright themes: ${entry.upright}. Reversed themes: ${entry.reversed}.`;
+}
+
+function describeLotm(card: TarotCard, deckType: string): string {
+  if (deckType !== 'lord-of-mysteries' && deckType !== 'lord-of-mysteries-masterpiece') return '';
+  const entry = (lotmLore as any).cards?.find((e: any) => e.number === card.number);
+  if (!entry) return '';
+  const status = entry.status ? ` (${entry.status})` : '';
+  return `LOTM inspiration (use as flavor only): Pathway ${entry.pathway}; Seq0 ${entry.deity}. Owner: ${entry.owner}${status}. Visual cues: ${entry.visual}.`;
+}
+
+// Deck-specific lore for Egyptian/Celtic/Shinto/Buddhist
+function describeDeckLore(card: TarotCard, deckType: string): string {
+  const loreEntry = (deckLore as any).cards?.find((e: any) => e.number === card.number);
+  if (!loreEntry) return '';
+  if (deckType === 'egyptian-tarot' && loreEntry.egyptian) {
+    return `Egyptian inspiration (flavor only): ${loreEntry.egyptian.title} — ${loreEntry.egyptian.motif}. Visual: ${loreEntry.egyptian.visual}.`;
+  }
+  if (deckType === 'celtic-tarot' && loreEntry.celtic) {
+    return `Celtic inspiration (flavor only): ${loreEntry.celtic.title} — ${loreEntry.celtic.motif}. Visual: ${loreEntry.celtic.visual}.`;
+  }
+  if (deckType === 'japanese-shinto' && loreEntry.shinto) {
+    return `Shinto inspiration (flavor only): ${loreEntry.shinto.title} — ${loreEntry.shinto.motif}. Visual: ${loreEntry.shinto.visual}.`;
+  }
+  if (deckType === 'buddhist') {
+    const bEntry = (buddhistLore as any).cards?.find((b: any) => b.number === card.number);
+    if (bEntry) return `Buddhist inspiration (flavor only): ${bEntry.title} — ${bEntry.concept}. Visual: ${bEntry.visual}.`;
+  }
+  return '';
+}
+
+/** Sections of a composed card prompt, as filled into the base template */
+export interface CardPromptParts {
+  deckPrompt: string;
+  deckLore: string;
+  lore: string;
+  lotm: string;
+  tradition: string;
+  framing: string;
+  cardNumber: string;
+}
+
+export interface ComposedCardPrompt {
+  prompt: string;
+  parts: CardPromptParts;
+}
+
+/**
+ * The card prompt together with each section that went into it. Sections the
+ * base template leaves out are still reported, so a dry run can show them.
+ * `cardPrompt` is a user-edited wording (see utils/promptVersions) that
+ * replaces the deck's prompt for the card.
+ */
+export function composeCardPrompt(
+  card: TarotCard,
+  deckType: string,
+  settings: Pick<Settings, 'promptTemplates'>,
+  cardPrompt?: string
+): ComposedCardPrompt {
+  const templates = resolvePromptTemplates(settings);
+  const interpretation = getInterpretationForDeck(card, deckType);
+  const cardName = interpretation.name || interpretation.pathway || card.traditional.name;
+
+  // Narrative is stored on the card in tarot-decks.json
+  const narrative = (card as any).narrative;
+  const parts: CardPromptParts = {
+    deckPrompt: cardPrompt?.trim() || interpretation.prompt?.trim() || '',
+    deckLore: describeDeckLore(card, deckType),
+    lore: narrative
+      ? fillTemplate(templates.loreContextTemplate, {
+          SUMMARY: narrative.summary,
+          AXIS: narrative.axis,
+          FEEL: narrative.feel,
+          STANCE: narrative.stance,
+          SCENE: narrative.scene,
+          QUESTION: narrative.question,
+        })
+      : '',
+    lotm: describeLotm(card, deckType),
+    tradition: describeTradition(card, deckType),
+    framing: fillTemplate(templates.framingTemplate, { CARD_NAME: cardName }),
+    cardNumber: describeCardNumber(card),
+  };
+
+  const composed = fillTemplate(templates.baseTemplate, {
+    CARD_PROMPT: parts.deckPrompt,
+    CARD_NAME: cardName,
+    DECK_LORE: parts.deckLore,
+    LORE_CONTEXT: parts.lore,
+    LOTM: parts.lotm,
+    TRADITION: parts.tradition,
+    FRAMING: parts.framing,
+    CARD_NUMBER: parts.cardNumber,
+  });
+
+  return {
+    prompt: composed || `${parts.deckPrompt} ${parts.cardNumber}`.trim(),
+    parts,
+  };
+}
+
+/**
+ * The full image prompt for a card in a deck, before any provider-specific
+ * request prefix (see `applyRequestPrefix`) or the user's prompt suffix
+ */
+export function buildCardPrompt(
+  card: TarotCard,
+  deckType: string,
+  settings: Pick<Settings, 'promptTemplates'>,
+  cardPrompt?: string
+): string {
+  return composeCardPrompt(card, deckType, settings, cardPrompt).prompt;
+}
+
+/**
+ * A provider's request wording from tarot-config.json around a prompt:
+ * `{PROMPT}` is filled in, or the prompt is appended when the wording has none
+ */
+export function applyRequestPrefix(requestPrefix: string, prompt: string): string {
+  return requestPrefix.includes('{PROMPT}') ? fillTemplate(requestPrefix, { PROMPT: prompt }) : `${requestPrefix}${prompt}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for promptVersions.ts
+ *
+ * Strategy:
+ *   - Versions are plain fixtures; nothing touches IndexedDB
+ *   - Real deck data for the fallback to the deck's own prompt
+ *
+ * Scenarios covered:
+ *   versions — numbering per card and deck, unchanged and blank prompts
+ *   prompt   — latest version, then a legacy edited prompt, then the deck
+ *   diff     — word-level changes, identical prompts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard, PromptVersion } from '../types';
+import {
+  createPromptVersion,
+  diffPrompts,
+  getCardPromptVersions,
+  resolveCardPrompt,
+} from './promptVersions';
+import { getCardByNumber } from './tarotCards';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+const FOOL = getCardByNumber(0)!;
+
+function makeVersion(overrides: Partial<PromptVersion> = {}): PromptVersion {
+  return {
+    id: 'version-1',
+    cardNumber: 0,
+    deckType: DECK,
+    version: 1,
+    prompt: 'A fool at the cliff edge',
+    createdAt: 1_000,
+    ...overrides,
+  };
+}
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+describe('createPromptVersion', () => {
+  const versions = [
+    makeVersion({ id: 'b', version: 2, prompt: 'A fool dancing at the cliff edge' }),
+    makeVersion({ id: 'a' }),
+    makeVersion({ id: 'c', deckType: 'egyptian-tarot', version: 5 }),
+  ];
+
+  it('numbers the next version after the latest for the same card and deck', () => {
+    expect(getCardPromptVersions(versions, 0, DECK).map((v) => v.id)).toEqual(['a', 'b']);
+    expect(createPromptVersion(versions, 0, DECK, ' A fool asleep ', 2_000)).toMatchObject({
+      cardNumber: 0,
+      deckType: DECK,
+      version: 3,
+      prompt: 'A fool asleep',
+      createdAt: 2_000,
+    });
+    expect(createPromptVersion(versions, 1, DECK, 'The Magician')?.version).toBe(1);
+  });
+
+  it('adds nothing for a blank prompt or one equal to the latest', () => {
+    expect(createPromptVersion(versions, 0, DECK, '   ')).toBeUndefined();
+    expect(createPromptVersion(versions, 0, DECK, 'A fool dancing at the cliff edge')).toBeUndefined();
+  });
+});
+
+// ─── Current prompt ──────────────────────────────────────────────────────────
+
+describe('resolveCardPrompt', () => {
+  const legacy = { prompt: 'Edited before history existed' } as GeneratedCard;
+
+  it('prefers the latest version, then a legacy edited prompt, then the deck prompt', () => {
+    expect(resolveCardPrompt(FOOL, DECK, [makeVersion()], legacy)).toBe('A fool at the cliff edge');
+    expect(resolveCardPrompt(FOOL, DECK, [], legacy)).toBe('Edited before history existed');
+    expect(resolveCardPrompt(FOOL, DECK, [])).toBe(FOOL.traditional.prompt);
+  });
+});
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+describe('diffPrompts', () => {
+  it('marks removed and added words and keeps the rest', () => {
+    expect(diffPrompts('A fool at the cliff edge', 'A young fool at the misty cliff')).toEqual([
+      { type: 'same', text: 'A' },
+      { type: 'added', text: ' young' },
+      { type: 'same', text: ' fool at the' },
+      { type: 'added', text: ' misty' },
+      { type: 'same', text: ' cliff' },
+      { type: 'removed', text: ' edge' },
+    ]);
+  });
+
+  it('returns one unchanged segment for identical prompts', () => {
+    expect(diffPrompts('Same words', 'Same words')).toEqual([{ type: 'same', text: 'Same words' }]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { GeneratedCard, PromptVersion, TarotCard } from '../types';
+import { getInterpretationForDeck } from './deckInterpretation';
+
+/**
+ * Prompt version history. Every saved edit of a card prompt, and every prompt a
+ * generation actually used, is kept as a numbered `PromptVersion` per card and
+ * deck, so each image in the carousel can be traced to its wording.
+ */
+
+export type PromptDiffSegment = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+/** Versions of one card in one deck, oldest first */
+export function getCardPromptVersions(
+  versions: PromptVersion[],
+  cardNumber: number,
+  deckType: string
+): PromptVersion[] {
+  return versions
+    .filter((v) => v.cardNumber === cardNumber && v.deckType === deckType)
+    .sort((a, b) => a.version - b.version);
+}
+
+export function getLatestPromptVersion(
+  versions: PromptVersion[],
+  cardNumber: number,
+  deckType: string
+): PromptVersion | undefined {
+  const cardVersions = getCardPromptVersions(versions, cardNumber, deckType);
+  return cardVersions[cardVersions.length - 1];
+}
+
+/**
+ * The next version for a card, or undefined when the prompt is blank or the
+ * same as the latest version (saving without changes adds nothing)
+ */
+export function createPromptVersion(
+  versions: PromptVersion[],
+  cardNumber: number,
+  deckType: string,
+  prompt: string,
+  now = Date.now()
+): PromptVersion | undefined {
+  const text = prompt.trim();
+  const latest = getLatestPromptVersion(versions, cardNumber, deckType);
+  if (!text || latest?.prompt === text) return undefined;
+  return {
+    id: crypto.randomUUID(),
+    cardNumber,
+    deckType,
+    version: (latest?.version ?? 0) + 1,
+    prompt: text,
+    createdAt: now,
+  };
+}
+
+/**
+ * The card prompt the next generation uses: the latest saved version, then a
+ * prompt carried on an older generation (before version history), then the
+ * deck's own prompt
+ */
+export function resolveCardPrompt(
+  card: TarotCard,
+  deckType: string,
+  versions: PromptVersion[],
+  existing?: GeneratedCard
+): string {
+  return (
+    getLatestPromptVersion(versions, card.number, deckType)?.prompt ||
+    existing?.prompt ||
+    getInterpretationForDeck(card, deckType).prompt ||
+    ''
+  );
+}
+
+/** Word-level diff from one prompt to another; each word carries the whitespace before it */
+export function diffPrompts(from: string, to: string): PromptDiffSegment[] {
+  const a = from.split(/(?<=\S)(?=\s)/).filter(Boolean);
+  const b = to.split(/(?<=\S)(?=\s)/).filter(Boolean);
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: PromptDiffSegment[] = [];
+  const push = (type: PromptDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+}
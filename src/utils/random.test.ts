@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, generateSeed, getRandomSeed, random, seedRandom } from './random';
+
+const take = (source: () => number, count: number) => Array.from({ length: count }, () => source());
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(take(createSeededRandom('moon'), 20)).toEqual(take(createSeededRandom('moon'), 20));
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(take(createSeededRandom('moon'), 5)).not.toEqual(take(createSeededRandom('sun'), 5));
+  });
+
+  it('stays within [0, 1)', () => {
+    const values = take(createSeededRandom('range'), 5000);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('shared random stream', () => {
+  it('replays from the seed it was given', () => {
+    seedRandom('Replay-Me ');
+    expect(getRandomSeed()).toBe('replay-me');
+    const first = take(random, 10);
+
+    seedRandom('replay-me');
+    expect(take(random, 10)).toEqual(first);
+  });
+
+  it('picks a fresh seed when none is given', () => {
+    const seed = seedRandom();
+    expect(seed).toMatch(/^[a-z2-9]{10}$/);
+    expect(generateSeed()).not.toBe(seed);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Seedable PRNG service. Every random decision in the deck, the draws and the
+ * physics goes through here so a session (or a single reading) can be replayed
+ * from a seed string.
+ */
+
+/** Returns values in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 10;
+
+// xmur3 string hash → 32-bit state for mulberry32
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * Deterministic generator for a seed string (mulberry32). The same seed always
+ * yields the same sequence.
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh, human-shareable seed (no 0/o/1/l to avoid misreading).
+ */
+export function generateSeed(): string {
+  const bytes = new Uint32Array(SEED_LENGTH);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < SEED_LENGTH; i++) bytes[i] = Math.floor(Math.random() * 0xffffffff);
+  }
+  return Array.from(bytes, (b) => SEED_ALPHABET[b % SEED_ALPHABET.length]).join('');
+}
+
+export function normalizeSeed(seed: string): string {
+  return seed.trim().toLowerCase();
+}
+
+let currentSeed = generateSeed();
+let currentSource = createSeededRandom(currentSeed);
+
+/**
+ * Next value from the shared app-wide stream.
+ */
+export function random(): number {
+  return currentSource();
+}
+
+/**
+ * Restart the shared stream from a seed (a fresh one when omitted). Returns the seed in use.
+ */
+export function seedRandom(seed: string = generateSeed()): string {
+  currentSeed = normalizeSeed(seed) || generateSeed();
+  currentSource = createSeededRandom(currentSeed);
+  return currentSeed;
+}
+
+export function getRandomSeed(): string {
+  return currentSeed;
+}
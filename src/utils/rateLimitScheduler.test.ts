@@ -0,0 +1,206 @@
+/**
+ * Tests for rateLimitScheduler.ts
+ *
+ * Strategy:
+ *   - vi.useFakeTimers() (Date included) so pacing and backoff are exact
+ *   - Math.random pinned to 0 so jittered backoff is half the exponential delay
+ *   - requests are plain vi.fn()s returning provider-style results
+ *
+ * Scenarios covered:
+ *   classification — status first, message fallback, per-day quota
+ *   pacing         — burst then RPM spacing, visible "next slot" wait,
+ *                    no pacing for unbudgeted providers
+ *   retries        — 429 and 5xx backoff, retries exhausted, fatal not retried
+ *   daily quota    — cap counted across calls, provider-reported exhaustion,
+ *                    usage in localStorage, reset on a new quota day
+ */
+
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  classifyFailure,
+  describeRateLimitWait,
+  getDailyUsage,
+  getRateLimitWaits,
+  isDailyQuotaError,
+  resetRateLimitScheduler,
+  scheduleRequest,
+  subscribeToRateLimitWaits,
+} from './rateLimitScheduler';
+import type { ImageGenerationResult } from './imageProviders';
+
+vi.mock('./logger', () => ({ debugLog: vi.fn() }));
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const ok = (): Promise<ImageGenerationResult> => Promise.resolve({ imageUrl: 'data:image/png;base64,ok' });
+const fail = (error: string, status?: number): Promise<ImageGenerationResult> =>
+  Promise.resolve({ imageUrl: '', error, status });
+
+// Noon UTC: the same calendar day in Pacific time
+const START = new Date('2026-03-10T12:00:00Z').getTime();
+
+// ─── Setup ──────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(START);
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  resetRateLimitScheduler();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+describe('classifyFailure', () => {
+  it('prefers the HTTP status when known', () => {
+    expect(classifyFailure('Slow down', 429)).toBe('rate-limit');
+    expect(classifyFailure('Bad gateway', 502)).toBe('transient');
+    expect(classifyFailure('Invalid prompt', 400)).toBe('fatal');
+  });
+
+  it('falls back to the message for providers that only surface text', () => {
+    expect(classifyFailure('[429 Too Many Requests] Resource has been exhausted')).toBe('rate-limit');
+    expect(classifyFailure('API rate limit exceeded. Please wait a moment and try again.')).toBe('rate-limit');
+    expect(classifyFailure('Automatic1111 request failed: 503 - loading model')).toBe('transient');
+    expect(classifyFailure('Content blocked by safety filters.')).toBe('fatal');
+  });
+
+  it('recognizes a per-day quota so it is not retried', () => {
+    expect(classifyFailure('Quota exceeded for GenerateRequestsPerDayPerProjectPerModel', 429)).toBe('daily-quota');
+    expect(isDailyQuotaError('Daily quota reached for Veo (10/10 today).')).toBe(true);
+    expect(isDailyQuotaError('Rate limit hit')).toBe(false);
+  });
+});
+
+// ─── Pacing ──────────────────────────────────────────────────────────────────
+
+describe('scheduleRequest: pacing', () => {
+  it('allows the burst, then spaces requests by the RPM budget', async () => {
+    const request = vi.fn(ok);
+
+    await scheduleRequest('gemini', request);
+    await scheduleRequest('gemini', request);
+    expect(request).toHaveBeenCalledTimes(2);
+
+    const third = scheduleRequest('gemini', request);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(getRateLimitWaits()).toEqual([{ providerId: 'gemini', until: START + 6_000, reason: 'pacing' }]);
+    expect(describeRateLimitWait(getRateLimitWaits()[0], START + 1_000)).toBe('Next Gemini slot in 5s');
+
+    await vi.advanceTimersByTimeAsync(6_000);
+    await third;
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(getRateLimitWaits()).toEqual([]);
+  });
+
+  it('notifies subscribers when a wait starts and ends', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToRateLimitWaits(listener);
+
+    await scheduleRequest('veo', ok);
+    const second = scheduleRequest('veo', ok);
+    await vi.runAllTimersAsync();
+    await second;
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not pace providers without a budget', async () => {
+    const request = vi.fn(ok);
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => scheduleRequest('automatic1111', request)));
+
+    expect(request).toHaveBeenCalledTimes(5);
+  });
+});
+
+// ─── Retries ─────────────────────────────────────────────────────────────────
+
+describe('scheduleRequest: retries', () => {
+  it('backs off on a 429 and returns the retried result', async () => {
+    const request = vi.fn<() => Promise<ImageGenerationResult>>()
+      .mockImplementationOnce(() => fail('Too many requests', 429))
+      .mockImplementationOnce(ok);
+
+    const promise = scheduleRequest('openrouter', request);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getRateLimitWaits()[0]).toMatchObject({ providerId: 'openrouter', reason: 'backoff' });
+    expect(describeRateLimitWait(getRateLimitWaits()[0])).toBe('OpenRouter is rate limiting, retrying in 1s');
+
+    await vi.runAllTimersAsync();
+    expect((await promise).imageUrl).toBe('data:image/png;base64,ok');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the last failure once retries are exhausted', async () => {
+    const request = vi.fn(() => fail('Server error', 500));
+
+    const promise = scheduleRequest('comfyui', request);
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.error).toBe('Server error');
+    expect(request).toHaveBeenCalledTimes(3); // default budget: 2 retries
+  });
+
+  it('does not retry fatal errors', async () => {
+    const request = vi.fn(() => fail('Invalid API key', 401));
+
+    const result = await scheduleRequest('gemini', request);
+
+    expect(result.error).toBe('Invalid API key');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─── Daily quota ─────────────────────────────────────────────────────────────
+
+describe('scheduleRequest: daily quota', () => {
+  it('counts requests against the cap and refuses once it is reached', async () => {
+    for (let i = 0; i < 10; i++) {
+      const promise = scheduleRequest('veo', ok);
+      await vi.runAllTimersAsync();
+      await promise;
+    }
+    const request = vi.fn(ok);
+
+    await expect(scheduleRequest('veo', request)).rejects.toThrow('Daily quota reached for Veo (10/10 today)');
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('does not count rate-limited rejections', async () => {
+    const promise = scheduleRequest('veo', () => fail('Rate limit hit', 429));
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(getDailyUsage('veo').used).toBe(0);
+  });
+
+  it('stops a provider for the day when it reports its per-day quota as used', async () => {
+    const result = await scheduleRequest('gemini', () => fail('Quota exceeded: requests per day', 429));
+
+    expect(result.error).toContain('per day');
+    expect(getDailyUsage('gemini').exhausted).toBe(true);
+    await expect(scheduleRequest('gemini', ok)).rejects.toThrow('Daily quota reached for Gemini');
+  });
+
+  it('persists usage to localStorage and resets on the next Pacific day', async () => {
+    await scheduleRequest('veo', ok);
+    expect(JSON.parse(window.localStorage.getItem('tarot:rateLimitUsage')!)).toMatchObject({
+      day: '2026-03-10',
+      counts: { veo: 1 },
+    });
+
+    // Midnight Pacific is 07:00 UTC once daylight time starts (Mar 8, 2026)
+    vi.setSystemTime(new Date('2026-03-11T06:30:00Z'));
+    expect(getDailyUsage('veo').used).toBe(1);
+    vi.setSystemTime(new Date('2026-03-11T07:30:00Z'));
+    expect(getDailyUsage('veo').used).toBe(0);
+  });
+});
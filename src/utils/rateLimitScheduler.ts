@@ -0,0 +1,274 @@
+import { debugLog } from './logger';
+
+/**
+ * Central rate limiting for every generation request. Each provider gets a
+ * token bucket (sustained RPM plus a small burst), an optional daily quota that
+ * survives reloads, and exponential backoff with jitter on 429s and 5xx errors.
+ * Providers make one request per call and never sleep or retry themselves.
+ */
+
+export interface RateLimitBudget {
+  label: string;
+  rpm: number;            // sustained requests per minute; 0 disables pacing
+  burst: number;          // requests allowed back to back before pacing kicks in
+  dailyQuota?: number;    // requests per quota day (midnight Pacific, like Google's quotas)
+  maxRetries: number;     // retries on 429 / 5xx before the failure is returned
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+/** Failed results carry the message and, when the provider knows it, the HTTP status. */
+export interface ScheduledResult {
+  error?: string;
+  status?: number;
+}
+
+export type RequestFailureKind = 'rate-limit' | 'daily-quota' | 'transient' | 'fatal';
+
+export interface RateLimitWait {
+  providerId: string;
+  until: number;
+  reason: 'pacing' | 'backoff';
+}
+
+export const VEO_RATE_LIMIT_ID = 'veo';
+
+export const DAILY_QUOTA_MESSAGE = 'Daily quota reached';
+
+// Free-tier numbers; paid keys allow more, but pacing a little slow only costs time.
+export const RATE_LIMIT_BUDGETS: Record<string, RateLimitBudget> = {
+  gemini: { label: 'Gemini', rpm: 10, burst: 2, maxRetries: 3, baseBackoffMs: 2_000, maxBackoffMs: 60_000 },
+  openrouter: { label: 'OpenRouter', rpm: 20, burst: 3, maxRetries: 3, baseBackoffMs: 2_000, maxBackoffMs: 60_000 },
+  [VEO_RATE_LIMIT_ID]: {
+    label: 'Veo',
+    rpm: 2,
+    burst: 1,
+    dailyQuota: 10,
+    maxRetries: 2,
+    baseBackoffMs: 5_000,
+    maxBackoffMs: 120_000,
+  },
+};
+
+// Local backends and the mock provider: no pacing, a couple of retries on 5xx.
+const DEFAULT_BUDGET: Omit<RateLimitBudget, 'label'> = {
+  rpm: 0,
+  burst: 1,
+  maxRetries: 2,
+  baseBackoffMs: 1_000,
+  maxBackoffMs: 30_000,
+};
+
+const USAGE_STORAGE_KEY = 'tarot:rateLimitUsage';
+
+type DailyUsage = {
+  day: string;
+  counts: Record<string, number>;
+  exhausted: string[];   // providers that reported their per-day quota as used up
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const buckets = new Map<string, Bucket>();
+const waits = new Map<string, RateLimitWait>();
+const listeners = new Set<() => void>();
+let waitSnapshot: RateLimitWait[] = [];
+let usage: DailyUsage | null = null;
+
+export function getRateLimitBudget(providerId: string): RateLimitBudget {
+  return RATE_LIMIT_BUDGETS[providerId] ?? { label: providerId, ...DEFAULT_BUDGET };
+}
+
+/**
+ * Prefers the HTTP status; falls back to the message for providers (like the
+ * Gemini SDK) that only surface text.
+ */
+export function classifyFailure(message: string, status?: number): RequestFailureKind {
+  const text = message.toLowerCase();
+  if (/per ?day/.test(text) && /quota|limit|exhausted/.test(text)) return 'daily-quota';
+  if (status === 429 || /\b429\b|too many requests|rate limit|quota|resource[_ ]exhausted/.test(text)) {
+    return 'rate-limit';
+  }
+  if ((status !== undefined && status >= 500) || /\b50[0234]\b|service unavailable|internal server error|overloaded/.test(text)) {
+    return 'transient';
+  }
+  return 'fatal';
+}
+
+export function isDailyQuotaError(message: string | undefined): boolean {
+  return Boolean(message?.includes(DAILY_QUOTA_MESSAGE));
+}
+
+// ─── Daily usage ─────────────────────────────────────────────────────────────
+
+function quotaDay(now: number): string {
+  return new Date(now).toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+function loadUsage(now: number): DailyUsage {
+  const day = quotaDay(now);
+  if (!usage) {
+    try {
+      const stored = typeof window !== 'undefined' ? window.localStorage.getItem(USAGE_STORAGE_KEY) : null;
+      usage = stored ? (JSON.parse(stored) as DailyUsage) : null;
+    } catch {
+      usage = null;
+    }
+  }
+  if (!usage || usage.day !== day) {
+    usage = { day, counts: {}, exhausted: [] };
+  }
+  return usage;
+}
+
+function saveUsage(next: DailyUsage): void {
+  usage = next;
+  try {
+    if (typeof window !== 'undefined') window.localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // storage full or disabled: the in-memory count still protects this session
+  }
+}
+
+export function getDailyUsage(providerId: string, now = Date.now()): { used: number; limit?: number; exhausted: boolean } {
+  const current = loadUsage(now);
+  const limit = getRateLimitBudget(providerId).dailyQuota;
+  const used = current.counts[providerId] ?? 0;
+  return { used, limit, exhausted: current.exhausted.includes(providerId) || (limit !== undefined && used >= limit) };
+}
+
+function recordRequest(providerId: string, now: number): void {
+  const current = loadUsage(now);
+  saveUsage({ ...current, counts: { ...current.counts, [providerId]: (current.counts[providerId] ?? 0) + 1 } });
+}
+
+function markExhausted(providerId: string, now: number): void {
+  const current = loadUsage(now);
+  if (!current.exhausted.includes(providerId)) {
+    saveUsage({ ...current, exhausted: [...current.exhausted, providerId] });
+  }
+}
+
+// ─── Pacing and waits ────────────────────────────────────────────────────────
+
+/**
+ * Takes a token and returns how long to wait for it. The bucket may go negative:
+ * that reserves a slot in line, so concurrent callers queue up instead of racing.
+ */
+function reserveSlot(providerId: string, budget: RateLimitBudget, now: number): number {
+  if (budget.rpm <= 0) return 0;
+  const ratePerMs = budget.rpm / 60_000;
+  const bucket = buckets.get(providerId) ?? { tokens: budget.burst, updatedAt: now };
+  bucket.tokens = Math.min(budget.burst, bucket.tokens + (now - bucket.updatedAt) * ratePerMs) - 1;
+  bucket.updatedAt = now;
+  buckets.set(providerId, bucket);
+  return bucket.tokens >= 0 ? 0 : Math.ceil(-bucket.tokens / ratePerMs);
+}
+
+// A 429 means the provider's window is tighter than our bucket thinks.
+function drainBucket(providerId: string, now: number): void {
+  const bucket = buckets.get(providerId);
+  if (bucket) {
+    bucket.tokens = Math.min(bucket.tokens, 0);
+    bucket.updatedAt = now;
+  }
+}
+
+// Equal jitter: half the exponential delay is fixed, half random. Uses
+// Math.random rather than the seeded stream so retries never shift replayed draws.
+function backoffDelay(budget: RateLimitBudget, attempt: number): number {
+  const exponential = Math.min(budget.maxBackoffMs, budget.baseBackoffMs * 2 ** attempt);
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
+
+function notify(): void {
+  waitSnapshot = [...waits.values()];
+  listeners.forEach((listener) => listener());
+}
+
+async function waitFor(providerId: string, ms: number, reason: RateLimitWait['reason']): Promise<void> {
+  if (ms <= 0) return;
+  const wait: RateLimitWait = { providerId, until: Date.now() + ms, reason };
+  waits.set(providerId, wait);
+  notify();
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  if (waits.get(providerId) === wait) {
+    waits.delete(providerId);
+    notify();
+  }
+}
+
+export function getRateLimitWaits(): RateLimitWait[] {
+  return waitSnapshot;
+}
+
+export function subscribeToRateLimitWaits(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function describeRateLimitWait(wait: RateLimitWait, now = Date.now()): string {
+  const { label } = getRateLimitBudget(wait.providerId);
+  const seconds = Math.max(0, Math.ceil((wait.until - now) / 1000));
+  return wait.reason === 'pacing'
+    ? `Next ${label} slot in ${seconds}s`
+    : `${label} is rate limiting, retrying in ${seconds}s`;
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────────────
+
+/**
+ * Runs `request` when the provider's budget allows and retries 429s and 5xx
+ * with backoff. Failures come back as the provider's own result; only a used-up
+ * daily quota throws, before any request is sent.
+ */
+export async function scheduleRequest<T extends ScheduledResult>(
+  providerId: string,
+  request: () => Promise<T>
+): Promise<T> {
+  const budget = getRateLimitBudget(providerId);
+
+  for (let attempt = 0; ; attempt++) {
+    const quota = getDailyUsage(providerId);
+    if (quota.exhausted) {
+      const count = quota.limit !== undefined ? ` (${quota.used}/${quota.limit} today)` : '';
+      throw new Error(`${DAILY_QUOTA_MESSAGE} for ${budget.label}${count}. It resets at midnight Pacific time.`);
+    }
+
+    await waitFor(providerId, reserveSlot(providerId, budget, Date.now()), 'pacing');
+    const result = await request();
+    const failure = result.error ? classifyFailure(result.error, result.status) : undefined;
+
+    // Rejected requests do not count against the daily quota.
+    if (failure !== 'rate-limit' && failure !== 'daily-quota') recordRequest(providerId, Date.now());
+
+    if (!failure) return result;
+    if (failure === 'daily-quota') {
+      markExhausted(providerId, Date.now());
+      return result;
+    }
+    if (failure === 'fatal' || attempt >= budget.maxRetries) return result;
+
+    if (failure === 'rate-limit') drainBucket(providerId, Date.now());
+    const delay = backoffDelay(budget, attempt);
+    debugLog(`[RateLimit] ${budget.label} ${failure} (attempt ${attempt + 1}), retrying in ${delay}ms:`, result.error);
+    await waitFor(providerId, delay, 'backoff');
+  }
+}
+
+/**
+ * Clears buckets, waits and today's usage (tests).
+ */
+export function resetRateLimitScheduler(): void {
+  buckets.clear();
+  waits.clear();
+  usage = null;
+  try {
+    if (typeof window !== 'undefined') window.localStorage.removeItem(USAGE_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+  notify();
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { DrawnCard, Reading } from '../types';
+import { countCardAppearances, dateInputToTimestamp, filterReadings } from './readingJournal';
+
+const makeReading = (id: string, timestamp: number, cards: Array<[number, DrawnCard['orientation']]>): Reading => ({
+  id,
+  spread: { id: 'custom', name: 'Custom', description: '', positions: [] },
+  deckType: 'traditional-rider-waite',
+  cards: cards.map(([cardNumber, orientation], index) => ({ positionId: `position-${index + 1}`, cardNumber, orientation })),
+  timestamp,
+});
+
+const readings = [
+  makeReading('a', 1_000, [[0, 'upright'], [13, 'reversed']]),
+  makeReading('b', 3_000, [[13, 'upright']]),
+  makeReading('c', 2_000, [[7, 'reversed'], [0, 'reversed']]),
+];
+
+describe('filterReadings', () => {
+  it('returns every reading newest first without a filter', () => {
+    expect(filterReadings(readings).map((r) => r.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('keeps only readings that drew the card', () => {
+    expect(filterReadings(readings, { cardNumber: 13 }).map((r) => r.id)).toEqual(['b', 'a']);
+  });
+
+  it('treats the date range as inclusive on both ends', () => {
+    expect(filterReadings(readings, { from: 2_000, to: 3_000 }).map((r) => r.id)).toEqual(['b', 'c']);
+    expect(filterReadings(readings, { cardNumber: 0, to: 1_000 }).map((r) => r.id)).toEqual(['a']);
+  });
+});
+
+describe('countCardAppearances', () => {
+  it('counts draws and reversals per card, most frequent first', () => {
+    expect(countCardAppearances(readings)).toEqual([
+      { cardNumber: 0, count: 2, reversedCount: 1 },
+      { cardNumber: 13, count: 2, reversedCount: 1 },
+      { cardNumber: 7, count: 1, reversedCount: 1 },
+    ]);
+  });
+});
+
+describe('dateInputToTimestamp', () => {
+  it('maps a date input to the start or end of that local day', () => {
+    const start = dateInputToTimestamp('2026-03-05')!;
+    const end = dateInputToTimestamp('2026-03-05', true)!;
+    expect(new Date(start).getHours()).toBe(0);
+    expect(end - start).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+
+  it('ignores empty or invalid values', () => {
+    expect(dateInputToTimestamp('')).toBeUndefined();
+    expect(dateInputToTimestamp('not-a-date')).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import type { Reading } from '../types';
+
+export type JournalFilter = {
+  cardNumber?: number;
+  from?: number; // inclusive timestamp
+  to?: number;   // inclusive timestamp
+};
+
+export type CardAppearance = {
+  cardNumber: number;
+  count: number;
+  reversedCount: number;
+};
+
+/**
+ * Readings matching the filter, newest first.
+ */
+export function filterReadings(readings: Reading[], filter: JournalFilter = {}): Reading[] {
+  return readings
+    .filter((reading) => {
+      if (filter.from !== undefined && reading.timestamp < filter.from) return false;
+      if (filter.to !== undefined && reading.timestamp > filter.to) return false;
+      if (filter.cardNumber !== undefined && !reading.cards.some((c) => c.cardNumber === filter.cardNumber)) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * How often each card was drawn across the given readings, most frequent first.
+ */
+export function countCardAppearances(readings: Reading[]): CardAppearance[] {
+  const counts = new Map<number, CardAppearance>();
+  readings.forEach((reading) => {
+    reading.cards.forEach(({ cardNumber, orientation }) => {
+      const entry = counts.get(cardNumber) ?? { cardNumber, count: 0, reversedCount: 0 };
+      entry.count += 1;
+      if (orientation === 'reversed') entry.reversedCount += 1;
+      counts.set(cardNumber, entry);
+    });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.cardNumber - b.cardNumber);
+}
+
+/**
+ * Convert a `YYYY-MM-DD` date input value to the start (or end) of that local day.
+ */
+export function dateInputToTimestamp(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
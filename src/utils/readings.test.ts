@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { TarotCard } from '../types';
+import {
+  BUILT_IN_SPREADS,
+  createCustomSpread,
+  drawCardsForSpread,
+  drawOrientation,
+  getAvailableSpreads,
+} from './readings';
+import { createSeededRandom } from './random';
+
+const makeDeck = (size: number) =>
+  Array.from({ length: size }, (_, number) => ({ number }) as TarotCard);
+
+const spreadById = (id: string) => BUILT_IN_SPREADS.find((s) => s.id === id)!;
+
+describe('built-in spreads', () => {
+  it('ships single card, three-card and Celtic Cross spreads', () => {
+    expect(spreadById('single-card').positions).toHaveLength(1);
+    expect(spreadById('past-present-future').positions.map((p) => p.name)).toEqual(['Past', 'Present', 'Future']);
+    expect(spreadById('celtic-cross').positions).toHaveLength(10);
+  });
+
+  it('appends custom spreads after the built-ins', () => {
+    const custom = createCustomSpread('Mine', ['A']);
+    const all = getAvailableSpreads([custom]);
+    expect(all).toHaveLength(BUILT_IN_SPREADS.length + 1);
+    expect(all[all.length - 1]).toBe(custom);
+  });
+});
+
+describe('drawCardsForSpread', () => {
+  it('draws one distinct card per position', () => {
+    const drawn = drawCardsForSpread(makeDeck(22), spreadById('celtic-cross'));
+    expect(drawn).toHaveLength(10);
+    expect(new Set(drawn.map((d) => d.cardNumber)).size).toBe(10);
+    expect(drawn.map((d) => d.positionId)).toEqual(spreadById('celtic-cross').positions.map((p) => p.id));
+  });
+
+  it('uses the supplied random source', () => {
+    const drawn = drawCardsForSpread(makeDeck(22), spreadById('past-present-future'), () => 0);
+    expect(drawn.map((d) => d.cardNumber)).toEqual([0, 1, 2]);
+  });
+
+  it('never picks out of range when random returns values close to 1', () => {
+    const drawn = drawCardsForSpread(makeDeck(3), spreadById('past-present-future'), () => 0.999999);
+    expect(drawn.map((d) => d.cardNumber).sort()).toEqual([0, 1, 2]);
+  });
+
+  it('records an orientation for every drawn card', () => {
+    const drawn = drawCardsForSpread(makeDeck(22), spreadById('past-present-future'), () => 0);
+    expect(drawn.map((d) => d.orientation)).toEqual(['reversed', 'reversed', 'reversed']);
+  });
+
+  it('draws everything upright when reversals are off', () => {
+    const drawn = drawCardsForSpread(makeDeck(22), spreadById('celtic-cross'), () => 0, false);
+    expect(drawn.every((d) => d.orientation === 'upright')).toBe(true);
+  });
+
+  it('replays the same reading from the same seed', () => {
+    const spread = spreadById('celtic-cross');
+    const first = drawCardsForSpread(makeDeck(22), spread, createSeededRandom('tower'));
+    const replay = drawCardsForSpread(makeDeck(22), spread, createSeededRandom('tower'));
+    expect(replay).toEqual(first);
+  });
+
+  it('lands the same cards for a seed whether or not reversals are enabled', () => {
+    const spread = spreadById('celtic-cross');
+    const withReversals = drawCardsForSpread(makeDeck(22), spread, createSeededRandom('star'), true);
+    const uprightOnly = drawCardsForSpread(makeDeck(22), spread, createSeededRandom('star'), false);
+    expect(uprightOnly.map((d) => d.cardNumber)).toEqual(withReversals.map((d) => d.cardNumber));
+  });
+
+  it('rejects spreads larger than the deck', () => {
+    expect(() => drawCardsForSpread(makeDeck(3), spreadById('celtic-cross'))).toThrow(/needs 10 cards/);
+  });
+});
+
+describe('drawOrientation', () => {
+  it('splits the random range evenly between reversed and upright', () => {
+    expect(drawOrientation(() => 0.49)).toBe('reversed');
+    expect(drawOrientation(() => 0.5)).toBe('upright');
+  });
+
+  it('does not consume randomness when reversals are off', () => {
+    let calls = 0;
+    expect(drawOrientation(() => { calls += 1; return 0; }, false)).toBe('upright');
+    expect(calls).toBe(0);
+  });
+});
+
+describe('createCustomSpread', () => {
+  it('names positions and lays them out in rows of five', () => {
+    const spread = createCustomSpread('  Career  ', ['Now', ' ', 'Obstacle', 'Ally', 'Advice', 'Risk', 'Result']);
+    expect(spread.name).toBe('Career');
+    expect(spread.custom).toBe(true);
+    expect(spread.positions).toHaveLength(6);
+    expect(spread.positions[4]).toMatchObject({ name: 'Risk', column: 5, row: 1 });
+    expect(spread.positions[5]).toMatchObject({ name: 'Result', column: 1, row: 2 });
+  });
+
+  it('requires a name and at least one position', () => {
+    expect(() => createCustomSpread('', ['A'])).toThrow();
+    expect(() => createCustomSpread('Empty', ['  '])).toThrow();
+  });
+});
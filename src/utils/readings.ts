@@ -0,0 +1,81 @@
+import { random, type RandomSource } from './random';
+import type { CardOrientation, DrawnCard, SpreadDefinition, SpreadPosition, TarotCard } from '../types';
+import spreadData from '../data/tarot-spreads.json';
+
+export const BUILT_IN_SPREADS = spreadData.spreads as SpreadDefinition[];
+
+const CUSTOM_SPREAD_COLUMNS = 5;
+
+export function getAvailableSpreads(customSpreads: SpreadDefinition[] = []): SpreadDefinition[] {
+  return [...BUILT_IN_SPREADS, ...customSpreads];
+}
+
+/**
+ * Upright or reversed with even odds; always upright when reversals are off.
+ */
+export function drawOrientation(rng: RandomSource = random, allowReversals = true): CardOrientation {
+  if (!allowReversals) return 'upright';
+  return rng() < 0.5 ? 'reversed' : 'upright';
+}
+
+/**
+ * Draw one distinct card per spread position (partial Fisher–Yates shuffle),
+ * each with its own orientation. Cards are picked before orientations so the
+ * same seed lands the same cards whether or not reversals are enabled.
+ */
+export function drawCardsForSpread(
+  cards: TarotCard[],
+  spread: SpreadDefinition,
+  rng: RandomSource = random,
+  allowReversals = true
+): DrawnCard[] {
+  if (spread.positions.length === 0) {
+    throw new Error(`Spread "${spread.name}" has no positions`);
+  }
+  if (spread.positions.length > cards.length) {
+    throw new Error(
+      `Spread "${spread.name}" needs ${spread.positions.length} cards but the deck only has ${cards.length}`
+    );
+  }
+
+  const pool = cards.map((card) => card.number);
+  const picks = spread.positions.map((_, index) => {
+    const pick = index + Math.floor(rng() * (pool.length - index));
+    [pool[index], pool[pick]] = [pool[pick], pool[index]];
+    return pool[index];
+  });
+  return spread.positions.map((position, index) => ({
+    positionId: position.id,
+    cardNumber: picks[index],
+    orientation: drawOrientation(rng, allowReversals),
+  }));
+}
+
+/**
+ * Build a user-defined spread from position names, laid out in rows of five.
+ */
+export function createCustomSpread(name: string, positionNames: string[]): SpreadDefinition {
+  const trimmedName = name.trim();
+  const names = positionNames.map((n) => n.trim()).filter(Boolean);
+  if (!trimmedName) {
+    throw new Error('Give the spread a name.');
+  }
+  if (names.length === 0) {
+    throw new Error('Add at least one position to the spread.');
+  }
+
+  const positions: SpreadPosition[] = names.map((positionName, index) => ({
+    id: `position-${index + 1}`,
+    name: positionName,
+    column: (index % CUSTOM_SPREAD_COLUMNS) + 1,
+    row: Math.floor(index / CUSTOM_SPREAD_COLUMNS) + 1,
+  }));
+
+  return {
+    id: `custom-${Date.now()}`,
+    name: trimmedName,
+    description: `${positions.length}-card custom spread`,
+    positions,
+    custom: true,
+  };
+}
@@ -0,0 +1,142 @@
+import type { Settings } from '../types';
+import type {
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderModel,
+  ImageProviderRequest,
+} from './imageProviders';
+import { buildGeminiRequest, extractGeminiImageUrl, geminiImageProvider } from './geminiImageGeneration';
+import { buildOpenRouterRequest, extractOpenRouterImageUrl, openRouterImageProvider } from './openRouterImageGeneration';
+import { debugLog } from './logger';
+
+/**
+ * Server-managed keys: requests are built in the browser exactly as for Gemini
+ * Direct or OpenRouter, then sent to this app's own `/api/provider/*` routes,
+ * which add the deployment's provider keys. The browser only holds a per-user
+ * access token issued by whoever runs the deployment.
+ */
+
+export const SERVER_PROVIDER_ID = 'server';
+export const SERVER_IMAGE_ENDPOINT = '/api/provider/image';
+export const SERVER_VIDEO_ENDPOINT = '/api/provider/video';
+
+export function getServerAccessToken(settings: Settings): string {
+  return settings.providerSecrets?.[SERVER_PROVIDER_ID]?.accessToken || '';
+}
+
+export function serverAuthHeaders(settings: Settings): Record<string, string> {
+  return { Authorization: `Bearer ${getServerAccessToken(settings)}` };
+}
+
+/** Reads the proxy's own errors as well as the provider errors it passes through */
+export function readServerError(data: any, status: number): string {
+  const message = data?.error?.message || (typeof data?.error === 'string' ? data.error : '') || data?.message;
+  if (status === 401) return 'The server rejected your access token. Check it in Settings.';
+  return message ? String(message) : `Server request failed: ${status}`;
+}
+
+// OpenRouter model ids are vendor-prefixed (`google/...`); Gemini ids are bare
+function upstreamFor(model: string): 'gemini' | 'openrouter' {
+  return model.includes('/') ? 'openrouter' : 'gemini';
+}
+
+/** A model offered through the proxy, with what its upstream can actually take */
+function proxiedModel(model: ImageProviderModel, upstreamLabel: string): ImageProviderModel {
+  const upstream = upstreamFor(model.id) === 'gemini' ? geminiImageProvider : openRouterImageProvider;
+  return { ...model, label: `${upstreamLabel} · ${model.label}`, capabilities: upstream.capabilities };
+}
+
+export function buildServerImageRequest(prompt: string, userPhoto: string, settings: Settings): ImageProviderRequest {
+  const model = settings.generationModel;
+  const provider = upstreamFor(model);
+  const body =
+    provider === 'gemini'
+      ? buildGeminiRequest(prompt, userPhoto, settings).payload
+      : buildOpenRouterRequest(prompt, settings).body;
+  return {
+    endpoint: SERVER_IMAGE_ENDPOINT,
+    body: { provider, model, body },
+    note:
+      provider === 'openrouter'
+        ? 'Text only: your photo and reference images are not sent.'
+        : 'The server adds its Gemini key before forwarding.',
+  };
+}
+
+export async function generateImageWithServerKeys(
+  prompt: string,
+  userPhoto: string,
+  settings: Settings
+): Promise<ImageGenerationResult> {
+  let status: number | undefined;
+  try {
+    if (!getServerAccessToken(settings)) {
+      throw new Error('An access token is required. Ask the site owner for one and add it in settings.');
+    }
+
+    const request = buildServerImageRequest(prompt, userPhoto, settings);
+    const { provider } = request.body as { provider: 'gemini' | 'openrouter' };
+    debugLog('[ServerKeys] Model:', settings.generationModel, 'via', provider);
+
+    const response = await fetch(request.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...serverAuthHeaders(settings) },
+      body: JSON.stringify(request.body),
+    });
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      status = response.status;
+      throw new Error(readServerError(data, response.status));
+    }
+
+    if (provider === 'openrouter') {
+      return { imageUrl: extractOpenRouterImageUrl(data) };
+    }
+    const imageUrl = extractGeminiImageUrl(data ?? {});
+    if (!imageUrl) {
+      throw new Error('No image data in Gemini response. The model may not support image generation or the prompt was rejected.');
+    }
+    return { imageUrl };
+  } catch (error) {
+    console.error('[ServerKeys] Image generation error:', error);
+    return {
+      imageUrl: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      status,
+    };
+  }
+}
+
+export const serverManagedImageProvider: ImageProvider = {
+  id: SERVER_PROVIDER_ID,
+  name: 'Server-managed keys (No API key needed)',
+  description: "Generates through this site's server with its own provider keys. You only need an access token.",
+  capabilities: {
+    img2img: true,
+    multiReference: true,
+    sizes: [],
+    aspectRatios: ['2:3'],
+  },
+  models: [
+    ...geminiImageProvider.models.map((model) => proxiedModel(model, 'Gemini')),
+    ...openRouterImageProvider.models.map((model) => proxiedModel(model, 'OpenRouter')),
+  ],
+  modelHint: 'Gemini models use your photo as reference; OpenRouter models are text-to-image only. Video uses the server key too.',
+  fields: [
+    {
+      id: 'accessToken',
+      label: 'Access Token',
+      type: 'password',
+      placeholder: 'Token from the site owner',
+      secret: true,
+      help: 'Issued by whoever runs this deployment (PROVIDER_PROXY_TOKENS on the server).',
+    },
+  ],
+  isConfigured: (settings) => Boolean(getServerAccessToken(settings)),
+  missingConfigMessage: 'Enter your access token above to generate with the server-managed keys.',
+  // The proxy forwards to the upstream's rate limits, so pace under its budget
+  rateLimitId: (settings) => upstreamFor(settings.generationModel),
+  generate: generateImageWithServerKeys,
+  buildRequest: buildServerImageRequest,
+};
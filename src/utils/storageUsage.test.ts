@@ -0,0 +1,113 @@
+/**
+ * Tests for storageUsage.ts
+ *
+ * Strategy:
+ *   - Cards are plain fixtures with `media:` refs; sizes are a hash → bytes map
+ *   - The hash lookup is a stand-in for mediaStore's getMediaHash
+ *
+ * Scenarios covered:
+ *   usage   — shared content counted once, inline data URLs measured, remote
+ *             links free, largest cards first
+ *   cleanup — keep the latest N per card, video purge removes or strips
+ *   format  — byte units
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard } from '../types';
+import { formatBytes, selectOlderGenerations, selectVideoPurge, summarizeStorage } from './storageUsage';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'traditional-rider-waite';
+const SIZES = { img0: 1_000, img1: 2_000, vid0: 50_000 };
+const getHash = (url: string) => (url.startsWith('media:') ? url.slice('media:'.length) : undefined);
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return {
+    cardNumber: 0,
+    deckType: DECK,
+    timestamp: 1_000,
+    frames: ['media:img0'],
+    gifUrl: 'media:img0',
+    shared: false,
+    source: 'local',
+    ...overrides,
+  };
+}
+
+// ─── Usage ───────────────────────────────────────────────────────────────────
+
+describe('summarizeStorage', () => {
+  it('counts content shared by the gif and a video record once', () => {
+    const cards = [
+      makeCard(),
+      makeCard({ timestamp: 2_000, videoUrl: 'media:vid0' }),
+      makeCard({ cardNumber: 1, timestamp: 3_000, frames: ['media:img1'], gifUrl: 'media:img1' }),
+    ];
+
+    const usage = summarizeStorage(cards, SIZES, getHash);
+
+    expect(usage.total).toBe(53_000);
+    expect(usage.byKind).toEqual({ image: 3_000, gif: 0, video: 50_000 });
+    expect(usage.byDeck).toEqual({ [DECK]: 53_000 });
+    expect(usage.byCard).toEqual([
+      { deckType: DECK, cardNumber: 0, bytes: 51_000, generations: 2 },
+      { deckType: DECK, cardNumber: 1, bytes: 2_000, generations: 1 },
+    ]);
+  });
+
+  it('measures inline data URLs and gives remote links no local size', () => {
+    const cards = [
+      makeCard({ frames: ['data:image/png;base64,YWJj'], gifUrl: undefined }),
+      makeCard({ deckType: 'egyptian-tarot', frames: ['https://example.com/a.png'], gifUrl: undefined }),
+    ];
+
+    const usage = summarizeStorage(cards, SIZES, getHash);
+
+    expect(usage.total).toBe(3);
+    expect(usage.byDeck).toEqual({ [DECK]: 3, 'egyptian-tarot': 0 });
+  });
+});
+
+// ─── Cleanup ─────────────────────────────────────────────────────────────────
+
+describe('selectOlderGenerations', () => {
+  it('keeps the newest generations of each card and deck', () => {
+    const cards = [
+      makeCard({ timestamp: 1 }),
+      makeCard({ timestamp: 3 }),
+      makeCard({ timestamp: 2 }),
+      makeCard({ cardNumber: 1, timestamp: 4 }),
+      makeCard({ deckType: 'egyptian-tarot', timestamp: 5 }),
+    ];
+
+    expect(selectOlderGenerations(cards, 1).map((c) => c.timestamp)).toEqual([2, 1]);
+    expect(selectOlderGenerations(cards, 2).map((c) => c.timestamp)).toEqual([1]);
+  });
+});
+
+describe('selectVideoPurge', () => {
+  it('removes video records whose image is kept elsewhere and strips the video from the rest', () => {
+    const cards = [
+      makeCard({ timestamp: 1 }),
+      makeCard({ timestamp: 2, videoUrl: 'media:vid0' }),
+      makeCard({ cardNumber: 1, timestamp: 3, frames: ['media:img1'], videoUrl: 'media:vid1' }),
+      makeCard({ deckType: 'egyptian-tarot', timestamp: 4, videoUrl: 'media:vid2' }),
+    ];
+
+    const purge = selectVideoPurge(cards, DECK);
+
+    expect(purge.remove).toEqual([2]);
+    expect(purge.strip.map((c) => c.timestamp)).toEqual([3]);
+  });
+});
+
+// ─── Format ──────────────────────────────────────────────────────────────────
+
+describe('formatBytes', () => {
+  it('picks a unit that keeps the number short', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1_536)).toBe('1.5 KB');
+    expect(formatBytes(250 * 1024 * 1024)).toBe('250 MB');
+  });
+});
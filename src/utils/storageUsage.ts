@@ -0,0 +1,167 @@
+import type { GeneratedCard } from '../types';
+
+/**
+ * Storage accounting and cleanup selection for the storage manager in
+ * Settings. Sizes come from the media store (`getStoredMediaSizes`); the same
+ * content referenced twice (the image doubling as the card's "gif", a video
+ * record reusing its image) is counted once per group.
+ */
+
+export type MediaKind = 'image' | 'gif' | 'video';
+
+export interface CardStorage {
+  deckType: string;
+  cardNumber: number;
+  bytes: number;
+  generations: number;
+}
+
+export interface StorageUsage {
+  total: number;
+  byKind: Record<MediaKind, number>;
+  byDeck: Record<string, number>;
+  byCard: CardStorage[];              // largest first
+}
+
+export interface BrowserStorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+/** Videos to drop from a deck: records that only repeat an image kept elsewhere go, others lose the video */
+export interface VideoPurge {
+  remove: number[];                   // timestamps
+  strip: GeneratedCard[];             // records to save again without `videoUrl` and `posterUrl`
+}
+
+function base64Bytes(dataUrl: string): number {
+  const b64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((b64.length * 3) / 4) - (b64.match(/=*$/)?.[0].length ?? 0);
+}
+
+function cardMedia(card: GeneratedCard): [MediaKind, string][] {
+  const media: [MediaKind, string][] = card.frames.map((url) => ['image', url]);
+  if (card.gifUrl) media.push(['gif', card.gifUrl]);
+  if (card.videoUrl) media.push(['video', card.videoUrl]);
+  if (card.posterUrl) media.push(['video', card.posterUrl]);
+  return media.filter(([, url]) => url);
+}
+
+/**
+ * Bytes per media kind, deck and card. `getHash` maps a media URL to its stored
+ * content; inline data URLs from before the media store are measured directly,
+ * remote links take no local space.
+ */
+export function summarizeStorage(
+  cards: GeneratedCard[],
+  mediaSizes: Record<string, number>,
+  getHash: (url: string) => string | undefined
+): StorageUsage {
+  const usage: StorageUsage = { total: 0, byKind: { image: 0, gif: 0, video: 0 }, byDeck: {}, byCard: [] };
+  const measure = (url: string): [string, number] => {
+    const hash = getHash(url);
+    if (hash) return [hash, mediaSizes[hash] ?? 0];
+    return [url, url.startsWith('data:') ? base64Bytes(url) : 0];
+  };
+
+  const seen = new Set<string>();
+  const seenByGroup = new Map<string, Set<string>>();
+  const countOnce = (group: string, id: string) => {
+    const groupSeen = seenByGroup.get(group) ?? new Set<string>();
+    seenByGroup.set(group, groupSeen);
+    if (groupSeen.has(id)) return false;
+    groupSeen.add(id);
+    return true;
+  };
+
+  const byCard = new Map<string, CardStorage>();
+  cards.forEach((card) => {
+    const key = `${card.deckType}:${card.cardNumber}`;
+    const entry = byCard.get(key) ?? { deckType: card.deckType, cardNumber: card.cardNumber, bytes: 0, generations: 0 };
+    entry.generations++;
+    byCard.set(key, entry);
+  });
+
+  // Images first, so content shared with a "gif" counts as an image
+  const order: MediaKind[] = ['image', 'gif', 'video'];
+  const entries = cards
+    .flatMap((card) => cardMedia(card).map(([kind, url]) => ({ card, kind, url })))
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+
+  for (const { card, kind, url } of entries) {
+    const [id, bytes] = measure(url);
+    if (!seen.has(id)) {
+      seen.add(id);
+      usage.total += bytes;
+      usage.byKind[kind] += bytes;
+    }
+    if (countOnce(`deck:${card.deckType}`, id)) {
+      usage.byDeck[card.deckType] = (usage.byDeck[card.deckType] ?? 0) + bytes;
+    }
+    const key = `${card.deckType}:${card.cardNumber}`;
+    if (countOnce(`card:${key}`, id)) byCard.get(key)!.bytes += bytes;
+  }
+
+  usage.byCard = Array.from(byCard.values()).sort((a, b) => b.bytes - a.bytes);
+  return usage;
+}
+
+/** Generations beyond the newest `keep` of each card in each deck */
+export function selectOlderGenerations(cards: GeneratedCard[], keep: number): GeneratedCard[] {
+  const groups = new Map<string, GeneratedCard[]>();
+  cards.forEach((card) => {
+    const key = `${card.deckType}:${card.cardNumber}`;
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  });
+  return Array.from(groups.values()).flatMap((group) =>
+    group.sort((a, b) => b.timestamp - a.timestamp).slice(Math.max(keep, 1))
+  );
+}
+
+export function selectVideoPurge(cards: GeneratedCard[], deckType: string): VideoPurge {
+  const purge: VideoPurge = { remove: [], strip: [] };
+  cards
+    .filter((card) => card.deckType === deckType && card.videoUrl)
+    .forEach((card) => {
+      const imageKept = cards.some(
+        (other) =>
+          other !== card &&
+          !other.videoUrl &&
+          other.deckType === deckType &&
+          other.cardNumber === card.cardNumber &&
+          other.frames[0] === card.frames[0]
+      );
+      if (imageKept || card.frames.length === 0) purge.remove.push(card.timestamp);
+      else purge.strip.push(card);
+    });
+  return purge;
+}
+
+/** Usage and quota for this origin, and whether the browser has agreed not to evict it */
+export async function getBrowserStorageEstimate(): Promise<BrowserStorageEstimate | undefined> {
+  if (!navigator.storage?.estimate) return undefined;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+}
+
+/** Asks the browser to keep this origin's data under storage pressure; resolves to whether it agreed */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
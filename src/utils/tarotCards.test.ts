@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MINOR_ARCANA_START,
+  buildMinorArcana,
+  getCardByNumber,
+  getCardNumberLabel,
+  getDeckCards,
+  getMinorCardNumber,
+  isDeckComplete,
+} from './tarotCards';
+import { getReversedMeaningForDeck } from './deckInterpretation';
+import { getCardNameForDeck } from '../components/card-deck/cardInfo';
+
+describe('deck composition', () => {
+  it('keeps the 22 Major Arcana by default and adds 56 Minor Arcana on request', () => {
+    expect(getDeckCards()).toHaveLength(22);
+    expect(getDeckCards(true)).toHaveLength(78);
+    expect(getDeckCards(true).map((c) => c.number)).toEqual(Array.from({ length: 78 }, (_, i) => i));
+  });
+
+  it('numbers each suit as a block of 14 after the Major Arcana', () => {
+    expect(getMinorCardNumber('wands', 1)).toBe(MINOR_ARCANA_START);
+    expect(getMinorCardNumber('cups', 1)).toBe(36);
+    expect(getMinorCardNumber('swords', 11)).toBe(60);
+    expect(getMinorCardNumber('pentacles', 14)).toBe(77);
+    expect(() => getMinorCardNumber('cups', 15)).toThrow();
+  });
+
+  it('builds every Minor Arcana card with suit, rank and an interpretation per deck', () => {
+    const minor = buildMinorArcana();
+    expect(minor).toHaveLength(56);
+    for (const card of minor) {
+      expect(card.arcana).toBe('minor');
+      expect(card.number).toBe(getMinorCardNumber(card.suit!, card.rank!));
+      for (const interpretation of [card.traditional, card.lordOfMysteries, card.egyptian, card.celtic, card.shinto, card.advaita]) {
+        expect(interpretation.keywords.length).toBeGreaterThan(0);
+        expect(interpretation.prompt).toBeTruthy();
+        expect(interpretation.reversed).toBeTruthy();
+      }
+    }
+  });
+
+  it('titles minor cards in each deck’s own suit names', () => {
+    const card = getCardByNumber(getMinorCardNumber('cups', 3))!;
+    expect(getCardNameForDeck(card, 'traditional-rider-waite')).toBe('Three of Cups');
+    expect(getCardNameForDeck(card, 'celtic-tarot')).toBe('Three of Cauldrons');
+    expect(getCardNameForDeck(card, 'lord-of-mysteries-masterpiece')).toBe('Three of Chalices');
+  });
+
+  it('falls back to the traditional reversed meaning where deck lore only covers the Major Arcana', () => {
+    const card = getCardByNumber(getMinorCardNumber('swords', 9))!;
+    expect(getReversedMeaningForDeck(card, 'buddhist')).toBe(card.traditional.reversed);
+    expect(getReversedMeaningForDeck(card, 'traditional-rider-waite')).toBe(card.traditional.reversed);
+  });
+});
+
+describe('getCardNumberLabel', () => {
+  it('uses the number for the Major Arcana and rank plus suit initial for the Minor Arcana', () => {
+    expect(getCardNumberLabel(getCardByNumber(0)!)).toBe('0');
+    expect(getCardNumberLabel(getCardByNumber(21)!)).toBe('21');
+    expect(getCardNumberLabel(getCardByNumber(getMinorCardNumber('wands', 1))!)).toBe('AW');
+    expect(getCardNumberLabel(getCardByNumber(getMinorCardNumber('cups', 10))!)).toBe('10C');
+    expect(getCardNumberLabel(getCardByNumber(getMinorCardNumber('pentacles', 12))!)).toBe('KnP');
+  });
+});
+
+describe('isDeckComplete', () => {
+  const majors = Array.from({ length: 22 }, (_, i) => i);
+
+  it('treats the 22 Major Arcana as complete only for the major-only deck', () => {
+    expect(isDeckComplete(majors)).toBe(true);
+    expect(isDeckComplete(majors, true)).toBe(false);
+    expect(isDeckComplete(majors.slice(1))).toBe(false);
+  });
+
+  it('needs all 78 cards when the Minor Arcana are included', () => {
+    expect(isDeckComplete(Array.from({ length: 78 }, (_, i) => i), true)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import type { CardInterpretation, TarotCard, TarotSuit } from '../types';
+import tarotData from '../data/tarot-decks.json';
+import minorArcanaData from '../data/minor-arcana.json';
+
+/**
+ * Deck composition. The Major Arcana keep their traditional numbers 0–21; the
+ * Minor Arcana follow as 22–77, one block of 14 per suit (Ace … Ten, Page,
+ * Knight, Queen, King), so `cardNumber` stays a unique key for generated cards,
+ * readings and exports.
+ */
+
+export const MAJOR_ARCANA_COUNT = 22;
+export const MINOR_ARCANA_START = MAJOR_ARCANA_COUNT;
+const CARDS_PER_SUIT = 14;
+
+type MinorSuitEntry = { id: TarotSuit; name: string; element: string; domain: string; emblem: string };
+type MinorRankEntry = { rank: number; name: string; short: string };
+type MinorCardEntry = {
+  suit: TarotSuit;
+  rank: number;
+  keywords: string[];
+  meaning: string;
+  reversed: string;
+  scene: string;
+};
+type MinorDeckKey = 'lordOfMysteries' | 'lordOfMysteriesMasterpiece' | 'egyptian' | 'celtic' | 'shinto' | 'advaita';
+type MinorDeckStyle = { suits: Record<TarotSuit, string>; style: string };
+
+const SUITS = minorArcanaData.suits as MinorSuitEntry[];
+const RANKS = minorArcanaData.ranks as MinorRankEntry[];
+const DECK_STYLES = minorArcanaData.decks as Record<MinorDeckKey, MinorDeckStyle>;
+
+// Which interpretation field each deck uses as the card's title (see getCardNameForDeck)
+const TITLE_FIELDS: Record<MinorDeckKey, keyof CardInterpretation> = {
+  lordOfMysteries: 'pathway',
+  lordOfMysteriesMasterpiece: 'pathway',
+  egyptian: 'deity',
+  celtic: 'figure',
+  shinto: 'kami',
+  advaita: 'name',
+};
+
+export function getMinorCardNumber(suit: TarotSuit, rank: number): number {
+  const suitIndex = SUITS.findIndex((s) => s.id === suit);
+  if (suitIndex === -1 || rank < 1 || rank > CARDS_PER_SUIT) {
+    throw new Error(`Unknown Minor Arcana card: ${rank} of ${suit}`);
+  }
+  return MINOR_ARCANA_START + suitIndex * CARDS_PER_SUIT + (rank - 1);
+}
+
+export function isMinorArcana(card: TarotCard): boolean {
+  return card.arcana === 'minor';
+}
+
+/**
+ * Names and imagery for a Minor Arcana card, or null for a Major Arcana card.
+ */
+export function describeMinorArcana(card: TarotCard): {
+  rankName: string;
+  suitName: string;
+  element: string;
+  emblem: string;
+} | null {
+  if (!isMinorArcana(card) || !card.suit || !card.rank) return null;
+  const suit = SUITS.find((s) => s.id === card.suit);
+  const rank = RANKS.find((r) => r.rank === card.rank);
+  if (!suit || !rank) return null;
+  return { rankName: rank.name, suitName: suit.name, element: suit.element, emblem: suit.emblem };
+}
+
+/**
+ * Short corner label: the card number for the Major Arcana, rank plus suit
+ * initial for the Minor Arcana (e.g. "3C", "KnW").
+ */
+export function getCardNumberLabel(card: TarotCard): string {
+  const minor = describeMinorArcana(card);
+  if (!minor) return String(card.number);
+  const short = RANKS.find((r) => r.rank === card.rank)?.short ?? String(card.rank);
+  return `${short}${minor.suitName[0]}`;
+}
+
+function buildMinorCard(entry: MinorCardEntry): TarotCard {
+  const suit = SUITS.find((s) => s.id === entry.suit);
+  const rank = RANKS.find((r) => r.rank === entry.rank);
+  if (!suit || !rank) {
+    throw new Error(`Invalid Minor Arcana entry: ${entry.rank} of ${entry.suit}`);
+  }
+
+  const base = {
+    keywords: entry.keywords,
+    meaning: entry.meaning,
+    reversed: entry.reversed,
+  };
+
+  const forDeck = (deck: MinorDeckKey): CardInterpretation => {
+    const { suits, style } = DECK_STYLES[deck];
+    const title = `${rank.name} of ${suits[entry.suit]}`;
+    return {
+      ...base,
+      [TITLE_FIELDS[deck]]: title,
+      prompt: `${style} ${title.toUpperCase()} (${suit.element}). Reinterpret the classic scene in this tradition: ${entry.scene} Suit emblem: ${suits[entry.suit]}, echoing ${suit.emblem}. Themes: ${entry.meaning}`,
+    };
+  };
+
+  return {
+    number: getMinorCardNumber(entry.suit, entry.rank),
+    arcana: 'minor',
+    suit: entry.suit,
+    rank: entry.rank,
+    traditional: {
+      ...base,
+      name: `${rank.name} of ${suit.name}`,
+      prompt: `${entry.scene} Minor Arcana, suit of ${suit.name} (${suit.element}): ${suit.emblem}, tarot card art style`,
+    },
+    lordOfMysteries: forDeck('lordOfMysteries'),
+    lordOfMysteriesMasterpiece: forDeck('lordOfMysteriesMasterpiece'),
+    egyptian: forDeck('egyptian'),
+    celtic: forDeck('celtic'),
+    shinto: forDeck('shinto'),
+    advaita: forDeck('advaita'),
+    personalLore: `FILL THIS: Your ${rank.name} of ${suit.name} - where do ${suit.domain} show up in your life?`,
+  };
+}
+
+export function buildMinorArcana(): TarotCard[] {
+  return (minorArcanaData.cards as MinorCardEntry[])
+    .map(buildMinorCard)
+    .sort((a, b) => a.number - b.number);
+}
+
+const MAJOR_ARCANA = tarotData.cards as TarotCard[];
+const FULL_DECK = [...MAJOR_ARCANA, ...buildMinorArcana()];
+
+/**
+ * Cards in play: the 22 Major Arcana, or all 78 when the Minor Arcana are enabled.
+ */
+export function getDeckCards(includeMinorArcana = false): TarotCard[] {
+  return includeMinorArcana ? FULL_DECK : MAJOR_ARCANA;
+}
+
+/**
+ * Looks a card up across the full deck, so generated cards and journal entries
+ * stay resolvable after the Minor Arcana are switched off again.
+ */
+export function getCardByNumber(cardNumber: number): TarotCard | undefined {
+  return FULL_DECK.find((card) => card.number === cardNumber);
+}
+
+/**
+ * True when every card of the active deck size is present, e.g. a local or
+ * community deck that needs no further hydration.
+ */
+export function isDeckComplete(cardNumbers: Iterable<number>, includeMinorArcana = false): boolean {
+  const present = new Set(cardNumbers);
+  return getDeckCards(includeMinorArcana).every((card) => present.has(card.number));
+}
@@ -9,10 +9,18 @@
  *
  * Scenarios covered:
  *   prerequisites  — missing key, undefined settings
+ *   mock provider  — placeholder video, no key or fetch needed
  *   start errors   — 400, 429, quota message, bad JSON, missing operation name
- *   happy path     — immediate done, N pending polls, reference image inline
- *   response shapes — generatedVideos path, flat videoUri, done with no URI
- *   timeout/retry  — maxPollAttempts timeout, retry on 5xx, all retries exhausted
+ *   happy path     — immediate done, N pending polls, reference image inline,
+ *                    the deck's Veo settings
+ *   server keys    — start and poll go through the proxy with the access token
+ *   response shapes — generatedVideos path, flat videoUri, done with no URI,
+ *                    safety-filtered, unreadable body
+ *   timeout/retry  — pending at the poll ceiling, backoff, resuming a stored
+ *                    operation, failed or missing operation, auth errors,
+ *                    retry on 5xx, all retries
+ *                    exhausted, throttled polls retried in place, daily Veo cap
+ *   download       — direct with the key header, proxy fallback, failure
  */
 
 import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
@@ -21,7 +29,13 @@ import type { Settings } from '../types';
 // Logger mock must be declared before the module under test is imported
 vi.mock('./logger', () => ({ debugLog: vi.fn() }));
 
-import { generateVideoFromImage } from './videoGeneration';
+import {
+  downloadGeneratedVideo,
+  generateVideoFromImage,
+  isVideoGenerationFailedError,
+  pollVideoOperation,
+} from './videoGeneration';
+import { getDailyUsage, resetRateLimitScheduler } from './rateLimitScheduler';
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -66,6 +80,7 @@ beforeEach(() => {
   fetchMock = vi.fn();
   globalThis.fetch = fetchMock;
   vi.useFakeTimers();
+  resetRateLimitScheduler();
   vi.spyOn(console, 'error').mockImplementation(() => {});
 });
 
@@ -93,6 +108,25 @@ describe('generateVideoFromImage: prerequisites', () => {
   });
 });
 
+// ─── Mock provider ───────────────────────────────────────────────────────────
+
+describe('generateVideoFromImage: mock provider', () => {
+  it('returns a placeholder video without an API key or network calls', async () => {
+    const settings = makeSettings({
+      geminiApiKey: undefined,
+      apiProvider: 'mock',
+      providerOptions: { mock: { latencyMs: '0' } },
+    });
+    const promise = generateVideoFromImage('prompt', 'data:image/png;base64,abc', settings);
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.error).toBeUndefined();
+    expect(result.videoUrl).toMatch(/^data:video\//);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
 // ─── Start request errors ────────────────────────────────────────────────────
 
 describe('generateVideoFromImage: start request errors', () => {
@@ -202,6 +236,29 @@ describe('generateVideoFromImage: happy path', () => {
     expect(body.instances[0].image.bytesBase64Encoded).toBe('/9j/abc123');
   });
 
+  it("sends the selected deck's model and Veo parameters", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(START_RESPONSE))
+      .mockResolvedValueOnce(mockResponse(POLL_DONE));
+
+    const settings = makeSettings({
+      selectedDeckType: 'egyptian-tarot',
+      videoSettingsMap: { 'egyptian-tarot': { model: 'veo-3.1-fast-generate-preview', durationSeconds: 6, negativePrompt: 'text' } },
+    });
+    const promise = generateVideoFromImage('prompt', undefined, settings);
+    await vi.runAllTimersAsync();
+    await promise;
+
+    const [startUrl, startOptions] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(startUrl).toContain('/models/veo-3.1-fast-generate-preview:predictLongRunning');
+    expect(JSON.parse(startOptions.body as string).parameters).toEqual({
+      aspectRatio: '9:16',
+      durationSeconds: 6,
+      negativePrompt: 'text',
+      generateAudio: true,
+    });
+  });
+
   it('skips image attachment when reference is not a data URL', async () => {
     fetchMock
       .mockResolvedValueOnce(mockResponse(START_RESPONSE))
@@ -217,6 +274,44 @@ describe('generateVideoFromImage: happy path', () => {
   });
 });
 
+// ─── Server-managed keys ─────────────────────────────────────────────────────
+
+describe('generateVideoFromImage: server-managed keys', () => {
+  it('starts and polls through the proxy with the access token instead of a key', async () => {
+    const operation = 'models/veo-3.1-generate-preview/operations/op-1';
+    fetchMock
+      .mockResolvedValueOnce(mockResponse({ name: operation }))
+      .mockResolvedValueOnce(mockResponse(POLL_DONE));
+
+    const settings = makeSettings({
+      apiProvider: 'server',
+      geminiApiKey: undefined,
+      providerSecrets: { server: { accessToken: 'user-token' } },
+    });
+    const promise = generateVideoFromImage('prompt', undefined, settings);
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.videoUrl).toBe('https://storage.googleapis.com/video.mp4');
+    const [[startUrl, startOptions], [pollUrl, pollOptions]] = fetchMock.mock.calls as [string, RequestInit][];
+    expect(startUrl).toBe('/api/provider/video');
+    expect(startOptions.headers).toMatchObject({ Authorization: 'Bearer user-token' });
+    expect(JSON.parse(startOptions.body as string)).toMatchObject({
+      model: 'veo-3.1-generate-preview',
+      body: { instances: [{ prompt: 'prompt' }] },
+    });
+    expect(pollUrl).toBe(`/api/provider/video?operation=${encodeURIComponent(operation)}`);
+    expect(pollOptions.headers).toEqual({ Authorization: 'Bearer user-token' });
+  });
+
+  it('asks for the access token when it is missing', async () => {
+    const result = await generateVideoFromImage('prompt', undefined, makeSettings({ apiProvider: 'server' }));
+
+    expect(result.error).toMatch(/access token is required/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
 // ─── Response shape variants ─────────────────────────────────────────────────
 
 describe('generateVideoFromImage: response shape variants', () => {
@@ -249,9 +344,7 @@ describe('generateVideoFromImage: response shape variants', () => {
     expect(result.videoUrl).toBe('https://flat.example.com/v.mp4');
   });
 
-  it('returns error when done=true but no URI found in any known path', async () => {
-    // "Video URI not found" is treated as a retryable error — set up routing so
-    // all 3 attempts (initial + 2 retries) get valid start + poll responses.
+  it('reports a failed generation when done=true but no URI found in any known path', async () => {
     const noUri = { done: true, response: {} };
     setupFetchByUrl(
       () => mockResponse(START_RESPONSE),
@@ -262,24 +355,112 @@ describe('generateVideoFromImage: response shape variants', () => {
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    expect(result.error).toContain('Video URI not found');
+    expect(result.error).toBe('Video generation failed: Video URI not found in response');
+    expect(isVideoGenerationFailedError(result.error)).toBe(true);
+  });
+
+  it('reports a video blocked by the safety filters as failed, with the reason', async () => {
+    const filtered = {
+      done: true,
+      response: {
+        generateVideoResponse: {
+          raiMediaFilteredCount: 1,
+          raiMediaFilteredReasons: ['The video could not be generated because it may violate our policies.'],
+        },
+      },
+    };
+    fetchMock.mockResolvedValueOnce(mockResponse(filtered));
+
+    const result = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+
+    expect(result.error).toBe(
+      'Video generation failed: The video could not be generated because it may violate our policies.'
+    );
+    expect(isVideoGenerationFailedError(result.error)).toBe(true);
+  });
+
+  it('reports an unreadable poll response as failed', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, text: async () => '<html>' } as Response);
+
+    const result = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+
+    expect(isVideoGenerationFailedError(result.error)).toBe(true);
   });
 });
 
 // ─── Timeout and retry ───────────────────────────────────────────────────────
 
 describe('generateVideoFromImage: timeout and retry', () => {
-  it('times out after maxPollAttempts with all pending responses', async () => {
+  it('hands the operation back as pending when it is still rendering at the ceiling', async () => {
     setupFetchByUrl(
       () => mockResponse(START_RESPONSE),
       () => mockResponse(POLL_NOT_DONE),
     );
+    const onStarted = vi.fn();
 
-    const promise = generateVideoFromImage('prompt', undefined, makeSettings());
+    const promise = generateVideoFromImage('prompt', undefined, makeSettings(), undefined, onStarted);
     await vi.runAllTimersAsync();
     const result = await promise;
 
-    expect(result.error).toContain('timed out');
+    expect(onStarted).toHaveBeenCalledWith(START_RESPONSE.name);
+    expect(result).toMatchObject({ pending: true, operationName: START_RESPONSE.name });
+    expect(result.error).toContain('still rendering');
+  });
+
+  it('backs off between polls up to a 30 second interval', async () => {
+    setupFetchByUrl(
+      () => mockResponse(START_RESPONSE),
+      () => mockResponse(POLL_NOT_DONE),
+    );
+    const delays: number[] = [];
+    const realSetTimeout = globalThis.setTimeout;
+    const spy = vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void, ms?: number) => {
+      delays.push(ms ?? 0);
+      return realSetTimeout(fn, ms);
+    }) as typeof setTimeout);
+
+    const promise = pollVideoOperation(START_RESPONSE.name, makeSettings(), { maxWaitMs: 120_000 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+    spy.mockRestore();
+
+    expect(result.pending).toBe(true);
+    expect(delays.slice(0, 3)).toEqual([2_000, 3_000, 4_500]);
+    expect(Math.max(...delays)).toBe(30_000);
+    expect(delays.reduce((sum, ms) => sum + ms, 0)).toBeLessThanOrEqual(120_000);
+  });
+
+  it('resumes polling a stored operation without starting a new one', async () => {
+    fetchMock.mockResolvedValueOnce(mockResponse(POLL_DONE));
+
+    const result = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+
+    expect(result.videoUrl).toBe('https://storage.googleapis.com/video.mp4');
+    expect(String(fetchMock.mock.calls[0][0])).toContain(START_RESPONSE.name);
+    expect(getDailyUsage('veo').used).toBe(0);
+  });
+
+  it('reports a failed operation instead of a missing URI', async () => {
+    fetchMock.mockResolvedValueOnce(mockResponse({ done: true, error: { code: 3, message: 'Blocked by safety filters' } }));
+
+    const result = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+
+    expect(result.error).toBe('Video generation failed: Blocked by safety filters');
+    expect(isVideoGenerationFailedError(result.error)).toBe(true);
+  });
+
+  it('reports an operation Veo no longer has as failed, and a rejected key as not', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse({ error: { message: 'Operation not found' } }, 404))
+      .mockResolvedValueOnce(mockResponse({ error: { message: 'API key not valid' } }, 403));
+
+    const missing = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+    const rejected = await pollVideoOperation(START_RESPONSE.name, makeSettings());
+
+    expect(missing).toMatchObject({ status: 404 });
+    expect(isVideoGenerationFailedError(missing.error)).toBe(true);
+    expect(rejected).toMatchObject({ status: 403, error: 'Video poll failed: 403 API key not valid' });
+    expect(isVideoGenerationFailedError(rejected.error)).toBe(false);
   });
 
   it('retries on transient 5xx and succeeds on second attempt', async () => {
@@ -309,4 +490,79 @@ describe('generateVideoFromImage: timeout and retry', () => {
     expect(result.error).toContain('Video start failed');
     expect(fetchMock).toHaveBeenCalledTimes(3); // maxRetries=2 → 3 total attempts
   });
+
+  it('keeps polling the same operation when a poll is throttled', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(START_RESPONSE))
+      .mockResolvedValueOnce(mockResponse({ error: { message: 'Too many requests' } }, 429))
+      .mockResolvedValueOnce(mockResponse(POLL_DONE));
+
+    const promise = generateVideoFromImage('prompt', undefined, makeSettings());
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.videoUrl).toBe('https://storage.googleapis.com/video.mp4');
+    const starts = fetchMock.mock.calls.filter(([url]) => String(url).includes('predictLongRunning'));
+    expect(starts).toHaveLength(1);
+  });
+
+  it('stops sending requests once the daily Veo cap is used up', async () => {
+    setupFetchByUrl(
+      () => mockResponse(START_RESPONSE),
+      () => mockResponse(POLL_DONE),
+    );
+
+    for (let i = 0; i < 10; i++) {
+      const promise = generateVideoFromImage('prompt', undefined, makeSettings());
+      await vi.runAllTimersAsync();
+      await promise;
+    }
+    fetchMock.mockClear();
+
+    const result = await generateVideoFromImage('prompt', undefined, makeSettings());
+
+    expect(getDailyUsage('veo')).toMatchObject({ used: 10, limit: 10, exhausted: true });
+    expect(result.error).toContain('Daily quota reached for Veo');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Download ────────────────────────────────────────────────────────────────
+
+describe('downloadGeneratedVideo', () => {
+  const VIDEO_URI = 'https://generativelanguage.googleapis.com/v1beta/files/abc:download?alt=media';
+
+  function videoResponse(status = 200): Response {
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Forbidden',
+      headers: new Headers({ 'content-type': 'video/mp4' }),
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+    } as Response;
+  }
+
+  it('downloads the file with the key in a header', async () => {
+    fetchMock.mockResolvedValue(videoResponse());
+
+    const video = await downloadGeneratedVideo(VIDEO_URI, makeSettings());
+
+    expect(Array.from(video.bytes)).toEqual([1, 2, 3]);
+    expect(video.mimeType).toBe('video/mp4');
+    expect(fetchMock).toHaveBeenCalledWith(VIDEO_URI, { headers: { 'x-goog-api-key': 'test-key-abc' } });
+  });
+
+  it('falls back to the server proxy when the browser request is blocked', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(videoResponse());
+
+    await downloadGeneratedVideo(VIDEO_URI, makeSettings());
+
+    expect(fetchMock).toHaveBeenLastCalledWith(`/api/proxy?url=${encodeURIComponent(VIDEO_URI)}`);
+  });
+
+  it('throws when neither request succeeds', async () => {
+    fetchMock.mockResolvedValue(videoResponse(403));
+
+    await expect(downloadGeneratedVideo(VIDEO_URI, makeSettings())).rejects.toThrow('Video download failed: 403');
+  });
 });
@@ -1,9 +1,21 @@
-import type { Settings } from '../types';
+import type { Settings, VideoGenerationSettings } from '../types';
 import { debugLog } from './logger';
+import { MOCK_PROVIDER_ID, generateMockVideo } from './mockGeneration';
+import { VEO_RATE_LIMIT_ID, scheduleRequest } from './rateLimitScheduler';
+import {
+  SERVER_PROVIDER_ID,
+  SERVER_VIDEO_ENDPOINT,
+  getServerAccessToken,
+  serverAuthHeaders,
+} from './serverManagedImageGeneration';
+import { DEFAULT_VIDEO_SETTINGS, buildVeoParameters, getDeckVideoSettings } from './videoSettings';
 
 interface VideoResponse {
   videoUrl?: string;
   error?: string;
+  status?: number;
+  operationName?: string;  // the Veo operation, once started
+  pending?: boolean;       // still rendering when polling stopped; poll again later
 }
 
 function dataUrlToBytes(dataUrl: string): { mimeType: string; base64: string } | null {
@@ -27,157 +39,298 @@ function extractVideoUri(opData: any): string | null {
 }
 
 /**
- * Generate an 8s 9:16 video using Veo 3.1 via Gemini API
+ * Download a finished video while its link is still valid (Gemini file links
+ * expire after about 48 hours). The file API takes the key in a header; when the
+ * browser request fails (CORS, network) the server proxy fetches it instead.
  */
-export async function generateVideoFromImage(
+export async function downloadGeneratedVideo(
+  videoUrl: string,
+  settings: Settings
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; mimeType: string }> {
+  const direct = await fetch(videoUrl, {
+    headers: settings.geminiApiKey ? { 'x-goog-api-key': settings.geminiApiKey } : undefined,
+  }).catch((error) => {
+    debugLog('[VideoGen] direct download failed, trying the proxy:', error);
+    return undefined;
+  });
+  const response = direct?.ok ? direct : await fetch(`/api/proxy?url=${encodeURIComponent(videoUrl)}`);
+  if (!response.ok) {
+    throw new Error(`Video download failed: ${response.status} ${response.statusText}`);
+  }
+  return {
+    bytes: new Uint8Array(await response.arrayBuffer()),
+    mimeType: response.headers.get('content-type')?.split(';')[0] || 'video/mp4',
+  };
+}
+
+/**
+ * Whether video generation is available: a Gemini key for Veo, an access token
+ * for the server-managed keys, or the mock provider, which also stands in for video.
+ */
+export function canGenerateVideo(settings: Settings): boolean {
+  if (settings.apiProvider === SERVER_PROVIDER_ID) return Boolean(getServerAccessToken(settings));
+  return settings.apiProvider === MOCK_PROVIDER_ID || Boolean(settings.geminiApiKey);
+}
+
+/**
+ * Where Veo start and poll requests go: straight to Gemini with the user's key,
+ * or through the server proxy, which holds the key and takes an access token.
+ */
+function veoEndpoints(settings: Settings | undefined, model: string) {
+  if (settings?.apiProvider === SERVER_PROVIDER_ID) {
+    if (!getServerAccessToken(settings)) {
+      throw new Error('An access token is required for video generation with server-managed keys.');
+    }
+    return {
+      startUrl: SERVER_VIDEO_ENDPOINT,
+      startBody: (body: unknown) => ({ model, body }),
+      operationUrl: (name: string) => `${SERVER_VIDEO_ENDPOINT}?operation=${encodeURIComponent(name)}`,
+      headers: serverAuthHeaders(settings),
+    };
+  }
+
+  const apiKey = settings?.geminiApiKey;
+  if (!apiKey) {
+    throw new Error('Gemini API key is required for video generation.');
+  }
+  return {
+    startUrl: `https://generativelanguage.googleapis.com/v1beta/models/${model}:predictLongRunning?key=${apiKey}`,
+    startBody: (body: unknown) => body,
+    operationUrl: (name: string) => `https://generativelanguage.googleapis.com/v1beta/${name}?key=${apiKey}`,
+    headers: {} as Record<string, string>,
+  };
+}
+
+// Polls start 2s apart and back off to every 30s: Veo usually finishes within a
+// few minutes, but busy periods can take much longer
+const POLL_INITIAL_INTERVAL_MS = 2_000;
+const POLL_MAX_INTERVAL_MS = 30_000;
+const POLL_BACKOFF_FACTOR = 1.5;
+
+/** How long one call keeps polling before handing the operation back as pending */
+export const VIDEO_POLL_MAX_WAIT_MS = 10 * 60_000;
+
+export const VIDEO_STILL_RENDERING_MESSAGE = 'Video still rendering';
+
+export function isVideoStillRenderingError(message: string | undefined): boolean {
+  return Boolean(message?.includes(VIDEO_STILL_RENDERING_MESSAGE));
+}
+
+/** Veo finished the operation with an error or no longer has it, so polling again will not help */
+export const VIDEO_GENERATION_FAILED_MESSAGE = 'Video generation failed';
+
+export function isVideoGenerationFailedError(message: string | undefined): boolean {
+  return Boolean(message?.startsWith(VIDEO_GENERATION_FAILED_MESSAGE));
+}
+
+export interface VideoPollOptions {
+  maxWaitMs?: number;
+}
+
+type VideoStartResult = { operationName?: string; error?: string; status?: number };
+
+function readErrorDetail(text: string): string {
+  try {
+    return JSON.parse(text)?.error?.message || text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Sends the predictLongRunning request through the rate-limit scheduler, which
+ * retries 429s and 5xx. Only the start is retried: once an operation exists it
+ * is paid for, so everything after it polls that operation.
+ */
+async function startVideoOperation(
   prompt: string,
   referenceImage: string | undefined,
-  settings?: Settings
-): Promise<VideoResponse> {
-  try {
-    const apiKey = settings?.geminiApiKey;
-    if (!apiKey) {
-      throw new Error('Gemini API key is required for video generation.');
-    }
+  settings: Settings | undefined,
+  videoSettings: VideoGenerationSettings
+): Promise<VideoStartResult> {
+  const endpoints = veoEndpoints(settings, videoSettings.model);
 
-    // Veo 3.1 quota context: daily cap ~10 videos, RPM limit ~5.
-    // Poll every 2s for up to 2 minutes before giving up.
-    // 2 retries on hard failure (e.g. transient 5xx) before surfacing error.
-    const maxRetries = 2;
-    const pollIntervalMs = 2_000; // ms between status polls
-    const maxPollAttempts = 60;   // 60 × 2s = 2 min timeout
-    const model = 'veo-3.1-generate-preview';
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:predictLongRunning?key=${apiKey}`;
-
-    const attemptOnce = async (): Promise<VideoResponse> => {
-      const instances: any[] = [{ prompt }];
-
-      if (referenceImage) {
-        const parsed = dataUrlToBytes(referenceImage);
-        if (parsed) {
-          instances[0].image = {
-            bytesBase64Encoded: parsed.base64,
-            mimeType: parsed.mimeType,
-          };
-        }
+  const attemptOnce = async (): Promise<VideoStartResult> => {
+    const instances: any[] = [{ prompt }];
+
+    if (referenceImage) {
+      const parsed = dataUrlToBytes(referenceImage);
+      if (parsed) {
+        instances[0].image = {
+          bytesBase64Encoded: parsed.base64,
+          mimeType: parsed.mimeType,
+        };
       }
+    }
 
-      const body = {
-        instances,
-        parameters: {
-          aspectRatio: '9:16',
-          durationSeconds: 8,
-        },
-      };
-
-      debugLog('[VideoGen] request', {
-        url,
-        model,
-        hasReferenceImage: Boolean(referenceImage),
-        promptPreview: prompt.slice(0, 300),
-      });
-
-      const startResponse = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
-
-      const startText = await startResponse.text();
-
-      if (!startResponse.ok) {
-        let details = startText;
-        try {
-          const parsed = JSON.parse(startText);
-          if (parsed?.error?.message) {
-            details = parsed.error.message;
-          }
-        } catch {
-          // ignore parse failure, keep raw text
-        }
-        if (startResponse.status === 429 || details.toLowerCase().includes('quota')) {
-          throw new Error(
+    const body = {
+      instances,
+      parameters: buildVeoParameters(videoSettings),
+    };
+
+    debugLog('[VideoGen] request', {
+      url: endpoints.startUrl,
+      model: videoSettings.model,
+      parameters: body.parameters,
+      hasReferenceImage: Boolean(referenceImage),
+      promptPreview: prompt.slice(0, 300),
+    });
+
+    const startResponse = await fetch(endpoints.startUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...endpoints.headers,
+      },
+      body: JSON.stringify(endpoints.startBody(body)),
+    });
+
+    const startText = await startResponse.text();
+
+    if (!startResponse.ok) {
+      const details = readErrorDetail(startText);
+      if (startResponse.status === 429 || details.toLowerCase().includes('quota')) {
+        return {
+          error:
             'Rate limit hit for Gemini video. Wait a bit or check billing/usage. ' +
-            'Daily cap is often 10 videos; RPM limit can be 5 or lower. Details: ' + details
-          );
-        }
-        throw new Error(`Video start failed: ${startResponse.status} ${details}`);
+            'Daily cap is often 10 videos; RPM limit can be 5 or lower. Details: ' + details,
+          status: startResponse.status,
+        };
       }
+      return { error: `Video start failed: ${startResponse.status} ${details}`, status: startResponse.status };
+    }
+
+    let operation: any;
+    try {
+      operation = JSON.parse(startText);
+    } catch (err) {
+      return { error: `Video start parse failed: ${String(err)} Body: ${startText}` };
+    }
 
-      let operation: any;
+    debugLog('[VideoGen] start response', operation);
+    if (!operation?.name) {
+      return { error: 'Video generation operation name missing' };
+    }
+    return { operationName: operation.name };
+  };
+
+  // Veo 3.1 quota context: daily cap ~10 videos, RPM limit ~5. Pacing, the
+  // daily cap and retries on 429/5xx live in the rate-limit scheduler.
+  return scheduleRequest(VEO_RATE_LIMIT_ID, attemptOnce);
+}
+
+/**
+ * Polls a started operation until it finishes, with backoff. Throttled or
+ * failing polls are retried in place. After `maxWaitMs` the result is
+ * `pending`: the operation is still running and can be polled again later,
+ * even from another page load.
+ */
+export async function pollVideoOperation(
+  operationName: string,
+  settings: Settings | undefined,
+  { maxWaitMs = VIDEO_POLL_MAX_WAIT_MS }: VideoPollOptions = {}
+): Promise<VideoResponse> {
+  try {
+    const endpoints = veoEndpoints(settings, DEFAULT_VIDEO_SETTINGS.model);
+    const operationUrl = endpoints.operationUrl(operationName);
+    let interval = POLL_INITIAL_INTERVAL_MS;
+    let waited = 0;
+    let attempt = 0;
+
+    for (;;) {
+      let opResp: Response | undefined;
+      let opText = '';
       try {
-        operation = JSON.parse(startText);
+        opResp = await fetch(operationUrl, { headers: endpoints.headers });
+        opText = await opResp.text();
       } catch (err) {
-        throw new Error(`Video start parse failed: ${String(err)} Body: ${startText}`);
+        // Offline or dropped connection: the operation is unaffected, so poll again
+        debugLog('[VideoGen] poll request failed, polling again:', err);
       }
-
-      debugLog('[VideoGen] start response', operation);
-      if (!operation?.name) {
-        throw new Error('Video generation operation name missing');
-      }
-
-      // Poll for completion
-      const operationUrl = `https://generativelanguage.googleapis.com/v1beta/${operation.name}?key=${apiKey}`;
-      let attempts = 0;
-      while (attempts < maxPollAttempts) {
-        const opResp = await fetch(operationUrl);
-        if (!opResp.ok) {
-          const opText = await opResp.text();
-          let detail = opText;
-          try {
-            const parsed = JSON.parse(opText);
-            detail = parsed?.error?.message || opText;
-          } catch {
-            // ignore parse error
-          }
-          if (opResp.status === 429 || detail.toLowerCase().includes('quota')) {
-            throw new Error(
-              'Rate limit hit while polling video status. Wait a bit and retry. Details: ' + detail
-            );
-          }
-          throw new Error(`Video poll failed: ${opResp.status} ${detail}`);
+      if (!opResp?.ok) {
+        if (opResp?.status === 404) {
+          return { error: `${VIDEO_GENERATION_FAILED_MESSAGE}: the operation no longer exists`, status: 404 };
         }
-        const opText = await opResp.text();
+        if (opResp && opResp.status !== 429 && opResp.status < 500) {
+          return { error: `Video poll failed: ${opResp.status} ${readErrorDetail(opText)}`, status: opResp.status };
+        }
+        if (opResp) debugLog('[VideoGen] poll throttled or failed, polling again:', opResp.status, readErrorDetail(opText));
+        interval = Math.min(interval * 2, POLL_MAX_INTERVAL_MS);
+      } else {
         let opData: any;
         try {
           opData = JSON.parse(opText);
         } catch {
-          throw new Error(`Video poll parse failed. Body: ${opText}`);
+          return { error: `${VIDEO_GENERATION_FAILED_MESSAGE}: the poll response could not be read. Body: ${opText}` };
         }
-        debugLog('[VideoGen] poll', { attempt: attempts, done: opData.done, response: opData });
+        debugLog('[VideoGen] poll', { attempt, done: opData.done, response: opData });
         if (opData.done) {
+          if (opData.error?.message) {
+            return { error: `${VIDEO_GENERATION_FAILED_MESSAGE}: ${opData.error.message}` };
+          }
           const uri = extractVideoUri(opData);
           if (!uri) {
+            // How Veo reports a video its safety filters blocked
             console.error('[VideoGen] missing video URI. Full response:', opData);
-            throw new Error('Video URI not found in response');
+            const filtered = opData.response?.generateVideoResponse?.raiMediaFilteredReasons?.[0];
+            return { error: `${VIDEO_GENERATION_FAILED_MESSAGE}: ${filtered || 'Video URI not found in response'}` };
           }
           // The URI is downloadable with the same API key
           return { videoUrl: uri };
         }
-        attempts += 1;
-        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
       }
 
-      throw new Error('Video generation timed out');
-    };
-
-    // Retry wrapper
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const result = await attemptOnce();
-        return result;
-      } catch (err) {
-        if (attempt === maxRetries) {
-          throw err;
-        }
-        debugLog('[VideoGen] retrying after error:', err);
-        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      if (waited + interval > maxWaitMs) {
+        return {
+          pending: true,
+          error: `${VIDEO_STILL_RENDERING_MESSAGE} after ${Math.round(waited / 60_000)} minutes. It will be added to the card when it finishes.`,
+        };
       }
+      attempt += 1;
+      await new Promise((resolve) => setTimeout(resolve, interval));
+      waited += interval;
+      interval = Math.min(interval * POLL_BACKOFF_FACTOR, POLL_MAX_INTERVAL_MS);
+    }
+  } catch (error) {
+    console.error('[VideoGen] poll error:', error);
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Generate a video with Veo via the Gemini API (or a placeholder clip when the
+ * mock provider is selected). Model, length, aspect ratio and the other Veo
+ * parameters come from `videoSettings`, by default the selected deck's.
+ * `onStarted` receives the operation name as soon as it exists, so the caller
+ * can keep it somewhere that outlives this page.
+ */
+export async function generateVideoFromImage(
+  prompt: string,
+  referenceImage: string | undefined,
+  settings?: Settings,
+  videoSettings: VideoGenerationSettings = settings
+    ? getDeckVideoSettings(settings, settings.selectedDeckType)
+    : DEFAULT_VIDEO_SETTINGS,
+  onStarted?: (operationName: string) => void
+): Promise<VideoResponse> {
+  if (settings?.apiProvider === MOCK_PROVIDER_ID) {
+    return scheduleRequest(MOCK_PROVIDER_ID, () => generateMockVideo(prompt, referenceImage, settings));
+  }
+
+  try {
+    const started = await startVideoOperation(prompt, referenceImage, settings, videoSettings);
+    if (started.error || !started.operationName) {
+      console.error('[VideoGen] error:', started.error);
+      return { videoUrl: '', error: started.error, status: started.status };
     }
+    onStarted?.(started.operationName);
 
-    throw new Error('Video generation failed after retries');
+    const result = await pollVideoOperation(started.operationName, settings);
+    if (result.error) {
+      console.error('[VideoGen] error:', result.error);
+      return { ...result, videoUrl: '', operationName: started.operationName };
+    }
+    return { ...result, operationName: started.operationName };
   } catch (error) {
     console.error('[VideoGen] error:', error);
     return {
@@ -0,0 +1,102 @@
+/**
+ * Tests for videoOperations.ts
+ *
+ * Strategy:
+ *   - Pure functions over plain Settings and card objects; no mocks
+ *
+ * Scenarios covered:
+ *   claims   — one poller per operation in a tab, released for the resume
+ *   settings — provider, deck and video settings as they were at start
+ *   source   — the animated generation, or the card's latest when it is gone
+ *   expiry   — operations older than Veo keeps videos are dropped
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCard, Settings } from '../types';
+import {
+  VIDEO_OPERATION_MAX_AGE_MS,
+  claimVideoOperation,
+  createPendingVideoOperation,
+  findPendingVideo,
+  findVideoSource,
+  getOperationSettings,
+  isVideoOperationExpired,
+  releaseVideoOperation,
+} from './videoOperations';
+import { DEFAULT_VIDEO_SETTINGS, getDeckVideoSettings } from './videoSettings';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const DECK = 'egyptian-tarot';
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return { selectedDeckType: DECK, apiProvider: 'gemini', geminiApiKey: 'key', ...overrides } as Settings;
+}
+
+function makeCard(overrides: Partial<GeneratedCard> = {}): GeneratedCard {
+  return { cardNumber: 3, deckType: DECK, timestamp: 1_000, frames: ['f'], shared: false, source: 'local', ...overrides };
+}
+
+const VIDEO = { ...DEFAULT_VIDEO_SETTINGS, model: 'veo-2.0-generate-001', durationSeconds: 5, generateAudio: false, motionPreset: 'temple' };
+
+function makeOperation(startedAt = 50_000) {
+  return createPendingVideoOperation('operations/op-1', makeSettings(), makeCard(), 3, VIDEO, startedAt);
+}
+
+// ─── Claims ─────────────────────────────────────────────────────────────────
+
+describe('claimVideoOperation', () => {
+  it('lets only one poller hold an operation until it is released', () => {
+    expect(claimVideoOperation('operations/claim')).toBe(true);
+    expect(claimVideoOperation('operations/claim')).toBe(false);
+
+    releaseVideoOperation('operations/claim');
+    expect(claimVideoOperation('operations/claim')).toBe(true);
+    releaseVideoOperation('operations/claim');
+  });
+});
+
+// ─── Settings ───────────────────────────────────────────────────────────────
+
+describe('getOperationSettings', () => {
+  it('restores the provider, deck and video settings the operation started with', () => {
+    const operation = makeOperation();
+    const current = makeSettings({ apiProvider: 'server', selectedDeckType: 'celtic-tarot' });
+
+    const settings = getOperationSettings(current, operation);
+
+    expect(operation).toMatchObject({ cardNumber: 3, deckType: DECK, cardTimestamp: 1_000, provider: 'gemini' });
+    expect(settings).toMatchObject({ apiProvider: 'gemini', selectedDeckType: DECK, geminiApiKey: 'key' });
+    expect(getDeckVideoSettings(settings, DECK)).toEqual(VIDEO);
+  });
+});
+
+// ─── Source ─────────────────────────────────────────────────────────────────
+
+describe('findVideoSource', () => {
+  it('prefers the generation whose image was animated', () => {
+    const cards = [makeCard(), makeCard({ timestamp: 2_000 }), makeCard({ deckType: 'celtic-tarot', timestamp: 3_000 })];
+
+    expect(findVideoSource(cards, makeOperation())?.timestamp).toBe(1_000);
+    expect(findVideoSource(cards.slice(1), makeOperation())?.timestamp).toBe(2_000);
+    expect(findVideoSource([], makeOperation())).toBeUndefined();
+  });
+
+  it('finds a pending video for a card in a deck', () => {
+    const operations = [makeOperation()];
+
+    expect(findPendingVideo(operations, 3, DECK)?.name).toBe('operations/op-1');
+    expect(findPendingVideo(operations, 3, 'celtic-tarot')).toBeUndefined();
+  });
+});
+
+// ─── Expiry ─────────────────────────────────────────────────────────────────
+
+describe('isVideoOperationExpired', () => {
+  it('expires operations once Veo no longer keeps their video', () => {
+    const operation = makeOperation(0);
+
+    expect(isVideoOperationExpired(operation, VIDEO_OPERATION_MAX_AGE_MS)).toBe(false);
+    expect(isVideoOperationExpired(operation, VIDEO_OPERATION_MAX_AGE_MS + 1)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import type { GeneratedCard, PendingVideoOperation, Settings, VideoGenerationSettings } from '../types';
+
+/**
+ * Veo operations outlive the page that started them. Each one is stored as a
+ * `PendingVideoOperation` as soon as it exists; whoever is polling it holds a
+ * claim for this tab, so the startup resume (hooks/usePendingVideoOperations)
+ * only picks up operations nobody here is waiting on, i.e. ones left over from
+ * an earlier page load or handed back after the in-session poll ceiling.
+ */
+
+/** How long a resumed operation is polled per page load before waiting for the next one */
+export const RESUMED_VIDEO_MAX_WAIT_MS = 30 * 60_000;
+
+// Veo keeps generated videos for two days; after that the operation is useless
+export const VIDEO_OPERATION_MAX_AGE_MS = 2 * 24 * 60 * 60_000;
+
+const claimed = new Set<string>();
+
+/** Claims the operation for this tab; false when it is already being polled */
+export function claimVideoOperation(name: string): boolean {
+  if (claimed.has(name)) return false;
+  claimed.add(name);
+  return true;
+}
+
+export function releaseVideoOperation(name: string): void {
+  claimed.delete(name);
+}
+
+export function createPendingVideoOperation(
+  name: string,
+  settings: Settings,
+  source: GeneratedCard | undefined,
+  cardNumber: number,
+  videoGeneration: VideoGenerationSettings,
+  now = Date.now()
+): PendingVideoOperation {
+  return {
+    name,
+    cardNumber,
+    deckType: settings.selectedDeckType,
+    cardTimestamp: source?.timestamp,
+    provider: settings.apiProvider,
+    videoGeneration,
+    startedAt: now,
+  };
+}
+
+/**
+ * Settings as they were when the operation started: its deck and provider, and
+ * its video settings as the deck's, so polling and the cost record match the
+ * request that was made. Keys still come from the current settings.
+ */
+export function getOperationSettings(settings: Settings, operation: PendingVideoOperation): Settings {
+  return {
+    ...settings,
+    apiProvider: operation.provider,
+    selectedDeckType: operation.deckType,
+    videoSettingsMap: { ...settings.videoSettingsMap, [operation.deckType]: operation.videoGeneration },
+  };
+}
+
+/**
+ * The generation the video belongs to: the one whose image it animates, or the
+ * card's latest in the deck if that one has been deleted meanwhile.
+ */
+export function findVideoSource(cards: GeneratedCard[], operation: PendingVideoOperation): GeneratedCard | undefined {
+  const forCard = cards.filter((c) => c.cardNumber === operation.cardNumber && c.deckType === operation.deckType);
+  return (
+    forCard.find((c) => c.timestamp === operation.cardTimestamp) ??
+    forCard.sort((a, b) => b.timestamp - a.timestamp)[0]
+  );
+}
+
+export function findPendingVideo(
+  operations: PendingVideoOperation[],
+  cardNumber: number,
+  deckType: string
+): PendingVideoOperation | undefined {
+  return operations.find((op) => op.cardNumber === cardNumber && op.deckType === deckType);
+}
+
+export function isVideoOperationExpired(operation: PendingVideoOperation, now = Date.now()): boolean {
+  return now - operation.startedAt > VIDEO_OPERATION_MAX_AGE_MS;
+}
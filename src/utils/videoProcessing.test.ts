@@ -0,0 +1,147 @@
+/**
+ * Tests for videoProcessing.ts
+ *
+ * Strategy:
+ *   - Pure planning helpers only; decoding and encoding need a browser with
+ *     WebCodecs and are left to it
+ *
+ * Scenarios covered:
+ *   settings — defaults under the user's overrides, videos with sound left as
+ *              generated
+ *   plan     — trim window, crossfade frames and their opacity, a loop that
+ *              leads from the last frame back into the first, too-short clips
+ *   size     — output scaled to 720p in even pixels
+ *   bitrate  — fills the size target within limits, lower on a retry
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Settings, VideoGenerationSettings } from '../types';
+import {
+  DEFAULT_VIDEO_PROCESSING,
+  getProcessedSize,
+  getRetryBitrate,
+  getVideoBitrate,
+  getVideoProcessingSettings,
+  planVideoFrames,
+  shouldProcessVideo,
+} from './videoProcessing';
+import { DEFAULT_VIDEO_SETTINGS } from './videoSettings';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+const NO_EDITS = { trimStartSeconds: 0, trimEndSeconds: 0, crossfadeSeconds: 0 };
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+describe('getVideoProcessingSettings', () => {
+  it('starts from the defaults, off until the user turns it on', () => {
+    expect(getVideoProcessingSettings({} as Settings)).toEqual(DEFAULT_VIDEO_PROCESSING);
+    expect(DEFAULT_VIDEO_PROCESSING.enabled).toBe(false);
+  });
+
+  it('keeps what the user changed', () => {
+    const settings = { videoProcessing: { enabled: true, crossfadeSeconds: 0.5 } } as Settings;
+
+    expect(getVideoProcessingSettings(settings)).toMatchObject({ enabled: true, crossfadeSeconds: 0.5, maxSizeBytes: 4_000_000 });
+  });
+});
+
+describe('shouldProcessVideo', () => {
+  const ON = { ...DEFAULT_VIDEO_PROCESSING, enabled: true };
+  const video = (overrides: Partial<VideoGenerationSettings>) => ({ ...DEFAULT_VIDEO_SETTINGS, ...overrides });
+
+  it('leaves videos generated with sound as they are, since processing drops the audio', () => {
+    expect(shouldProcessVideo(ON, video({ model: 'veo-3.1-generate-preview', generateAudio: true }))).toBe(false);
+  });
+
+  it('processes silent videos, including models that never make sound', () => {
+    expect(shouldProcessVideo(ON, video({ model: 'veo-3.1-generate-preview', generateAudio: false }))).toBe(true);
+    expect(shouldProcessVideo(ON, video({ model: 'veo-2.0-generate-001', generateAudio: true }))).toBe(true);
+    expect(shouldProcessVideo(DEFAULT_VIDEO_PROCESSING, video({ generateAudio: false }))).toBe(false);
+  });
+});
+
+// ─── Plan ────────────────────────────────────────────────────────────────────
+
+describe('planVideoFrames', () => {
+  it('samples the middle of each frame across the whole clip without edits', () => {
+    const { frames, durationSeconds } = planVideoFrames(2, NO_EDITS, 4);
+
+    expect(durationSeconds).toBe(2);
+    expect(frames.map((frame) => frame.time)).toEqual([0.125, 0.375, 0.625, 0.875, 1.125, 1.375, 1.625, 1.875]);
+    expect(frames.every((frame) => frame.blendTime === undefined)).toBe(true);
+  });
+
+  it('keeps only the trimmed window', () => {
+    const { frames, durationSeconds } = planVideoFrames(8, { ...NO_EDITS, trimStartSeconds: 1, trimEndSeconds: 2 }, 2);
+
+    expect(durationSeconds).toBe(5);
+    expect(frames[0].time).toBe(1.25);
+    expect(frames[frames.length - 1].time).toBe(5.75);
+  });
+
+  it('fades the end of the clip into its start', () => {
+    const { frames, durationSeconds } = planVideoFrames(4, { ...NO_EDITS, crossfadeSeconds: 1 }, 4);
+    const fading = frames.filter((frame) => frame.blendTime !== undefined);
+
+    expect(durationSeconds).toBe(3);
+    expect(frames[0]).toEqual({ time: 1.125, blendAlpha: 0 });
+    expect(fading.map((frame) => [frame.time, frame.blendTime, frame.blendAlpha])).toEqual([
+      [3.125, 0.125, 0.125],
+      [3.375, 0.375, 0.375],
+      [3.625, 0.625, 0.625],
+      [3.875, 0.875, 0.875],
+    ]);
+  });
+
+  it('leads from the last frame straight back into the first', () => {
+    const fps = 24;
+    const { frames } = planVideoFrames(8, { trimStartSeconds: 0.5, trimEndSeconds: 0.5, crossfadeSeconds: 1 }, fps);
+    const last = frames[frames.length - 1];
+
+    // Mostly the frame just before the first, at the moment the loop restarts
+    expect(last.blendAlpha).toBeGreaterThan(0.95);
+    expect(frames[0].time - last.blendTime!).toBeCloseTo(1 / fps);
+  });
+
+  it('keeps the crossfade within half the trimmed clip', () => {
+    const { durationSeconds } = planVideoFrames(2, { ...NO_EDITS, crossfadeSeconds: 1.5 }, 4);
+
+    expect(durationSeconds).toBe(1);
+  });
+
+  it('rejects a trim that leaves less than a second', () => {
+    expect(() => planVideoFrames(4, { ...NO_EDITS, trimStartSeconds: 2, trimEndSeconds: 1.5 })).toThrow(
+      'Trimming leaves less than 1 second of video'
+    );
+  });
+});
+
+// ─── Size and bitrate ────────────────────────────────────────────────────────
+
+describe('getProcessedSize', () => {
+  it('scales 1080p down to 720p and keeps smaller videos as they are', () => {
+    expect(getProcessedSize(1080, 1920)).toEqual({ width: 720, height: 1280 });
+    expect(getProcessedSize(720, 1280)).toEqual({ width: 720, height: 1280 });
+  });
+
+  it('rounds to even pixels', () => {
+    expect(getProcessedSize(641, 361)).toEqual({ width: 642, height: 362 });
+  });
+});
+
+describe('bitrate', () => {
+  it('spreads the size target over the clip, less headroom', () => {
+    expect(getVideoBitrate(4_000_000, 8)).toBe(3_600_000);
+  });
+
+  it('stays within the encoder limits', () => {
+    expect(getVideoBitrate(6_000_000, 1)).toBe(5_000_000);
+    expect(getVideoBitrate(10_000, 8)).toBe(150_000);
+  });
+
+  it('lowers the bitrate by how far the last encode overshot', () => {
+    expect(getRetryBitrate(3_600_000, 5_000_000, 4_000_000)).toBe(2_592_000);
+    expect(getRetryBitrate(200_000, 8_000_000, 1_000_000)).toBe(150_000);
+  });
+});
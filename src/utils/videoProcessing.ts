@@ -0,0 +1,234 @@
+import type { Settings, VideoGenerationSettings, VideoProcessingSettings } from '../types';
+import type { VideoProcessingRequest, VideoProcessingResponse } from './videoProcessing.worker';
+import { formatBytes } from './storageUsage';
+import { getVeoModel } from './videoSettings';
+
+/**
+ * Post-processing for generated videos before they are stored or shared: a
+ * trim, a crossfade that blends the end of the clip into its start so the
+ * loop never jumps, a poster frame, and a re-encode that fits a size. Frames
+ * are decoded here by a <video> element and sent one at a time to
+ * utils/videoProcessing.worker, which blends and encodes them with WebCodecs.
+ * Processed videos are silent WebM files, so clips Veo made with sound are
+ * left as generated.
+ */
+
+export interface VideoFramePlan {
+  time: number;            // source time of the frame, in seconds
+  blendTime?: number;      // source time of the frame drawn over it during the crossfade
+  blendAlpha: number;      // opacity of the blended frame, 0-1
+}
+
+export interface ProcessedVideo {
+  bytes: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  poster: { bytes: Uint8Array<ArrayBuffer>; mimeType: string };
+}
+
+export const DEFAULT_VIDEO_PROCESSING: VideoProcessingSettings = {
+  enabled: false,
+  trimStartSeconds: 0,
+  trimEndSeconds: 0,
+  crossfadeSeconds: 1,
+  maxSizeBytes: 4_000_000,
+};
+
+export const VIDEO_SIZE_OPTIONS: { value: number; label: string }[] = [
+  { value: 2_000_000, label: '2 MB - smallest, softer detail' },
+  { value: 4_000_000, label: '4 MB - fits a community upload' },
+  { value: 6_000_000, label: '6 MB - the upload limit for one file' },
+];
+
+// The server's default `uploadLimits.maxSingleAssetBytes`
+export const UPLOAD_MAX_VIDEO_BYTES = 6_000_000;
+
+export const MIN_PROCESSED_SECONDS = 1;
+
+const OUTPUT_FPS = 24;                 // Veo's frame rate
+const MAX_OUTPUT_SIDE = 1280;          // 720p; cards never show more
+const MIN_BITRATE = 150_000;
+const MAX_BITRATE = 5_000_000;         // above this the size target is not what limits quality
+const SIZE_HEADROOM = 0.9;             // encoders overshoot their bitrate a little
+const MAX_ENCODE_ATTEMPTS = 3;
+const PROCESSED_MIME_TYPE = 'video/webm';
+const POSTER_MIME_TYPE = 'image/jpeg';
+
+export function getVideoProcessingSettings(settings: Settings): VideoProcessingSettings {
+  return { ...DEFAULT_VIDEO_PROCESSING, ...settings.videoProcessing };
+}
+
+/** Whether to process a new video made with `videoGeneration`; processing would drop its soundtrack */
+export function shouldProcessVideo(processing: VideoProcessingSettings, videoGeneration: VideoGenerationSettings): boolean {
+  const hasAudio = getVeoModel(videoGeneration.model).audio && videoGeneration.generateAudio;
+  return processing.enabled && !hasAudio;
+}
+
+/** WebCodecs encoding in a worker, with OffscreenCanvas to compose frames */
+export function canProcessVideo(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof Worker !== 'undefined';
+}
+
+/**
+ * Source frames for each output frame of a `sourceDuration`-second clip,
+ * sampled at the middle of each frame. With a crossfade of C seconds the
+ * output starts C seconds into the trimmed clip and its last C seconds fade
+ * into the first C, so the last frame leads straight back into the first.
+ */
+export function planVideoFrames(
+  sourceDuration: number,
+  { trimStartSeconds, trimEndSeconds, crossfadeSeconds }: Pick<VideoProcessingSettings, 'trimStartSeconds' | 'trimEndSeconds' | 'crossfadeSeconds'>,
+  fps = OUTPUT_FPS
+): { frames: VideoFramePlan[]; durationSeconds: number } {
+  const start = Math.max(0, trimStartSeconds);
+  const end = sourceDuration - Math.max(0, trimEndSeconds);
+  const clip = end - start;
+  if (clip < MIN_PROCESSED_SECONDS) {
+    throw new Error(`Trimming leaves less than ${MIN_PROCESSED_SECONDS} second of video`);
+  }
+  // The fade needs as much unblended video before it as it lasts
+  const fade = Math.min(Math.max(0, crossfadeSeconds), clip / 2);
+  const durationSeconds = clip - fade;
+
+  const frames: VideoFramePlan[] = [];
+  const count = Math.max(1, Math.round(durationSeconds * fps));
+  const step = durationSeconds / count;
+  for (let i = 0; i < count; i++) {
+    const offset = fade + (i + 0.5) * step;
+    const fadeProgress = fade > 0 ? (offset - (clip - fade)) / fade : -1;
+    frames.push(
+      fadeProgress >= 0
+        ? { time: start + offset, blendTime: start + offset - (clip - fade), blendAlpha: fadeProgress }
+        : { time: start + offset, blendAlpha: 0 }
+    );
+  }
+  return { frames, durationSeconds };
+}
+
+/** Output size: the source scaled down so its longer side fits, in even pixels for the encoder */
+export function getProcessedSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+  const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+  return { width: even(width), height: even(height) };
+}
+
+/** Bitrate that fills `maxSizeBytes` over the clip, less headroom for the encoder and container */
+export function getVideoBitrate(maxSizeBytes: number, durationSeconds: number): number {
+  const bitrate = Math.floor((maxSizeBytes * 8 * SIZE_HEADROOM) / durationSeconds);
+  return Math.min(MAX_BITRATE, Math.max(MIN_BITRATE, bitrate));
+}
+
+/** Bitrate for another attempt after an encode came out at `actualBytes` */
+export function getRetryBitrate(bitrate: number, actualBytes: number, maxSizeBytes: number): number {
+  return Math.max(MIN_BITRATE, Math.floor(bitrate * (maxSizeBytes / actualBytes) * SIZE_HEADROOM));
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────────────
+
+interface SourceVideo {
+  video: HTMLVideoElement;
+  close: () => void;
+}
+
+async function openVideo(blob: Blob): Promise<SourceVideo> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const close = () => {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('This browser cannot play the video'));
+      video.src = url;
+    });
+    return { video, close };
+  } catch (error) {
+    close();
+    throw error;
+  }
+}
+
+async function captureFrame(video: HTMLVideoElement, time: number): Promise<ImageBitmap> {
+  if (video.currentTime !== time) {
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error('Could not read the video'));
+      video.currentTime = time;
+    });
+  }
+  return createImageBitmap(video);
+}
+
+function runWorker(worker: Worker, message: VideoProcessingRequest, transfer: Transferable[] = []): Promise<VideoProcessingResponse> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<VideoProcessingResponse>) => {
+      if (event.data.type === 'error') reject(new Error(event.data.error));
+      else resolve(event.data);
+    };
+    worker.onerror = (event) => reject(new Error(event.message || 'Video worker failed'));
+    worker.postMessage(message, transfer);
+  });
+}
+
+async function encodeVideo(
+  video: HTMLVideoElement,
+  frames: VideoFramePlan[],
+  size: { width: number; height: number },
+  bitrate: number
+): Promise<ProcessedVideo> {
+  const worker = new Worker(new URL('./videoProcessing.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    await runWorker(worker, { type: 'start', ...size, fps: OUTPUT_FPS, bitrate });
+    for (const step of frames) {
+      const frame = await captureFrame(video, step.time);
+      const blend = step.blendTime === undefined ? undefined : await captureFrame(video, step.blendTime);
+      await runWorker(worker, { type: 'frame', frame, blend, blendAlpha: step.blendAlpha }, blend ? [frame, blend] : [frame]);
+    }
+    const result = await runWorker(worker, { type: 'finish' });
+    if (result.type !== 'done') throw new Error('Video processing did not finish');
+    return {
+      bytes: result.bytes,
+      mimeType: PROCESSED_MIME_TYPE,
+      poster: { bytes: result.poster, mimeType: POSTER_MIME_TYPE },
+    };
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Processes a video as `processing` describes, re-encoding at a lower bitrate
+ * until it fits `maxSizeBytes`. Throws if the browser cannot decode or encode
+ * it, or it still does not fit after a few attempts.
+ */
+export async function processVideo(source: Blob, processing: VideoProcessingSettings): Promise<ProcessedVideo> {
+  if (!canProcessVideo()) throw new Error('This browser cannot process video (WebCodecs is not available)');
+  const { video, close } = await openVideo(source);
+  try {
+    const { frames, durationSeconds } = planVideoFrames(video.duration, processing);
+    const size = getProcessedSize(video.videoWidth, video.videoHeight);
+    let bitrate = getVideoBitrate(processing.maxSizeBytes, durationSeconds);
+    for (let attempt = 1; ; attempt++) {
+      const processed = await encodeVideo(video, frames, size, bitrate);
+      if (processed.bytes.byteLength <= processing.maxSizeBytes) return processed;
+      if (attempt === MAX_ENCODE_ATTEMPTS || bitrate === MIN_BITRATE) {
+        throw new Error(
+          `The processed video is ${formatBytes(processed.bytes.byteLength)}, over the ${formatBytes(processing.maxSizeBytes)} limit`
+        );
+      }
+      bitrate = getRetryBitrate(bitrate, processed.bytes.byteLength, processing.maxSizeBytes);
+    }
+  } finally {
+    close();
+  }
+}
+
+/** Re-encodes a video to fit `maxSizeBytes`, keeping its full length */
+export function compressVideo(source: Blob, maxSizeBytes: number): Promise<ProcessedVideo> {
+  return processVideo(source, { enabled: true, trimStartSeconds: 0, trimEndSeconds: 0, crossfadeSeconds: 0, maxSizeBytes });
+}
@@ -0,0 +1,145 @@
+import { muxWebm, type WebmFrame, type WebmVideoCodec } from './webmMuxer';
+
+/**
+ * Composes, encodes and muxes processed card videos off the main thread.
+ * Started by utils/videoProcessing, which sends a `start`, one `frame` per
+ * output frame and a `finish`, waiting for each reply before the next message.
+ */
+
+export type VideoProcessingRequest =
+  | { type: 'start'; width: number; height: number; fps: number; bitrate: number }
+  | { type: 'frame'; frame: ImageBitmap; blend?: ImageBitmap; blendAlpha: number }
+  | { type: 'finish' };
+
+export type VideoProcessingResponse =
+  | { type: 'ready' }
+  | { type: 'done'; bytes: Uint8Array<ArrayBuffer>; poster: Uint8Array<ArrayBuffer> }
+  | { type: 'error'; error: string };
+
+// VP9 first for its smaller files; VP8 is the fallback every WebCodecs browser encodes
+const CODECS: { config: string; webm: WebmVideoCodec }[] = [
+  { config: 'vp09.00.10.08', webm: 'V_VP9' },
+  { config: 'vp8', webm: 'V_VP8' },
+];
+
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 4;
+const POSTER_QUALITY = 0.85;
+
+// The app is type-checked against the DOM lib, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<VideoProcessingRequest>) => void) | null;
+  postMessage: (message: VideoProcessingResponse, transfer?: Transferable[]) => void;
+};
+
+interface Session {
+  encoder: VideoEncoder;
+  codec: WebmVideoCodec;
+  canvas: OffscreenCanvas;
+  ctx: OffscreenCanvasRenderingContext2D;
+  fps: number;
+  index: number;
+  frames: WebmFrame[];
+  poster?: Promise<Blob>;
+  failure?: Error;
+}
+
+let session: Session | undefined;
+
+async function start(width: number, height: number, fps: number, bitrate: number): Promise<Session> {
+  for (const { config, webm } of CODECS) {
+    const encoderConfig: VideoEncoderConfig = { codec: config, width, height, bitrate, framerate: fps };
+    if (!(await VideoEncoder.isConfigSupported(encoderConfig)).supported) continue;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available in this browser');
+    const frames: WebmFrame[] = [];
+    const next: Session = {
+      codec: webm,
+      canvas,
+      ctx,
+      fps,
+      index: 0,
+      frames,
+      encoder: new VideoEncoder({
+        output: (chunk) => {
+          const data = new Uint8Array(chunk.byteLength);
+          chunk.copyTo(data);
+          frames.push({ data, timestampMs: chunk.timestamp / 1000, keyFrame: chunk.type === 'key' });
+        },
+        error: (error) => {
+          next.failure = error instanceof Error ? error : new Error(String(error));
+        },
+      }),
+    };
+    next.encoder.configure(encoderConfig);
+    return next;
+  }
+  throw new Error('This browser cannot encode WebM video');
+}
+
+async function encodeFrame(current: Session, frame: ImageBitmap, blend: ImageBitmap | undefined, blendAlpha: number) {
+  const { ctx, canvas, encoder } = current;
+  // Hold the next frame back while the encoder is behind, so frames do not pile up in memory
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }));
+  }
+  ctx.globalAlpha = 1;
+  ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  if (blend) {
+    ctx.globalAlpha = blendAlpha;
+    ctx.drawImage(blend, 0, 0, canvas.width, canvas.height);
+  }
+  frame.close();
+  blend?.close();
+
+  if (current.index === 0) {
+    current.poster = canvas.convertToBlob({ type: 'image/jpeg', quality: POSTER_QUALITY });
+  }
+  const microsPerFrame = 1_000_000 / current.fps;
+  const videoFrame = new VideoFrame(canvas, {
+    timestamp: Math.round(current.index * microsPerFrame),
+    duration: Math.round(microsPerFrame),
+  });
+  encoder.encode(videoFrame, { keyFrame: current.index % Math.round(current.fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+  videoFrame.close();
+  current.index++;
+}
+
+async function finish(current: Session): Promise<Extract<VideoProcessingResponse, { type: 'done' }>> {
+  await current.encoder.flush();
+  current.encoder.close();
+  if (current.failure) throw current.failure;
+  if (!current.poster) throw new Error('No frames to encode');
+  const bytes = muxWebm(
+    { codec: current.codec, width: current.canvas.width, height: current.canvas.height },
+    current.frames.sort((a, b) => a.timestampMs - b.timestampMs),
+    (current.index * 1000) / current.fps
+  );
+  const poster = new Uint8Array(await (await current.poster).arrayBuffer());
+  return { type: 'done', bytes, poster };
+}
+
+scope.onmessage = async ({ data }) => {
+  try {
+    if (data.type === 'start') {
+      session = await start(data.width, data.height, data.fps, data.bitrate);
+      scope.postMessage({ type: 'ready' });
+      return;
+    }
+    if (!session) throw new Error('Video processing has not started');
+    if (session.failure) throw session.failure;
+    if (data.type === 'frame') {
+      await encodeFrame(session, data.frame, data.blend, data.blendAlpha);
+      scope.postMessage({ type: 'ready' });
+      return;
+    }
+    const result = await finish(session);
+    session = undefined;
+    scope.postMessage(result, [result.bytes.buffer, result.poster.buffer]);
+  } catch (error) {
+    session = undefined;
+    scope.postMessage({ type: 'error', error: error instanceof Error ? error.message : 'Video processing failed' });
+  }
+};
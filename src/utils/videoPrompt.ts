@@ -1,7 +1,12 @@
+import type { VideoAspectRatio } from '../types';
+
 type BuildTarotVideoPromptArgs = {
   cardNumber: number;
   titleFallback: string;
   prompt: string;
+  durationSeconds: number;
+  aspectRatio: VideoAspectRatio;
+  motion: string;          // motion style text, see utils/videoSettings
 };
 
 export function getTarotVideoTitle(cardNumber: number, titleFallback: string): string {
@@ -13,12 +18,16 @@ export function buildTarotVideoPrompt({
   cardNumber,
   titleFallback,
   prompt,
+  durationSeconds,
+  aspectRatio,
+  motion,
 }: BuildTarotVideoPromptArgs): { title: string; basePrompt: string } {
   const title = getTarotVideoTitle(cardNumber, titleFallback);
+  const orientation = aspectRatio === '9:16' ? 'portrait' : 'landscape';
   const basePrompt =
-    `8-second portrait (9:16) tarot card animation. Title: ${title}. ` +
+    `${durationSeconds}-second ${orientation} (${aspectRatio}) tarot card animation. Title: ${title}. ` +
     `${prompt} Render the title clearly on the card. ` +
-    'Subtle motion only: gentle fabric sway, tiny head turn, light shimmer of cosmic symbols. Camera steady.';
+    motion;
 
   return { title, basePrompt };
 }
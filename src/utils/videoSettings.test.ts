@@ -0,0 +1,103 @@
+/**
+ * Tests for videoSettings.ts
+ *
+ * Strategy:
+ *   - Pure functions over plain Settings objects; no mocks
+ *
+ * Scenarios covered:
+ *   defaults   — per-deck motion preset, shared defaults for untuned decks
+ *   overrides  — stored per deck, normalized against the chosen model, reset
+ *   motion     — preset text, custom text and its fallback
+ *   parameters — Veo request parameters, audio only for models that have it
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Settings } from '../types';
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  buildVeoParameters,
+  getDeckVideoSettings,
+  getMotionText,
+  getVideoSettingsPatch,
+  getVideoSettingsResetPatch,
+} from './videoSettings';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return { selectedDeckType: 'lord-of-mysteries', ...overrides } as Settings;
+}
+
+// ─── Defaults ────────────────────────────────────────────────────────────────
+
+describe('getDeckVideoSettings: defaults', () => {
+  it('gives each deck its own motion preset on top of the shared defaults', () => {
+    const settings = makeSettings();
+
+    expect(getDeckVideoSettings(settings, 'lord-of-mysteries')).toEqual({ ...DEFAULT_VIDEO_SETTINGS, motionPreset: 'eldritch' });
+    expect(getDeckVideoSettings(settings, 'egyptian-tarot').motionPreset).toBe('temple');
+    expect(getDeckVideoSettings(settings, 'traditional-rider-waite').motionPreset).toBe('subtle');
+  });
+});
+
+// ─── Overrides ───────────────────────────────────────────────────────────────
+
+describe('getDeckVideoSettings: overrides', () => {
+  it('stores changes for one deck only', () => {
+    let settings = makeSettings();
+    settings = { ...settings, ...getVideoSettingsPatch(settings, 'egyptian-tarot', { aspectRatio: '16:9' }) };
+    settings = { ...settings, ...getVideoSettingsPatch(settings, 'egyptian-tarot', { durationSeconds: 4 }) };
+
+    expect(getDeckVideoSettings(settings, 'egyptian-tarot')).toMatchObject({ aspectRatio: '16:9', durationSeconds: 4 });
+    expect(getDeckVideoSettings(settings, 'celtic-tarot')).toMatchObject({ aspectRatio: '9:16', durationSeconds: 8 });
+
+    settings = { ...settings, ...getVideoSettingsResetPatch(settings, 'egyptian-tarot') };
+    expect(settings.videoSettingsMap).toEqual({});
+  });
+
+  it('fits duration and audio to the chosen model', () => {
+    const settings = makeSettings({
+      videoSettingsMap: { 'celtic-tarot': { model: 'veo-2.0-generate-001', durationSeconds: 4, generateAudio: true } },
+    });
+
+    expect(getDeckVideoSettings(settings, 'celtic-tarot')).toMatchObject({ durationSeconds: 5, generateAudio: false });
+  });
+
+  it('falls back to the default model for an unknown id', () => {
+    const settings = makeSettings({ videoSettingsMap: { buddhist: { model: 'veo-9-retired' } } });
+
+    expect(getDeckVideoSettings(settings, 'buddhist').model).toBe(DEFAULT_VIDEO_SETTINGS.model);
+  });
+});
+
+// ─── Motion ──────────────────────────────────────────────────────────────────
+
+describe('getMotionText', () => {
+  it('uses the custom motion, or the deck preset when it is empty', () => {
+    const custom = { ...DEFAULT_VIDEO_SETTINGS, motionPreset: 'custom', customMotion: 'Ravens circle overhead.' };
+
+    expect(getMotionText(custom, 'celtic-tarot')).toBe('Ravens circle overhead.');
+    expect(getMotionText({ ...custom, customMotion: '  ' }, 'celtic-tarot')).toMatch(/^Living forest/);
+    expect(getMotionText({ ...DEFAULT_VIDEO_SETTINGS, motionPreset: 'still' }, 'celtic-tarot')).toMatch(/living portrait/);
+  });
+});
+
+// ─── Parameters ──────────────────────────────────────────────────────────────
+
+describe('buildVeoParameters', () => {
+  it('sends only the parameters that are set', () => {
+    expect(buildVeoParameters(DEFAULT_VIDEO_SETTINGS)).toEqual({
+      aspectRatio: '9:16',
+      durationSeconds: 8,
+      generateAudio: true,
+    });
+    expect(
+      buildVeoParameters({
+        ...DEFAULT_VIDEO_SETTINGS,
+        model: 'veo-2.0-generate-001',
+        negativePrompt: ' blurry text ',
+        personGeneration: 'allow_adult',
+      })
+    ).toEqual({ aspectRatio: '9:16', durationSeconds: 8, negativePrompt: 'blurry text', personGeneration: 'allow_adult' });
+  });
+});
@@ -0,0 +1,122 @@
+import type { Settings, VideoAspectRatio, VideoGenerationSettings, VideoPersonGeneration } from '../types';
+import motionPresetData from '../data/video-motion-presets.json';
+
+/**
+ * Veo settings per deck. Each deck starts from `DEFAULT_VIDEO_SETTINGS` with its
+ * own motion preset; `Settings.videoSettingsMap` holds only what the user has
+ * changed, so new defaults still reach decks nobody has tuned. Values are
+ * normalized against the chosen model, so switching model never leaves a
+ * duration or audio flag it cannot honour.
+ */
+
+export interface VeoModelOption {
+  id: string;
+  label: string;
+  durations: number[];     // selectable clip lengths in seconds, ascending
+  audio: boolean;          // whether the model can generate a soundtrack
+}
+
+export interface MotionPreset {
+  id: string;
+  label: string;
+  description: string;
+  motion: string;          // appended to the video prompt
+  decks?: string[];        // decks that use this preset by default
+}
+
+export const CUSTOM_MOTION_PRESET_ID = 'custom';
+
+export const VEO_MODELS: VeoModelOption[] = [
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1 - Best quality, with audio', durations: [4, 6, 8], audio: true },
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast - Cheaper and quicker', durations: [4, 6, 8], audio: true },
+  { id: 'veo-2.0-generate-001', label: 'Veo 2 - Silent, 5-8 seconds', durations: [5, 6, 7, 8], audio: false },
+];
+
+export const VIDEO_ASPECT_RATIOS: { value: VideoAspectRatio; label: string }[] = [
+  { value: '9:16', label: '9:16 portrait (fits the card)' },
+  { value: '16:9', label: '16:9 landscape' },
+];
+
+export const VIDEO_PERSON_GENERATION: { value: VideoPersonGeneration | ''; label: string }[] = [
+  { value: '', label: 'Model default' },
+  { value: 'allow_adult', label: 'Adults only' },
+  { value: 'allow_all', label: 'Allow all people' },
+  { value: 'dont_allow', label: 'No people' },
+];
+
+export const MOTION_PRESETS: MotionPreset[] = motionPresetData.presets;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoGenerationSettings = {
+  model: VEO_MODELS[0].id,
+  durationSeconds: 8,
+  aspectRatio: '9:16',
+  generateAudio: true,
+  motionPreset: MOTION_PRESETS[0].id,
+};
+
+export function getVeoModel(id: string): VeoModelOption {
+  return VEO_MODELS.find((model) => model.id === id) ?? VEO_MODELS[0];
+}
+
+/** The preset a deck uses until the user picks another */
+export function getDefaultMotionPreset(deckType: string): MotionPreset {
+  return MOTION_PRESETS.find((preset) => preset.decks?.includes(deckType)) ?? MOTION_PRESETS[0];
+}
+
+/** Motion text for the prompt; an empty custom motion falls back to the deck's preset */
+export function getMotionText(videoSettings: VideoGenerationSettings, deckType: string): string {
+  if (videoSettings.motionPreset === CUSTOM_MOTION_PRESET_ID) {
+    return videoSettings.customMotion?.trim() || getDefaultMotionPreset(deckType).motion;
+  }
+  const preset = MOTION_PRESETS.find((entry) => entry.id === videoSettings.motionPreset);
+  return (preset ?? getDefaultMotionPreset(deckType)).motion;
+}
+
+// Closest supported duration, preferring the longer one on a tie
+function nearestDuration(durations: number[], seconds: number): number {
+  return durations.reduce((best, d) => (Math.abs(d - seconds) <= Math.abs(best - seconds) ? d : best));
+}
+
+export function getDeckVideoSettings(settings: Settings, deckType: string): VideoGenerationSettings {
+  const merged: VideoGenerationSettings = {
+    ...DEFAULT_VIDEO_SETTINGS,
+    motionPreset: getDefaultMotionPreset(deckType).id,
+    ...settings.videoSettingsMap?.[deckType],
+  };
+  const model = getVeoModel(merged.model);
+  return {
+    ...merged,
+    model: model.id,
+    durationSeconds: nearestDuration(model.durations, merged.durationSeconds),
+    aspectRatio: VIDEO_ASPECT_RATIOS.some((ratio) => ratio.value === merged.aspectRatio) ? merged.aspectRatio : '9:16',
+    generateAudio: model.audio && merged.generateAudio,
+  };
+}
+
+/** Settings patch that stores `patch` on top of the deck's current overrides */
+export function getVideoSettingsPatch(
+  settings: Settings,
+  deckType: string,
+  patch: Partial<VideoGenerationSettings>
+): Partial<Settings> {
+  const map = settings.videoSettingsMap || {};
+  return { videoSettingsMap: { ...map, [deckType]: { ...map[deckType], ...patch } } };
+}
+
+/** Settings patch that drops the deck's overrides, back to its defaults */
+export function getVideoSettingsResetPatch(settings: Settings, deckType: string): Partial<Settings> {
+  const { [deckType]: _removed, ...rest } = settings.videoSettingsMap || {};
+  return { videoSettingsMap: rest };
+}
+
+/** `parameters` of a Veo predictLongRunning request */
+export function buildVeoParameters(videoSettings: VideoGenerationSettings): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {
+    aspectRatio: videoSettings.aspectRatio,
+    durationSeconds: videoSettings.durationSeconds,
+  };
+  if (videoSettings.negativePrompt?.trim()) parameters.negativePrompt = videoSettings.negativePrompt.trim();
+  if (videoSettings.personGeneration) parameters.personGeneration = videoSettings.personGeneration;
+  if (getVeoModel(videoSettings.model).audio) parameters.generateAudio = videoSettings.generateAudio;
+  return parameters;
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for webmMuxer.ts
+ *
+ * Strategy:
+ *   - Frame payloads are placeholder bytes, as only the container is under test
+ *   - Output is read back with a small EBML walker against the Matroska spec
+ *
+ * Scenarios covered:
+ *   vint    — size lengths and markers, the reserved all-ones value skipped
+ *   header  — EBML header declares a WebM document
+ *   segment — duration, track codec and size, clusters per keyframe, block
+ *             timecodes relative to their cluster, bad input rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeVint, muxWebm, type WebmFrame } from './webmMuxer';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+interface EbmlElement {
+  id: number;
+  data: Uint8Array;
+}
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+  let length = 1;
+  while (!(bytes[offset] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+}
+
+function readElements(bytes: Uint8Array): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    elements.push({ id: id.value, data: bytes.subarray(start, start + size.value) });
+    offset = start + size.value;
+  }
+  return elements;
+}
+
+function child(parent: Uint8Array, id: number): Uint8Array {
+  const found = readElements(parent).find((element) => element.id === id);
+  if (!found) throw new Error(`No element 0x${id.toString(16)}`);
+  return found.data;
+}
+
+const readUint = (data: Uint8Array) => data.reduce((value, byte) => value * 256 + byte, 0);
+const readString = (data: Uint8Array) => new TextDecoder().decode(data);
+
+function makeFrames(count: number, keyEvery: number): WebmFrame[] {
+  return Array.from({ length: count }, (_, i) => ({
+    data: new Uint8Array([i, i, i]),
+    timestampMs: i * 40,
+    keyFrame: i % keyEvery === 0,
+  }));
+}
+
+const TRACK = { codec: 'V_VP9', width: 720, height: 1280 } as const;
+
+// ─── Vint ────────────────────────────────────────────────────────────────────
+
+describe('encodeVint', () => {
+  it('uses the shortest length and marks it in the first byte', () => {
+    expect(Array.from(encodeVint(0))).toEqual([0x80]);
+    expect(Array.from(encodeVint(5))).toEqual([0x85]);
+    expect(Array.from(encodeVint(300))).toEqual([0x41, 0x2c]);
+  });
+
+  it('moves to a longer form instead of writing the reserved all-ones value', () => {
+    expect(Array.from(encodeVint(126))).toEqual([0xfe]);
+    expect(Array.from(encodeVint(127))).toEqual([0x40, 0x7f]);
+  });
+});
+
+// ─── Header ──────────────────────────────────────────────────────────────────
+
+describe('muxWebm: header', () => {
+  it('starts with an EBML header for a WebM document', () => {
+    const [header, segment] = readElements(muxWebm(TRACK, makeFrames(2, 2), 80));
+
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(readString(child(header.data, 0x4282))).toBe('webm');
+    expect(segment.id).toBe(0x18538067);
+  });
+});
+
+// ─── Segment ─────────────────────────────────────────────────────────────────
+
+describe('muxWebm: segment', () => {
+  it('records the duration in milliseconds', () => {
+    const [, segment] = readElements(muxWebm(TRACK, makeFrames(3, 3), 120));
+    const info = child(segment.data, 0x1549a966);
+
+    expect(readUint(child(info, 0x2ad7b1))).toBe(1_000_000);
+    expect(new DataView(child(info, 0x4489).slice().buffer).getFloat64(0)).toBe(120);
+  });
+
+  it('describes one video track with its codec and size', () => {
+    const [, segment] = readElements(muxWebm(TRACK, makeFrames(1, 1), 40));
+    const entry = child(child(segment.data, 0x1654ae6b), 0xae);
+    const video = child(entry, 0xe0);
+
+    expect(readUint(child(entry, 0xd7))).toBe(1);
+    expect(readUint(child(entry, 0x83))).toBe(1);
+    expect(readString(child(entry, 0x86))).toBe('V_VP9');
+    expect(readUint(child(video, 0xb0))).toBe(720);
+    expect(readUint(child(video, 0xba))).toBe(1280);
+  });
+
+  it('starts a cluster at each keyframe, with block timecodes relative to it', () => {
+    const [, segment] = readElements(muxWebm(TRACK, makeFrames(5, 3), 200));
+    const clusters = readElements(segment.data).filter((element) => element.id === 0x1f43b675);
+
+    expect(clusters.map((cluster) => readUint(child(cluster.data, 0xe7)))).toEqual([0, 120]);
+    const blocks = readElements(clusters[1].data).filter((element) => element.id === 0xa3);
+    expect(blocks.map((block) => [block.data[0], new DataView(block.data.slice().buffer).getInt16(1), block.data[3]])).toEqual([
+      [0x81, 0, 0x80],
+      [0x81, 40, 0],
+    ]);
+    expect(Array.from(blocks[1].data.subarray(4))).toEqual([4, 4, 4]);
+  });
+
+  it('needs frames, starting with a keyframe', () => {
+    expect(() => muxWebm(TRACK, [], 0)).toThrow('No frames to write');
+    expect(() => muxWebm(TRACK, makeFrames(2, 2).reverse(), 80)).toThrow('must start with a keyframe');
+  });
+});
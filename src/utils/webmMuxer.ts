@@ -0,0 +1,180 @@
+/**
+ * WebM container assembly for one video track. WebCodecs encodes frames but
+ * does not write files, so the encoded chunks are wrapped here: an EBML header,
+ * then a Segment with Info, Tracks and one Cluster per keyframe group.
+ * See https://www.matroska.org/technical/elements.html
+ */
+
+export type WebmVideoCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmTrack {
+  codec: WebmVideoCodec;
+  width: number;
+  height: number;
+}
+
+export interface WebmFrame {
+  data: Uint8Array;
+  timestampMs: number;
+  keyFrame: boolean;
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+} as const;
+
+const TRACK_NUMBER = 1;
+const TRACK_TYPE_VIDEO = 1;
+const TIMECODE_SCALE_NS = 1_000_000;  // timecodes in milliseconds
+const MAX_BLOCK_OFFSET_MS = 32_767;   // SimpleBlock timecodes are signed 16-bit, relative to the cluster
+const APP_NAME = 'tarot-cards';
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Big-endian bytes of a non-negative integer, at least `minLength` long */
+function uintBytes(value: number, minLength = 1): Uint8Array {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length < minLength; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+/** EBML variable-length size: a length marker in the first byte, then the value */
+export function encodeVint(value: number): Uint8Array {
+  let length = 1;
+  while (value >= 2 ** (7 * length) - 1) length++;
+  if (length > 8) throw new Error('Element too large for WebM');
+  const bytes = uintBytes(value, length);
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array): Uint8Array {
+  return concat([uintBytes(id), encodeVint(payload.length), payload]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  return element(id, uintBytes(value));
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return element(id, payload);
+}
+
+function simpleBlock(frame: WebmFrame, clusterStartMs: number): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | TRACK_NUMBER;      // track number as a one-byte vint
+  new DataView(header.buffer).setInt16(1, Math.round(frame.timestampMs - clusterStartMs));
+  header[3] = frame.keyFrame ? 0x80 : 0;
+  return element(ID.SimpleBlock, concat([header, frame.data]));
+}
+
+/** Frames grouped into clusters, each starting at a keyframe */
+function buildClusters(frames: WebmFrame[]): Uint8Array[] {
+  const clusters: Uint8Array[] = [];
+  let startMs = 0;
+  let blocks: Uint8Array[] = [];
+  const flush = () => {
+    if (blocks.length) clusters.push(element(ID.Cluster, concat([uintElement(ID.Timecode, startMs), ...blocks])));
+    blocks = [];
+  };
+  for (const frame of frames) {
+    if (blocks.length === 0 || frame.keyFrame || frame.timestampMs - startMs > MAX_BLOCK_OFFSET_MS) {
+      flush();
+      startMs = Math.round(frame.timestampMs);
+    }
+    blocks.push(simpleBlock(frame, startMs));
+  }
+  flush();
+  return clusters;
+}
+
+/**
+ * One WebM file from encoded frames in presentation order. The first frame
+ * must be a keyframe; `durationMs` is the length of the whole clip.
+ */
+export function muxWebm(track: WebmTrack, frames: WebmFrame[], durationMs: number): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) throw new Error('No frames to write');
+  if (!frames[0].keyFrame) throw new Error('A WebM video must start with a keyframe');
+
+  const header = element(
+    ID.EBML,
+    concat([
+      uintElement(ID.EBMLVersion, 1),
+      uintElement(ID.EBMLReadVersion, 1),
+      uintElement(ID.EBMLMaxIDLength, 4),
+      uintElement(ID.EBMLMaxSizeLength, 8),
+      stringElement(ID.DocType, 'webm'),
+      uintElement(ID.DocTypeVersion, 2),
+      uintElement(ID.DocTypeReadVersion, 2),
+    ])
+  );
+
+  const info = element(
+    ID.Info,
+    concat([
+      uintElement(ID.TimecodeScale, TIMECODE_SCALE_NS),
+      floatElement(ID.Duration, durationMs),
+      stringElement(ID.MuxingApp, APP_NAME),
+      stringElement(ID.WritingApp, APP_NAME),
+    ])
+  );
+
+  const tracks = element(
+    ID.Tracks,
+    element(
+      ID.TrackEntry,
+      concat([
+        uintElement(ID.TrackNumber, TRACK_NUMBER),
+        uintElement(ID.TrackUID, TRACK_NUMBER),
+        uintElement(ID.TrackType, TRACK_TYPE_VIDEO),
+        uintElement(ID.FlagLacing, 0),
+        stringElement(ID.CodecID, track.codec),
+        element(ID.Video, concat([uintElement(ID.PixelWidth, track.width), uintElement(ID.PixelHeight, track.height)])),
+      ])
+    )
+  );
+
+  return concat([header, element(ID.Segment, concat([info, tracks, ...buildClusters(frames)]))]);
+}